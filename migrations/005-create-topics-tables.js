@@ -0,0 +1,117 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Keyword frequencies shared by every service instance
+      await queryInterface.createTable('topics', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        keyword: {
+          type: Sequelize.STRING(128),
+          allowNull: false,
+          unique: true,
+        },
+        score: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      // Keywords that are always sent to n8n, managed from the admin API
+      await queryInterface.createTable('seeds', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        keyword: {
+          type: Sequelize.STRING(128),
+          allowNull: false,
+          unique: true,
+        },
+        weight: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+          defaultValue: 1,
+        },
+        is_paused: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('topics', ['score'], {
+        name: 'idx_topics_score',
+        transaction,
+      });
+
+      // Carry over the seeds that used to be hard-coded in IngestService
+      const now = new Date();
+      await queryInterface.bulkInsert(
+        'seeds',
+        ['chile', 'new york', 'weather', 'zohran'].map((keyword) => ({
+          keyword,
+          weight: 1,
+          is_paused: false,
+          created_at: now,
+          updated_at: now,
+        })),
+        { transaction },
+      );
+
+      await transaction.commit();
+      console.log('Successfully created topics and seeds tables');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating topics and seeds tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.dropTable('seeds', { transaction });
+      await queryInterface.dropTable('topics', { transaction });
+
+      await transaction.commit();
+      console.log('Successfully dropped topics and seeds tables');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error dropping topics and seeds tables:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,23 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Add scored_at column: the instant the stored score was last brought current
+    await queryInterface.addColumn('topics', 'scored_at', {
+      type: Sequelize.DATE,
+      allowNull: false,
+      defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+      comment: 'Reference time for the half-life decay applied to score',
+    });
+
+    // Existing scores were last touched at updated_at
+    await queryInterface.sequelize.query(
+      'UPDATE topics SET scored_at = updated_at',
+    );
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('topics', 'scored_at');
+  },
+};
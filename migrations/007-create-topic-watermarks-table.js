@@ -0,0 +1,51 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Tracks the last post each topic extraction consumer has processed
+      await queryInterface.createTable('topic_watermarks', {
+        name: {
+          type: Sequelize.STRING(64),
+          primaryKey: true,
+          allowNull: false,
+        },
+        last_post_id: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        last_created_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      // Start at the newest post: existing posts were already counted by the old per-minute scan
+      await queryInterface.sequelize.query(
+        `INSERT INTO topic_watermarks (name, last_post_id, last_created_at, updated_at)
+         SELECT 'posts', COALESCE(MAX(id), 0), MAX(createdAt), CURRENT_TIMESTAMP FROM posts`,
+        { transaction },
+      );
+
+      await transaction.commit();
+      console.log('Successfully created topic_watermarks table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating topic_watermarks table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('topic_watermarks');
+  },
+};
@@ -0,0 +1,89 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Periodic copies of topic scores, charted by the history endpoint
+      await queryInterface.createTable('topic_snapshots', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        keyword: {
+          type: Sequelize.STRING(128),
+          allowNull: false,
+        },
+        score: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+        },
+        captured_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      }, { transaction });
+
+      // Posts that contributed to a topic, shown next to trending topics
+      await queryInterface.createTable('topic_samples', {
+        keyword: {
+          type: Sequelize.STRING(128),
+          primaryKey: true,
+          allowNull: false,
+        },
+        post_id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          allowNull: false,
+          references: {
+            model: 'posts',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        weight: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('topic_snapshots', ['keyword', 'captured_at'], {
+        name: 'idx_topic_snapshots_keyword_captured_at',
+        transaction,
+      });
+
+      await queryInterface.addIndex('topic_snapshots', ['captured_at'], {
+        name: 'idx_topic_snapshots_captured_at',
+        transaction,
+      });
+
+      await queryInterface.addIndex('topic_samples', ['created_at'], {
+        name: 'idx_topic_samples_created_at',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created topic history tables');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating topic history tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('topic_samples');
+    await queryInterface.dropTable('topic_snapshots');
+  },
+};
@@ -0,0 +1,113 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Rolling per-minute mention rate of each topic
+      await queryInterface.addColumn('topics', 'rate_mean', {
+        type: Sequelize.FLOAT,
+        allowNull: false,
+        defaultValue: 0,
+      }, { transaction });
+
+      await queryInterface.addColumn('topics', 'rate_variance', {
+        type: Sequelize.FLOAT,
+        allowNull: false,
+        defaultValue: 0,
+      }, { transaction });
+
+      await queryInterface.addColumn('topics', 'rate_observed_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      }, { transaction });
+
+      // Detected spikes, kept for reviewing false positives
+      await queryInterface.createTable('topic_spikes', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        keyword: {
+          type: Sequelize.STRING(128),
+          allowNull: false,
+        },
+        mentions: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        baseline_mean: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+        },
+        baseline_stddev: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+        },
+        z_score: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'confirmed', 'false_positive'),
+          allowNull: false,
+          defaultValue: 'pending',
+        },
+        review_notes: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        reviewed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        detected_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('topic_spikes', ['keyword', 'detected_at'], {
+        name: 'idx_topic_spikes_keyword_detected_at',
+        transaction,
+      });
+
+      await queryInterface.addIndex('topic_spikes', ['status', 'detected_at'], {
+        name: 'idx_topic_spikes_status_detected_at',
+        transaction,
+      });
+
+      // Spike pushes are opt-in
+      await queryInterface.addColumn('devices', 'topicAlerts', {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      }, { transaction });
+
+      await transaction.commit();
+      console.log('Successfully created topic spike tables');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating topic spike tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('devices', 'topicAlerts');
+    await queryInterface.dropTable('topic_spikes');
+    await queryInterface.removeColumn('topics', 'rate_observed_at');
+    await queryInterface.removeColumn('topics', 'rate_variance');
+    await queryInterface.removeColumn('topics', 'rate_mean');
+  },
+};
@@ -0,0 +1,84 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Outcome of every outbound trigger dispatch
+      await queryInterface.createTable('dispatches', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        target: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('success', 'failed', 'skipped'),
+          allowNull: false,
+        },
+        attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status_code: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        duration_ms: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        since_minutes: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        payload: {
+          type: Sequelize.JSON,
+          allowNull: true,
+        },
+        dispatched_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('dispatches', ['target', 'status', 'dispatched_at'], {
+        name: 'idx_dispatches_target_status_dispatched_at',
+        transaction,
+      });
+
+      await queryInterface.addIndex('dispatches', ['dispatched_at'], {
+        name: 'idx_dispatches_dispatched_at',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created dispatches table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating dispatches table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('dispatches');
+  },
+};
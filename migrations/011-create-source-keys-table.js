@@ -0,0 +1,80 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Per-source credentials for the ingest endpoints
+      await queryInterface.createTable('source_keys', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        source: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+        },
+        key_prefix: {
+          type: Sequelize.STRING(16),
+          allowNull: false,
+          unique: true,
+        },
+        key_hash: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+        },
+        signing_secret: {
+          type: Sequelize.STRING(128),
+          allowNull: false,
+        },
+        require_signature: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        revoked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        last_used_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('source_keys', ['source'], {
+        name: 'idx_source_keys_source',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created source_keys table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating source_keys table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('source_keys');
+  },
+};
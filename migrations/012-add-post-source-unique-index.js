@@ -0,0 +1,79 @@
+'use strict';
+
+/**
+ * Canonical post of every (source, source_id) delivered more than once.
+ */
+const DUPLICATE_GROUPS = `
+  SELECT source, source_id, MIN(id) AS keep_id
+  FROM posts
+  GROUP BY source, source_id
+  HAVING COUNT(*) > 1
+`;
+
+/**
+ * Later copies are deleted from MySQL only: their Qdrant points stay behind as
+ * orphans. Run a repairing reconciliation afterwards to delete them
+ * (`POST /admin/vectors/reconcile` with `{ "repair": true }`).
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Move categories and event matches of re-delivered posts to the first copy
+      for (const table of ['taggings', 'matches']) {
+        await queryInterface.sequelize.query(
+          `UPDATE IGNORE ${table} t
+           JOIN posts p ON p.id = t.post_id
+           JOIN (${DUPLICATE_GROUPS}) d ON d.source = p.source AND d.source_id = p.source_id
+           SET t.post_id = d.keep_id
+           WHERE p.id <> d.keep_id`,
+          { transaction },
+        );
+      }
+
+      const [removed] = await queryInterface.sequelize.query(
+        `SELECT p.id
+         FROM posts p
+         JOIN (${DUPLICATE_GROUPS}) d ON d.source = p.source AND d.source_id = p.source_id
+         WHERE p.id <> d.keep_id`,
+        { transaction },
+      );
+
+      // Drop the later copies; remaining references cascade
+      await queryInterface.sequelize.query(
+        `DELETE p FROM posts p
+         JOIN (${DUPLICATE_GROUPS}) d ON d.source = p.source AND d.source_id = p.source_id
+         WHERE p.id <> d.keep_id`,
+        { transaction },
+      );
+
+      await queryInterface.addIndex('posts', ['source', 'source_id'], {
+        name: 'idx_posts_source_source_id',
+        unique: true,
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added unique (source, source_id) index to posts', {
+        removedDuplicates: removed.length,
+      });
+      if (removed.length > 0) {
+        console.warn(
+          'Qdrant points of removed posts are now orphaned; run POST /admin/vectors/reconcile with { "repair": true }',
+          { postIds: removed.map(({ id }) => id) },
+        );
+      }
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding unique (source, source_id) index to posts:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex('posts', 'idx_posts_source_source_id');
+  },
+};
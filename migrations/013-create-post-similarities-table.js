@@ -0,0 +1,61 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Near-duplicate pairs detected at ingest: new post -> earlier similar post
+      await queryInterface.createTable('post_similarities', {
+        post_id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          allowNull: false,
+          references: {
+            model: 'posts',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        similar_post_id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          allowNull: false,
+          references: {
+            model: 'posts',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        score: {
+          type: Sequelize.FLOAT,
+          allowNull: false,
+        },
+        detected_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('post_similarities', ['similar_post_id'], {
+        name: 'idx_post_similarities_similar_post_id',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created post_similarities table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating post_similarities table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('post_similarities');
+  },
+};
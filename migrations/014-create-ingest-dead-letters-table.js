@@ -0,0 +1,93 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Ingest items that failed to be stored, kept for retry and replay
+      await queryInterface.createTable('ingest_dead_letters', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        source: {
+          type: Sequelize.STRING(64),
+          allowNull: true,
+        },
+        source_id: {
+          type: Sequelize.STRING(255),
+          allowNull: true,
+        },
+        payload: {
+          type: Sequelize.JSON,
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'failed', 'replayed'),
+          allowNull: false,
+          defaultValue: 'pending',
+        },
+        attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 1,
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: false,
+        },
+        stack: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        next_attempt_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        last_attempt_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        post_uuid: {
+          type: Sequelize.STRING(255),
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('ingest_dead_letters', ['status', 'next_attempt_at'], {
+        name: 'idx_ingest_dead_letters_status_next_attempt',
+        transaction,
+      });
+
+      await queryInterface.addIndex('ingest_dead_letters', ['source', 'source_id'], {
+        name: 'idx_ingest_dead_letters_source_source_id',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created ingest_dead_letters table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating ingest_dead_letters table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('ingest_dead_letters');
+  },
+};
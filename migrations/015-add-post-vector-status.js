@@ -0,0 +1,63 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Tracks whether the post's Qdrant point was stored; existing posts
+      // have no stored embedding and start as 'none'
+      await queryInterface.addColumn('posts', 'vector_status', {
+        type: Sequelize.ENUM('none', 'pending', 'synced', 'failed'),
+        allowNull: false,
+        defaultValue: 'none',
+      }, { transaction });
+
+      await queryInterface.addColumn('posts', 'vector_attempts', {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      }, { transaction });
+
+      await queryInterface.addColumn('posts', 'vector_error', {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.addColumn('posts', 'vector_synced_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.addIndex('posts', ['vector_status', 'id'], {
+        name: 'idx_posts_vector_status',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added vector status columns to posts');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding vector status columns to posts:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeIndex('posts', 'idx_posts_vector_status', { transaction });
+      await queryInterface.removeColumn('posts', 'vector_synced_at', { transaction });
+      await queryInterface.removeColumn('posts', 'vector_error', { transaction });
+      await queryInterface.removeColumn('posts', 'vector_attempts', { transaction });
+      await queryInterface.removeColumn('posts', 'vector_status', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,97 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Progress and results of Qdrant <-> MySQL reconciliation runs
+      await queryInterface.createTable('vector_reconcile_runs', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        trigger: {
+          type: Sequelize.ENUM('scheduled', 'manual'),
+          allowNull: false,
+        },
+        repair: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        status: {
+          type: Sequelize.ENUM('running', 'completed', 'failed'),
+          allowNull: false,
+          defaultValue: 'running',
+        },
+        posts_scanned: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        points_scanned: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        missing: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        orphaned: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        drifted: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        repaired: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        samples: {
+          type: Sequelize.JSON,
+          allowNull: true,
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('vector_reconcile_runs', ['started_at'], {
+        name: 'idx_vector_reconcile_runs_started_at',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created vector_reconcile_runs table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating vector_reconcile_runs table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('vector_reconcile_runs');
+  },
+};
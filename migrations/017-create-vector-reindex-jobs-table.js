@@ -0,0 +1,97 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Rebuilds of a Qdrant collection behind its alias, kept for rollback
+      await queryInterface.createTable('vector_reindex_jobs', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        collection_type: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+        },
+        source: {
+          type: Sequelize.ENUM('stored', 'collection'),
+          allowNull: false,
+        },
+        target_collection: {
+          type: Sequelize.STRING(128),
+          allowNull: true,
+        },
+        previous_collection: {
+          type: Sequelize.STRING(128),
+          allowNull: true,
+        },
+        vector_size: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        distance: {
+          type: Sequelize.ENUM('Cosine', 'Dot', 'Euclid'),
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('building', 'swapped', 'rolled_back', 'failed'),
+          allowNull: false,
+          defaultValue: 'building',
+        },
+        indexed: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        skipped: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        swapped_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        rolled_back_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('vector_reindex_jobs', ['collection_type', 'started_at'], {
+        name: 'idx_vector_reindex_jobs_type_started_at',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created vector_reindex_jobs table');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating vector_reindex_jobs table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('vector_reindex_jobs');
+  },
+};
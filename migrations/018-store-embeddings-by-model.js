@@ -0,0 +1,89 @@
+'use strict';
+
+/**
+ * Model the embeddings stored before multiple models were supported came from.
+ */
+const legacyModel = () =>
+  process.env.EMBEDDING_DEFAULT_MODEL ||
+  (process.env.EMBEDDING_MODELS || 'minilm-384:384').split(',')[0].split(':')[0].trim();
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Posts keep one embedding per model instead of a single array
+      await queryInterface.addColumn('posts', 'embeddings', {
+        type: Sequelize.JSON,
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.sequelize.query(
+        `UPDATE posts
+         SET embeddings = JSON_OBJECT(:model, embedding)
+         WHERE embedding IS NOT NULL AND JSON_TYPE(embedding) = 'ARRAY'`,
+        { replacements: { model: legacyModel() }, transaction },
+      );
+
+      await queryInterface.removeColumn('posts', 'embedding', { transaction });
+
+      // Reindex jobs record every vector of the collection they build
+      await queryInterface.addColumn('vector_reindex_jobs', 'vectors', {
+        type: Sequelize.JSON,
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.sequelize.query(
+        `UPDATE vector_reindex_jobs
+         SET vectors = JSON_OBJECT('', JSON_OBJECT('size', vector_size, 'distance', distance))`,
+        { transaction },
+      );
+
+      await queryInterface.removeColumn('vector_reindex_jobs', 'vector_size', { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'distance', { transaction });
+
+      await transaction.commit();
+      console.log('Successfully stored embeddings by model');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error storing embeddings by model:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.addColumn('vector_reindex_jobs', 'vector_size', {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 384,
+      }, { transaction });
+      await queryInterface.addColumn('vector_reindex_jobs', 'distance', {
+        type: Sequelize.ENUM('Cosine', 'Dot', 'Euclid'),
+        allowNull: false,
+        defaultValue: 'Cosine',
+      }, { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'vectors', { transaction });
+
+      await queryInterface.addColumn('posts', 'embedding', {
+        type: Sequelize.JSON,
+        allowNull: true,
+      }, { transaction });
+      await queryInterface.sequelize.query(
+        `UPDATE posts
+         SET embedding = JSON_EXTRACT(embeddings, CONCAT('$."', :model, '"'))
+         WHERE embeddings IS NOT NULL`,
+        { replacements: { model: legacyModel() }, transaction },
+      );
+      await queryInterface.removeColumn('posts', 'embeddings', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
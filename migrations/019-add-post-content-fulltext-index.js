@@ -0,0 +1,28 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Keyword side of hybrid post search
+      await queryInterface.addIndex('posts', ['content'], {
+        name: 'ft_posts_content',
+        type: 'FULLTEXT',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added FULLTEXT index on posts.content');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding FULLTEXT index on posts.content:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex('posts', 'ft_posts_content');
+  },
+};
@@ -0,0 +1,27 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Feed order and (posted_at, id) cursors
+      await queryInterface.addIndex('posts', ['posted_at', 'id'], {
+        name: 'idx_posts_posted_at_id',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added (posted_at, id) index to posts');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding (posted_at, id) index to posts:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex('posts', 'idx_posts_posted_at_id');
+  },
+};
@@ -0,0 +1,27 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Feed sorted by relevance and its cursors
+      await queryInterface.addIndex('posts', ['relevance', 'id'], {
+        name: 'idx_posts_relevance_id',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added (relevance, id) index to posts');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding (relevance, id) index to posts:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex('posts', 'idx_posts_relevance_id');
+  },
+};
@@ -0,0 +1,32 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      // A reindex that failed once its alias swap had started keeps both
+      // collections for an operator to recover
+      await queryInterface.changeColumn('vector_reindex_jobs', 'status', {
+        type: Sequelize.ENUM('building', 'swapped', 'rolled_back', 'failed', 'failed_after_swap'),
+        allowNull: false,
+        defaultValue: 'building',
+      });
+
+      console.log('Successfully added failed_after_swap reindex status');
+    } catch (error) {
+      console.error('Error adding failed_after_swap reindex status:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      `UPDATE vector_reindex_jobs SET status = 'failed' WHERE status = 'failed_after_swap'`,
+    );
+    await queryInterface.changeColumn('vector_reindex_jobs', 'status', {
+      type: Sequelize.ENUM('building', 'swapped', 'rolled_back', 'failed'),
+      allowNull: false,
+      defaultValue: 'building',
+    });
+  },
+};
@@ -0,0 +1,71 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Replica building the job and when it last showed it is alive
+      await queryInterface.addColumn('vector_reindex_jobs', 'owner', {
+        type: Sequelize.STRING(128),
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.addColumn('vector_reindex_jobs', 'heartbeat_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      }, { transaction });
+
+      // Collection type while the job builds, null otherwise: the unique
+      // index lets a single job per type claim it across replicas
+      await queryInterface.addColumn('vector_reindex_jobs', 'active_type', {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+      }, { transaction });
+
+      // Versioned copy of a legacy collection, dual-written by every replica
+      await queryInterface.addColumn('vector_reindex_jobs', 'legacy_copy', {
+        type: Sequelize.STRING(128),
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.sequelize.query(
+        `UPDATE vector_reindex_jobs
+         SET status = 'failed', error = 'Interrupted by a restart'
+         WHERE status = 'building'`,
+        { transaction },
+      );
+
+      await queryInterface.addIndex('vector_reindex_jobs', ['active_type'], {
+        name: 'idx_vector_reindex_jobs_active_type',
+        unique: true,
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added claim columns to vector_reindex_jobs');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding claim columns to vector_reindex_jobs:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeIndex('vector_reindex_jobs', 'idx_vector_reindex_jobs_active_type', { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'legacy_copy', { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'active_type', { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'heartbeat_at', { transaction });
+      await queryInterface.removeColumn('vector_reindex_jobs', 'owner', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,121 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Queued ingest deliveries, looked up by their job id
+      await queryInterface.createTable('ingest_deliveries', {
+        id: {
+          type: Sequelize.STRING(32),
+          primaryKey: true,
+          allowNull: false,
+        },
+        total: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('ingest_deliveries', ['completed_at'], {
+        name: 'idx_ingest_deliveries_completed_at',
+        transaction,
+      });
+
+      // Items of a delivery; pending ones keep their payload and are claimed
+      // by one replica at a time until they settle
+      await queryInterface.createTable('ingest_delivery_items', {
+        id: {
+          type: Sequelize.INTEGER,
+          primaryKey: true,
+          autoIncrement: true,
+          allowNull: false,
+        },
+        delivery_id: {
+          type: Sequelize.STRING(32),
+          allowNull: false,
+          references: { model: 'ingest_deliveries', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        position: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        item_id: {
+          type: Sequelize.STRING(255),
+          allowNull: true,
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'processing', 'accepted', 'rejected', 'duplicate'),
+          allowNull: false,
+        },
+        payload: {
+          type: Sequelize.JSON,
+          allowNull: true,
+        },
+        created: {
+          type: Sequelize.BOOLEAN,
+          allowNull: true,
+        },
+        post_id: {
+          type: Sequelize.STRING(255),
+          allowNull: true,
+        },
+        duplicate_of: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+        },
+        errors: {
+          type: Sequelize.JSON,
+          allowNull: true,
+        },
+        owner: {
+          type: Sequelize.STRING(128),
+          allowNull: true,
+        },
+        lease_until: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+      }, { transaction });
+
+      await queryInterface.addIndex('ingest_delivery_items', ['delivery_id', 'position'], {
+        name: 'idx_ingest_delivery_items_delivery_position',
+        unique: true,
+        transaction,
+      });
+
+      await queryInterface.addIndex('ingest_delivery_items', ['status', 'lease_until'], {
+        name: 'idx_ingest_delivery_items_status_lease',
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully created ingest delivery tables');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error creating ingest delivery tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('ingest_delivery_items');
+    await queryInterface.dropTable('ingest_deliveries');
+  },
+};
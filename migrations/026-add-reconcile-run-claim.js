@@ -0,0 +1,64 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      // Replica executing the run and when it last showed it is alive
+      await queryInterface.addColumn('vector_reconcile_runs', 'owner', {
+        type: Sequelize.STRING(128),
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.addColumn('vector_reconcile_runs', 'heartbeat_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      }, { transaction });
+
+      // True while the run executes, null otherwise: the unique index lets a
+      // single run claim it across replicas
+      await queryInterface.addColumn('vector_reconcile_runs', 'active', {
+        type: Sequelize.BOOLEAN,
+        allowNull: true,
+      }, { transaction });
+
+      await queryInterface.sequelize.query(
+        `UPDATE vector_reconcile_runs
+         SET status = 'failed', error = 'Interrupted by a restart', completed_at = NOW()
+         WHERE status = 'running'`,
+        { transaction },
+      );
+
+      await queryInterface.addIndex('vector_reconcile_runs', ['active'], {
+        name: 'idx_vector_reconcile_runs_active',
+        unique: true,
+        transaction,
+      });
+
+      await transaction.commit();
+      console.log('Successfully added claim columns to vector_reconcile_runs');
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Error adding claim columns to vector_reconcile_runs:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    const transaction = await queryInterface.sequelize.transaction();
+
+    try {
+      await queryInterface.removeIndex('vector_reconcile_runs', 'idx_vector_reconcile_runs_active', { transaction });
+      await queryInterface.removeColumn('vector_reconcile_runs', 'active', { transaction });
+      await queryInterface.removeColumn('vector_reconcile_runs', 'heartbeat_at', { transaction });
+      await queryInterface.removeColumn('vector_reconcile_runs', 'owner', { transaction });
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  },
+};
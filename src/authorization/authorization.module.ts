@@ -3,6 +3,9 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { DalModule } from 'src/dal/dal.module';
 import { AuthorizationStrategy } from './authorization.strategy';
+import { SourceKeyGuard } from './source-key.guard';
+import { SourceKeysController } from './source-keys.controller';
+import { SourceKeysService } from './source-keys.service';
 
 /**
  * The AuthorizationModule is responsible for handling authorization-related functionality.
@@ -16,9 +19,14 @@ import { AuthorizationStrategy } from './authorization.strategy';
  *
  * @providers
  * - AuthorizationStrategy: Strategy for handling authorization logic.
+ * - SourceKeysService: Issues and validates per-source API keys.
+ * - SourceKeyGuard: Guard accepting a user JWT or a source key.
+ *
+ * @controllers
+ * - SourceKeysController: Admin endpoints for source keys.
  *
  * @exports
- * - AuthorizationStrategy: Exported to be used in other modules.
+ * - AuthorizationStrategy, SourceKeysService and SourceKeyGuard: Exported to be used in other modules.
  */
 @Module({
   imports: [
@@ -26,7 +34,8 @@ import { AuthorizationStrategy } from './authorization.strategy';
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.register({}),
   ],
-  providers: [AuthorizationStrategy],
-  exports: [AuthorizationStrategy],
+  providers: [AuthorizationStrategy, SourceKeysService, SourceKeyGuard],
+  controllers: [SourceKeysController],
+  exports: [AuthorizationStrategy, SourceKeysService, SourceKeyGuard],
 })
 export class AuthorizationModule {}
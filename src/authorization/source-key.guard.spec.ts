@@ -0,0 +1,90 @@
+import 'reflect-metadata';
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { SourceKeyGuard } from './source-key.guard';
+import { SourceKeysService } from './source-keys.service';
+
+describe('SourceKeyGuard', () => {
+  const env = { ...process.env };
+  const sourceKeysService = { authenticate: jest.fn() };
+
+  const contextOf = (request: Record<string, unknown>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = (enforced?: string) => {
+    process.env = { ...env, SOURCE_KEYS_ENFORCED: enforced };
+    return new SourceKeyGuard(
+      sourceKeysService as unknown as SourceKeysService,
+    );
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('should let users authenticated by the global guard through', async () => {
+    const guard = createGuard();
+
+    await expect(
+      guard.canActivate(contextOf({ headers: {}, user: { sub: 'u1' } })),
+    ).resolves.toBe(true);
+    expect(sourceKeysService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without a key', async () => {
+    await expect(
+      createGuard().canActivate(contextOf({ headers: {} })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should let requests without a key through when keys are not enforced', async () => {
+    await expect(
+      createGuard('false').canActivate(contextOf({ headers: {} })),
+    ).resolves.toBe(true);
+  });
+
+  it('should authenticate the key, signature and raw body and attach the key', async () => {
+    const key = { id: 1, source: 'bluesky' };
+    sourceKeysService.authenticate.mockResolvedValue(key);
+    const rawBody = Buffer.from('{"input":[]}');
+    const request: Record<string, unknown> = {
+      headers: {
+        'x-api-key': ['msk_key', 'msk_other'],
+        'x-signature': 'sha256=abc',
+        'x-signature-timestamp': '1700000000',
+      },
+      rawBody,
+    };
+
+    await expect(createGuard().canActivate(contextOf(request))).resolves.toBe(
+      true,
+    );
+
+    expect(sourceKeysService.authenticate).toHaveBeenCalledWith({
+      apiKey: 'msk_key',
+      signature: 'sha256=abc',
+      timestamp: '1700000000',
+      rawBody,
+    });
+    expect(request.sourceKey).toBe(key);
+  });
+
+  it('should reject invalid keys even when keys are not enforced', async () => {
+    sourceKeysService.authenticate.mockRejectedValue(
+      new UnauthorizedException('Invalid API key'),
+    );
+
+    await expect(
+      createGuard('false').canActivate(
+        contextOf({ headers: { 'x-api-key': 'msk_wrong' } }),
+      ),
+    ).rejects.toThrow('Invalid API key');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { SourceKey } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { SourceKeysService } from './source-keys.service';
+
+/**
+ * Request fields read and set by the guard.
+ */
+interface SourceRequest {
+  headers: Record<string, string | string[] | undefined>;
+  rawBody?: Buffer;
+  user?: unknown;
+  sourceKey?: SourceKey;
+}
+
+/**
+ * SourceKeyGuard protects machine-facing routes (ingest, clustering).
+ *
+ * It runs after the global AuthorizationGuard on routes marked with
+ * `@SourceAuthenticated()`, and accepts the request if either:
+ * 1. A Cognito JWT was presented and validated (the request has a user), or
+ * 2. A valid source key is presented in `x-api-key`, with a valid
+ *    `x-signature` when the key requires one.
+ *
+ * The matching key is attached to the request as `sourceKey`.
+ *
+ * Environment Variables:
+ * - `SOURCE_KEYS_ENFORCED`: Set to `false` to let requests without a key
+ *   through (logged), while sources are being issued keys.
+ */
+@Injectable()
+export class SourceKeyGuard implements CanActivate {
+  @Logger(SourceKeyGuard.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly enforced = process.env.SOURCE_KEYS_ENFORCED !== 'false';
+
+  constructor(private readonly sourceKeysService: SourceKeysService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request: SourceRequest = context.switchToHttp().getRequest();
+
+    /**
+     * Users authenticated by the global guard.
+     */
+    if (request.user) {
+      return true;
+    }
+
+    const apiKey = this.header(request, 'x-api-key');
+    if (!apiKey) {
+      if (!this.enforced) {
+        this.logger.warn('Accepted request without a source key');
+        return true;
+      }
+      throw new UnauthorizedException('Missing API key');
+    }
+
+    request.sourceKey = await this.sourceKeysService.authenticate({
+      apiKey,
+      signature: this.header(request, 'x-signature'),
+      timestamp: this.header(request, 'x-signature-timestamp'),
+      rawBody: request.rawBody,
+    });
+
+    return true;
+  }
+
+  private header(request: SourceRequest, name: string): string | undefined {
+    const value = request.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { BadRequestException } from '@nestjs/common';
+import { SourceKeysController } from './source-keys.controller';
+import { SourceKeysService } from './source-keys.service';
+
+jest.mock('./source-keys.service', () => ({ SourceKeysService: class {} }));
+
+describe('SourceKeysController', () => {
+  const sourceKeysService = { issue: jest.fn(), rotate: jest.fn() };
+  const controller = new SourceKeysController(
+    sourceKeysService as unknown as SourceKeysService,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('issues a key for a valid body', async () => {
+    await controller.issueKey({ source: 'bluesky', require_signature: true });
+
+    expect(sourceKeysService.issue).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'bluesky', require_signature: true }),
+    );
+  });
+
+  it.each([
+    [{}, 'source'],
+    [{ source: '' }, 'source'],
+    [{ source: 42 }, 'source'],
+    [{ source: 'x'.repeat(65) }, 'source'],
+    [{ source: 'bluesky', require_signature: 'yes' }, 'require_signature'],
+  ])('rejects the key %j', async (body, field) => {
+    const result = controller.issueKey(body);
+
+    await expect(result).rejects.toThrow(BadRequestException);
+    await expect(result).rejects.toThrow(new RegExp(`^${field}:`));
+    expect(sourceKeysService.issue).not.toHaveBeenCalled();
+  });
+
+  it('rotates a key with or without a grace period', async () => {
+    await controller.rotateKey(3, undefined);
+    await controller.rotateKey(3, { grace_minutes: 0 });
+
+    expect(sourceKeysService.rotate).toHaveBeenNthCalledWith(
+      1,
+      3,
+      expect.not.objectContaining({ grace_minutes: expect.anything() }),
+    );
+    expect(sourceKeysService.rotate).toHaveBeenNthCalledWith(
+      2,
+      3,
+      expect.objectContaining({ grace_minutes: 0 }),
+    );
+  });
+
+  it.each([
+    [{ grace_minutes: 'soon' }],
+    [{ grace_minutes: 1.5 }],
+    [{ grace_minutes: -5 }],
+    [{ grace_minutes: 1e12 }],
+  ])('rejects the rotation %j', async (body) => {
+    await expect(controller.rotateKey(3, body)).rejects.toThrow(
+      /^grace_minutes:/,
+    );
+    expect(sourceKeysService.rotate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  CreateSourceKeyDto,
+  IssuedSourceKeyDto,
+  RotateSourceKeyDto,
+  SourceKeyResponseDto,
+} from 'src/dto';
+import { invalid, validateDto } from 'src/utils/validation';
+import { SourceKeysService } from './source-keys.service';
+
+/**
+ * Admin endpoints for managing per-source API keys.
+ * All routes require an authenticated user.
+ */
+@Controller('source-keys')
+export class SourceKeysController {
+  constructor(private readonly sourceKeysService: SourceKeysService) {}
+
+  /**
+   * List all keys (without secrets)
+   * GET /source-keys
+   */
+  @Get()
+  async listKeys(): Promise<SourceKeyResponseDto[]> {
+    return await this.sourceKeysService.list();
+  }
+
+  /**
+   * Issue a key for a source; the secrets are only returned here
+   * POST /source-keys
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async issueKey(@Body() body: unknown): Promise<IssuedSourceKeyDto> {
+    const { value: keyData, errors } = await validateDto(
+      CreateSourceKeyDto,
+      body,
+    );
+    if (!keyData) {
+      throw invalid(errors);
+    }
+    return await this.sourceKeysService.issue(keyData);
+  }
+
+  /**
+   * Replace a key, keeping the old one valid for a grace period
+   * POST /source-keys/:id/rotate
+   */
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.CREATED)
+  async rotateKey(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+  ): Promise<IssuedSourceKeyDto> {
+    const { value: rotateData, errors } = await validateDto(
+      RotateSourceKeyDto,
+      body ?? {},
+    );
+    if (!rotateData) {
+      throw invalid(errors);
+    }
+    return await this.sourceKeysService.rotate(id, rotateData);
+  }
+
+  /**
+   * Revoke a key immediately
+   * DELETE /source-keys/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeKey(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    await this.sourceKeysService.revoke(id);
+  }
+}
@@ -0,0 +1,199 @@
+import 'reflect-metadata';
+import { UnauthorizedException } from '@nestjs/common';
+import { signBody } from 'src/utils/signature';
+import { SourceKeysService } from './source-keys.service';
+
+describe('SourceKeysService', () => {
+  const env = { ...process.env };
+
+  const sourceKeyModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  let service: SourceKeysService;
+  let stored: Record<string, any>;
+  let apiKey: string;
+  let signingSecret: string;
+
+  /**
+   * Issues a key and keeps the stored row for `findOne`.
+   */
+  const issue = async (requireSignature = false) => {
+    const issued = await service.issue({
+      source: 'bluesky',
+      require_signature: requireSignature,
+    });
+    apiKey = issued.api_key;
+    signingSecret = issued.signing_secret;
+  };
+
+  /**
+   * Credentials of a request signed at a given time.
+   */
+  const signed = (body: string, timestampSeconds: number) => {
+    const timestamp = String(timestampSeconds);
+    return {
+      apiKey,
+      timestamp,
+      signature: signBody(signingSecret, timestamp, body),
+      rawBody: Buffer.from(body),
+    };
+  };
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env = { ...env, SOURCE_SIGNATURE_TOLERANCE_SECONDS: '300' };
+
+    sourceKeyModel.create.mockImplementation((values) => {
+      stored = {
+        id: 1,
+        ...values,
+        revoked_at: null,
+        expires_at: null,
+        last_used_at: new Date(),
+        created_at: new Date(),
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+      return Promise.resolve(stored);
+    });
+    sourceKeyModel.findOne.mockImplementation(({ where }) =>
+      Promise.resolve(where.key_prefix === stored?.key_prefix ? stored : null),
+    );
+
+    service = new SourceKeysService(sourceKeyModel as any);
+    await issue();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('keys', () => {
+    it('should store only the prefix and a SHA-256 hash of the key', () => {
+      const [, prefix, secret] = apiKey.split('_');
+
+      expect(apiKey).toMatch(/^msk_[A-Za-z0-9]{8}_[A-Za-z0-9]{32}$/);
+      expect(stored.key_prefix).toBe(prefix);
+      expect(stored.key_hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(stored)).not.toContain(secret);
+    });
+
+    it('should authenticate the issued key', async () => {
+      await expect(service.authenticate({ apiKey })).resolves.toBe(stored);
+      expect(sourceKeyModel.findOne).toHaveBeenCalledWith({
+        where: { key_prefix: stored.key_prefix },
+      });
+    });
+
+    it('should reject a key with the right prefix and a wrong secret', async () => {
+      const forged = `${apiKey.slice(0, -1)}${apiKey.endsWith('a') ? 'b' : 'a'}`;
+
+      await expect(service.authenticate({ apiKey: forged })).rejects.toThrow(
+        'Invalid API key',
+      );
+    });
+
+    it('should reject malformed keys without a lookup', async () => {
+      await expect(
+        service.authenticate({ apiKey: 'not-a-key' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(sourceKeyModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      stored.revoked_at = new Date();
+      await expect(service.authenticate({ apiKey })).rejects.toThrow(
+        'API key is no longer active',
+      );
+
+      stored.revoked_at = null;
+      stored.expires_at = new Date(Date.now() - 1000);
+      await expect(service.authenticate({ apiKey })).rejects.toThrow(
+        'API key is no longer active',
+      );
+    });
+  });
+
+  describe('signatures', () => {
+    beforeEach(() => issue(true));
+
+    it('should accept a fresh signature of the raw body', async () => {
+      await expect(
+        service.authenticate(signed('{"input":[]}', nowSeconds())),
+      ).resolves.toBe(stored);
+    });
+
+    it('should require a signature when the key does', async () => {
+      await expect(service.authenticate({ apiKey })).rejects.toThrow(
+        'Request signature is required',
+      );
+    });
+
+    it('should verify a signature sent with a key that does not require one', async () => {
+      await issue(false);
+      const credentials = signed('{"input":[]}', nowSeconds());
+
+      await expect(
+        service.authenticate({ ...credentials, signature: 'sha256=00' }),
+      ).rejects.toThrow('Invalid request signature');
+    });
+
+    it('should reject a signature over a different body', async () => {
+      const credentials = signed('{"input":[]}', nowSeconds());
+
+      await expect(
+        service.authenticate({
+          ...credentials,
+          rawBody: Buffer.from('{"input":[1]}'),
+        }),
+      ).rejects.toThrow('Invalid request signature');
+    });
+
+    it('should reject timestamps outside the tolerance, in either direction', async () => {
+      await expect(
+        service.authenticate(signed('{}', nowSeconds() - 301)),
+      ).rejects.toThrow('Request signature has expired');
+      await expect(
+        service.authenticate(signed('{}', nowSeconds() + 301)),
+      ).rejects.toThrow('Request signature has expired');
+      await expect(
+        service.authenticate({
+          ...signed('{}', nowSeconds()),
+          timestamp: 'yesterday',
+        }),
+      ).rejects.toThrow('Request signature has expired');
+    });
+
+    it('should reject a replayed signature', async () => {
+      const credentials = signed('{"input":[]}', nowSeconds());
+
+      await service.authenticate(credentials);
+
+      await expect(service.authenticate(credentials)).rejects.toThrow(
+        'Request signature was already used',
+      );
+    });
+
+    it('should forget signatures once their timestamp left the window', async () => {
+      const sent = nowSeconds() - 200;
+      await service.authenticate(signed('{"input":[]}', sent));
+      expect(service['seenSignatures'].size).toBe(1);
+
+      jest.spyOn(Date, 'now').mockReturnValue((sent + 301) * 1000);
+      try {
+        await service.authenticate(signed('{"input":[]}', sent + 301));
+      } finally {
+        jest.mocked(Date.now).mockRestore();
+      }
+
+      expect(service['seenSignatures'].size).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import * as crypto from 'crypto';
+import { customAlphabet } from 'nanoid';
+import { Logger } from 'src/decorators/logger.decorator';
+import {
+  CreateSourceKeyDto,
+  IssuedSourceKeyDto,
+  RotateSourceKeyDto,
+  SourceKeyResponseDto,
+} from 'src/dto';
+import { SourceKey } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { signaturesMatch, signBody } from 'src/utils/signature';
+
+/**
+ * Credentials presented by a source on an ingest request.
+ *
+ * @property apiKey - Value of the `x-api-key` header.
+ * @property signature - Value of the `x-signature` header, if any.
+ * @property timestamp - Value of the `x-signature-timestamp` header, if any.
+ * @property rawBody - Raw request body the signature was computed over.
+ */
+export interface SourceCredentials {
+  apiKey: string;
+  signature?: string;
+  timestamp?: string;
+  rawBody?: Buffer;
+}
+
+/**
+ * Random part generators for keys: an 8 character public prefix and a 32 character secret.
+ */
+const alphabet =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const generatePrefix = customAlphabet(alphabet, 8);
+const generateSecret = customAlphabet(alphabet, 32);
+
+/**
+ * Service responsible for per-source API keys.
+ *
+ * The `SourceKeysService` handles:
+ * - Issuing, rotating, revoking and listing source keys.
+ * - Authenticating ingest requests by API key and optional HMAC signature.
+ *
+ * Environment Variables:
+ * - `SOURCE_SIGNATURE_TOLERANCE_SECONDS`: Maximum age of a signature timestamp (default: 300).
+ *
+ * @remarks
+ * Keys look like `msk_<prefix>_<secret>`. Only the prefix and a SHA-256 hash
+ * of the full key are stored; the key is shown once, when issued. The
+ * signing secret is stored as is, since it is needed to verify signatures.
+ *
+ * Signatures are `sha256=<hex>` HMACs of `<timestamp>.<raw body>`. A
+ * signature is rejected when its timestamp is outside the tolerance window
+ * or when it was already seen within that window on this replica.
+ *
+ * The replay cache lives in process memory and is not shared: behind N
+ * replicas a captured request can be replayed up to N - 1 more times within
+ * the tolerance window, and a restart forgets it. Ingest is idempotent on
+ * source id and hash, so such a replay merges into the stored post instead
+ * of creating one; keep the tolerance short where that matters.
+ */
+@Injectable()
+export class SourceKeysService {
+  @Logger(SourceKeysService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly toleranceSeconds = Math.max(
+    Number(process.env.SOURCE_SIGNATURE_TOLERANCE_SECONDS) || 300,
+    1,
+  );
+
+  /**
+   * Grace period of a rotated key when none is given.
+   */
+  private readonly defaultGraceMinutes = 60;
+
+  /**
+   * Signatures accepted within the tolerance window, with their expiry.
+   */
+  private readonly seenSignatures = new Map<string, number>();
+
+  constructor(
+    @InjectModel(SourceKey)
+    private sourceKeyModel: typeof SourceKey,
+  ) {}
+
+  /**
+   * Issues a new key for a source.
+   *
+   * @throws BadRequestException if the source is empty.
+   */
+  async issue(keyData: CreateSourceKeyDto): Promise<IssuedSourceKeyDto> {
+    const source = (keyData?.source || '').trim();
+    if (!source) {
+      throw new BadRequestException('Source is required');
+    }
+
+    const issued = await this.createKey(
+      source,
+      keyData.require_signature ?? false,
+    );
+
+    this.logger.log('Source key issued', {
+      source,
+      keyPrefix: issued.key_prefix,
+    });
+
+    return issued;
+  }
+
+  /**
+   * Lists all keys, newest first.
+   */
+  async list(): Promise<SourceKeyResponseDto[]> {
+    const keys = await this.sourceKeyModel.findAll({
+      order: [['created_at', 'DESC']],
+    });
+
+    return keys.map((key) => this.toResponse(key));
+  }
+
+  /**
+   * Issues a replacement key for the same source. The old key keeps working
+   * for the grace period so the source can be redeployed.
+   *
+   * @throws NotFoundException if the key does not exist.
+   * @throws BadRequestException if the key was revoked.
+   */
+  async rotate(
+    id: number,
+    rotateData: RotateSourceKeyDto,
+  ): Promise<IssuedSourceKeyDto> {
+    const key = await this.findKey(id);
+    if (key.revoked_at) {
+      throw new BadRequestException('Revoked keys cannot be rotated');
+    }
+
+    const graceMinutes = rotateData?.grace_minutes ?? this.defaultGraceMinutes;
+    const expiresAt = new Date(Date.now() + graceMinutes * 60 * 1000);
+
+    const issued = await this.createKey(key.source, key.require_signature);
+    if (!key.expires_at || key.expires_at > expiresAt) {
+      await key.update({ expires_at: expiresAt });
+    }
+
+    this.logger.log('Source key rotated', {
+      source: key.source,
+      oldKeyPrefix: key.key_prefix,
+      newKeyPrefix: issued.key_prefix,
+      graceMinutes,
+    });
+
+    return issued;
+  }
+
+  /**
+   * Revokes a key immediately.
+   *
+   * @throws NotFoundException if the key does not exist.
+   */
+  async revoke(id: number): Promise<void> {
+    const key = await this.findKey(id);
+    if (!key.revoked_at) {
+      await key.update({ revoked_at: new Date() });
+    }
+
+    this.logger.log('Source key revoked', {
+      source: key.source,
+      keyPrefix: key.key_prefix,
+    });
+  }
+
+  /**
+   * Validates the credentials of an ingest request.
+   *
+   * @returns The matching key.
+   * @throws UnauthorizedException if the key or signature is not valid.
+   */
+  async authenticate(credentials: SourceCredentials): Promise<SourceKey> {
+    const match = /^msk_([A-Za-z0-9]{8})_[A-Za-z0-9]{32}$/.exec(
+      credentials.apiKey,
+    );
+    const key = match
+      ? await this.sourceKeyModel.findOne({ where: { key_prefix: match[1] } })
+      : null;
+
+    if (
+      !key ||
+      !signaturesMatch(this.hashKey(credentials.apiKey), key.key_hash)
+    ) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const now = Date.now();
+    if (key.revoked_at || (key.expires_at && key.expires_at.getTime() <= now)) {
+      this.logger.warn('Rejected inactive source key', {
+        source: key.source,
+        keyPrefix: key.key_prefix,
+      });
+      throw new UnauthorizedException('API key is no longer active');
+    }
+
+    if (key.require_signature || credentials.signature) {
+      this.verifySignature(key, credentials, now);
+    }
+
+    // Only touch the row once a minute per key
+    if (!key.last_used_at || now - key.last_used_at.getTime() > 60 * 1000) {
+      void key.update({ last_used_at: new Date(now) }).catch((error) => {
+        this.logger.error('Failed to record source key usage:', error);
+      });
+    }
+
+    return key;
+  }
+
+  /**
+   * Checks the HMAC signature, its timestamp and that it was not replayed.
+   */
+  private verifySignature(
+    key: SourceKey,
+    { signature, timestamp, rawBody }: SourceCredentials,
+    now: number,
+  ): void {
+    if (!signature || !timestamp || !rawBody) {
+      throw new UnauthorizedException('Request signature is required');
+    }
+
+    const timestampMs = Number(timestamp) * 1000;
+    if (
+      !Number.isFinite(timestampMs) ||
+      Math.abs(now - timestampMs) > this.toleranceSeconds * 1000
+    ) {
+      throw new UnauthorizedException('Request signature has expired');
+    }
+
+    const expected = signBody(key.signing_secret, timestamp, rawBody);
+    if (!signaturesMatch(signature, expected)) {
+      throw new UnauthorizedException('Invalid request signature');
+    }
+
+    this.pruneSeenSignatures(now);
+    if (this.seenSignatures.has(signature)) {
+      throw new UnauthorizedException('Request signature was already used');
+    }
+    this.seenSignatures.set(
+      signature,
+      timestampMs + this.toleranceSeconds * 1000,
+    );
+  }
+
+  /**
+   * Forgets signatures whose timestamp left the tolerance window.
+   */
+  private pruneSeenSignatures(now: number): void {
+    for (const [signature, expiresAt] of this.seenSignatures) {
+      if (expiresAt < now) {
+        this.seenSignatures.delete(signature);
+      }
+    }
+  }
+
+  /**
+   * Creates and stores a key, returning its secrets.
+   */
+  private async createKey(
+    source: string,
+    requireSignature: boolean,
+  ): Promise<IssuedSourceKeyDto> {
+    const prefix = generatePrefix();
+    const apiKey = `msk_${prefix}_${generateSecret()}`;
+    const signingSecret = crypto.randomBytes(32).toString('hex');
+
+    const key = await this.sourceKeyModel.create({
+      source,
+      key_prefix: prefix,
+      key_hash: this.hashKey(apiKey),
+      signing_secret: signingSecret,
+      require_signature: requireSignature,
+    } as any);
+
+    return {
+      ...this.toResponse(key),
+      api_key: apiKey,
+      signing_secret: signingSecret,
+    };
+  }
+
+  /**
+   * Finds a key by id or throws.
+   */
+  private async findKey(id: number): Promise<SourceKey> {
+    const key = await this.sourceKeyModel.findByPk(id);
+    if (!key) {
+      throw new NotFoundException('Source key not found');
+    }
+    return key;
+  }
+
+  private hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  /**
+   * Maps a SourceKey model to its API representation.
+   */
+  private toResponse(key: SourceKey): SourceKeyResponseDto {
+    const now = Date.now();
+    let status: SourceKeyResponseDto['status'] = 'active';
+    if (key.revoked_at) {
+      status = 'revoked';
+    } else if (key.expires_at) {
+      status = key.expires_at.getTime() <= now ? 'expired' : 'expiring';
+    }
+
+    return {
+      id: key.id,
+      source: key.source,
+      key_prefix: key.key_prefix,
+      require_signature: key.require_signature,
+      status,
+      expires_at: key.expires_at ? key.expires_at.toISOString() : null,
+      revoked_at: key.revoked_at ? key.revoked_at.toISOString() : null,
+      last_used_at: key.last_used_at ? key.last_used_at.toISOString() : null,
+      created_at: key.created_at.toISOString(),
+    };
+  }
+}
@@ -11,6 +11,7 @@ import {
   PushService,
   PostNotificationData,
   EventNotificationData,
+  TopicSpikeNotificationData,
 } from './push/push.service';
 import { SSEService } from './sse/sse.service';
 
@@ -253,6 +254,16 @@ export class NotificationsService
     await this.pushService.sendEventPush(event, averageRelevance);
   }
 
+  /**
+   * Send push notifications for a keyword spike to opted-in devices ONLY.
+   * Delegates to PushService.
+   */
+  async sendTopicSpikePushOnly(
+    spike: TopicSpikeNotificationData,
+  ): Promise<void> {
+    await this.pushService.sendTopicSpikePush(spike);
+  }
+
   /**
    * Send a test push notification.
    * Delegates to PushService.
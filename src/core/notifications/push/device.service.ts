@@ -96,6 +96,8 @@ export class DeviceService {
           language: deviceData.deviceInfo.language,
           categories: deviceData.preferences.categories,
           quietHours: deviceData.preferences.quietHours,
+          topicAlerts:
+            deviceData.preferences.topicAlerts ?? existingDevice.topicAlerts,
           lastUpdated: new Date(deviceData.registeredAt),
         });
         device = existingDevice;
@@ -129,6 +131,7 @@ export class DeviceService {
           language: deviceData.deviceInfo.language,
           categories: deviceData.preferences.categories,
           quietHours: deviceData.preferences.quietHours,
+          topicAlerts: deviceData.preferences.topicAlerts ?? false,
           registeredAt: new Date(deviceData.registeredAt),
           lastUpdated: new Date(deviceData.registeredAt),
         } as any);
@@ -180,6 +183,7 @@ export class DeviceService {
       relevanceThreshold:
         updateData.relevanceThreshold ?? device.relevanceThreshold,
       isActive: updateData.isActive ?? device.isActive,
+      topicAlerts: updateData.topicAlerts ?? device.topicAlerts,
       lastUpdated: new Date(updateData.lastUpdated),
     });
 
@@ -350,6 +354,18 @@ export class DeviceService {
     });
   }
 
+  /**
+   * Get active devices that opted in to topic spike alerts
+   */
+  async getTopicAlertTargets(): Promise<Device[]> {
+    return this.deviceModel.findAll({
+      where: {
+        isActive: true,
+        topicAlerts: true,
+      },
+    });
+  }
+
   /**
    * Get devices that haven't read a specific post
    */
@@ -25,16 +25,26 @@ export interface EventNotificationData {
   url?: string;
 }
 
+export interface TopicSpikeNotificationData {
+  id: number;
+  keyword: string;
+  mentions: number;
+  zScore: number;
+  detectedAt: string;
+}
+
 /**
  * Service responsible for handling push notifications (APN) to mobile devices.
  *
  * PUSH NOTIFICATION RULES:
  * - Posts: APN only for relevance 8.0+ (fixed threshold for quality)
  * - Events: APN based on user-specific thresholds (device.relevanceThreshold)
+ * - Topic spikes: APN to devices that opted in (device.topicAlerts)
  *
  * DEVICE FILTERING:
  * - Posts: Filter by categories and unread status
  * - Events: Filter by user-specific relevance thresholds
+ * - Topic spikes: Filter by opt-in
  *
  * BATCH PROCESSING:
  * - Processes notifications in batches to avoid rate limiting
@@ -129,6 +139,39 @@ export class PushService {
     );
   }
 
+  /**
+   * Send push notifications for a keyword spike to devices that opted in.
+   * Spikes are already gated by the detector's sensitivity, so no relevance
+   * threshold applies.
+   *
+   * @param spike - The topic spike notification data
+   */
+  async sendTopicSpikePush(spike: TopicSpikeNotificationData): Promise<void> {
+    await this.sendPushNotification(
+      'topic',
+      spike.zScore,
+      0,
+      () => ({
+        postId: `topic-spike-${spike.id}`,
+        title: 'Trending Now',
+        body: this.truncateContent(
+          `"${spike.keyword}" is spiking (${spike.mentions} posts in the last minute)`,
+        ),
+        relevance: spike.zScore,
+        categories: [],
+        publishedAt: spike.detectedAt,
+      }),
+      {
+        id: String(spike.id),
+        logContext: {
+          spikeId: spike.id,
+          keyword: spike.keyword,
+          zScore: spike.zScore,
+        },
+      },
+    );
+  }
+
   /**
    * Sends a test push notification to a specified device token.
    *
@@ -154,14 +197,14 @@ export class PushService {
    * Generic method to send push notifications for any notification type.
    * Handles threshold checking, device filtering, batching, and logging.
    *
-   * @param type - The notification type ('post' or 'event')
+   * @param type - The notification type ('post', 'event' or 'topic')
    * @param relevance - The relevance score to check against threshold
    * @param relevanceThreshold - Minimum relevance required
    * @param payloadBuilder - Function that builds the notification payload
    * @param context - Context for logging and device filtering
    */
   private async sendPushNotification(
-    type: 'post' | 'event',
+    type: 'post' | 'event' | 'topic',
     relevance: number,
     relevanceThreshold: number,
     payloadBuilder: () => any,
@@ -223,12 +266,12 @@ export class PushService {
   /**
    * Retrieves eligible devices for notifications based on type and filtering options.
    *
-   * @param type - The notification type ('post' or 'event')
+   * @param type - The notification type ('post', 'event' or 'topic')
    * @param relevance - The relevance score
    * @param options - Filtering options
    */
   private async getEligibleDevices(
-    type: 'post' | 'event',
+    type: 'post' | 'event' | 'topic',
     relevance: number,
     options: {
       categories?: string[];
@@ -256,6 +299,11 @@ export class PushService {
         options.postId,
         targetDevices,
       );
+    } else if (type === 'topic') {
+      /**
+       * For topic spikes, only devices that opted in
+       */
+      return await this.deviceService.getTopicAlertTargets();
     } else {
       /**
        * For events, filter devices based on user-specific relevance thresholds
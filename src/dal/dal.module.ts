@@ -11,7 +11,21 @@ import {
   Match,
   Post,
   ReadPost,
+  Seed,
   Tagging,
+  Topic,
+  TopicWatermark,
+  TopicSnapshot,
+  TopicSample,
+  TopicSpike,
+  Dispatch,
+  SourceKey,
+  PostSimilarity,
+  IngestDeadLetter,
+  VectorReconcileRun,
+  VectorReindexJob,
+  IngestDelivery,
+  IngestDeliveryItem,
 } from '../models';
 import { BackupService } from './backup/backup.service';
 import { QdrantService } from './qdrant/qdrant.service';
@@ -29,6 +43,20 @@ import { QdrantService } from './qdrant/qdrant.service';
       Device,
       ReadPost,
       Analytics,
+      Topic,
+      Seed,
+      TopicWatermark,
+      TopicSnapshot,
+      TopicSample,
+      TopicSpike,
+      Dispatch,
+      SourceKey,
+      PostSimilarity,
+      IngestDeadLetter,
+      VectorReconcileRun,
+      VectorReindexJob,
+      IngestDelivery,
+      IngestDeliveryItem,
     ]),
   ],
   exports: [SequelizeModule, QdrantClient, QdrantService],
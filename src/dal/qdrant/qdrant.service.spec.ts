@@ -0,0 +1,149 @@
+import 'reflect-metadata';
+import { QdrantService } from './qdrant.service';
+
+describe('QdrantService', () => {
+  const qdrantClient = {
+    getAliases: jest.fn(),
+    getCollections: jest.fn(),
+    getCollection: jest.fn(),
+    deleteCollection: jest.fn(),
+    updateCollectionAliases: jest.fn(),
+  };
+  const vectors = { 'minilm-384': { size: 384, distance: 'Cosine' as const } };
+
+  let service: QdrantService;
+
+  /**
+   * Qdrant holding these collections and aliases.
+   */
+  const given = (collections: string[], aliases: Record<string, string>) => {
+    qdrantClient.getCollections.mockResolvedValue({
+      collections: collections.map((name) => ({ name })),
+    });
+    qdrantClient.getAliases.mockResolvedValue({
+      aliases: Object.entries(aliases).map(([alias_name, collection_name]) => ({
+        alias_name,
+        collection_name,
+      })),
+    });
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new QdrantService(qdrantClient as any);
+  });
+
+  describe('swapAlias', () => {
+    it('should move an existing alias in a single operation', async () => {
+      given(['posts_vectors_v1', 'posts_vectors_v2'], {
+        posts_vectors: 'posts_vectors_v1',
+      });
+
+      await service.swapAlias('posts_vectors', 'posts_vectors_v2');
+
+      expect(qdrantClient.deleteCollection).not.toHaveBeenCalled();
+      expect(qdrantClient.updateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          { delete_alias: { alias_name: 'posts_vectors' } },
+          {
+            create_alias: {
+              collection_name: 'posts_vectors_v2',
+              alias_name: 'posts_vectors',
+            },
+          },
+        ],
+      });
+    });
+
+    it('should refuse to drop a legacy collection without a copy', async () => {
+      given(['posts_vectors', 'posts_vectors_v2'], {});
+
+      await expect(
+        service.swapAlias('posts_vectors', 'posts_vectors_v2'),
+      ).rejects.toThrow(/must be copied/);
+      await expect(
+        service.swapAlias(
+          'posts_vectors',
+          'posts_vectors_v2',
+          'posts_vectors_v1',
+        ),
+      ).rejects.toThrow(/must be copied/);
+
+      expect(qdrantClient.deleteCollection).not.toHaveBeenCalled();
+      expect(qdrantClient.updateCollectionAliases).not.toHaveBeenCalled();
+    });
+
+    it('should replace a copied legacy collection with the alias', async () => {
+      given(['posts_vectors', 'posts_vectors_v1', 'posts_vectors_v2'], {});
+
+      await service.swapAlias(
+        'posts_vectors',
+        'posts_vectors_v2',
+        'posts_vectors_v1',
+      );
+
+      expect(qdrantClient.deleteCollection).toHaveBeenCalledWith(
+        'posts_vectors',
+      );
+      expect(qdrantClient.updateCollectionAliases).toHaveBeenCalledWith({
+        actions: [
+          {
+            create_alias: {
+              collection_name: 'posts_vectors_v2',
+              alias_name: 'posts_vectors',
+            },
+          },
+        ],
+      });
+      expect(
+        qdrantClient.deleteCollection.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        qdrantClient.updateCollectionAliases.mock.invocationCallOrder[0],
+      );
+    });
+  });
+
+  describe('dual writes', () => {
+    it('should write to every collection being rebuilt', async () => {
+      given(['posts_vectors_v1'], { posts_vectors: 'posts_vectors_v1' });
+      qdrantClient.getCollection.mockResolvedValue({
+        config: { params: { vectors: { size: 384, distance: 'Cosine' } } },
+      });
+
+      service.startDualWrite('posts_vectors', 'posts_vectors_v2', vectors);
+      service.startDualWrite('posts_vectors', 'posts_vectors_v3', vectors);
+      service.startDualWrite('posts_vectors', 'posts_vectors_v3', vectors);
+
+      expect(service.getWriteCollections()).toEqual([
+        'posts_vectors',
+        'posts_vectors_v2',
+        'posts_vectors_v3',
+      ]);
+      expect(
+        (await service.getWriteTargets()).map(
+          ({ collectionName }) => collectionName,
+        ),
+      ).toEqual(['posts_vectors', 'posts_vectors_v2', 'posts_vectors_v3']);
+
+      service.stopDualWrite('posts_vectors');
+      expect(service.getWriteCollections()).toEqual(['posts_vectors']);
+    });
+
+    it('should look for a missing collection again on the next write', async () => {
+      given([], {});
+      await expect(service.getVectorSchema()).resolves.toBeNull();
+
+      given(['posts_vectors_v1'], { posts_vectors: 'posts_vectors_v1' });
+      qdrantClient.getCollection.mockResolvedValue({
+        config: { params: { vectors } },
+      });
+
+      await expect(service.getVectorSchema()).resolves.toEqual(vectors);
+    });
+  });
+});
@@ -2,6 +2,17 @@ import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { Logger } from 'src/decorators/logger.decorator';
 import { JSONLogger } from 'src/utils/logger';
+import {
+  DEFAULT_EMBEDDING_MODELS,
+  EmbeddingModelConfig,
+  parseEmbeddingModels,
+  readVectorSchema,
+  sameSchema,
+  schemaOfModels,
+  toVectorsConfig,
+  UNNAMED_VECTOR,
+  VectorSchema,
+} from './vector-schema';
 
 /**
  * Available collection types in the Qdrant database.
@@ -13,8 +24,7 @@ export type QdrantCollectionType = 'posts_vectors' | 'earthquakes';
  */
 export interface CollectionConfig {
   name: string;
-  vectorSize: number;
-  distance: 'Cosine' | 'Dot' | 'Euclid';
+  vectors: VectorSchema;
 }
 
 /**
@@ -24,6 +34,23 @@ export interface CollectionConfig {
  * - Initializing multiple Qdrant collections on module startup
  * - Providing centralized Qdrant configuration
  * - Managing collection lifecycle for different data types
+ * - Serving each collection type through an alias over versioned physical
+ *   collections (`posts_vectors` -> `posts_vectors_v1`), so a rebuilt
+ *   collection can replace the live one atomically
+ * - Describing the embedding models posts carry, one named vector each
+ * - Indexing the payload fields filtered search relies on
+ *
+ * Environment Variables:
+ * - `EMBEDDING_MODELS`: Comma-separated `name:size[:distance]` models (default: `minilm-384:384:Cosine`).
+ * - `EMBEDDING_DEFAULT_MODEL`: Model assumed when ingest or search names none (default: the first model).
+ *
+ * @remarks
+ * Deployments that predate aliases have a physical collection under the
+ * type name. It keeps serving reads and writes until the first reindex
+ * replaces it with an alias, once its points are kept in a versioned copy.
+ * Qdrant cannot create an alias over an existing collection, so that first
+ * swap drops the legacy collection and creates the alias in two requests:
+ * searches in between fail and writes stay pending until they are retried.
  */
 @Injectable()
 export class QdrantService implements OnModuleInit {
@@ -42,17 +69,66 @@ export class QdrantService implements OnModuleInit {
   ];
 
   /**
-   * Default collection configuration.
+   * Payload fields indexed for filtered search, per collection type.
    */
-  private readonly defaultConfig: Omit<CollectionConfig, 'name'> = {
-    vectorSize: 384,
-    distance: 'Cosine',
+  private readonly payloadIndexes: Partial<
+    Record<
+      QdrantCollectionType,
+      Record<string, 'keyword' | 'integer' | 'float'>
+    >
+  > = {
+    posts_vectors: {
+      uuid: 'keyword',
+      source: 'keyword',
+      categories: 'keyword',
+      lang: 'keyword',
+      authorHandle: 'keyword',
+      relevance: 'float',
+      createdAtTs: 'integer',
+    },
   };
 
+  /**
+   * Configured embedding models, and the one assumed when none is named.
+   */
+  private readonly embeddingModels: EmbeddingModelConfig[] =
+    parseEmbeddingModels(
+      process.env.EMBEDDING_MODELS || DEFAULT_EMBEDDING_MODELS,
+    );
+  private readonly defaultModel: EmbeddingModelConfig;
+
+  /**
+   * Vector schemas read back from the live collections, and for how long
+   * they are trusted.
+   */
+  private readonly schemaCache = new Map<
+    QdrantCollectionType,
+    { schema: VectorSchema | null; expiresAt: number }
+  >();
+  private readonly schemaCacheTtlMs = 60 * 1000;
+
+  /**
+   * Collections being rebuilt, per type, that writes are duplicated to.
+   */
+  private readonly dualWriteTargets = new Map<
+    QdrantCollectionType,
+    Array<{ collectionName: string; vectors: VectorSchema }>
+  >();
+
   constructor(
     @Inject(QdrantClient)
     private readonly qdrantClient: QdrantClient,
-  ) {}
+  ) {
+    const defaultName =
+      process.env.EMBEDDING_DEFAULT_MODEL || this.embeddingModels[0].name;
+    const defaultModel = this.getEmbeddingModel(defaultName);
+    if (!defaultModel) {
+      throw new Error(
+        `EMBEDDING_DEFAULT_MODEL ${defaultName} is not one of EMBEDDING_MODELS`,
+      );
+    }
+    this.defaultModel = defaultModel;
+  }
 
   /**
    * Initialize Qdrant collections when the module starts.
@@ -62,7 +138,7 @@ export class QdrantService implements OnModuleInit {
   }
 
   /**
-   * Gets the collection name for posts vectors.
+   * Gets the collection name for posts vectors: the alias reads and writes go through.
    */
   getCollectionName(type: QdrantCollectionType = 'posts_vectors'): string {
     return type;
@@ -79,12 +155,292 @@ export class QdrantService implements OnModuleInit {
    * Gets the collection configuration for a specific type.
    */
   getCollectionConfig(type: QdrantCollectionType): CollectionConfig {
+    // Posts carry one named vector per model; other types a single vector
+    const { size, distance } = this.defaultModel;
     return {
       name: type,
-      ...this.defaultConfig,
+      vectors:
+        type === 'posts_vectors'
+          ? schemaOfModels(this.embeddingModels)
+          : { [UNNAMED_VECTOR]: { size, distance } },
     };
   }
 
+  /**
+   * Configured embedding models.
+   */
+  getEmbeddingModels(): EmbeddingModelConfig[] {
+    return this.embeddingModels;
+  }
+
+  /**
+   * Model assumed when ingest or search names none.
+   */
+  getDefaultModel(): EmbeddingModelConfig {
+    return this.defaultModel;
+  }
+
+  /**
+   * A configured embedding model, or undefined if it is not configured.
+   */
+  getEmbeddingModel(name: string): EmbeddingModelConfig | undefined {
+    return this.embeddingModels.find((model) => model.name === name);
+  }
+
+  /**
+   * Vector schema of the live collection of a type, as Qdrant reports it.
+   *
+   * @returns The schema, or null if the collection does not exist.
+   */
+  async getVectorSchema(
+    type: QdrantCollectionType = 'posts_vectors',
+  ): Promise<VectorSchema | null> {
+    const cached = this.schemaCache.get(type);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.schema;
+    }
+
+    const collectionName = await this.resolveCollection(type);
+    const schema = collectionName
+      ? await this.readSchema(collectionName)
+      : null;
+    // A missing collection is not cached, so the alias is picked up as soon
+    // as the first swap away from a legacy collection creates it
+    if (schema) {
+      this.schemaCache.set(type, {
+        schema,
+        expiresAt: Date.now() + this.schemaCacheTtlMs,
+      });
+    }
+
+    return schema;
+  }
+
+  /**
+   * Vector schema of a physical collection, as Qdrant reports it.
+   */
+  async readSchema(collectionName: string): Promise<VectorSchema | null> {
+    const info = await this.qdrantClient.getCollection(collectionName);
+    return readVectorSchema(info.config?.params?.vectors);
+  }
+
+  /**
+   * Collections a point of this type must be written to: the alias, plus
+   * the collections being rebuilt while a reindex runs.
+   */
+  getWriteCollections(type: QdrantCollectionType = 'posts_vectors'): string[] {
+    const targets = this.dualWriteTargets.get(type) ?? [];
+    return [
+      this.getCollectionName(type),
+      ...targets.map(({ collectionName }) => collectionName),
+    ];
+  }
+
+  /**
+   * Collections a point of this type must be written to, with the vector
+   * schema of each. Collections that do not exist are left out.
+   */
+  async getWriteTargets(
+    type: QdrantCollectionType = 'posts_vectors',
+  ): Promise<Array<{ collectionName: string; vectors: VectorSchema }>> {
+    const vectors = await this.getVectorSchema(type);
+    const targets = this.dualWriteTargets.get(type) ?? [];
+
+    return [
+      ...(vectors
+        ? [{ collectionName: this.getCollectionName(type), vectors }]
+        : []),
+      ...targets,
+    ];
+  }
+
+  /**
+   * Starts duplicating writes of a type to a collection being rebuilt, in
+   * addition to any it already duplicates them to.
+   */
+  startDualWrite(
+    type: QdrantCollectionType,
+    collectionName: string,
+    vectors: VectorSchema,
+  ): void {
+    const targets = (this.dualWriteTargets.get(type) ?? []).filter(
+      (target) => target.collectionName !== collectionName,
+    );
+    this.dualWriteTargets.set(type, [...targets, { collectionName, vectors }]);
+    this.logger.log('Dual-writing Qdrant collection', {
+      type,
+      collectionName,
+    });
+  }
+
+  /**
+   * Stops duplicating writes of a type to every collection.
+   */
+  stopDualWrite(type: QdrantCollectionType): void {
+    if (this.dualWriteTargets.delete(type)) {
+      this.logger.log('Stopped dual-writing Qdrant collection', { type });
+    }
+  }
+
+  /**
+   * Physical collection currently behind the alias of a type, or null if
+   * neither the alias nor a legacy collection exists.
+   */
+  async resolveCollection(type: QdrantCollectionType): Promise<string | null> {
+    const alias = this.getCollectionName(type);
+    const { aliases } = await this.qdrantClient.getAliases();
+    const current = aliases.find((entry) => entry.alias_name === alias);
+    if (current) {
+      return current.collection_name;
+    }
+
+    const { collections } = await this.qdrantClient.getCollections();
+    return collections.some((col) => col.name === alias) ? alias : null;
+  }
+
+  /**
+   * Physical collections of a type, oldest version first.
+   */
+  async listVersions(type: QdrantCollectionType): Promise<string[]> {
+    const { collections } = await this.qdrantClient.getCollections();
+    return collections
+      .map((col) => col.name)
+      .filter((name) => this.versionOf(type, name) !== null)
+      .sort((a, b) => this.versionOf(type, a)! - this.versionOf(type, b)!);
+  }
+
+  /**
+   * Creates the next versioned physical collection of a type.
+   *
+   * @returns Name of the new collection (e.g. `posts_vectors_v3`).
+   */
+  async createVersion(
+    type: QdrantCollectionType,
+    vectors: VectorSchema,
+  ): Promise<string> {
+    const versions = await this.listVersions(type);
+    const latest = versions.length
+      ? this.versionOf(type, versions[versions.length - 1])!
+      : 0;
+    const name = `${this.getCollectionName(type)}_v${latest + 1}`;
+
+    await this.qdrantClient.createCollection(name, {
+      vectors: toVectorsConfig(vectors),
+    });
+    this.logger.log('Created versioned Qdrant collection', {
+      type,
+      collectionName: name,
+      vectors,
+    });
+    await this.ensurePayloadIndexes(type, name);
+
+    return name;
+  }
+
+  /**
+   * Creates the payload indexes of a type that a collection is missing.
+   */
+  async ensurePayloadIndexes(
+    type: QdrantCollectionType,
+    collectionName: string,
+  ): Promise<void> {
+    const indexes = this.payloadIndexes[type];
+    if (!indexes) {
+      return;
+    }
+
+    const info = await this.qdrantClient.getCollection(collectionName);
+    const existing = info.payload_schema ?? {};
+    const missing = Object.entries(indexes).filter(
+      ([field]) => !(field in existing),
+    );
+
+    for (const [field, schema] of missing) {
+      await this.qdrantClient.createPayloadIndex(collectionName, {
+        field_name: field,
+        field_schema: schema,
+        wait: true,
+      });
+    }
+    if (missing.length > 0) {
+      this.logger.log('Created Qdrant payload indexes', {
+        type,
+        collectionName,
+        fields: missing.map(([field]) => field),
+      });
+    }
+  }
+
+  /**
+   * Points the alias of a type at a physical collection.
+   *
+   * @param legacyCopy - Versioned copy of the legacy collection under the
+   *   alias name, if there is one; required to drop it.
+   * @param onStarted - Called before the first request that drops a
+   *   collection or changes the alias, so a caller can tell a swap that
+   *   never started from one that failed partway.
+   * @throws Error if a legacy collection would be dropped without a copy.
+   *
+   * @remarks
+   * Moving an existing alias is a single atomic alias operation. A legacy
+   * physical collection under the alias name has to be dropped before the
+   * alias can be created; its copy is what a rollback returns to.
+   */
+  async swapAlias(
+    type: QdrantCollectionType,
+    collectionName: string,
+    legacyCopy?: string,
+    onStarted?: () => void,
+  ): Promise<void> {
+    const alias = this.getCollectionName(type);
+    const current = await this.resolveCollection(type);
+
+    if (current === alias) {
+      const versions = await this.listVersions(type);
+      if (!legacyCopy || !versions.includes(legacyCopy)) {
+        throw new Error(
+          `Legacy collection ${alias} must be copied to a versioned collection before it is replaced`,
+        );
+      }
+      this.logger.warn('Dropping legacy Qdrant collection for its alias', {
+        type,
+        collectionName: alias,
+        legacyCopy,
+      });
+      onStarted?.();
+      await this.qdrantClient.deleteCollection(alias);
+    } else {
+      onStarted?.();
+    }
+
+    await this.qdrantClient.updateCollectionAliases({
+      actions: [
+        ...(current && current !== alias
+          ? [{ delete_alias: { alias_name: alias } }]
+          : []),
+        {
+          create_alias: { collection_name: collectionName, alias_name: alias },
+        },
+      ],
+    });
+    this.schemaCache.delete(type);
+
+    this.logger.log('Swapped Qdrant collection alias', {
+      type,
+      alias,
+      from: current,
+      to: collectionName,
+    });
+  }
+
+  /**
+   * Deletes a physical collection.
+   */
+  async deleteCollection(collectionName: string): Promise<void> {
+    await this.qdrantClient.deleteCollection(collectionName);
+    this.logger.log('Deleted Qdrant collection', { collectionName });
+  }
+
   /**
    * Searches for similar vectors in a specific collection.
    */
@@ -164,34 +520,43 @@ export class QdrantService implements OnModuleInit {
       this.logger.log('Initializing Qdrant collection', {
         type,
         collectionName: config.name,
-        vectorSize: config.vectorSize,
+        vectors: config.vectors,
       });
 
-      const collections = await this.qdrantClient.getCollections();
-      const collectionExists = collections.collections.some(
-        (col) => col.name === config.name,
-      );
+      const current = await this.resolveCollection(type);
 
-      if (!collectionExists) {
+      if (!current) {
         this.logger.log('Creating new Qdrant collection', {
           type,
           collectionName: config.name,
-          vectorSize: config.vectorSize,
-          distance: config.distance,
         });
 
-        await this.qdrantClient.createCollection(config.name, {
-          vectors: {
-            size: config.vectorSize,
-            distance: config.distance,
-          },
-        });
-        this.logger.log(`Created Qdrant collection: ${config.name} (${type})`);
+        const versionName = await this.createVersion(type, config.vectors);
+        await this.swapAlias(type, versionName);
+        this.logger.log(`Created Qdrant collection: ${versionName} (${type})`);
       } else {
+        await this.ensurePayloadIndexes(type, current);
+
+        const schema = await this.readSchema(current);
         this.logger.log('Qdrant collection already exists', {
           type,
-          collectionName: config.name,
+          collectionName: current,
+          legacy: current === config.name,
+          vectors: schema,
         });
+
+        // The live schema wins until a reindex applies the configured one
+        if (!sameSchema(schema, config.vectors)) {
+          this.logger.warn(
+            'Qdrant collection differs from configured vectors',
+            {
+              type,
+              collectionName: current,
+              configured: config.vectors,
+              actual: schema,
+            },
+          );
+        }
       }
     } catch (error) {
       this.logger.error('Failed to initialize Qdrant collection', '', {
@@ -202,4 +567,15 @@ export class QdrantService implements OnModuleInit {
       });
     }
   }
+
+  /**
+   * Version number of a physical collection of a type, or null if the name
+   * is not one of its versions.
+   */
+  private versionOf(type: QdrantCollectionType, name: string): number | null {
+    const match = new RegExp(`^${this.getCollectionName(type)}_v(\\d+)$`).exec(
+      name,
+    );
+    return match ? Number(match[1]) : null;
+  }
 }
@@ -0,0 +1,90 @@
+import {
+  parseEmbeddingModels,
+  readVectorSchema,
+  sameSchema,
+  toPointVector,
+  toQueryVector,
+  UNNAMED_VECTOR,
+} from './vector-schema';
+
+describe('parseEmbeddingModels', () => {
+  it('should parse models with an optional distance', () => {
+    expect(parseEmbeddingModels('minilm-384:384, bge-large:1024:Dot')).toEqual([
+      { name: 'minilm-384', size: 384, distance: 'Cosine' },
+      { name: 'bge-large', size: 1024, distance: 'Dot' },
+    ]);
+  });
+
+  it('should reject malformed, empty and repeated models', () => {
+    expect(() => parseEmbeddingModels('minilm:abc')).toThrow('size');
+    expect(() => parseEmbeddingModels('minilm:384:Manhattan')).toThrow(
+      'distance',
+    );
+    expect(() => parseEmbeddingModels(' , ')).toThrow('At least one');
+    expect(() => parseEmbeddingModels('a:3,a:4')).toThrow('twice');
+  });
+});
+
+describe('readVectorSchema', () => {
+  it('should read single unnamed and named vectors', () => {
+    expect(readVectorSchema({ size: 384, distance: 'Cosine' })).toEqual({
+      [UNNAMED_VECTOR]: { size: 384, distance: 'Cosine' },
+    });
+    expect(
+      readVectorSchema({
+        'minilm-384': { size: 384, distance: 'Cosine', on_disk: true },
+      }),
+    ).toEqual({ 'minilm-384': { size: 384, distance: 'Cosine' } });
+    expect(readVectorSchema(undefined)).toBeNull();
+  });
+
+  it('should compare schemas regardless of order', () => {
+    const a = { x: { size: 3, distance: 'Dot' as const } };
+    const b = { y: { size: 4, distance: 'Cosine' as const } };
+    expect(sameSchema({ ...a, ...b }, { ...b, ...a })).toBe(true);
+    expect(sameSchema(a, b)).toBe(false);
+    expect(sameSchema(a, null)).toBe(false);
+  });
+});
+
+describe('toPointVector', () => {
+  const named = {
+    small: { size: 2, distance: 'Cosine' as const },
+    large: { size: 3, distance: 'Cosine' as const },
+  };
+  const unnamed = {
+    [UNNAMED_VECTOR]: { size: 2, distance: 'Cosine' as const },
+  };
+
+  it('should keep the embeddings of models the collection has', () => {
+    expect(
+      toPointVector(
+        named,
+        { small: [1, 2], large: [1, 2], other: [1, 2, 3] },
+        'small',
+      ),
+    ).toEqual({ small: [1, 2] });
+    expect(toPointVector(named, { other: [1] }, 'small')).toBeNull();
+  });
+
+  it('should use the default model for a collection without named vectors', () => {
+    expect(
+      toPointVector(unnamed, { small: [1, 2], large: [3] }, 'small'),
+    ).toEqual([1, 2]);
+    expect(toPointVector(unnamed, { large: [1, 2] }, 'small')).toBeNull();
+  });
+
+  it('should build query vectors for the chosen model', () => {
+    expect(toQueryVector(named, 'large', [1, 2, 3], 'small')).toEqual({
+      name: 'large',
+      vector: [1, 2, 3],
+    });
+    expect(toQueryVector(unnamed, 'small', [1, 2], 'small')).toEqual([1, 2]);
+    expect(() => toQueryVector(unnamed, 'large', [1, 2], 'small')).toThrow(
+      'no vector',
+    );
+    expect(() => toQueryVector(named, 'small', [1], 'small')).toThrow(
+      'expected 2, got 1',
+    );
+  });
+});
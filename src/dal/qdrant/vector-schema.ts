@@ -0,0 +1,241 @@
+/**
+ * Distance metrics supported by Qdrant.
+ */
+export type VectorDistance = 'Cosine' | 'Dot' | 'Euclid';
+
+/**
+ * Size and distance of one vector of a collection.
+ */
+export interface VectorParams {
+  size: number;
+  distance: VectorDistance;
+}
+
+/**
+ * Vectors of a collection by name. A collection with a single unnamed
+ * vector has one entry under `UNNAMED_VECTOR`.
+ */
+export type VectorSchema = Record<string, VectorParams>;
+
+/**
+ * Key of the single vector of a collection without named vectors.
+ */
+export const UNNAMED_VECTOR = '';
+
+/**
+ * An embedding model and the vector it produces.
+ */
+export interface EmbeddingModelConfig extends VectorParams {
+  name: string;
+}
+
+const DISTANCES: VectorDistance[] = ['Cosine', 'Dot', 'Euclid'];
+
+/**
+ * Models used when `EMBEDDING_MODELS` is not set.
+ */
+export const DEFAULT_EMBEDDING_MODELS = 'minilm-384:384:Cosine';
+
+/**
+ * Parses embedding models from a comma-separated list of
+ * `name:size[:distance]` entries (e.g. `minilm-384:384,bge-large:1024:Dot`).
+ *
+ * @throws Error if an entry is malformed or a name repeats.
+ */
+export function parseEmbeddingModels(spec: string): EmbeddingModelConfig[] {
+  const models = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, size, distance = 'Cosine'] = entry
+        .split(':')
+        .map((part) => part.trim());
+
+      if (!name || !/^[\w.-]+$/.test(name)) {
+        throw new Error(`Invalid embedding model name in "${entry}"`);
+      }
+      if (!/^\d+$/.test(size ?? '') || Number(size) < 1) {
+        throw new Error(`Invalid embedding model size in "${entry}"`);
+      }
+      if (!DISTANCES.includes(distance as VectorDistance)) {
+        throw new Error(`Invalid embedding model distance in "${entry}"`);
+      }
+
+      return {
+        name,
+        size: Number(size),
+        distance: distance as VectorDistance,
+      };
+    });
+
+  if (models.length === 0) {
+    throw new Error('At least one embedding model must be configured');
+  }
+  const names = models.map((model) => model.name);
+  const repeated = names.find((name, index) => names.indexOf(name) !== index);
+  if (repeated) {
+    throw new Error(`Embedding model ${repeated} is configured twice`);
+  }
+
+  return models;
+}
+
+/**
+ * Builds the named-vector schema of a set of models.
+ */
+export function schemaOfModels(models: EmbeddingModelConfig[]): VectorSchema {
+  return Object.fromEntries(
+    models.map(({ name, size, distance }) => [name, { size, distance }]),
+  );
+}
+
+/**
+ * Reads the vector schema of a collection from its `config.params.vectors`.
+ *
+ * @returns The schema, or null if the collection has no dense vectors.
+ */
+export function readVectorSchema(vectors: unknown): VectorSchema | null {
+  if (!vectors || typeof vectors !== 'object') {
+    return null;
+  }
+  if (isVectorParams(vectors)) {
+    return {
+      [UNNAMED_VECTOR]: { size: vectors.size, distance: vectors.distance },
+    };
+  }
+
+  const schema: VectorSchema = {};
+  for (const [name, params] of Object.entries(vectors)) {
+    if (isVectorParams(params)) {
+      schema[name] = { size: params.size, distance: params.distance };
+    }
+  }
+  return Object.keys(schema).length > 0 ? schema : null;
+}
+
+/**
+ * Builds the `vectors` parameter of a collection with this schema.
+ */
+export function toVectorsConfig(
+  schema: VectorSchema,
+): VectorParams | Record<string, VectorParams> {
+  return isUnnamed(schema) ? schema[UNNAMED_VECTOR] : schema;
+}
+
+/**
+ * Overrides the distance of every vector of a schema.
+ */
+export function withDistance(
+  schema: VectorSchema,
+  distance: VectorDistance,
+): VectorSchema {
+  return Object.fromEntries(
+    Object.entries(schema).map(([name, params]) => [
+      name,
+      { ...params, distance },
+    ]),
+  );
+}
+
+/**
+ * Builds the vector of a point from a post's embeddings by model.
+ *
+ * Models missing from the schema, and embeddings of the wrong size, are left
+ * out. A collection without named vectors takes the default model's embedding.
+ *
+ * @returns The point vector, or null if no embedding fits the schema.
+ */
+export function toPointVector(
+  schema: VectorSchema,
+  embeddings: Record<string, number[]>,
+  defaultModel: string,
+): number[] | Record<string, number[]> | null {
+  if (isUnnamed(schema)) {
+    const embedding = embeddings[defaultModel];
+    return embedding?.length === schema[UNNAMED_VECTOR].size ? embedding : null;
+  }
+
+  const vector = Object.fromEntries(
+    Object.entries(embeddings).filter(
+      ([model, embedding]) => schema[model]?.size === embedding.length,
+    ),
+  );
+  return Object.keys(vector).length > 0 ? vector : null;
+}
+
+/**
+ * Builds the query vector of a search with a model's embedding.
+ *
+ * @throws Error if the collection has no vector for the model or the size differs.
+ */
+export function toQueryVector(
+  schema: VectorSchema,
+  model: string,
+  embedding: number[],
+  defaultModel: string,
+): number[] | { name: string; vector: number[] } {
+  const params = vectorParamsOf(schema, model, defaultModel);
+  if (!params) {
+    throw new Error(`Collection has no vector for model ${model}`);
+  }
+  if (params.size !== embedding.length) {
+    throw new Error(
+      `Invalid embedding dimensions for model ${model}: expected ${params.size}, got ${embedding.length}`,
+    );
+  }
+
+  return isUnnamed(schema) ? embedding : { name: model, vector: embedding };
+}
+
+/**
+ * Params of a model's vector in a schema, or undefined if the collection has
+ * no vector for it.
+ */
+export function vectorParamsOf(
+  schema: VectorSchema,
+  model: string,
+  defaultModel: string,
+): VectorParams | undefined {
+  if (isUnnamed(schema)) {
+    return model === defaultModel ? schema[UNNAMED_VECTOR] : undefined;
+  }
+  return schema[model];
+}
+
+/**
+ * Whether two schemas have the same vectors, in any order.
+ */
+export function sameSchema(
+  a: VectorSchema | null,
+  b: VectorSchema | null,
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const names = Object.keys(a);
+  return (
+    names.length === Object.keys(b).length &&
+    names.every(
+      (name) =>
+        b[name]?.size === a[name].size &&
+        b[name]?.distance === a[name].distance,
+    )
+  );
+}
+
+/**
+ * Whether a schema describes a collection without named vectors.
+ */
+export function isUnnamed(schema: VectorSchema): boolean {
+  return UNNAMED_VECTOR in schema;
+}
+
+function isVectorParams(value: unknown): value is VectorParams {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as VectorParams).size === 'number' &&
+    typeof (value as VectorParams).distance === 'string'
+  );
+}
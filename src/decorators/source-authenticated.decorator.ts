@@ -0,0 +1,14 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { SourceKeyGuard } from 'src/authorization/source-key.guard';
+import { Public } from './public.decorator';
+
+/**
+ * A decorator for machine-facing routes: they skip the user-only check of the
+ * global guard and instead accept either a Cognito JWT or a valid source key.
+ *
+ * @returns A decorator applying `Public` and the `SourceKeyGuard`.
+ */
+const SourceAuthenticated = () =>
+  applyDecorators(Public(), UseGuards(SourceKeyGuard));
+
+export { SourceAuthenticated };
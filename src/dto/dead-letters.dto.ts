@@ -0,0 +1,45 @@
+/**
+ * Represents an ingest item that failed to be stored.
+ *
+ * @property id - Identifier of the dead letter.
+ * @property source - Source of the item, if the payload had one.
+ * @property source_id - Source identifier of the item, if the payload had one.
+ * @property status - `pending` (scheduled for automatic retry), `failed` (needs an edit or a manual replay) or `replayed`.
+ * @property attempts - Number of times storing the item was attempted.
+ * @property error - Error of the last attempt.
+ * @property next_attempt_at - ISO timestamp of the next automatic retry, if scheduled.
+ * @property last_attempt_at - ISO timestamp of the last attempt.
+ * @property post_uuid - Public identifier of the post, once replayed.
+ * @property created_at - ISO timestamp the item first failed at.
+ * @property updated_at - ISO timestamp of the last change.
+ */
+export interface IngestDeadLetterResponseDto {
+  id: number;
+  source: string | null;
+  source_id: string | null;
+  status: 'pending' | 'failed' | 'replayed';
+  attempts: number;
+  error: string;
+  next_attempt_at: string | null;
+  last_attempt_at: string;
+  post_uuid: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A dead letter with its payload and the stack of its last error.
+ */
+export interface IngestDeadLetterDetailDto extends IngestDeadLetterResponseDto {
+  payload: Record<string, unknown>;
+  stack: string | null;
+}
+
+/**
+ * Data Transfer Object for editing the payload of a dead letter before replaying it.
+ *
+ * @property payload - The corrected ingest item.
+ */
+export interface UpdateIngestDeadLetterDto {
+  payload: Record<string, unknown>;
+}
@@ -52,6 +52,10 @@ export class PreferencesDto {
 
   @IsBoolean()
   quietHours: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  topicAlerts?: boolean;
 }
 
 /**
@@ -98,6 +102,10 @@ export class UpdateDeviceDto {
   @IsBoolean()
   isActive?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  topicAlerts?: boolean;
+
   @IsDateString()
   lastUpdated: string;
 }
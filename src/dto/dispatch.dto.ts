@@ -0,0 +1,28 @@
+/**
+ * Represents a recorded trigger dispatch.
+ *
+ * @property id - Identifier of the dispatch.
+ * @property target - Name of the target it was sent to.
+ * @property status - `success`, `failed` (after retries) or `skipped` (circuit open).
+ * @property attempts - Number of HTTP attempts made.
+ * @property status_code - HTTP status of the last attempt, if a response was received.
+ * @property error - Error of the last failed attempt, if any.
+ * @property duration_ms - Total time spent, including backoff.
+ * @property since_minutes - Lookback window sent to the target.
+ * @property circuit - Current circuit state of the target on this replica.
+ * @property dispatched_at - ISO timestamp the dispatch started at.
+ * @property completed_at - ISO timestamp the dispatch finished at.
+ */
+export interface DispatchResponseDto {
+  id: number;
+  target: string;
+  status: 'success' | 'failed' | 'skipped';
+  attempts: number;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+  since_minutes: number;
+  circuit: 'closed' | 'open' | 'half_open' | null;
+  dispatched_at: string;
+  completed_at: string | null;
+}
@@ -1,12 +1,34 @@
-export { IngestDto } from './ingest.dto';
+export {
+  IngestAuthorDto,
+  IngestDto,
+  IngestAcceptedItemDto,
+  IngestRejectedItemDto,
+  IngestDuplicateItemDto,
+  IngestBatchResponseDto,
+  IngestFieldErrorDto,
+  IngestJobItemDto,
+  IngestJobResponseDto,
+} from './ingest.dto';
 export { NotificationPayload } from './notifications.dto';
 export {
   AuthorDto,
   DedupRequestDto,
+  GetPostQueryDto,
   GetPostsQueryDto as GetIngestsQueryDto,
   IncomingPostDto,
+  PostDetailDto,
+  PostDuplicateDto,
+  PostEventDto,
+  PostFeedPageDto,
   PostResponseDto,
+  PostSearchResponseDto,
+  PostSearchResultDto,
+  SearchPostsQueryDto,
+  SimilarPostDto,
+  SimilarToPostQueryDto,
+  SimilarityFiltersDto,
   SimilaritySearchQueryDto,
+  SimilarTextQueryDto,
   SimilaritySearchResultDto,
 } from './posts.dto';
 export {
@@ -29,3 +51,32 @@ export {
   EventResponseDto,
   EventsListResponseDto,
 } from './events.dto';
+export {
+  CreateSeedDto,
+  UpdateSeedDto,
+  SeedResponseDto,
+  TopicSamplePostDto,
+  TrendingTopicDto,
+  TrendingTopicsResponseDto,
+  TopicHistoryResponseDto,
+  ReviewTopicSpikeDto,
+  TopicSpikeResponseDto,
+} from './topics.dto';
+export { DispatchResponseDto } from './dispatch.dto';
+export {
+  CreateSourceKeyDto,
+  RotateSourceKeyDto,
+  SourceKeyResponseDto,
+  IssuedSourceKeyDto,
+} from './source-keys.dto';
+export {
+  IngestDeadLetterResponseDto,
+  IngestDeadLetterDetailDto,
+  UpdateIngestDeadLetterDto,
+} from './dead-letters.dto';
+export {
+  ReconcileVectorsDto,
+  ReindexVectorsDto,
+  VectorReconcileRunResponseDto,
+  VectorReindexJobResponseDto,
+} from './vectors.dto';
@@ -1,3 +1,150 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Author of an ingested content item.
+ */
+export class IngestAuthorDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  handle?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  avatar?: string;
+}
+
+/**
+ * Zero-shot classification result: labels with their scores, in the same order.
+ */
+export class IngestClassificationResultDto {
+  @IsOptional()
+  @IsString()
+  sequence?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  labels: string[];
+
+  @IsArray()
+  @IsNumber({}, { each: true })
+  scores: number[];
+}
+
+/**
+ * Language detection result of the voting pipeline.
+ */
+export class IngestLanguageDetectionDto {
+  @IsArray()
+  @IsString({ each: true })
+  languages: string[];
+
+  @IsArray()
+  @IsNumber({}, { each: true })
+  probabilities: number[];
+}
+
+/**
+ * Content classification of the voting pipeline.
+ */
+export class IngestContentClassificationDto {
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @IsOptional()
+  @IsNumber()
+  score?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestClassificationResultDto)
+  full_result?: IngestClassificationResultDto;
+}
+
+/**
+ * Translation of the voting pipeline.
+ */
+export class IngestTranslationDto {
+  @IsOptional()
+  @IsString()
+  original_text?: string;
+
+  @IsOptional()
+  @IsString()
+  translated_text?: string;
+
+  @IsOptional()
+  @IsString()
+  source_language?: string;
+
+  @IsOptional()
+  @IsString()
+  target_language?: string;
+
+  @IsOptional()
+  @IsNumber()
+  confidence_score?: number | null;
+}
+
+/**
+ * Voting and classification metadata attached by the pipeline.
+ */
+export class IngestVoteDto {
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestLanguageDetectionDto)
+  language_detection?: IngestLanguageDetectionDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestContentClassificationDto)
+  content_classification?: IngestContentClassificationDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestTranslationDto)
+  translation?: IngestTranslationDto;
+
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @IsOptional()
+  @IsNumber()
+  score?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestClassificationResultDto)
+  full?: IngestClassificationResultDto;
+}
+
 /**
  * Data Transfer Object representing an ingested content item.
  *
@@ -10,10 +157,6 @@
  * @property lang - Language code of the content (e.g., 'en', 'es').
  * @property hash - Hash value for deduplication or integrity checks.
  * @property author - Information about the content's author.
- * @property author.id - Unique identifier for the author.
- * @property author.name - Display name of the author.
- * @property author.handle - Username or handle of the author.
- * @property author.avatar - URL to the author's avatar image.
  * @property media - Array of URLs to associated media files.
  * @property linkPreview - URL or data for a link preview.
  * @property original - (Optional) Original content or reference, if applicable.
@@ -22,61 +165,215 @@
  * @property scores - Array of classification scores.
  * @property categories - Array of category strings.
  * @property labels - Array of label strings from classification.
+ * @property keywords - Keywords recorded in the topics queue.
  * @property _vote - Voting and classification metadata.
- * @property embeddings - Array of embedding vectors for semantic search.
+ * @property embeddings - Embedding vector for semantic search; empty or exactly as
+ *   many numbers as the model produces.
+ * @property embeddingModel - (Optional) Configured embedding model that produced
+ *   `embeddings` (default: `EMBEDDING_DEFAULT_MODEL`).
  */
-export interface IngestDto {
+export class IngestDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
   id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
   source: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
   uri: string;
+
+  @IsString()
+  @IsNotEmpty()
   content: string;
+
+  @IsDateString()
   createdAt: string;
+
+  @IsNumber()
   relevance: number;
-  lang: string;
-  hash: string;
-  author: {
-    id: string;
-    name: string;
-    handle: string;
-    avatar: string;
-  };
-  media: string[];
-  linkPreview: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(8)
+  lang?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  hash?: string;
+
+  @ValidateNested()
+  @Type(() => IngestAuthorDto)
+  author: IngestAuthorDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  media?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  linkPreview?: string;
+
+  @IsOptional()
+  @IsString()
   original?: string;
-  tags: string[];
-  score: number | null;
-  scores: number[];
-  categories: string[];
-  labels: string[];
-  _vote: {
-    text: string;
-    language_detection: {
-      languages: string[];
-      probabilities: number[];
-    };
-    content_classification: {
-      label: string;
-      score: number;
-      full_result: {
-        sequence: string;
-        labels: string[];
-        scores: number[];
-      };
-    };
-    translation: {
-      original_text: string;
-      translated_text: string;
-      source_language: string;
-      target_language: string;
-      confidence_score: number | null;
-    };
-    label: string;
-    score: number;
-    full: {
-      sequence: string;
-      labels: string[];
-      scores: number[];
-    };
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  score?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  scores?: number[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  labels?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  keywords?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IngestVoteDto)
+  _vote?: IngestVoteDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsNumber({ allowNaN: false, allowInfinity: false }, { each: true })
+  embeddings?: number[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  embeddingModel?: string;
+}
+
+/**
+ * Validation messages of one field of an ingested item.
+ *
+ * @property field - Dotted path of the field (e.g. `author.name`).
+ * @property messages - Failed constraint messages.
+ */
+export interface IngestFieldErrorDto {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Item of a batch that was stored.
+ *
+ * @property index - Position of the item in the batch.
+ * @property id - Source identifier of the item.
+ * @property created - False when the item was already stored and only merged.
+ * @property post - The stored post, with its similar posts.
+ */
+export interface IngestAcceptedItemDto {
+  index: number;
+  id: string;
+  created: boolean;
+  post: unknown;
+}
+
+/**
+ * Item of a batch that was not stored.
+ *
+ * @property index - Position of the item in the batch.
+ * @property id - Source identifier of the item, if it had one.
+ * @property errors - Field-level validation messages, or a single `item` entry when storing failed.
+ */
+export interface IngestRejectedItemDto {
+  index: number;
+  id: string | null;
+  errors: IngestFieldErrorDto[];
+}
+
+/**
+ * Item of a batch skipped because an earlier item had the same source and id.
+ *
+ * @property index - Position of the item in the batch.
+ * @property id - Source identifier of the item.
+ * @property duplicate_of - Position of the earlier item.
+ */
+export interface IngestDuplicateItemDto {
+  index: number;
+  id: string;
+  duplicate_of: number;
+}
+
+/**
+ * Outcome of an ingest delivery, item by item.
+ */
+export interface IngestBatchResponseDto {
+  accepted: IngestAcceptedItemDto[];
+  rejected: IngestRejectedItemDto[];
+  duplicates: IngestDuplicateItemDto[];
+}
+
+/**
+ * Progress of one item of an ingest job.
+ *
+ * @property index - Position of the item in the delivery.
+ * @property id - Source identifier of the item, if it had one.
+ * @property status - Where the item is in the pipeline.
+ * @property created - Whether storing the item created a post (accepted items).
+ * @property post_id - Public identifier of the stored post (accepted items).
+ * @property duplicate_of - Position of the earlier item it repeats (duplicate items).
+ * @property errors - Field-level messages (rejected items).
+ */
+export interface IngestJobItemDto {
+  index: number;
+  id: string | null;
+  status: 'pending' | 'processing' | 'accepted' | 'rejected' | 'duplicate';
+  created?: boolean;
+  post_id?: string;
+  duplicate_of?: number;
+  errors?: IngestFieldErrorDto[];
+}
+
+/**
+ * Progress of an asynchronous ingest delivery.
+ *
+ * @property id - Job identifier, as returned when the delivery was accepted.
+ * @property status - `queued` until an item is picked up, `completed` once every item settled.
+ * @property total - Number of items delivered.
+ * @property counts - Number of items per outcome so far.
+ * @property items - Progress of each item.
+ */
+export interface IngestJobResponseDto {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  total: number;
+  counts: {
+    pending: number;
+    accepted: number;
+    rejected: number;
+    duplicates: number;
   };
-  embeddings: number[];
+  items: IngestJobItemDto[];
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
 }
@@ -1,3 +1,18 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
 /**
  * Represents the response data structure for a post.
  *
@@ -19,6 +34,7 @@
  * @property original - (Optional) The original content or source, if applicable.
  * @property received_at - The ISO string timestamp when the post was received by the system.
  * @property categories - Array of categories or tags associated with the post.
+ * @property variant_count - (Collapsed feeds only) Number of near-duplicates the post stands for.
  */
 export interface PostResponseDto {
   id: string;
@@ -39,30 +55,381 @@ export interface PostResponseDto {
   original?: string;
   received_at: string;
   categories: string[];
+  variant_count?: number;
+}
+
+/**
+ * A near-duplicate of a post.
+ *
+ * @property score - Vector similarity between the two posts (0.0 to 1.0).
+ * @property detected_at - ISO timestamp when the relationship was detected.
+ */
+export interface PostDuplicateDto extends PostResponseDto {
+  score: number;
+  detected_at: string;
+}
+
+/**
+ * A post similar to another one.
+ *
+ * @property score - Vector similarity between the two posts.
+ */
+export interface SimilarPostDto extends PostResponseDto {
+  score: number;
+}
+
+/**
+ * An event a post is matched to.
+ *
+ * @property id - Public identifier of the event.
+ * @property match_score - How well the post matches the event, if scored.
+ * @property added_at - ISO timestamp when the post was matched to the event.
+ */
+export interface PostEventDto {
+  id: string;
+  title: string;
+  summary: string;
+  status: 'open' | 'archived' | 'dismissed';
+  match_score: number | null;
+  added_at: string | null;
+}
+
+/**
+ * A post with everything related to it.
+ *
+ * @property events - Events the post is matched to, best match first.
+ * @property duplicates - Near-duplicates recorded at ingest, most similar first.
+ * @property similar - Nearest posts by vector similarity, most similar first;
+ *   empty while the post's vector is not stored.
+ * @property read - Whether the device read the post, or null without a device
+ *   token. Reads are kept per device, never per user.
+ * @property read_at - ISO timestamp when the device read the post, if it did.
+ */
+export interface PostDetailDto extends PostResponseDto {
+  events: PostEventDto[];
+  duplicates: PostDuplicateDto[];
+  similar: SimilarPostDto[];
+  read: boolean | null;
+  read_at: string | null;
+}
+
+/**
+ * Query parameters for a post's detail.
+ *
+ * @property device_token - (Optional) Push device token to report the read state for.
+ * @property similar_limit - (Optional) Maximum number of similar posts (default: 5, max: 20).
+ */
+export interface GetPostQueryDto {
+  device_token?: string;
+  similar_limit?: number;
+}
+
+/**
+ * Query parameters for posts similar to a stored post.
+ *
+ * @property limit - (Optional) Maximum number of similar posts to return (default: 10, max: 50).
+ * @property model - (Optional) Embedding model whose vectors are compared (default: `EMBEDDING_DEFAULT_MODEL`).
+ */
+export interface SimilarToPostQueryDto {
+  limit?: number;
+  model?: string;
+}
+
+/**
+ * Query parameters for searching posts.
+ *
+ * @property q - The text to search for.
+ * @property categories - (Optional) Comma-separated category slugs.
+ * @property sources - (Optional) Comma-separated sources.
+ * @property langs - (Optional) Comma-separated language codes.
+ * @property since - (Optional) ISO timestamp; only posts published at or after it.
+ * @property until - (Optional) ISO timestamp; only posts published at or before it.
+ * @property limit - (Optional) Maximum number of posts per page (default: 20, max: 50).
+ * @property cursor - (Optional) The `next` cursor of the previous page.
+ */
+export interface SearchPostsQueryDto {
+  q: string;
+  categories?: string;
+  sources?: string;
+  langs?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * A post matching a search.
+ *
+ * @property score - Reciprocal rank fusion score of the keyword and semantic rankings.
+ * @property matched_by - Searches that found the post (`keyword`, `semantic`).
+ * @property snippet - Content around the first match, with `[start, end)` offsets of the matches.
+ */
+export interface PostSearchResultDto extends PostResponseDto {
+  score: number;
+  matched_by: string[];
+  snippet: {
+    text: string;
+    highlights: Array<[number, number]>;
+  };
+}
+
+/**
+ * A page of search results.
+ *
+ * @property next - Cursor of the next page, or null on the last page.
+ */
+export interface PostSearchResponseDto {
+  data: PostSearchResultDto[];
+  next: string | null;
 }
 
+/**
+ * Splits a comma-separated query parameter into its trimmed values.
+ */
+const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
 /**
  * Data Transfer Object for querying posts.
  *
  * @property categories - (Optional) A comma-separated list of category identifiers to filter the posts.
+ * @property exclude_categories - (Optional) Comma-separated category slugs the posts must not be in.
+ * @property sources - (Optional) Comma-separated sources.
+ * @property langs - (Optional) Comma-separated language codes.
+ * @property author_handles - (Optional) Comma-separated author handles.
+ * @property min_relevance - (Optional) Lowest relevance.
+ * @property max_relevance - (Optional) Highest relevance.
+ * @property since - (Optional) ISO 8601 timestamp; only posts published at or after it.
+ * @property until - (Optional) ISO 8601 timestamp; only posts published at or before it.
+ * @property has_media - (Optional) `true` for posts with media, `false` for posts without.
+ * @property clustered - (Optional) `true` for posts attached to an event, `false` for unclustered posts.
+ * @property sort - (Optional) `recent` (default) or `relevance`, both descending.
  * @property limit - (Optional) Maximum number of posts to return (default: 50, max: 50).
  * @property before - (Optional) ISO 8601 timestamp; return posts with posted_at < before.
+ * @property collapse - (Optional) `true` to collapse near-duplicates into one story.
+ * @property cursor - (Optional) A `next` or `prev` cursor of an earlier page.
+ * @property after - (Optional) ISO 8601 timestamp; return the posts right after it, to poll for new ones.
+ * @property paginate - (Optional) `cursor` to get the first page in a `PostFeedPageDto` envelope.
  */
-export interface GetPostsQueryDto {
-  categories?: string;
+export class GetPostsQueryDto {
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  categories?: string[];
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  exclude_categories?: string[];
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  sources?: string[];
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  langs?: string[];
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  author_handles?: string[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  min_relevance?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  max_relevance?: number;
+
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  has_media?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  clustered?: string;
+
+  @IsOptional()
+  @IsIn(['recent', 'relevance'])
+  sort?: 'recent' | 'relevance';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
   limit?: number;
+
+  // Invalid values are ignored, as they always were
+  @IsOptional()
+  @IsString()
   before?: string;
+
+  @IsOptional()
+  @IsString()
+  collapse?: string;
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsDateString()
+  after?: string;
+
+  @IsOptional()
+  @IsIn(['cursor'])
+  paginate?: string;
+}
+
+/**
+ * A page of the posts feed.
+ *
+ * @property data - Posts of the page, newest first.
+ * @property next - Cursor of the older posts, or null past the oldest post.
+ * @property prev - Cursor of the newer posts, or null if the feed is empty.
+ */
+export interface PostFeedPageDto {
+  data: PostResponseDto[];
+  next: string | null;
+  prev: string | null;
+}
+
+/**
+ * Restrictions on the posts a similarity search returns.
+ *
+ * @property categories - (Optional) Only posts in any of these category slugs.
+ * @property sources - (Optional) Only posts from any of these sources.
+ * @property langs - (Optional) Only posts in any of these languages.
+ * @property authorHandles - (Optional) Only posts by any of these author handles.
+ * @property minRelevance - (Optional) Only posts with at least this relevance.
+ * @property since - (Optional) Only posts created at or after this ISO timestamp.
+ * @property until - (Optional) Only posts created at or before this ISO timestamp.
+ * @property windowHours - (Optional) Only posts created in the last hours.
+ */
+export class SimilarityFiltersDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  categories?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  sources?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  langs?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  authorHandles?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  minRelevance?: number;
+
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  windowHours?: number;
 }
 
 /**
  * Data Transfer Object for similarity search queries.
  *
- * @property embedding - The embedding vector to search for similar content.
+ * @property embedding - (Optional) The embedding vector to search for similar content.
+ * @property query - (Optional) Text to embed server-side when no `embedding` is given.
  * @property limit - (Optional) Maximum number of similar posts to return (default: 10).
+ * @property model - (Optional) Embedding model of `embedding`, or to embed `query` with
+ *   (default: `EMBEDDING_DEFAULT_MODEL`).
+ * @property filters - (Optional) Restrictions on the posts returned; replaces the
+ *   default time window of `SIMILAR_TIME_WINDOW_HOURS`.
+ * @property minScore - (Optional) Lowest similarity score returned.
+ */
+export class SimilaritySearchQueryDto {
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  embedding?: number[];
+
+  @IsOptional()
+  @IsString()
+  query?: string;
+
+  @IsOptional()
+  @IsNumber()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  model?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SimilarityFiltersDto)
+  filters?: SimilarityFiltersDto;
+
+  @IsOptional()
+  @IsNumber()
+  minScore?: number;
+}
+
+/**
+ * Query parameters for similarity search by text.
+ *
+ * @property query - The text to search for similar content.
+ * @property limit - (Optional) Maximum number of similar posts to return (default: 10, max: 50).
+ * @property model - (Optional) Embedding model to embed the text with (default: `EMBEDDING_DEFAULT_MODEL`).
  */
-export interface SimilaritySearchQueryDto {
-  embedding: number[];
+export interface SimilarTextQueryDto {
+  query: string;
   limit?: number;
+  model?: string;
 }
 
 /**
@@ -0,0 +1,72 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Source key issuance DTO
+ */
+export class CreateSourceKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  source: string;
+
+  @IsOptional()
+  @IsBoolean()
+  require_signature?: boolean;
+}
+
+/**
+ * Source key rotation DTO
+ */
+export class RotateSourceKeyDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30 * 24 * 60)
+  grace_minutes?: number;
+}
+
+/**
+ * Represents a source key as listed by the admin API (no secrets).
+ *
+ * @property id - Identifier of the key.
+ * @property source - Name of the source the key belongs to.
+ * @property key_prefix - Public part of the key, used to identify it.
+ * @property require_signature - Whether requests must carry an HMAC signature.
+ * @property status - `active`, `expiring` (rotated, still in grace), `expired` or `revoked`.
+ * @property expires_at - ISO timestamp the key stops working, if rotated.
+ * @property revoked_at - ISO timestamp the key was revoked, if revoked.
+ * @property last_used_at - ISO timestamp the key was last accepted, if ever.
+ * @property created_at - ISO timestamp the key was issued.
+ */
+export interface SourceKeyResponseDto {
+  id: number;
+  source: string;
+  key_prefix: string;
+  require_signature: boolean;
+  status: 'active' | 'expiring' | 'expired' | 'revoked';
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Represents a newly issued source key, including its secrets.
+ * The API key and signing secret are only returned once.
+ *
+ * @property api_key - Full API key, sent as `x-api-key`.
+ * @property signing_secret - Secret for the `x-signature` HMAC.
+ */
+export interface IssuedSourceKeyDto extends SourceKeyResponseDto {
+  api_key: string;
+  signing_secret: string;
+}
@@ -0,0 +1,155 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Seed creation DTO
+ */
+export class CreateSeedDto {
+  @IsString()
+  @MaxLength(128)
+  keyword: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  is_paused?: boolean;
+}
+
+/**
+ * Seed update DTO (weight and pause state)
+ */
+export class UpdateSeedDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  is_paused?: boolean;
+}
+
+/**
+ * Represents a seed keyword as returned by the admin API.
+ *
+ * @property keyword - The normalized (lowercase) seed keyword.
+ * @property weight - Ordering weight; heavier seeds are sent to n8n first.
+ * @property is_paused - Paused seeds are kept but not sent to n8n.
+ * @property created_at - ISO timestamp when the seed was created.
+ * @property updated_at - ISO timestamp when the seed was last modified.
+ */
+export interface SeedResponseDto {
+  keyword: string;
+  weight: number;
+  is_paused: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Represents a post that contributed to a trending topic.
+ *
+ * @property id - Unique identifier (uuid) of the post.
+ * @property content - The textual content of the post.
+ * @property author - The name or identifier of the post's author.
+ * @property source - The source platform of the post.
+ * @property uri - The URI linking to the post.
+ * @property posted_at - ISO timestamp when the post was published.
+ * @property relevance - Relevance score of the post.
+ */
+export interface TopicSamplePostDto {
+  id: string;
+  content: string;
+  author: string;
+  source: string;
+  uri: string;
+  posted_at: string;
+  relevance: number;
+}
+
+/**
+ * Represents a ranked trending keyword.
+ *
+ * @property keyword - The normalized keyword or phrase.
+ * @property score - Current decayed score.
+ * @property velocity - Score change per hour over the last hour.
+ * @property samples - Most recent posts that contributed to the topic.
+ */
+export interface TrendingTopicDto {
+  keyword: string;
+  score: number;
+  velocity: number;
+  samples: TopicSamplePostDto[];
+}
+
+/**
+ * Represents the trending topics ranking.
+ *
+ * @property topics - Keywords ordered by score DESC.
+ * @property generated_at - ISO timestamp the ranking was computed at.
+ */
+export interface TrendingTopicsResponseDto {
+  topics: TrendingTopicDto[];
+  generated_at: string;
+}
+
+/**
+ * Represents the score time series of a keyword.
+ *
+ * @property keyword - The normalized keyword or phrase.
+ * @property points - Snapshots ordered by captured_at ASC.
+ */
+export interface TopicHistoryResponseDto {
+  keyword: string;
+  points: Array<{ captured_at: string; score: number }>;
+}
+
+/**
+ * Spike review DTO
+ */
+export class ReviewTopicSpikeDto {
+  @IsIn(['pending', 'confirmed', 'false_positive'])
+  status: 'pending' | 'confirmed' | 'false_positive';
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+/**
+ * Represents a detected keyword spike.
+ *
+ * @property id - Identifier of the spike.
+ * @property keyword - The keyword or phrase that spiked.
+ * @property mentions - Posts mentioning the keyword in the minute it spiked.
+ * @property baseline_mean - Rolling mean of posts per minute before the spike.
+ * @property baseline_stddev - Rolling standard deviation used for the z-score.
+ * @property z_score - Standard deviations the rate sat above the baseline.
+ * @property status - Review status (`pending`, `confirmed` or `false_positive`).
+ * @property review_notes - Notes left by the reviewer, if any.
+ * @property detected_at - ISO timestamp the spike was detected at.
+ * @property reviewed_at - ISO timestamp of the last review, if reviewed.
+ */
+export interface TopicSpikeResponseDto {
+  id: number;
+  keyword: string;
+  mentions: number;
+  baseline_mean: number;
+  baseline_stddev: number;
+  z_score: number;
+  status: 'pending' | 'confirmed' | 'false_positive';
+  review_notes: string | null;
+  detected_at: string;
+  reviewed_at: string | null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Data Transfer Object for starting a reconciliation run.
+ *
+ * @property repair - (Optional) Fix what the run finds instead of only reporting it (default: false).
+ */
+export interface ReconcileVectorsDto {
+  repair?: boolean;
+}
+
+/**
+ * Represents a Qdrant ↔ MySQL reconciliation run.
+ *
+ * @property id - Identifier of the run.
+ * @property trigger - `scheduled` or `manual`.
+ * @property repair - Whether the run fixes what it finds.
+ * @property status - `running`, `completed` or `failed`.
+ * @property posts_scanned - Posts checked against Qdrant so far.
+ * @property points_scanned - Qdrant points checked against MySQL so far.
+ * @property missing - Posts with an embedding but no point.
+ * @property orphaned - Points whose post no longer exists.
+ * @property drifted - Points whose payload differs from the post (e.g. `hash`, `createdAt`).
+ * @property repaired - Problems fixed by the run.
+ * @property samples - Up to 20 post ids of each kind of problem.
+ * @property error - Error the run failed with, if any.
+ * @property started_at - ISO timestamp the run started at.
+ * @property completed_at - ISO timestamp the run finished at.
+ */
+export interface VectorReconcileRunResponseDto {
+  id: number;
+  trigger: 'scheduled' | 'manual';
+  repair: boolean;
+  status: 'running' | 'completed' | 'failed';
+  posts_scanned: number;
+  points_scanned: number;
+  missing: number;
+  orphaned: number;
+  drifted: number;
+  repaired: number;
+  samples: {
+    missing: number[];
+    orphaned: number[];
+    drifted: Array<{ id: number; fields: string[] }>;
+  } | null;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Data Transfer Object for starting a reindex.
+ *
+ * @property type - (Optional) Collection type to rebuild (default: `posts_vectors`).
+ * @property source - (Optional) Where vectors come from: `stored` rebuilds posts from the
+ *   embeddings stored in MySQL, with the configured embedding models and a fresh payload;
+ *   `collection` copies the points of the live collection (default: `stored`).
+ * @property distance - (Optional) Distance metric of every vector of the new collection
+ *   (default: the configured or live one).
+ */
+export interface ReindexVectorsDto {
+  type?: 'posts_vectors' | 'earthquakes';
+  source?: 'stored' | 'collection';
+  distance?: 'Cosine' | 'Dot' | 'Euclid';
+}
+
+/**
+ * Represents a rebuild of a Qdrant collection behind its alias.
+ *
+ * @property id - Identifier of the job.
+ * @property collection_type - Alias being rebuilt (e.g. `posts_vectors`).
+ * @property source - Where vectors come from (`stored` or `collection`).
+ * @property target_collection - Physical collection being built.
+ * @property previous_collection - Physical collection the alias pointed at before the swap.
+ * @property vectors - Size and distance of each vector of the new collection, by name
+ *   (`""` for a collection with a single unnamed vector).
+ * @property status - `building`, `swapped`, `rolled_back`, `failed`, or
+ *   `failed_after_swap` (the alias swap started but did not finish; both
+ *   collections are kept for an operator to recover).
+ * @property indexed - Points written to the new collection.
+ * @property skipped - Vectors left out (e.g. wrong dimensions).
+ * @property error - Error the job failed with, if any.
+ */
+export interface VectorReindexJobResponseDto {
+  id: number;
+  collection_type: string;
+  source: 'stored' | 'collection';
+  target_collection: string | null;
+  previous_collection: string | null;
+  vectors: Record<string, { size: number; distance: string }> | null;
+  status:
+    'building' | 'swapped' | 'rolled_back' | 'failed' | 'failed_after_swap';
+  indexed: number;
+  skipped: number;
+  error: string | null;
+  started_at: string;
+  swapped_at: string | null;
+  rolled_back_at: string | null;
+}
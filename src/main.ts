@@ -21,11 +21,13 @@ import { httpPort } from './utils/network';
  */
 async function bootstrap(): Promise<void> {
   /**
-   * Create a new Nest application using the Fastify adapter
+   * Create a new Nest application using the Fastify adapter.
+   * The raw body is kept to verify source request signatures.
    */
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
     new FastifyAdapter(),
+    { rawBody: true },
   );
 
   /**
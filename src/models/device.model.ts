@@ -108,6 +108,13 @@ export class Device extends Model<Device> {
   })
   quietHours: boolean;
 
+  @AllowNull(false)
+  @Column({
+    type: DataType.BOOLEAN,
+    defaultValue: false,
+  })
+  topicAlerts: boolean;
+
   @AllowNull(false)
   @Column({
     type: DataType.DATE,
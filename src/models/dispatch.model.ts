@@ -0,0 +1,87 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  CreatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'dispatches',
+  timestamps: true,
+  createdAt: 'dispatched_at',
+  updatedAt: false,
+})
+export class Dispatch extends Model<Dispatch> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  target: string;
+
+  @Column({
+    type: DataType.ENUM('success', 'failed', 'skipped'),
+    allowNull: false,
+  })
+  status: 'success' | 'failed' | 'skipped';
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  attempts: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  status_code: number | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  error: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  duration_ms: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  since_minutes: number;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  payload: unknown;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  dispatched_at: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  completed_at: Date | null;
+}
@@ -7,3 +7,17 @@ export { Draft } from './draft.model';
 export { Device } from './device.model';
 export { ReadPost } from './read-post.model';
 export { Analytics } from './analytics.model';
+export { Topic } from './topic.model';
+export { Seed } from './seed.model';
+export { TopicWatermark } from './topic-watermark.model';
+export { TopicSnapshot } from './topic-snapshot.model';
+export { TopicSample } from './topic-sample.model';
+export { TopicSpike } from './topic-spike.model';
+export { Dispatch } from './dispatch.model';
+export { SourceKey } from './source-key.model';
+export { PostSimilarity } from './post-similarity.model';
+export { IngestDeadLetter } from './ingest-dead-letter.model';
+export { VectorReconcileRun } from './vector-reconcile-run.model';
+export { VectorReindexJob } from './vector-reindex-job.model';
+export { IngestDelivery } from './ingest-delivery.model';
+export { IngestDeliveryItem } from './ingest-delivery-item.model';
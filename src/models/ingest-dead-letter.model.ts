@@ -0,0 +1,101 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'ingest_dead_letters',
+  timestamps: true,
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+})
+export class IngestDeadLetter extends Model<IngestDeadLetter> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  source: string | null;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  source_id: string | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: false,
+  })
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: DataType.ENUM('pending', 'failed', 'replayed'),
+    allowNull: false,
+    defaultValue: 'pending',
+  })
+  status: 'pending' | 'failed' | 'replayed';
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 1,
+  })
+  attempts: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+  })
+  error: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  stack: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  next_attempt_at: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  last_attempt_at: Date;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  post_uuid: string | null;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  created_at: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updated_at: Date;
+}
@@ -0,0 +1,113 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { IngestDelivery } from './ingest-delivery.model';
+
+@Table({
+  tableName: 'ingest_delivery_items',
+  timestamps: false,
+  indexes: [
+    {
+      name: 'idx_ingest_delivery_items_delivery_position',
+      unique: true,
+      fields: ['delivery_id', 'position'],
+    },
+    {
+      name: 'idx_ingest_delivery_items_status_lease',
+      fields: ['status', 'lease_until'],
+    },
+  ],
+})
+export class IngestDeliveryItem extends Model<IngestDeliveryItem> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @ForeignKey(() => IngestDelivery)
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: false,
+  })
+  delivery_id: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  position: number;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  item_id: string | null;
+
+  @Column({
+    type: DataType.ENUM(
+      'pending',
+      'processing',
+      'accepted',
+      'rejected',
+      'duplicate',
+    ),
+    allowNull: false,
+  })
+  status: 'pending' | 'processing' | 'accepted' | 'rejected' | 'duplicate';
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  payload: Record<string, unknown> | null;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: true,
+  })
+  created: boolean | null;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  post_id: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  duplicate_of: number | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  errors: Array<{ field: string; messages: string[] }> | null;
+
+  // Replica working on a pending item, and until when its claim holds
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  owner: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lease_until: Date | null;
+
+  // Relationships
+  @BelongsTo(() => IngestDelivery)
+  delivery: IngestDelivery;
+}
@@ -0,0 +1,59 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  CreatedAt,
+  HasMany,
+} from 'sequelize-typescript';
+import { IngestDeliveryItem } from './ingest-delivery-item.model';
+
+@Table({
+  tableName: 'ingest_deliveries',
+  timestamps: true,
+  createdAt: 'created_at',
+  updatedAt: false,
+  indexes: [
+    {
+      name: 'idx_ingest_deliveries_completed_at',
+      fields: ['completed_at'],
+    },
+  ],
+})
+export class IngestDelivery extends Model<IngestDelivery> {
+  @PrimaryKey
+  @Column({
+    type: DataType.STRING(32),
+  })
+  id: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  total: number;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  created_at: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  started_at: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  completed_at: Date | null;
+
+  // Relationships
+  @HasMany(() => IngestDeliveryItem)
+  items: IngestDeliveryItem[];
+}
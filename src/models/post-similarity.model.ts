@@ -0,0 +1,59 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+} from 'sequelize-typescript';
+import { Post } from './post.model';
+
+/**
+ * Near-duplicate relationship found when a post was ingested: `post_id` is
+ * the new post and `similar_post_id` the earlier post it resembles.
+ */
+@Table({
+  tableName: 'post_similarities',
+  timestamps: true,
+  createdAt: 'detected_at',
+  updatedAt: false,
+})
+export class PostSimilarity extends Model<PostSimilarity> {
+  @PrimaryKey
+  @ForeignKey(() => Post)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  post_id: number;
+
+  @PrimaryKey
+  @ForeignKey(() => Post)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  similar_post_id: number;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+  })
+  score: number;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  detected_at: Date;
+
+  // Relationships
+  @BelongsTo(() => Post, 'post_id')
+  post: Post;
+
+  @BelongsTo(() => Post, 'similar_post_id')
+  similar_post: Post;
+}
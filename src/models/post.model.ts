@@ -16,6 +16,31 @@ import { Tagging } from './tagging.model';
 @Table({
   tableName: 'posts',
   timestamps: false,
+  indexes: [
+    {
+      name: 'idx_posts_source_source_id',
+      unique: true,
+      fields: ['source', 'source_id'],
+    },
+    {
+      name: 'idx_posts_hash',
+      unique: true,
+      fields: ['hash'],
+    },
+    {
+      name: 'idx_posts_posted_at_id',
+      fields: ['posted_at', 'id'],
+    },
+    {
+      name: 'idx_posts_relevance_id',
+      fields: ['relevance', 'id'],
+    },
+    {
+      name: 'ft_posts_content',
+      type: 'FULLTEXT',
+      fields: ['content'],
+    },
+  ],
 })
 export class Post extends Model<Post> {
   @PrimaryKey
@@ -134,8 +159,35 @@ export class Post extends Model<Post> {
 
   @Column({
     type: DataType.JSON,
+    allowNull: true,
+  })
+  embeddings: Record<string, number[]> | null;
+
+  @Column({
+    type: DataType.ENUM('none', 'pending', 'synced', 'failed'),
+    allowNull: false,
+    defaultValue: 'none',
+  })
+  vector_status: 'none' | 'pending' | 'synced' | 'failed';
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  vector_attempts: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  vector_error: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
   })
-  embedding: any;
+  vector_synced_at: Date | null;
 
   // Relationships
   @BelongsToMany(() => Category, () => Tagging)
@@ -0,0 +1,90 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  Unique,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'source_keys',
+  timestamps: true,
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+})
+export class SourceKey extends Model<SourceKey> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  source: string;
+
+  @Unique
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+  })
+  key_prefix: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  key_hash: string;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: false,
+  })
+  signing_secret: string;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  require_signature: boolean;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  expires_at: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  revoked_at: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  last_used_at: Date | null;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  created_at: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updated_at: Date;
+}
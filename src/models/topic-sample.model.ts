@@ -0,0 +1,52 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  ForeignKey,
+  BelongsTo,
+  CreatedAt,
+} from 'sequelize-typescript';
+import { Post } from './post.model';
+
+@Table({
+  tableName: 'topic_samples',
+  timestamps: true,
+  createdAt: 'created_at',
+  updatedAt: false,
+})
+export class TopicSample extends Model<TopicSample> {
+  @PrimaryKey
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: false,
+  })
+  keyword: string;
+
+  @PrimaryKey
+  @ForeignKey(() => Post)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  post_id: number;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  weight: number;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  created_at: Date;
+
+  // Relationships
+  @BelongsTo(() => Post)
+  post: Post;
+}
@@ -0,0 +1,39 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'topic_snapshots',
+  timestamps: false,
+})
+export class TopicSnapshot extends Model<TopicSnapshot> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: false,
+  })
+  keyword: string;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+  })
+  score: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  captured_at: Date;
+}
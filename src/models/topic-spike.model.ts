@@ -0,0 +1,88 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'topic_spikes',
+  timestamps: true,
+  createdAt: 'detected_at',
+  updatedAt: 'updated_at',
+})
+export class TopicSpike extends Model<TopicSpike> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: false,
+  })
+  keyword: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  mentions: number;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+  })
+  baseline_mean: number;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+  })
+  baseline_stddev: number;
+
+  @Column({
+    type: DataType.FLOAT,
+    allowNull: false,
+  })
+  z_score: number;
+
+  @Column({
+    type: DataType.ENUM('pending', 'confirmed', 'false_positive'),
+    allowNull: false,
+    defaultValue: 'pending',
+  })
+  status: 'pending' | 'confirmed' | 'false_positive';
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  review_notes: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  reviewed_at: Date | null;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  detected_at: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updated_at: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'topic_watermarks',
+  timestamps: true,
+  createdAt: false,
+  updatedAt: 'updated_at',
+})
+export class TopicWatermark extends Model<TopicWatermark> {
+  @PrimaryKey
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  name: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  last_post_id: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  last_created_at: Date | null;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updated_at: Date;
+}
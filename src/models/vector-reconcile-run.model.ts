@@ -0,0 +1,142 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  CreatedAt,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'vector_reconcile_runs',
+  timestamps: true,
+  createdAt: 'started_at',
+  updatedAt: false,
+  indexes: [
+    {
+      name: 'idx_vector_reconcile_runs_active',
+      unique: true,
+      fields: ['active'],
+    },
+  ],
+})
+export class VectorReconcileRun extends Model<VectorReconcileRun> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.ENUM('scheduled', 'manual'),
+    allowNull: false,
+  })
+  trigger: 'scheduled' | 'manual';
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  repair: boolean;
+
+  @Column({
+    type: DataType.ENUM('running', 'completed', 'failed'),
+    allowNull: false,
+    defaultValue: 'running',
+  })
+  status: 'running' | 'completed' | 'failed';
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  posts_scanned: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  points_scanned: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  missing: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  orphaned: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  drifted: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  repaired: number;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  samples: {
+    missing: number[];
+    orphaned: number[];
+    drifted: Array<{ id: number; fields: string[] }>;
+  } | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  error: string | null;
+
+  // Replica executing the run and when it last showed it is alive
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  owner: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  heartbeat_at: Date | null;
+
+  // True while the run executes, so a single run can claim it
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: true,
+  })
+  active: boolean | null;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  started_at: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  completed_at: Date | null;
+}
@@ -0,0 +1,149 @@
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  AutoIncrement,
+  CreatedAt,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import type { VectorSchema } from '../dal/qdrant/vector-schema';
+
+@Table({
+  tableName: 'vector_reindex_jobs',
+  timestamps: true,
+  createdAt: 'started_at',
+  updatedAt: 'updated_at',
+  indexes: [
+    {
+      name: 'idx_vector_reindex_jobs_active_type',
+      unique: true,
+      fields: ['active_type'],
+    },
+  ],
+})
+export class VectorReindexJob extends Model<VectorReindexJob> {
+  @PrimaryKey
+  @AutoIncrement
+  @Column({
+    type: DataType.INTEGER,
+  })
+  id: number;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  collection_type: string;
+
+  @Column({
+    type: DataType.ENUM('stored', 'collection'),
+    allowNull: false,
+  })
+  source: 'stored' | 'collection';
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  target_collection: string | null;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  previous_collection: string | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  vectors: VectorSchema | null;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  legacy_copy: string | null;
+
+  @Column({
+    type: DataType.ENUM(
+      'building',
+      'swapped',
+      'rolled_back',
+      'failed',
+      'failed_after_swap',
+    ),
+    allowNull: false,
+    defaultValue: 'building',
+  })
+  status:
+    'building' | 'swapped' | 'rolled_back' | 'failed' | 'failed_after_swap';
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  indexed: number;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  skipped: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  error: string | null;
+
+  // Replica building the job and when it last showed it is alive
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  owner: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  heartbeat_at: Date | null;
+
+  // Collection type while the job builds, so one job per type can claim it
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  active_type: string | null;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  started_at: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  swapped_at: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  rolled_back_at: Date | null;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updated_at: Date;
+}
@@ -0,0 +1,58 @@
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker(3, 1000);
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(0)).toBe('closed');
+    expect(breaker.tryAcquire(0)).toBe(true);
+  });
+
+  it('should open after consecutive failures', () => {
+    [0, 0, 0].forEach((now) => breaker.recordFailure(now));
+
+    expect(breaker.getState(500)).toBe('open');
+    expect(breaker.tryAcquire(500)).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(0)).toBe('closed');
+  });
+
+  it('should let a single trial through once the reset time elapsed', () => {
+    [0, 0, 0].forEach((now) => breaker.recordFailure(now));
+
+    expect(breaker.getState(1000)).toBe('half_open');
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.tryAcquire(1000)).toBe(false);
+  });
+
+  it('should close after a successful trial', () => {
+    [0, 0, 0].forEach((now) => breaker.recordFailure(now));
+    breaker.tryAcquire(1000);
+    breaker.recordSuccess();
+
+    expect(breaker.getState(1000)).toBe('closed');
+  });
+
+  it('should reopen after a failed trial', () => {
+    [0, 0, 0].forEach((now) => breaker.recordFailure(now));
+    breaker.tryAcquire(1000);
+    breaker.recordFailure(1000);
+
+    expect(breaker.getState(1500)).toBe('open');
+    expect(breaker.getState(2000)).toBe('half_open');
+  });
+});
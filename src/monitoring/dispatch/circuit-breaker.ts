@@ -0,0 +1,66 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Consecutive-failure circuit breaker.
+ *
+ * The circuit opens after `threshold` consecutive failures. Once
+ * `resetMs` has elapsed, a single trial request is let through (half open):
+ * success closes the circuit, failure opens it again.
+ *
+ * @remarks
+ * State lives in process memory: each replica keeps its own breaker per
+ * target and counts only its own failures, so a target that is down is
+ * still tried once per replica until every breaker has opened.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+
+  private openedAt: number | null = null;
+
+  private trialInFlight = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly resetMs: number,
+  ) {}
+
+  /**
+   * Current state of the circuit.
+   */
+  getState(now = Date.now()): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return now - this.openedAt >= this.resetMs ? 'half_open' : 'open';
+  }
+
+  /**
+   * Whether a request may be attempted. In the half-open state only one
+   * trial is allowed until its outcome is recorded.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    const state = this.getState(now);
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.threshold) {
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+}
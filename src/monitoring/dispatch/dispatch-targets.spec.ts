@@ -0,0 +1,84 @@
+import {
+  DEFAULT_TEMPLATE,
+  loadDispatchTargets,
+  renderTemplate,
+} from './dispatch-targets';
+
+describe('Dispatch targets', () => {
+  describe('loadDispatchTargets', () => {
+    it('should fall back to the n8n webhook', () => {
+      const [target, ...rest] = loadDispatchTargets({
+        N8N_WEBHOOK: 'https://n8n.example.com/webhook',
+        N8N_API_KEY: 'key',
+      });
+
+      expect(rest).toHaveLength(0);
+      expect(target).toMatchObject({
+        name: 'n8n',
+        url: 'https://n8n.example.com/webhook',
+        apiKey: 'key',
+        template: DEFAULT_TEMPLATE,
+        maxAttempts: 3,
+      });
+    });
+
+    it('should read targets from DISPATCH_TARGETS', () => {
+      const targets = loadDispatchTargets({
+        N8N_WEBHOOK: 'https://ignored.example.com',
+        DISPATCH_TARGETS: JSON.stringify([
+          { name: 'a', url: 'https://a.example.com', secret: 's' },
+          { name: 'b', url: 'https://b.example.com', timeoutMs: 2000 },
+        ]),
+      });
+
+      expect(targets.map((target) => target.name)).toEqual(['a', 'b']);
+      expect(targets[0].secret).toBe('s');
+      expect(targets[1].timeoutMs).toBe(2000);
+    });
+
+    it('should reject targets without a url or with a repeated name', () => {
+      expect(() =>
+        loadDispatchTargets({ DISPATCH_TARGETS: '[{"name":"a"}]' }),
+      ).toThrow('needs a name and a url');
+      expect(() =>
+        loadDispatchTargets({
+          DISPATCH_TARGETS:
+            '[{"name":"a","url":"https://a"},{"name":"a","url":"https://b"}]',
+        }),
+      ).toThrow('defined twice');
+    });
+
+    it('should return no targets when nothing is configured', () => {
+      expect(loadDispatchTargets({})).toEqual([]);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    const variables = { keywords: ['chile', 'new york'], since: 60 };
+
+    it('should keep the type of whole-string placeholders', () => {
+      expect(renderTemplate(DEFAULT_TEMPLATE, variables)).toEqual({
+        keywords: ['chile', 'new york'],
+        since: 60,
+      });
+    });
+
+    it('should interpolate placeholders inside text and nested values', () => {
+      expect(
+        renderTemplate(
+          { text: 'Last {{ since }} min: {{keywords}}', list: ['{{since}}'] },
+          variables,
+        ),
+      ).toEqual({
+        text: 'Last 60 min: ["chile","new york"]',
+        list: [60],
+      });
+    });
+
+    it('should render unknown placeholders as empty', () => {
+      expect(
+        renderTemplate({ a: '{{missing}}', b: 'x{{missing}}' }, {}),
+      ).toEqual({ a: null, b: 'x' });
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * An outbound webhook the trigger is dispatched to.
+ *
+ * @property name - Unique name, used in dispatch history and logs.
+ * @property url - Endpoint receiving a POST with the rendered payload.
+ * @property apiKey - Sent as `x-api-key`, if set.
+ * @property secret - Signs the body with HMAC-SHA256, if set.
+ * @property template - Payload template; see `renderTemplate()`.
+ * @property headers - Extra headers sent with every request.
+ * @property timeoutMs - Timeout of each attempt.
+ * @property maxAttempts - Attempts per dispatch, including the first one.
+ * @property backoffMs - Delay before the first retry, doubled on each retry.
+ * @property breakerThreshold - Consecutive failed dispatches that open the circuit.
+ * @property breakerResetMs - Time the circuit stays open before a trial dispatch.
+ */
+export interface DispatchTarget {
+  name: string;
+  url: string;
+  apiKey?: string;
+  secret?: string;
+  template: unknown;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  maxAttempts: number;
+  backoffMs: number;
+  breakerThreshold: number;
+  breakerResetMs: number;
+}
+
+/**
+ * Payload sent when a target has no template: the shape n8n has always received.
+ */
+export const DEFAULT_TEMPLATE = {
+  keywords: '{{keywords}}',
+  since: '{{since}}',
+};
+
+/**
+ * Reads the dispatch targets from the environment.
+ *
+ * `DISPATCH_TARGETS` holds a JSON array of targets; only `name` and `url` are
+ * required. Without it, a single `n8n` target is built from `N8N_WEBHOOK` and
+ * `N8N_API_KEY`.
+ *
+ * @throws Error if `DISPATCH_TARGETS` is not a valid array of targets.
+ */
+export function loadDispatchTargets(
+  env: NodeJS.ProcessEnv = process.env,
+): DispatchTarget[] {
+  let configs: Array<Partial<DispatchTarget>>;
+
+  if (env.DISPATCH_TARGETS) {
+    configs = JSON.parse(env.DISPATCH_TARGETS);
+    if (!Array.isArray(configs)) {
+      throw new Error('DISPATCH_TARGETS must be a JSON array');
+    }
+  } else if (env.N8N_WEBHOOK) {
+    configs = [{ name: 'n8n', url: env.N8N_WEBHOOK, apiKey: env.N8N_API_KEY }];
+  } else {
+    configs = [];
+  }
+
+  const names = new Set<string>();
+  return configs.map((config, index) => {
+    if (!config?.name || !config.url) {
+      throw new Error(`Dispatch target #${index} needs a name and a url`);
+    }
+    if (names.has(config.name)) {
+      throw new Error(`Dispatch target "${config.name}" is defined twice`);
+    }
+    names.add(config.name);
+
+    return {
+      name: config.name,
+      url: config.url,
+      apiKey: config.apiKey,
+      secret: config.secret,
+      template: config.template ?? DEFAULT_TEMPLATE,
+      headers: config.headers ?? {},
+      timeoutMs: config.timeoutMs ?? 10000,
+      maxAttempts: Math.max(config.maxAttempts ?? 3, 1),
+      backoffMs: config.backoffMs ?? 1000,
+      breakerThreshold: Math.max(config.breakerThreshold ?? 5, 1),
+      breakerResetMs: config.breakerResetMs ?? 5 * 60 * 1000,
+    };
+  });
+}
+
+/**
+ * Renders a payload template.
+ *
+ * Strings that are exactly `{{name}}` are replaced by the variable's value,
+ * keeping its type (so `"{{keywords}}"` becomes an array). Placeholders
+ * embedded in longer strings are interpolated as text. Unknown variables
+ * render as null or an empty string.
+ *
+ * @param template - Any JSON value.
+ * @param variables - Values available to placeholders.
+ */
+export function renderTemplate(
+  template: unknown,
+  variables: Record<string, unknown>,
+): unknown {
+  if (typeof template === 'string') {
+    const exact = template.match(/^\{\{\s*(\w+)\s*\}\}$/);
+    if (exact) {
+      return variables[exact[1]] ?? null;
+    }
+
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => renderTemplate(item, variables));
+  }
+
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        renderTemplate(value, variables),
+      ]),
+    );
+  }
+
+  return template;
+}
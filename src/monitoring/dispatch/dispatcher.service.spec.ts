@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import { DispatcherService } from './dispatcher.service';
+
+const mockPost = jest.fn();
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { post: (...args: unknown[]) => mockPost(...args) },
+}));
+
+describe('DispatcherService', () => {
+  const env = { ...process.env };
+
+  const dispatchModel = { create: jest.fn(), findOne: jest.fn() };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * Creates the service with a single target, retried without delay.
+   */
+  const createService = (target: Record<string, unknown> = {}) => {
+    process.env.DISPATCH_TARGETS = JSON.stringify([
+      {
+        name: 'hook',
+        url: 'https://hooks.example.com/trigger',
+        maxAttempts: 3,
+        backoffMs: 0,
+        ...target,
+      },
+    ]);
+    return new DispatcherService(
+      dispatchModel as any,
+      cloudWatchService as any,
+    );
+  };
+
+  /**
+   * An axios timeout error.
+   */
+  const timeout = () =>
+    Object.assign(new Error('timeout of 10000ms exceeded'), {
+      code: 'ECONNABORTED',
+    });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    dispatchModel.create.mockImplementation((fields) =>
+      Promise.resolve(fields),
+    );
+    dispatchModel.findOne.mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('dispatch', () => {
+    it('should retry a 5xx response until it succeeds', async () => {
+      mockPost
+        .mockResolvedValueOnce({ status: 502 })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const [dispatch] = await createService().dispatch({ keywords: [] });
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(dispatch).toMatchObject({
+        status: 'success',
+        attempts: 2,
+        status_code: 200,
+      });
+    });
+
+    it('should retry a timed out attempt', async () => {
+      mockPost.mockRejectedValueOnce(timeout()).mockResolvedValueOnce({
+        status: 204,
+      });
+
+      const [dispatch] = await createService().dispatch({});
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(mockPost.mock.calls[0][2]).toMatchObject({ timeout: 10000 });
+      expect(dispatch).toMatchObject({ status: 'success', attempts: 2 });
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockPost.mockRejectedValue(timeout());
+
+      const [dispatch] = await createService().dispatch({});
+
+      expect(mockPost).toHaveBeenCalledTimes(3);
+      expect(dispatch).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        status_code: null,
+        error: 'timeout of 10000ms exceeded',
+      });
+    });
+
+    it('should not retry a 400 response', async () => {
+      mockPost.mockResolvedValue({ status: 400 });
+
+      const [dispatch] = await createService().dispatch({});
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(dispatch).toMatchObject({
+        status: 'failed',
+        attempts: 1,
+        status_code: 400,
+        error: 'HTTP 400',
+      });
+    });
+
+    it('should retry a 429 response', async () => {
+      mockPost
+        .mockResolvedValueOnce({ status: 429 })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const [dispatch] = await createService().dispatch({});
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(dispatch).toMatchObject({ status: 'success', attempts: 2 });
+    });
+
+    it('should skip a target whose circuit is open', async () => {
+      mockPost.mockResolvedValue({ status: 503 });
+      const service = createService({ breakerThreshold: 1 });
+      await service.dispatch({});
+      mockPost.mockClear();
+
+      const [dispatch] = await service.dispatch({});
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(dispatch).toMatchObject({
+        status: 'skipped',
+        attempts: 0,
+        error: 'Circuit open',
+      });
+      expect(cloudWatchService.sendMetric).toHaveBeenLastCalledWith(
+        'DispatchFailure',
+        1,
+        { Target: 'hook' },
+      );
+    });
+
+    it('should sign the body with the target secret', async () => {
+      mockPost.mockResolvedValue({ status: 200 });
+
+      await createService({ secret: 'shh' }).dispatch({});
+
+      const [, body, { headers }] = mockPost.mock.calls[0];
+      expect(JSON.parse(body)).toMatchObject({ since: 60 });
+      expect(headers['x-signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(headers['x-signature-timestamp']).toMatch(/^\d+$/);
+    });
+  });
+});
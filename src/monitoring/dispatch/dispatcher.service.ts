@@ -0,0 +1,351 @@
+import { Injectable } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import axios from 'axios';
+import { Op } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { DispatchResponseDto } from 'src/dto';
+import { Dispatch } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { signBody } from 'src/utils/signature';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  DispatchTarget,
+  loadDispatchTargets,
+  renderTemplate,
+} from './dispatch-targets';
+
+/**
+ * Outcome of a single HTTP attempt chain against one target.
+ */
+interface AttemptResult {
+  ok: boolean;
+  attempts: number;
+  statusCode: number | null;
+  error: string | null;
+}
+
+/**
+ * Service responsible for delivering the trigger to outbound webhooks.
+ *
+ * The `DispatcherService` handles:
+ * - Rendering each target's payload template.
+ * - Signing request bodies with HMAC-SHA256.
+ * - Retrying failed attempts with exponential backoff, within a per-attempt timeout.
+ * - Skipping targets whose circuit breaker is open.
+ * - Recording every dispatch and its outcome for the history endpoint.
+ *
+ * Environment Variables:
+ * - `DISPATCH_TARGETS`: JSON array of targets (see `loadDispatchTargets()`).
+ * - `N8N_WEBHOOK` / `N8N_API_KEY`: Single target used when `DISPATCH_TARGETS` is not set.
+ * - `DISPATCH_HISTORY_DAYS`: Days dispatch records are kept (default: 14).
+ *
+ * @remarks
+ * Signed requests carry `x-signature-timestamp` (unix seconds) and
+ * `x-signature: sha256=<hex>`, the HMAC of `<timestamp>.<body>` with the
+ * target's secret.
+ *
+ * The `since` variable is the lookback window in minutes: the usual 60,
+ * widened to the time since the target's last successful dispatch (up to a
+ * day), so a target coming back from an outage catches up on what it missed.
+ *
+ * Circuit breakers live in process memory, per replica.
+ */
+@Injectable()
+export class DispatcherService {
+  @Logger(DispatcherService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly targets: DispatchTarget[] = loadDispatchTargets();
+
+  private readonly breakers = new Map<string, CircuitBreaker>(
+    this.targets.map((target) => [
+      target.name,
+      new CircuitBreaker(target.breakerThreshold, target.breakerResetMs),
+    ]),
+  );
+
+  /**
+   * Days dispatch records are kept.
+   */
+  private readonly historyDays = Math.max(
+    Number(process.env.DISPATCH_HISTORY_DAYS) || 14,
+    1,
+  );
+
+  /**
+   * Default and upper bound of the `since` window in minutes.
+   */
+  private readonly defaultSinceMinutes = 60;
+  private readonly maxSinceMinutes = 24 * 60;
+
+  constructor(
+    @InjectModel(Dispatch)
+    private dispatchModel: typeof Dispatch,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Dispatches to every configured target in parallel.
+   * Never throws: failures are logged and recorded.
+   *
+   * @param variables - Template variables shared by all targets (e.g. `keywords`).
+   */
+  async dispatch(variables: Record<string, unknown>): Promise<Dispatch[]> {
+    if (this.targets.length === 0) {
+      this.logger.warn('No dispatch targets configured');
+      return [];
+    }
+
+    const results = await Promise.all(
+      this.targets.map((target) => this.dispatchTo(target, variables)),
+    );
+
+    return results.filter((result): result is Dispatch => !!result);
+  }
+
+  /**
+   * Lists recent dispatches, newest first.
+   *
+   * @param target - Only dispatches to this target, if given.
+   * @param limit - Maximum number of dispatches to return.
+   */
+  async getHistory(
+    target: string | undefined,
+    limit: number,
+  ): Promise<DispatchResponseDto[]> {
+    const dispatches = await this.dispatchModel.findAll({
+      where: target ? { target } : {},
+      order: [['dispatched_at', 'DESC']],
+      limit,
+    });
+
+    return dispatches.map((dispatch) => ({
+      id: dispatch.id,
+      target: dispatch.target,
+      status: dispatch.status,
+      attempts: dispatch.attempts,
+      status_code: dispatch.status_code,
+      error: dispatch.error,
+      duration_ms: dispatch.duration_ms,
+      since_minutes: dispatch.since_minutes,
+      circuit: this.breakers.get(dispatch.target)?.getState() ?? null,
+      dispatched_at: dispatch.dispatched_at.toISOString(),
+      completed_at: dispatch.completed_at
+        ? dispatch.completed_at.toISOString()
+        : null,
+    }));
+  }
+
+  /**
+   * Deletes dispatch records past the retention window.
+   * Runs daily at 03:30.
+   */
+  @Cron('30 3 * * *')
+  async pruneHistory(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - this.historyDays * 24 * 60 * 60 * 1000,
+      );
+      const deletedCount = await this.dispatchModel.destroy({
+        where: { dispatched_at: { [Op.lt]: cutoff } },
+      });
+
+      this.logger.log('Pruned dispatch history', { deletedCount });
+    } catch (error) {
+      this.logger.error('Failed to prune dispatch history:', error);
+    }
+  }
+
+  /**
+   * Renders, sends and records a dispatch to one target.
+   */
+  private async dispatchTo(
+    target: DispatchTarget,
+    variables: Record<string, unknown>,
+  ): Promise<Dispatch | null> {
+    const startTime = Date.now();
+    const breaker = this.breakers.get(target.name)!;
+
+    try {
+      const since = await this.getSinceMinutes(target.name);
+      const payload = renderTemplate(target.template, {
+        ...variables,
+        since,
+        target: target.name,
+        dispatchedAt: new Date(startTime).toISOString(),
+      });
+
+      let result: AttemptResult;
+      if (breaker.tryAcquire()) {
+        result = await this.send(target, payload);
+        if (result.ok) {
+          breaker.recordSuccess();
+        } else {
+          breaker.recordFailure();
+        }
+      } else {
+        result = {
+          ok: false,
+          attempts: 0,
+          statusCode: null,
+          error: 'Circuit open',
+        };
+      }
+
+      const durationMs = Date.now() - startTime;
+      const status = result.ok
+        ? 'success'
+        : result.attempts === 0
+          ? 'skipped'
+          : 'failed';
+
+      const dispatch = await this.dispatchModel.create({
+        target: target.name,
+        status,
+        attempts: result.attempts,
+        status_code: result.statusCode,
+        error: result.error,
+        duration_ms: durationMs,
+        since_minutes: since,
+        payload,
+        completed_at: new Date(),
+      } as any);
+
+      const logContext = {
+        target: target.name,
+        status,
+        attempts: result.attempts,
+        statusCode: result.statusCode,
+        circuit: breaker.getState(),
+        durationMs,
+      };
+      if (result.ok) {
+        this.logger.log('Dispatch delivered', logContext);
+      } else {
+        this.logger.warn('Dispatch not delivered', {
+          ...logContext,
+          error: result.error,
+        });
+      }
+
+      await this.cloudWatchService.sendMetric(
+        result.ok ? 'DispatchSuccess' : 'DispatchFailure',
+        1,
+        { Target: target.name },
+      );
+
+      return dispatch;
+    } catch (error) {
+      this.logger.error('Failed to dispatch', '', {
+        target: target.name,
+        error: error.message,
+        stack: error.stack,
+        durationMs: Date.now() - startTime,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Posts the payload, retrying with exponential backoff.
+   * 4xx responses other than 408 and 429 are not retried.
+   */
+  private async send(
+    target: DispatchTarget,
+    payload: unknown,
+  ): Promise<AttemptResult> {
+    const body = JSON.stringify(payload);
+    let statusCode: number | null = null;
+    let lastError: string | null = null;
+
+    for (let attempt = 1; attempt <= target.maxAttempts; attempt++) {
+      try {
+        const response = await axios.post(target.url, body, {
+          headers: this.buildHeaders(target, body),
+          timeout: target.timeoutMs,
+          validateStatus: () => true,
+        });
+        statusCode = response.status;
+
+        if (response.status >= 200 && response.status < 300) {
+          return { ok: true, attempts: attempt, statusCode, error: null };
+        }
+
+        lastError = `HTTP ${response.status}`;
+        if (
+          response.status < 500 &&
+          response.status !== 408 &&
+          response.status !== 429
+        ) {
+          return { ok: false, attempts: attempt, statusCode, error: lastError };
+        }
+      } catch (error) {
+        statusCode = null;
+        lastError = error.message;
+      }
+
+      if (attempt < target.maxAttempts) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, target.backoffMs * 2 ** (attempt - 1)),
+        );
+      }
+    }
+
+    return {
+      ok: false,
+      attempts: target.maxAttempts,
+      statusCode,
+      error: lastError,
+    };
+  }
+
+  /**
+   * Builds the request headers, signing the body if the target has a secret.
+   */
+  private buildHeaders(
+    target: DispatchTarget,
+    body: string,
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...target.headers,
+      'content-type': 'application/json',
+    };
+
+    if (target.apiKey) {
+      headers['x-api-key'] = target.apiKey;
+    }
+
+    if (target.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      headers['x-signature-timestamp'] = timestamp;
+      headers['x-signature'] = signBody(target.secret, timestamp, body);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Lookback window for the target, covering the time since its last success.
+   */
+  private async getSinceMinutes(target: string): Promise<number> {
+    const lastSuccess = await this.dispatchModel.findOne({
+      where: { target, status: 'success' },
+      order: [['dispatched_at', 'DESC']],
+      attributes: ['dispatched_at'],
+    });
+
+    if (!lastSuccess) {
+      return this.defaultSinceMinutes;
+    }
+
+    const minutes = Math.ceil(
+      (Date.now() - lastSuccess.dispatched_at.getTime()) / 60000,
+    );
+    return Math.min(
+      Math.max(minutes, this.defaultSinceMinutes),
+      this.maxSinceMinutes,
+    );
+  }
+}
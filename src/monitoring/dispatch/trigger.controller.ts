@@ -0,0 +1,25 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { DispatchResponseDto } from 'src/dto';
+import { DispatcherService } from './dispatcher.service';
+
+/**
+ * Admin endpoints for inspecting outbound trigger dispatches.
+ * All routes require an authenticated user.
+ */
+@Controller('trigger')
+export class TriggerController {
+  constructor(private readonly dispatcherService: DispatcherService) {}
+
+  /**
+   * Recent dispatches and their outcomes, optionally for one target
+   * GET /trigger/history
+   */
+  @Get('history')
+  async getHistory(
+    @Query('target') target?: string,
+    @Query('limit') limit?: number,
+  ): Promise<DispatchResponseDto[]> {
+    const parsedLimit = limit && limit > 0 && limit <= 200 ? Number(limit) : 50;
+    return await this.dispatcherService.getHistory(target, parsedLimit);
+  }
+}
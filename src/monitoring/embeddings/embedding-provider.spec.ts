@@ -0,0 +1,41 @@
+import { LocalEmbeddingProvider } from './embedding-provider';
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+  const model = { name: 'minilm-384', size: 384, distance: 'Cosine' as const };
+  const cosine = (a: number[], b: number[]) =>
+    a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+  it('should return normalized embeddings of the model size', async () => {
+    const [embedding] = await provider.embed(['Earthquake hits Chile'], model);
+
+    expect(embedding).toHaveLength(384);
+    expect(cosine(embedding, embedding)).toBeCloseTo(1);
+  });
+
+  it('should be deterministic', async () => {
+    const [a] = await provider.embed(['Earthquake hits Chile'], model);
+    const [b] = await provider.embed(['earthquake   hits chile!'], model);
+
+    expect(a).toEqual(b);
+  });
+
+  it('should place texts sharing words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed(
+      [
+        'strong earthquake in Chile',
+        'earthquake shakes northern Chile',
+        'football final tonight',
+      ],
+      model,
+    );
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should embed empty text as a unit vector', async () => {
+    const [embedding] = await provider.embed([''], model);
+
+    expect(cosine(embedding, embedding)).toBeCloseTo(1);
+  });
+});
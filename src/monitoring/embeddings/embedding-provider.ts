@@ -0,0 +1,161 @@
+import axios from 'axios';
+import type { EmbeddingModelConfig } from 'src/dal/qdrant/vector-schema';
+
+/**
+ * Injection token of the provider that turns text into embeddings.
+ * Resolves to null when no provider is configured.
+ */
+export const EMBEDDING_PROVIDER = 'EMBEDDING_PROVIDER';
+
+/**
+ * Turns text into embeddings of a given model.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+
+  /**
+   * Embeds each text with the model.
+   *
+   * @returns One embedding of `model.size` numbers per text, in the same order.
+   */
+  embed(texts: string[], model: EmbeddingModelConfig): Promise<number[][]>;
+}
+
+/**
+ * Calls the embedding service over HTTP.
+ *
+ * The service receives `POST <url>` with `{ "model": "<name>", "input": ["..."] }`
+ * and answers `{ "embeddings": [[...], ...] }`, one embedding per input.
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string | undefined,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async embed(
+    texts: string[],
+    model: EmbeddingModelConfig,
+  ): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await axios.post<{ embeddings?: unknown }>(
+      this.url,
+      { model: model.name, input: texts },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        timeout: this.timeoutMs,
+      },
+    );
+
+    const embeddings = response.data?.embeddings;
+    if (
+      !Array.isArray(embeddings) ||
+      embeddings.length !== texts.length ||
+      !embeddings.every(
+        (embedding) =>
+          Array.isArray(embedding) &&
+          embedding.length === model.size &&
+          embedding.every((value) => Number.isFinite(value)),
+      )
+    ) {
+      throw new Error(
+        `Embedding service returned an invalid response for model ${model.name}`,
+      );
+    }
+
+    return embeddings as number[][];
+  }
+}
+
+/**
+ * Deterministic embeddings computed in process, for tests and offline
+ * development. Words and word pairs are hashed into the vector, so texts
+ * sharing words land close together; it carries no semantics beyond that.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+
+  embed(texts: string[], model: EmbeddingModelConfig): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text, model)));
+  }
+
+  private embedOne(text: string, model: EmbeddingModelConfig): number[] {
+    const vector = new Array<number>(model.size).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, index) => `${words[index]} ${word}`),
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(`${model.name}:${feature}`);
+      vector[hash % model.size] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+    if (norm === 0) {
+      // Keep empty text searchable under cosine distance
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((value) => value / norm);
+  }
+}
+
+/**
+ * Creates the provider selected by the environment.
+ *
+ * Environment Variables:
+ * - `EMBEDDING_PROVIDER`: `http`, `local` or `none` (default: `http` when
+ *   `EMBEDDING_SERVICE_URL` is set, otherwise `none`).
+ * - `EMBEDDING_SERVICE_URL`: Endpoint of the embedding service.
+ * - `EMBEDDING_SERVICE_API_KEY`: (Optional) Bearer token for the embedding service.
+ * - `EMBEDDING_SERVICE_TIMEOUT_MS`: Request timeout (default: 10000).
+ *
+ * @throws Error if the provider is unknown or `http` has no URL.
+ */
+export function createEmbeddingProvider(): EmbeddingProvider | null {
+  const url = process.env.EMBEDDING_SERVICE_URL;
+  const kind = process.env.EMBEDDING_PROVIDER || (url ? 'http' : 'none');
+
+  switch (kind) {
+    case 'http':
+      if (!url) {
+        throw new Error(
+          'EMBEDDING_SERVICE_URL is required for http embeddings',
+        );
+      }
+      return new HttpEmbeddingProvider(
+        url,
+        process.env.EMBEDDING_SERVICE_API_KEY || undefined,
+        Math.max(Number(process.env.EMBEDDING_SERVICE_TIMEOUT_MS) || 10000, 1),
+      );
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${kind}`);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,140 @@
+import 'reflect-metadata';
+import { EmbeddingsService } from './embeddings.service';
+
+jest.mock('../vectors/post-vectors.service', () => ({
+  PostVectorsService: class {},
+}));
+
+describe('EmbeddingsService', () => {
+  const env = { ...process.env };
+
+  const model = { name: 'minilm', size: 3, distance: 'Cosine' as const };
+  const postModel = { findAll: jest.fn() };
+  const provider = { name: 'test', embed: jest.fn() };
+  const qdrantService = { getDefaultModel: () => model };
+  const postVectorsService = { sync: jest.fn() };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * A post without embeddings that applies its updates to itself.
+   */
+  const postOf = (id: number, vector_attempts = 0) => {
+    const post: any = {
+      id,
+      content: `post ${id}`,
+      vector_status: 'none',
+      vector_attempts,
+    };
+    post.update = jest.fn((changes) =>
+      Promise.resolve(Object.assign(post, changes)),
+    );
+    return post;
+  };
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (overrides: Record<string, string> = {}) => {
+    Object.assign(process.env, overrides);
+    return new EmbeddingsService(
+      postModel as any,
+      provider,
+      qdrantService as any,
+      postVectorsService as any,
+      cloudWatchService as any,
+    );
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    postVectorsService.sync.mockResolvedValue(true);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('backfill', () => {
+    it('should store the embeddings of the model and sync the posts', async () => {
+      const posts = [postOf(1), postOf(2)];
+      postModel.findAll.mockResolvedValue(posts);
+      provider.embed.mockResolvedValue([
+        [1, 0, 0],
+        [0, 1, 0],
+      ]);
+
+      await createService().backfill();
+
+      expect(posts[1]).toMatchObject({
+        embeddings: { minilm: [0, 1, 0] },
+        vector_status: 'pending',
+        vector_attempts: 0,
+      });
+      expect(postVectorsService.sync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count a failed attempt for every post when the provider returns fewer embeddings', async () => {
+      const posts = [postOf(1), postOf(2, 3)];
+      postModel.findAll.mockResolvedValue(posts);
+      provider.embed.mockResolvedValue([[1, 0, 0]]);
+
+      await createService().backfill();
+
+      expect(posts[0]).toMatchObject({
+        vector_status: 'none',
+        vector_attempts: 1,
+        vector_error: 'Provider returned 1 embeddings for 2 posts',
+      });
+      expect(posts[1].vector_attempts).toBe(4);
+      expect(posts[0].embeddings).toBeUndefined();
+      expect(postVectorsService.sync).not.toHaveBeenCalled();
+    });
+
+    it('should count a failed attempt for a post whose embedding has the wrong size', async () => {
+      const posts = [postOf(1), postOf(2)];
+      postModel.findAll.mockResolvedValue(posts);
+      provider.embed.mockResolvedValue([
+        [1, 0],
+        [0, 1, 0],
+      ]);
+
+      await createService().backfill();
+
+      expect(posts[0]).toMatchObject({
+        vector_status: 'none',
+        vector_attempts: 1,
+        vector_error: 'Embedding has 2 dimensions, model minilm expects 3',
+      });
+      expect(posts[0].embeddings).toBeUndefined();
+      expect(postVectorsService.sync).toHaveBeenCalledWith(posts[1]);
+      expect(cloudWatchService.sendMetric).toHaveBeenCalledWith(
+        'EmbeddingBackfillFailures',
+        1,
+      );
+    });
+
+    it('should mark posts failed once they run out of attempts', async () => {
+      const posts = [postOf(1, 2), postOf(2, 1)];
+      postModel.findAll.mockResolvedValue(posts);
+      provider.embed.mockRejectedValue(new Error('provider down'));
+
+      await createService({ VECTOR_SYNC_MAX_ATTEMPTS: '3' }).backfill();
+
+      expect(posts[0]).toMatchObject({
+        vector_status: 'failed',
+        vector_attempts: 3,
+        vector_error: 'provider down',
+      });
+      expect(posts[1]).toMatchObject({
+        vector_status: 'none',
+        vector_attempts: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Post } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { PostVectorsService } from '../vectors/post-vectors.service';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Service responsible for computing embeddings server-side.
+ *
+ * The `EmbeddingsService` handles:
+ * - Embedding text queries for similarity search.
+ * - Backfilling the default model's embedding of posts ingested without
+ *   embeddings, and handing them to `PostVectorsService`.
+ *
+ * Environment Variables:
+ * - `VECTOR_SYNC_MAX_ATTEMPTS`: Embedding attempts before a post is marked `failed` (default: 10).
+ *
+ * @remarks
+ * The provider comes from `EMBEDDING_PROVIDER` (see `createEmbeddingProvider()`).
+ * Without one, text queries are rejected with 503 and no backfill runs.
+ */
+@Injectable()
+export class EmbeddingsService {
+  @Logger(EmbeddingsService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly maxAttempts = Math.max(
+    Number(process.env.VECTOR_SYNC_MAX_ATTEMPTS) || 10,
+    1,
+  );
+
+  /**
+   * Posts embedded per run, and how long a new post is left alone before
+   * the backfill picks it up.
+   */
+  private readonly backfillBatchSize = 50;
+  private readonly backfillGraceMs = 60 * 1000;
+
+  private backfilling = false;
+
+  constructor(
+    @InjectModel(Post)
+    private postModel: typeof Post,
+    @Inject(EMBEDDING_PROVIDER)
+    private readonly provider: EmbeddingProvider | null,
+    private readonly qdrantService: QdrantService,
+    private readonly postVectorsService: PostVectorsService,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Whether an embedding provider is configured.
+   */
+  isEnabled(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Embeds a text query with a model.
+   *
+   * @param text - The query text.
+   * @param model - Embedding model (default: `EMBEDDING_DEFAULT_MODEL`).
+   * @throws BadRequestException if the text is empty or the model is not configured.
+   * @throws ServiceUnavailableException if no provider is configured or it fails.
+   */
+  async embedQuery(
+    text: string,
+    model: string = this.qdrantService.getDefaultModel().name,
+  ): Promise<number[]> {
+    if (!text?.trim()) {
+      throw new BadRequestException('query must not be empty');
+    }
+    const config = this.qdrantService.getEmbeddingModel(model);
+    if (!config) {
+      throw new BadRequestException(`Unknown embedding model: ${model}`);
+    }
+    if (!this.provider) {
+      throw new ServiceUnavailableException(
+        'Text search needs an embedding provider',
+      );
+    }
+
+    try {
+      const [embedding] = await this.provider.embed([text.trim()], config);
+      return embedding;
+    } catch (error) {
+      this.logger.error('Failed to embed query', '', {
+        provider: this.provider.name,
+        model,
+        error: error?.message,
+      });
+      throw new ServiceUnavailableException('Embedding provider failed');
+    }
+  }
+
+  /**
+   * Embeds posts stored without embeddings and stores their vectors.
+   * Runs every minute.
+   */
+  @Cron('* * * * *')
+  async backfill(): Promise<void> {
+    if (!this.provider || this.backfilling) {
+      return;
+    }
+    this.backfilling = true;
+
+    const model = this.qdrantService.getDefaultModel();
+    try {
+      const posts = await this.postModel.findAll({
+        where: {
+          vector_status: 'none',
+          embeddings: null,
+          vector_attempts: { [Op.lt]: this.maxAttempts },
+          received_at: { [Op.lt]: new Date(Date.now() - this.backfillGraceMs) },
+        },
+        order: [['id', 'ASC']],
+        limit: this.backfillBatchSize,
+      });
+      if (posts.length === 0) {
+        return;
+      }
+
+      let embeddings: number[][];
+      try {
+        embeddings = await this.provider.embed(
+          posts.map((post) => post.content),
+          model,
+        );
+        if (embeddings?.length !== posts.length) {
+          throw new Error(
+            `Provider returned ${embeddings?.length ?? 0} embeddings for ${posts.length} posts`,
+          );
+        }
+      } catch (error) {
+        this.logger.error('Failed to embed posts', '', {
+          provider: this.provider.name,
+          model: model.name,
+          posts: posts.length,
+          error: error?.message,
+        });
+        await this.cloudWatchService.sendMetric('EmbeddingBackfillFailures', 1);
+        for (const post of posts) {
+          await this.recordFailure(post, error?.message ?? String(error));
+        }
+        return;
+      }
+
+      let synced = 0;
+      let invalid = 0;
+      for (const [index, post] of posts.entries()) {
+        const embedding = embeddings[index];
+        if (!Array.isArray(embedding) || embedding.length !== model.size) {
+          invalid++;
+          await this.recordFailure(
+            post,
+            `Embedding has ${Array.isArray(embedding) ? embedding.length : 0} dimensions, model ${model.name} expects ${model.size}`,
+          );
+          continue;
+        }
+
+        await post.update({
+          embeddings: { [model.name]: embedding },
+          vector_status: 'pending',
+          vector_attempts: 0,
+          vector_error: null,
+        });
+        if (await this.postVectorsService.sync(post)) {
+          synced++;
+        }
+      }
+
+      this.logger.log('Backfilled post embeddings', {
+        provider: this.provider.name,
+        model: model.name,
+        embedded: posts.length - invalid,
+        invalid,
+        synced,
+      });
+      if (invalid > 0) {
+        await this.cloudWatchService.sendMetric(
+          'EmbeddingBackfillFailures',
+          invalid,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to backfill post embeddings:', error);
+    } finally {
+      this.backfilling = false;
+    }
+  }
+
+  /**
+   * Counts a failed embedding attempt of a post, marking it `failed` once
+   * it runs out of attempts so the backfill stops picking it up.
+   */
+  private async recordFailure(post: Post, error: string): Promise<void> {
+    const attempts = post.vector_attempts + 1;
+    await post.update({
+      vector_attempts: attempts,
+      vector_error: error,
+      ...(attempts >= this.maxAttempts && { vector_status: 'failed' }),
+    });
+  }
+}
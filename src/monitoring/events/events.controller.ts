@@ -1,5 +1,6 @@
 import { Body, Controller, Get, Param, Post, Put, Query } from '@nestjs/common';
 import { Public } from 'src/decorators/public.decorator';
+import { SourceAuthenticated } from 'src/decorators/source-authenticated.decorator';
 import {
   ClusterRequestDto,
   ClusterResponseDto,
@@ -31,7 +32,7 @@ export class EventsController {
   }
 
   @Post('cluster')
-  @Public()
+  @SourceAuthenticated()
   async processCluster(
     @Body() { input }: { input: ClusterRequestDto },
   ): Promise<ClusterResponseDto> {
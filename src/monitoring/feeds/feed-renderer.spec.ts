@@ -0,0 +1,146 @@
+import {
+  escapeXml,
+  feedEtag,
+  FeedDocument,
+  isNotModified,
+  mediaTypeOf,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+} from './feed-renderer';
+
+const feed: FeedDocument = {
+  id: 'https://monitor.example.com/feeds/posts',
+  title: 'Posts',
+  description: 'Latest posts',
+  link: 'https://monitor.example.com',
+  feedUrl: 'https://monitor.example.com/feeds/posts.rss',
+  updated: new Date('2025-01-15T10:30:00.000Z'),
+  items: [
+    {
+      id: 'V1StGXR8_Z5jdHi6B-myT',
+      title: 'Rates & <markets>',
+      url: 'https://bsky.app/profile/alice/post/1',
+      content: '<p>Rates &amp; markets</p>',
+      published: new Date('2025-01-15T10:30:00.000Z'),
+      author: { name: 'Alice', handle: 'alice.bsky.social' },
+      categories: ['business'],
+      enclosures: [
+        { url: 'https://cdn.example.com/a.jpg', type: 'image/jpeg' },
+      ],
+    },
+  ],
+};
+
+describe('renderRss', () => {
+  it('should render items with escaped text, GUIDs, tags and enclosures', () => {
+    const xml = renderRss(feed);
+
+    expect(xml).toContain('<title>Rates &amp; &lt;markets&gt;</title>');
+    expect(xml).toContain(
+      '<guid isPermaLink="false">V1StGXR8_Z5jdHi6B-myT</guid>',
+    );
+    expect(xml).toContain('<pubDate>Wed, 15 Jan 2025 10:30:00 GMT</pubDate>');
+    expect(xml).toContain(
+      '<dc:creator>Alice (@alice.bsky.social)</dc:creator>',
+    );
+    expect(xml).toContain('<category>business</category>');
+    expect(xml).toContain(
+      '<enclosure url="https://cdn.example.com/a.jpg" length="0" type="image/jpeg"/>',
+    );
+  });
+});
+
+describe('renderAtom', () => {
+  it('should give entries IRI ids under the feed id', () => {
+    const xml = renderAtom(feed);
+
+    expect(xml).toContain(
+      '<id>https://monitor.example.com/feeds/posts/V1StGXR8_Z5jdHi6B-myT</id>',
+    );
+    expect(xml).toContain('<category term="business"/>');
+    expect(xml).toContain(
+      '<link rel="enclosure" href="https://cdn.example.com/a.jpg" type="image/jpeg"/>',
+    );
+  });
+});
+
+describe('renderJsonFeed', () => {
+  it('should render a JSON Feed 1.1 document', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items[0]).toEqual({
+      id: 'V1StGXR8_Z5jdHi6B-myT',
+      title: 'Rates & <markets>',
+      url: 'https://bsky.app/profile/alice/post/1',
+      content_html: '<p>Rates &amp; markets</p>',
+      date_published: '2025-01-15T10:30:00.000Z',
+      authors: [{ name: 'Alice (@alice.bsky.social)' }],
+      tags: ['business'],
+      attachments: [
+        { url: 'https://cdn.example.com/a.jpg', mime_type: 'image/jpeg' },
+      ],
+    });
+  });
+});
+
+describe('isNotModified', () => {
+  const etag = feedEtag('body');
+  const lastModified = new Date('2025-01-15T10:30:00.500Z');
+
+  it('should match entity tags, weak or listed', () => {
+    expect(isNotModified({ ifNoneMatch: etag }, etag, lastModified)).toBe(true);
+    expect(
+      isNotModified({ ifNoneMatch: `"other", W/${etag}` }, etag, lastModified),
+    ).toBe(true);
+    expect(isNotModified({ ifNoneMatch: '"other"' }, etag, lastModified)).toBe(
+      false,
+    );
+  });
+
+  it('should compare modification dates to the second', () => {
+    expect(
+      isNotModified(
+        { ifModifiedSince: lastModified.toUTCString() },
+        etag,
+        lastModified,
+      ),
+    ).toBe(true);
+    expect(
+      isNotModified(
+        { ifModifiedSince: 'Wed, 15 Jan 2025 10:29:59 GMT' },
+        etag,
+        lastModified,
+      ),
+    ).toBe(false);
+  });
+
+  it('should let If-None-Match take precedence', () => {
+    expect(
+      isNotModified(
+        {
+          ifNoneMatch: '"other"',
+          ifModifiedSince: lastModified.toUTCString(),
+        },
+        etag,
+        lastModified,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('helpers', () => {
+  it('should guess media types from extensions', () => {
+    expect(mediaTypeOf('https://cdn.example.com/a.PNG?w=600')).toBe(
+      'image/png',
+    );
+    expect(mediaTypeOf('https://cdn.example.com/blob')).toBe(
+      'application/octet-stream',
+    );
+  });
+
+  it('should drop characters XML cannot carry', () => {
+    expect(escapeXml('a\u0001b "c"')).toBe('ab &quot;c&quot;');
+  });
+});
@@ -0,0 +1,284 @@
+import { createHash } from 'crypto';
+
+/**
+ * Syndication formats a feed is rendered in.
+ */
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Content type of each format.
+ */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * A media file attached to a feed item.
+ */
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+}
+
+/**
+ * An entry of a feed.
+ *
+ * @property id - Stable identifier, used as the GUID.
+ * @property url - Link to the item, if it has one.
+ * @property content - HTML content of the item.
+ * @property summary - Plain-text summary, if different from the content.
+ */
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string | null;
+  content: string;
+  summary?: string;
+  published: Date;
+  updated?: Date;
+  author?: { name: string; handle?: string | null };
+  categories: string[];
+  enclosures: FeedEnclosure[];
+}
+
+/**
+ * A feed and its items, newest first.
+ *
+ * @property id - Stable identifier of the feed, as a URL.
+ * @property link - Home page the feed describes.
+ * @property feedUrl - URL the feed is served from.
+ * @property updated - Latest change to any item.
+ */
+export interface FeedDocument {
+  id: string;
+  title: string;
+  description: string;
+  link: string;
+  feedUrl: string;
+  updated: Date;
+  items: FeedItem[];
+}
+
+/**
+ * Renders a feed in a format.
+ */
+export function renderFeed(feed: FeedDocument, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(feed);
+    case 'atom':
+      return renderAtom(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+  }
+}
+
+/**
+ * Renders a feed as RSS 2.0.
+ */
+export function renderRss(feed: FeedDocument): string {
+  const items = feed.items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      item.url && `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+      item.author &&
+        `      <dc:creator>${escapeXml(authorName(item.author))}</dc:creator>`,
+      ...item.categories.map(
+        (category) => `      <category>${escapeXml(category)}</category>`,
+      ),
+      `      <description>${escapeXml(item.summary ?? item.content)}</description>`,
+      `      <content:encoded>${escapeXml(item.content)}</content:encoded>`,
+      ...item.enclosures.map(
+        (enclosure) =>
+          `      <enclosure url="${escapeXml(enclosure.url)}" length="0" type="${escapeXml(enclosure.type)}"/>`,
+      ),
+      '    </item>',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a feed as Atom 1.0.
+ */
+export function renderAtom(feed: FeedDocument): string {
+  const entries = feed.items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(atomId(feed, item.id))}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      item.url && `    <link rel="alternate" href="${escapeXml(item.url)}"/>`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${(item.updated ?? item.published).toISOString()}</updated>`,
+      item.author &&
+        [
+          '    <author>',
+          `      <name>${escapeXml(authorName(item.author))}</name>`,
+          '    </author>',
+        ].join('\n'),
+      ...item.categories.map(
+        (category) => `    <category term="${escapeXml(category)}"/>`,
+      ),
+      item.summary !== undefined &&
+        `    <summary>${escapeXml(item.summary)}</summary>`,
+      `    <content type="html">${escapeXml(item.content)}</content>`,
+      ...item.enclosures.map(
+        (enclosure) =>
+          `    <link rel="enclosure" href="${escapeXml(enclosure.url)}" type="${escapeXml(enclosure.type)}"/>`,
+      ),
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" href="${escapeXml(feed.feedUrl)}" type="application/atom+xml"/>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders a feed as JSON Feed 1.1.
+ */
+export function renderJsonFeed(feed: FeedDocument): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.link,
+      feed_url: feed.feedUrl,
+      items: feed.items.map((item) => ({
+        id: item.id,
+        title: item.title,
+        ...(item.url && { url: item.url }),
+        content_html: item.content,
+        ...(item.summary !== undefined && { summary: item.summary }),
+        date_published: item.published.toISOString(),
+        ...(item.updated && { date_modified: item.updated.toISOString() }),
+        ...(item.author && {
+          authors: [{ name: authorName(item.author) }],
+        }),
+        tags: item.categories,
+        attachments: item.enclosures.map((enclosure) => ({
+          url: enclosure.url,
+          mime_type: enclosure.type,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Guesses the media type of a media URL from its extension.
+ */
+export function mediaTypeOf(url: string): string {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  const types: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    mov: 'video/quicktime',
+    mp3: 'audio/mpeg',
+  };
+  return (extension && types[extension]) || 'application/octet-stream';
+}
+
+/**
+ * Strong entity tag of a rendered feed.
+ */
+export function feedEtag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Whether a conditional request already has the current feed.
+ *
+ * `If-None-Match` takes precedence over `If-Modified-Since`, which is
+ * compared at the one-second precision of HTTP dates.
+ */
+export function isNotModified(
+  headers: { ifNoneMatch?: string; ifModifiedSince?: string },
+  etag: string,
+  lastModified: Date,
+): boolean {
+  if (headers.ifNoneMatch) {
+    return headers.ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === etag);
+  }
+  if (headers.ifModifiedSince) {
+    const since = Date.parse(headers.ifModifiedSince);
+    return (
+      !isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+    );
+  }
+  return false;
+}
+
+/**
+ * Escapes text for XML content and attribute values.
+ */
+export function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters other than tab and newlines are not allowed in XML
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  );
+}
+
+function authorName(author: { name: string; handle?: string | null }) {
+  return author.handle ? `${author.name} (@${author.handle})` : author.name;
+}
+
+/**
+ * Atom ids must be IRIs; bare identifiers are placed under the feed's id.
+ */
+function atomId(feed: FeedDocument, id: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(id) ? id : `${feed.id}/${id}`;
+}
@@ -0,0 +1,164 @@
+import 'reflect-metadata';
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import { FeedsController } from './feeds.controller';
+
+jest.mock('./feeds.service', () => ({ FeedsService: class {} }));
+
+describe('FeedsController', () => {
+  const lastModified = new Date('2024-05-01T12:00:00Z');
+  const feed = {
+    body: '<rss/>',
+    contentType: 'application/rss+xml; charset=utf-8',
+    etag: '"abc123"',
+    lastModified,
+  };
+
+  const feedsService = {
+    renderPosts: jest.fn(),
+    renderEvents: jest.fn(),
+  };
+  const controller = new FeedsController(feedsService as any);
+
+  /**
+   * A Fastify reply recording its status and headers.
+   */
+  const replyOf = () => {
+    const reply: any = { statusCode: HttpStatus.OK, headers: {} };
+    reply.header = jest.fn((name: string, value: string) => {
+      reply.headers[name] = value;
+      return reply;
+    });
+    reply.status = jest.fn((code: number) => {
+      reply.statusCode = code;
+      return reply;
+    });
+    return reply;
+  };
+
+  /**
+   * A Fastify request with the given headers.
+   */
+  const requestOf = (headers: Record<string, string> = {}) =>
+    ({ headers }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    feedsService.renderPosts.mockResolvedValue(feed);
+    feedsService.renderEvents.mockResolvedValue(feed);
+  });
+
+  describe('getPostsFeed', () => {
+    it('should return the feed with its validators', async () => {
+      const reply = replyOf();
+
+      const body = await controller.getPostsFeed(
+        'rss',
+        'news, tech,',
+        undefined,
+        requestOf(),
+        reply,
+      );
+
+      expect(body).toBe('<rss/>');
+      expect(reply.statusCode).toBe(HttpStatus.OK);
+      expect(reply.headers).toEqual({
+        'Content-Type': feed.contentType,
+        ETag: '"abc123"',
+        'Last-Modified': 'Wed, 01 May 2024 12:00:00 GMT',
+        'Cache-Control': 'public, max-age=60',
+      });
+      expect(feedsService.renderPosts).toHaveBeenCalledWith({
+        format: 'rss',
+        categorySlugs: ['news', 'tech'],
+        limit: 50,
+      });
+    });
+
+    it('should answer 304 with no body to a matching If-None-Match', async () => {
+      const reply = replyOf();
+
+      const body = await controller.getPostsFeed(
+        'atom',
+        undefined,
+        undefined,
+        requestOf({ 'if-none-match': '"abc123"' }),
+        reply,
+      );
+
+      expect(body).toBe('');
+      expect(reply.statusCode).toBe(HttpStatus.NOT_MODIFIED);
+      expect(reply.headers.ETag).toBe('"abc123"');
+    });
+
+    it('should answer 304 to an If-Modified-Since no older than the feed', async () => {
+      const reply = replyOf();
+
+      const body = await controller.getPostsFeed(
+        'json',
+        undefined,
+        undefined,
+        requestOf({ 'if-modified-since': lastModified.toUTCString() }),
+        reply,
+      );
+
+      expect(body).toBe('');
+      expect(reply.statusCode).toBe(HttpStatus.NOT_MODIFIED);
+    });
+
+    it('should return the feed to a client holding an older version', async () => {
+      const reply = replyOf();
+
+      const body = await controller.getPostsFeed(
+        'rss',
+        undefined,
+        undefined,
+        requestOf({
+          'if-none-match': '"old"',
+          'if-modified-since': 'Tue, 30 Apr 2024 12:00:00 GMT',
+        }),
+        reply,
+      );
+
+      expect(body).toBe('<rss/>');
+      expect(reply.statusCode).toBe(HttpStatus.OK);
+    });
+
+    it('should reject an unknown format', async () => {
+      await expect(
+        controller.getPostsFeed(
+          'html',
+          undefined,
+          undefined,
+          requestOf(),
+          replyOf(),
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should fall back to 50 items for a limit out of range', async () => {
+      await controller.getPostsFeed(
+        'rss',
+        undefined,
+        '80',
+        requestOf(),
+        replyOf(),
+      );
+
+      expect(feedsService.renderPosts).toHaveBeenCalledWith(
+        expect.objectContaining({ limit: 50 }),
+      );
+    });
+  });
+
+  describe('getEventsFeed', () => {
+    it('should accept up to 100 events and default to 50', async () => {
+      await controller.getEventsFeed('rss', '100', requestOf(), replyOf());
+      await controller.getEventsFeed('rss', '101', requestOf(), replyOf());
+
+      expect(feedsService.renderEvents.mock.calls).toEqual([
+        [{ format: 'rss', limit: 100 }],
+        [{ format: 'rss', limit: 50 }],
+      ]);
+    });
+  });
+});
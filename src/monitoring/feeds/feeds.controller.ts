@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { Public } from 'src/decorators/public.decorator';
+import { FEED_CONTENT_TYPES, FeedFormat, isNotModified } from './feed-renderer';
+import { FeedsService, RenderedFeed } from './feeds.service';
+
+@Controller('feeds')
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  /**
+   * Latest posts as RSS (`posts.rss`), Atom (`posts.atom`) or JSON Feed
+   * (`posts.json`), optionally only those in any of `categories`.
+   */
+  @Get('posts.:format')
+  @Public()
+  async getPostsFeed(
+    @Param('format') format: string,
+    @Query('categories') categories: string | undefined,
+    @Query('limit') limit: string | undefined,
+    @Req() request: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<string> {
+    const feed = await this.feedsService.renderPosts({
+      format: this.parseFormat(format),
+      categorySlugs:
+        categories
+          ?.split(',')
+          .map((category) => category.trim())
+          .filter(Boolean) ?? [],
+      limit: this.parseLimit(limit, 50, 50),
+    });
+    return this.send(feed, request, reply);
+  }
+
+  /**
+   * Latest events as RSS (`events.rss`), Atom (`events.atom`) or JSON Feed
+   * (`events.json`).
+   */
+  @Get('events.:format')
+  @Public()
+  async getEventsFeed(
+    @Param('format') format: string,
+    @Query('limit') limit: string | undefined,
+    @Req() request: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<string> {
+    const feed = await this.feedsService.renderEvents({
+      format: this.parseFormat(format),
+      limit: this.parseLimit(limit, 50, 100),
+    });
+    return this.send(feed, request, reply);
+  }
+
+  /**
+   * Sets the feed's headers, answering 304 with no body when the client
+   * already has it.
+   */
+  private send(
+    feed: RenderedFeed,
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ): string {
+    reply
+      .header('Content-Type', feed.contentType)
+      .header('ETag', feed.etag)
+      .header('Last-Modified', feed.lastModified.toUTCString())
+      .header('Cache-Control', 'public, max-age=60');
+
+    const notModified = isNotModified(
+      {
+        ifNoneMatch: request.headers['if-none-match'],
+        ifModifiedSince: request.headers['if-modified-since'],
+      },
+      feed.etag,
+      feed.lastModified,
+    );
+    if (notModified) {
+      reply.status(HttpStatus.NOT_MODIFIED);
+      return '';
+    }
+    return feed.body;
+  }
+
+  /**
+   * @throws NotFoundException if the extension is not a feed format.
+   */
+  private parseFormat(format: string): FeedFormat {
+    if (!Object.keys(FEED_CONTENT_TYPES).includes(format)) {
+      throw new NotFoundException(`Unknown feed format: ${format}`);
+    }
+    return format as FeedFormat;
+  }
+
+  /**
+   * Number of items: the given limit if it is from 1 to `max`, `fallback`
+   * otherwise.
+   */
+  private parseLimit(
+    limit: string | undefined,
+    fallback: number,
+    max: number,
+  ): number {
+    const parsed = Number(limit);
+    return Number.isInteger(parsed) && parsed > 0 && parsed <= max
+      ? parsed
+      : fallback;
+  }
+}
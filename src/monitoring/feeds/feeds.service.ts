@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { Logger } from 'src/decorators/logger.decorator';
+import { PostResponseDto } from 'src/dto';
+import { JSONLogger } from 'src/utils/logger';
+import { EventsService } from '../events/events.service';
+import { PostsService } from '../posts/posts.service';
+import {
+  escapeXml,
+  FEED_CONTENT_TYPES,
+  FeedDocument,
+  feedEtag,
+  FeedFormat,
+  FeedItem,
+  mediaTypeOf,
+  renderFeed,
+} from './feed-renderer';
+
+/**
+ * A feed rendered in a format, with its cache validators.
+ */
+export interface RenderedFeed {
+  body: string;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * Service responsible for syndicating posts and events as feeds.
+ *
+ * The `FeedsService` handles:
+ * - Building the posts feed from `PostsService.getPosts`, optionally by category.
+ * - Building the events feed from `EventsService.getEvents`, leaving out dismissed events.
+ * - Rendering them as RSS 2.0, Atom 1.0 or JSON Feed 1.1 with an ETag and a last modification time.
+ *
+ * Environment Variables:
+ * - `FEEDS_BASE_URL`: Public URL of the service, for feed and event links (default: `http://localhost:3000`).
+ * - `FEEDS_TITLE`: Title prefix of the feeds (default: `Monitor`).
+ *
+ * @remarks
+ * Links never come from the request's `Host` header, which clients control
+ * and which would otherwise end up in feeds cached by readers and proxies.
+ */
+@Injectable()
+export class FeedsService {
+  @Logger(FeedsService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly baseUrl =
+    process.env.FEEDS_BASE_URL?.replace(/\/+$/, '') || 'http://localhost:3000';
+
+  private readonly title = process.env.FEEDS_TITLE || 'Monitor';
+
+  /**
+   * Longest item title; the rest of the content stays in the item body.
+   */
+  private readonly titleLength = 100;
+
+  constructor(
+    private readonly postsService: PostsService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  /**
+   * Renders the latest posts, newest first.
+   *
+   * @param params.categorySlugs - Only posts in any of these categories, if not empty.
+   * @param params.limit - Maximum number of posts.
+   */
+  async renderPosts(params: {
+    format: FeedFormat;
+    categorySlugs: string[];
+    limit: number;
+  }): Promise<RenderedFeed> {
+    const { format, categorySlugs, limit } = params;
+    const { baseUrl } = this;
+
+    const posts = await this.postsService.getPosts({
+      filters: { categorySlugs },
+      limit,
+    });
+
+    const scope = categorySlugs.length ? `: ${categorySlugs.join(', ')}` : '';
+    const query = categorySlugs.length
+      ? `?categories=${encodeURIComponent(categorySlugs.join(','))}`
+      : '';
+
+    return this.render(
+      {
+        id: `${baseUrl}/feeds/posts${query}`,
+        title: `${this.title} posts${scope}`,
+        description: `Latest posts${scope}`,
+        link: baseUrl,
+        feedUrl: `${baseUrl}/feeds/posts.${format}${query}`,
+        updated: this.latest(
+          posts.map((post) => new Date(post.received_at ?? post.posted_at)),
+        ),
+        items: posts.map((post) => this.toPostItem(post)),
+      },
+      format,
+    );
+  }
+
+  /**
+   * Renders the latest events that were not dismissed, newest first.
+   *
+   * @param params.limit - Maximum number of events looked at.
+   */
+  async renderEvents(params: {
+    format: FeedFormat;
+    limit: number;
+  }): Promise<RenderedFeed> {
+    const { format, limit } = params;
+    const { baseUrl } = this;
+
+    const { events } = await this.eventsService.getEvents(limit);
+    const listed = events.filter((event) => event.status !== 'dismissed');
+
+    return this.render(
+      {
+        id: `${baseUrl}/feeds/events`,
+        title: `${this.title} events`,
+        description: 'Latest events and the posts matched to them',
+        link: baseUrl,
+        feedUrl: `${baseUrl}/feeds/events.${format}`,
+        updated: this.latest(listed.map((event) => new Date(event.updated_at))),
+        items: listed.map((event) => ({
+          id: event.uuid,
+          title: event.title || 'Untitled event',
+          url: `${baseUrl}/events/${event.uuid}`,
+          content: [
+            event.summary && `<p>${escapeXml(event.summary)}</p>`,
+            event.posts.length > 0 &&
+              `<ul>${event.posts
+                .map(
+                  (post) =>
+                    `<li><a href="${escapeXml(post.uri)}">${escapeXml(
+                      post.author_name || post.source,
+                    )}</a>: ${escapeXml(this.titleOf(post.content))}</li>`,
+                )
+                .join('')}</ul>`,
+          ]
+            .filter(Boolean)
+            .join(''),
+          summary: event.summary || undefined,
+          published: new Date(event.created_at),
+          updated: new Date(event.updated_at),
+          categories: [event.status],
+          enclosures: [],
+        })),
+      },
+      format,
+    );
+  }
+
+  /**
+   * Renders a feed and computes its validators.
+   */
+  private render(feed: FeedDocument, format: FeedFormat): RenderedFeed {
+    const body = renderFeed(feed, format);
+
+    this.logger.log('Rendered feed', {
+      feed: feed.id,
+      format,
+      items: feed.items.length,
+    });
+
+    return {
+      body,
+      contentType: FEED_CONTENT_TYPES[format],
+      etag: feedEtag(body),
+      lastModified: feed.updated,
+    };
+  }
+
+  /**
+   * Maps a post to a feed item.
+   */
+  private toPostItem(post: PostResponseDto): FeedItem {
+    const author = post.author_name || post.author;
+    const media = Array.isArray(post.media) ? post.media : [];
+
+    return {
+      id: post.id,
+      title: this.titleOf(post.content),
+      url: post.uri || null,
+      content: (post.content || '')
+        .split(/\n{2,}/)
+        .map((paragraph) => `<p>${escapeXml(paragraph)}</p>`)
+        .join(''),
+      summary: post.content || '',
+      published: new Date(post.posted_at),
+      ...(author && {
+        author: { name: author, handle: post.author_handle },
+      }),
+      categories: post.categories,
+      enclosures: media
+        .filter((url) => typeof url === 'string' && /^https?:\/\//.test(url))
+        .map((url) => ({ url, type: mediaTypeOf(url) })),
+    };
+  }
+
+  /**
+   * First line of a text, cut to the title length.
+   */
+  private titleOf(content: string): string {
+    const line = (content || '').trim().split('\n', 1)[0];
+    return line.length > this.titleLength
+      ? `${line.slice(0, this.titleLength - 1).trimEnd()}…`
+      : line;
+  }
+
+  /**
+   * Latest of some dates, or the epoch for an empty feed.
+   */
+  private latest(dates: Date[]): Date {
+    const times = dates
+      .map((date) => date.getTime())
+      .filter((time) => !isNaN(time));
+    return new Date(times.length > 0 ? Math.max(...times) : 0);
+  }
+}
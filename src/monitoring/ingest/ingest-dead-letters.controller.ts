@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  IngestDeadLetterDetailDto,
+  IngestDeadLetterResponseDto,
+  UpdateIngestDeadLetterDto,
+} from 'src/dto';
+import { IngestDeadLetter } from 'src/models';
+import { IngestDeadLettersService } from './ingest-dead-letters.service';
+import { IngestService } from './ingest.service';
+
+/**
+ * Admin endpoints for ingest items that failed to be stored.
+ * All routes require an authenticated user.
+ */
+@Controller('ingest/dead-letters')
+export class IngestDeadLettersController {
+  constructor(
+    private readonly deadLettersService: IngestDeadLettersService,
+    private readonly ingestService: IngestService,
+  ) {}
+
+  /**
+   * Dead letters, newest first, optionally by status and source
+   * GET /ingest/dead-letters
+   */
+  @Get()
+  async list(
+    @Query('status') status?: IngestDeadLetter['status'],
+    @Query('source') source?: string,
+    @Query('limit') limit?: number,
+  ): Promise<IngestDeadLetterResponseDto[]> {
+    const parsedLimit = limit && limit > 0 && limit <= 200 ? Number(limit) : 50;
+    const parsedStatus = ['pending', 'failed', 'replayed'].includes(
+      status as string,
+    )
+      ? status
+      : undefined;
+
+    return await this.deadLettersService.list({
+      status: parsedStatus,
+      source,
+      limit: parsedLimit,
+    });
+  }
+
+  /**
+   * A dead letter with its payload and error stack
+   * GET /ingest/dead-letters/:id
+   */
+  @Get(':id')
+  async get(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<IngestDeadLetterDetailDto> {
+    return await this.deadLettersService.get(id);
+  }
+
+  /**
+   * Replace the payload of a dead letter before replaying it
+   * PUT /ingest/dead-letters/:id
+   */
+  @Put(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateData: UpdateIngestDeadLetterDto,
+  ): Promise<IngestDeadLetterDetailDto> {
+    return await this.deadLettersService.update(id, updateData);
+  }
+
+  /**
+   * Store the item of a dead letter now
+   * POST /ingest/dead-letters/:id/replay
+   */
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  async replay(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<IngestDeadLetterDetailDto> {
+    return await this.ingestService.replayDeadLetter(id);
+  }
+
+  /**
+   * Discard a dead letter
+   * DELETE /ingest/dead-letters/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    await this.deadLettersService.remove(id);
+  }
+}
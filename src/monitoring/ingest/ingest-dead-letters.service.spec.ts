@@ -0,0 +1,196 @@
+import 'reflect-metadata';
+import { ConnectionRefusedError, Op } from 'sequelize';
+import { IngestDeadLettersService } from './ingest-dead-letters.service';
+
+describe('IngestDeadLettersService', () => {
+  const env = { ...process.env };
+
+  const deadLetterModel = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    update: jest.fn(),
+  };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * An outage error, retried automatically.
+   */
+  const outage = () => new ConnectionRefusedError(new Error('down'));
+
+  /**
+   * A dead letter row that applies its updates to itself.
+   */
+  const letterOf = (fields: Record<string, unknown>) => {
+    const letter: any = {
+      id: 1,
+      status: 'pending',
+      attempts: 1,
+      next_attempt_at: new Date(),
+      ...fields,
+    };
+    letter.update = jest.fn((changes) =>
+      Promise.resolve(Object.assign(letter, changes)),
+    );
+    return letter;
+  };
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (overrides: Record<string, string> = {}) => {
+    Object.assign(process.env, overrides);
+    return new IngestDeadLettersService(
+      deadLetterModel as any,
+      cloudWatchService as any,
+    );
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    deadLetterModel.create.mockImplementation((fields) =>
+      Promise.resolve(letterOf(fields)),
+    );
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('capture', () => {
+    it('should schedule a retry of an item that failed on an outage', async () => {
+      const service = createService({
+        INGEST_DEAD_LETTER_BACKOFF_SECONDS: '30',
+      });
+
+      const letter = await service.capture(
+        { id: 'tweet-1', source: 'twitter' },
+        outage(),
+      );
+
+      expect(letter).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        source: 'twitter',
+        source_id: 'tweet-1',
+      });
+      expect(
+        letter!.next_attempt_at!.getTime() - letter!.last_attempt_at.getTime(),
+      ).toBe(30 * 1000);
+    });
+
+    it('should leave an item that failed on its own content to an operator', async () => {
+      const letter = await createService().capture(
+        { id: 'tweet-1' },
+        new Error('Cannot read properties'),
+      );
+
+      expect(letter).toMatchObject({ status: 'failed', next_attempt_at: null });
+    });
+  });
+
+  describe('findDue', () => {
+    it('should list pending dead letters whose retry is due, oldest first', async () => {
+      deadLetterModel.findAll.mockResolvedValue([]);
+
+      await createService().findDue(20);
+
+      const [{ where, order, limit }] = deadLetterModel.findAll.mock.calls[0];
+      expect(where.status).toBe('pending');
+      expect(where.next_attempt_at[Op.lte]).toBeInstanceOf(Date);
+      expect(order).toEqual([['next_attempt_at', 'ASC']]);
+      expect(limit).toBe(20);
+    });
+  });
+
+  describe('claim', () => {
+    it('should move the next attempt of the letter it listed', async () => {
+      deadLetterModel.update.mockResolvedValue([1]);
+      const letter = letterOf({ id: 7 });
+      const due = letter.next_attempt_at;
+
+      const claimed = await createService().claim(letter);
+
+      expect(claimed).toBe(true);
+      const [changes, { where }] = deadLetterModel.update.mock.calls[0];
+      expect(where).toEqual({
+        id: 7,
+        status: 'pending',
+        next_attempt_at: due,
+      });
+      expect(changes.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not claim a letter another replica claimed first', async () => {
+      deadLetterModel.update.mockResolvedValue([0]);
+
+      await expect(createService().claim(letterOf({}))).resolves.toBe(false);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should double the delay before each retry up to six hours', async () => {
+      const service = createService({
+        INGEST_DEAD_LETTER_MAX_ATTEMPTS: '20',
+        INGEST_DEAD_LETTER_BACKOFF_SECONDS: '3600',
+      });
+      const letter = letterOf({ attempts: 1 });
+
+      const delays: number[] = [];
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await service.recordFailure(letter, outage());
+        delays.push(
+          (letter.next_attempt_at.getTime() -
+            letter.last_attempt_at.getTime()) /
+            (60 * 60 * 1000),
+        );
+      }
+
+      expect(delays).toEqual([2, 4, 6, 6]);
+      expect(letter).toMatchObject({ status: 'pending', attempts: 5 });
+    });
+
+    it('should stop retrying once the letter runs out of attempts', async () => {
+      const letter = letterOf({ attempts: 2 });
+
+      await createService({
+        INGEST_DEAD_LETTER_MAX_ATTEMPTS: '3',
+      }).recordFailure(letter, outage());
+
+      expect(letter).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        next_attempt_at: null,
+        error: expect.stringContaining('down'),
+      });
+    });
+
+    it('should stop retrying on a failure that is not an outage', async () => {
+      const letter = letterOf({ attempts: 1 });
+
+      await createService().recordFailure(letter, new Error('Invalid payload'));
+
+      expect(letter).toMatchObject({ status: 'failed', next_attempt_at: null });
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should take the letter out of the retries and link its post', async () => {
+      const letter = letterOf({ attempts: 2 });
+
+      await createService().recordSuccess(letter, 'post-1');
+
+      expect(letter).toMatchObject({
+        status: 'replayed',
+        attempts: 3,
+        next_attempt_at: null,
+        post_uuid: 'post-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,341 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import {
+  IngestDeadLetterDetailDto,
+  IngestDeadLetterResponseDto,
+  UpdateIngestDeadLetterDto,
+} from 'src/dto';
+import { IngestDeadLetter } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { isTransientError, retryDelayMs } from './transient-errors';
+
+/**
+ * Service responsible for the dead-letter store of ingest items.
+ *
+ * The `IngestDeadLettersService` handles:
+ * - Keeping items that failed to be stored, with their payload, error and attempts.
+ * - Scheduling automatic retries with exponential backoff for transient failures.
+ * - Listing, inspecting, editing and discarding dead letters.
+ *
+ * Environment Variables:
+ * - `INGEST_DEAD_LETTER_MAX_ATTEMPTS`: Attempts before automatic retries stop (default: 5).
+ * - `INGEST_DEAD_LETTER_BACKOFF_SECONDS`: Delay before the first automatic retry (default: 60).
+ *
+ * @remarks
+ * Replaying is driven by `IngestService`, which stores the item and reports
+ * the outcome back with `recordSuccess()` or `recordFailure()`. Failures
+ * that are not transient, and items that ran out of attempts, are left
+ * `failed` for an operator to edit and replay.
+ */
+@Injectable()
+export class IngestDeadLettersService {
+  @Logger(IngestDeadLettersService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly maxAttempts = Math.max(
+    Number(process.env.INGEST_DEAD_LETTER_MAX_ATTEMPTS) || 5,
+    1,
+  );
+
+  private readonly backoffMs =
+    Math.max(Number(process.env.INGEST_DEAD_LETTER_BACKOFF_SECONDS) || 60, 1) *
+    1000;
+
+  /**
+   * Longest delay between automatic retries.
+   */
+  private readonly maxBackoffMs = 6 * 60 * 60 * 1000;
+
+  /**
+   * Time a claimed retry has to record its outcome before another replica
+   * may retry the dead letter again.
+   */
+  private readonly claimLeaseMs = 5 * 60 * 1000;
+
+  constructor(
+    @InjectModel(IngestDeadLetter)
+    private deadLetterModel: typeof IngestDeadLetter,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Stores an item that failed to be stored. Never throws.
+   *
+   * @param payload - The ingest item as delivered.
+   * @param error - Error storing it failed with.
+   */
+  async capture(
+    payload: Record<string, unknown>,
+    error: Error,
+  ): Promise<IngestDeadLetter | null> {
+    try {
+      const now = new Date();
+      const letter = await this.deadLetterModel.create({
+        source: typeof payload.source === 'string' ? payload.source : null,
+        source_id: typeof payload.id === 'string' ? payload.id : null,
+        payload,
+        attempts: 1,
+        last_attempt_at: now,
+        ...this.outcome(1, error, now),
+      } as any);
+
+      this.logger.warn('Ingest item dead-lettered', {
+        deadLetterId: letter.id,
+        source: letter.source,
+        sourceId: letter.source_id,
+        status: letter.status,
+        error: letter.error,
+      });
+      await this.cloudWatchService.sendMetric('IngestDeadLetters', 1);
+
+      return letter;
+    } catch (captureError) {
+      this.logger.error('Failed to dead-letter ingest item', '', {
+        sourceId: payload.id,
+        error: error.message,
+        captureError: captureError.message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Lists dead letters, newest first.
+   *
+   * @param filters.status - Only dead letters with this status, if given.
+   * @param filters.source - Only dead letters from this source, if given.
+   * @param filters.limit - Maximum number of dead letters to return.
+   */
+  async list(filters: {
+    status?: IngestDeadLetter['status'];
+    source?: string;
+    limit: number;
+  }): Promise<IngestDeadLetterResponseDto[]> {
+    const letters = await this.deadLetterModel.findAll({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.source && { source: filters.source }),
+      },
+      attributes: { exclude: ['payload', 'stack'] },
+      order: [['created_at', 'DESC']],
+      limit: filters.limit,
+    });
+
+    return letters.map((letter) => this.toResponse(letter));
+  }
+
+  /**
+   * Finds a dead letter or throws.
+   *
+   * @throws NotFoundException if the dead letter does not exist.
+   */
+  async find(id: number): Promise<IngestDeadLetter> {
+    const letter = await this.deadLetterModel.findByPk(id);
+    if (!letter) {
+      throw new NotFoundException('Dead letter not found');
+    }
+    return letter;
+  }
+
+  /**
+   * Returns a dead letter with its payload and stack.
+   *
+   * @throws NotFoundException if the dead letter does not exist.
+   */
+  async get(id: number): Promise<IngestDeadLetterDetailDto> {
+    return this.toDetail(await this.find(id));
+  }
+
+  /**
+   * Replaces the payload of a dead letter, to fix it before replaying.
+   *
+   * @throws NotFoundException if the dead letter does not exist.
+   * @throws BadRequestException if the payload is not an object or the item was already replayed.
+   */
+  async update(
+    id: number,
+    updateData: UpdateIngestDeadLetterDto,
+  ): Promise<IngestDeadLetterDetailDto> {
+    const payload = updateData?.payload;
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new BadRequestException('Payload must be an object');
+    }
+
+    const letter = await this.find(id);
+    if (letter.status === 'replayed') {
+      throw new BadRequestException('Dead letter was already replayed');
+    }
+
+    await letter.update({
+      payload,
+      source: typeof payload.source === 'string' ? payload.source : null,
+      source_id: typeof payload.id === 'string' ? payload.id : null,
+    });
+
+    this.logger.log('Dead letter edited', { deadLetterId: letter.id });
+
+    return this.toDetail(letter);
+  }
+
+  /**
+   * Discards a dead letter.
+   *
+   * @throws NotFoundException if the dead letter does not exist.
+   */
+  async remove(id: number): Promise<void> {
+    const letter = await this.find(id);
+    await letter.destroy();
+
+    this.logger.log('Dead letter discarded', {
+      deadLetterId: letter.id,
+      status: letter.status,
+    });
+  }
+
+  /**
+   * Pending dead letters whose retry is due, oldest due first.
+   */
+  async findDue(limit: number): Promise<IngestDeadLetter[]> {
+    return this.deadLetterModel.findAll({
+      where: {
+        status: 'pending',
+        next_attempt_at: { [Op.lte]: new Date() },
+      },
+      order: [['next_attempt_at', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Claims a due dead letter for one retry by moving its next attempt past
+   * the claim lease, so replicas that listed it too skip it.
+   *
+   * @returns Whether the retry was claimed; false if another replica
+   *   claimed or settled it first.
+   */
+  async claim(letter: IngestDeadLetter): Promise<boolean> {
+    const [claimed] = await this.deadLetterModel.update(
+      { next_attempt_at: new Date(Date.now() + this.claimLeaseMs) },
+      {
+        where: {
+          id: letter.id,
+          status: 'pending',
+          next_attempt_at: letter.next_attempt_at,
+        },
+      },
+    );
+    return claimed > 0;
+  }
+
+  /**
+   * Marks a dead letter as replayed into a post.
+   */
+  async recordSuccess(
+    letter: IngestDeadLetter,
+    postUuid: string,
+  ): Promise<IngestDeadLetter> {
+    await letter.update({
+      status: 'replayed',
+      attempts: letter.attempts + 1,
+      last_attempt_at: new Date(),
+      next_attempt_at: null,
+      post_uuid: postUuid,
+    });
+
+    this.logger.log('Dead letter replayed', {
+      deadLetterId: letter.id,
+      attempts: letter.attempts,
+      postUuid,
+    });
+
+    return letter;
+  }
+
+  /**
+   * Records a failed replay and schedules the next retry, if any.
+   */
+  async recordFailure(
+    letter: IngestDeadLetter,
+    error: Error,
+  ): Promise<IngestDeadLetter> {
+    const now = new Date();
+    const attempts = letter.attempts + 1;
+    await letter.update({
+      attempts,
+      last_attempt_at: now,
+      ...this.outcome(attempts, error, now),
+    });
+
+    this.logger.warn('Dead letter replay failed', {
+      deadLetterId: letter.id,
+      attempts,
+      status: letter.status,
+      nextAttemptAt: letter.next_attempt_at,
+      error: error.message,
+    });
+
+    return letter;
+  }
+
+  /**
+   * Maps a dead letter to its API representation.
+   */
+  toResponse(letter: IngestDeadLetter): IngestDeadLetterResponseDto {
+    return {
+      id: letter.id,
+      source: letter.source,
+      source_id: letter.source_id,
+      status: letter.status,
+      attempts: letter.attempts,
+      error: letter.error,
+      next_attempt_at: letter.next_attempt_at
+        ? letter.next_attempt_at.toISOString()
+        : null,
+      last_attempt_at: letter.last_attempt_at.toISOString(),
+      post_uuid: letter.post_uuid,
+      created_at: letter.created_at.toISOString(),
+      updated_at: letter.updated_at.toISOString(),
+    };
+  }
+
+  /**
+   * Maps a dead letter to its detailed API representation.
+   */
+  toDetail(letter: IngestDeadLetter): IngestDeadLetterDetailDto {
+    return {
+      ...this.toResponse(letter),
+      payload: letter.payload,
+      stack: letter.stack,
+    };
+  }
+
+  /**
+   * Status, error and next retry after a failed attempt.
+   */
+  private outcome(
+    attempts: number,
+    error: Error,
+    now: Date,
+  ): Pick<IngestDeadLetter, 'status' | 'error' | 'stack' | 'next_attempt_at'> {
+    const retry = isTransientError(error) && attempts < this.maxAttempts;
+
+    return {
+      status: retry ? 'pending' : 'failed',
+      error: error.message || String(error),
+      stack: error.stack ?? null,
+      next_attempt_at: retry
+        ? new Date(
+            now.getTime() +
+              retryDelayMs(attempts, this.backoffMs, this.maxBackoffMs),
+          )
+        : null,
+    };
+  }
+}
@@ -0,0 +1,409 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { plainToInstance } from 'class-transformer';
+import { Op } from 'sequelize';
+import { IngestDto, IngestJobItemDto } from 'src/dto';
+import { IngestDelivery, IngestDeliveryItem } from 'src/models';
+
+/**
+ * Injection token of the store that keeps ingest jobs.
+ */
+export const INGEST_JOB_STORE = 'INGEST_JOB_STORE';
+
+/**
+ * An asynchronous ingest delivery.
+ */
+export interface IngestJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed';
+  items: IngestJobItemDto[];
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+/**
+ * A pending item of a job, claimed by the replica that stores it.
+ *
+ * @property id - Identifier of the item in the store.
+ * @property position - Index of the item in its delivery.
+ */
+export interface PendingIngestItem {
+  id: number;
+  job_id: string;
+  position: number;
+  item: IngestDto;
+}
+
+/**
+ * Storage of ingest jobs, and the queue of their pending items.
+ *
+ * A pending item is claimed by one replica until its lease expires: the
+ * replica renews the lease while it holds the item and acknowledges it by
+ * settling its outcome. Items of a replica that stops are claimed again by
+ * another once their lease expires, so an accepted delivery is not lost.
+ */
+export interface IngestJobStore {
+  /**
+   * Saves a new job, its pending items claimed by `owner` until `leaseUntil`.
+   *
+   * @returns The pending items, in delivery order.
+   */
+  create(
+    job: IngestJob,
+    pending: Array<{ position: number; item: IngestDto }>,
+    owner: string,
+    leaseUntil: Date,
+  ): Promise<PendingIngestItem[]>;
+
+  get(id: string): Promise<IngestJob | null>;
+
+  /**
+   * Marks a claimed item as processing, and its job as running.
+   */
+  start(pending: PendingIngestItem): Promise<void>;
+
+  /**
+   * Records the outcome of a claimed item, releasing it, and completes its
+   * job once no item is left.
+   *
+   * @returns Whether the job completed.
+   */
+  settle(
+    pending: PendingIngestItem,
+    outcome: IngestJobItemDto,
+  ): Promise<boolean>;
+
+  /**
+   * Extends the claim of `owner` on the items it still holds.
+   */
+  renew(ids: number[], owner: string, leaseUntil: Date): Promise<void>;
+
+  /**
+   * Claims pending items whose lease expired for `owner`.
+   *
+   * @returns The claimed items.
+   */
+  claimExpired(
+    owner: string,
+    leaseUntil: Date,
+    limit: number,
+  ): Promise<PendingIngestItem[]>;
+
+  /**
+   * Deletes completed jobs finished before the cutoff.
+   *
+   * @returns Number of jobs deleted.
+   */
+  deleteCompletedBefore(cutoff: Date): Promise<number>;
+}
+
+/**
+ * Keeps ingest jobs in MySQL, one row per delivery and one per item.
+ */
+@Injectable()
+export class DatabaseIngestJobStore implements IngestJobStore {
+  constructor(
+    @InjectModel(IngestDelivery)
+    private deliveryModel: typeof IngestDelivery,
+    @InjectModel(IngestDeliveryItem)
+    private itemModel: typeof IngestDeliveryItem,
+  ) {}
+
+  async create(
+    job: IngestJob,
+    pending: Array<{ position: number; item: IngestDto }>,
+    owner: string,
+    leaseUntil: Date,
+  ): Promise<PendingIngestItem[]> {
+    const payloads = new Map(
+      pending.map(({ position, item }) => [position, item]),
+    );
+
+    const rows = await this.deliveryModel.sequelize!.transaction(
+      async (transaction) => {
+        await this.deliveryModel.create(
+          {
+            id: job.id,
+            total: job.items.length,
+            created_at: job.created_at,
+            completed_at: job.completed_at,
+          } as any,
+          { transaction },
+        );
+
+        return await this.itemModel.bulkCreate(
+          job.items.map((entry) => ({
+            delivery_id: job.id,
+            position: entry.index,
+            item_id: entry.id,
+            status: entry.status,
+            payload: payloads.has(entry.index)
+              ? { ...payloads.get(entry.index) }
+              : null,
+            duplicate_of: entry.duplicate_of ?? null,
+            errors: entry.errors ?? null,
+            owner: payloads.has(entry.index) ? owner : null,
+            lease_until: payloads.has(entry.index) ? leaseUntil : null,
+          })) as any[],
+          { transaction },
+        );
+      },
+    );
+
+    return rows
+      .filter((row) => payloads.has(row.position))
+      .map((row) => ({
+        id: row.id,
+        job_id: job.id,
+        position: row.position,
+        item: payloads.get(row.position)!,
+      }));
+  }
+
+  async get(id: string): Promise<IngestJob | null> {
+    const delivery = await this.deliveryModel.findByPk(id, {
+      include: [
+        { model: IngestDeliveryItem, attributes: { exclude: ['payload'] } },
+      ],
+      order: [[{ model: IngestDeliveryItem, as: 'items' }, 'position', 'ASC']],
+    });
+    if (!delivery) {
+      return null;
+    }
+
+    return {
+      id: delivery.id,
+      status: delivery.completed_at
+        ? 'completed'
+        : delivery.started_at
+          ? 'running'
+          : 'queued',
+      items: delivery.items.map((row) => ({
+        index: row.position,
+        id: row.item_id,
+        status: row.status,
+        ...(row.created !== null && { created: row.created }),
+        ...(row.post_id !== null && { post_id: row.post_id }),
+        ...(row.duplicate_of !== null && { duplicate_of: row.duplicate_of }),
+        ...(row.errors !== null && { errors: row.errors }),
+      })),
+      created_at: delivery.created_at,
+      started_at: delivery.started_at,
+      completed_at: delivery.completed_at,
+    };
+  }
+
+  async start(pending: PendingIngestItem): Promise<void> {
+    await this.itemModel.update(
+      { status: 'processing' },
+      { where: { id: pending.id } },
+    );
+    await this.deliveryModel.update(
+      { started_at: new Date() },
+      { where: { id: pending.job_id, started_at: null } },
+    );
+  }
+
+  async settle(
+    pending: PendingIngestItem,
+    outcome: IngestJobItemDto,
+  ): Promise<boolean> {
+    await this.itemModel.update(
+      {
+        status: outcome.status,
+        created: outcome.created ?? null,
+        post_id: outcome.post_id ?? null,
+        errors: outcome.errors ?? null,
+        payload: null,
+        owner: null,
+        lease_until: null,
+      },
+      { where: { id: pending.id } },
+    );
+
+    const left = await this.itemModel.count({
+      where: {
+        delivery_id: pending.job_id,
+        status: ['pending', 'processing'],
+      },
+    });
+    if (left > 0) {
+      return false;
+    }
+
+    // Only the replica settling the last item completes the job
+    const [completed] = await this.deliveryModel.update(
+      { completed_at: new Date() },
+      { where: { id: pending.job_id, completed_at: null } },
+    );
+    return completed > 0;
+  }
+
+  async renew(ids: number[], owner: string, leaseUntil: Date): Promise<void> {
+    await this.itemModel.update(
+      { lease_until: leaseUntil },
+      { where: { id: ids, owner, status: ['pending', 'processing'] } },
+    );
+  }
+
+  async claimExpired(
+    owner: string,
+    leaseUntil: Date,
+    limit: number,
+  ): Promise<PendingIngestItem[]> {
+    const expired = await this.itemModel.findAll({
+      attributes: ['id', 'lease_until'],
+      where: {
+        status: ['pending', 'processing'],
+        lease_until: { [Op.lt]: new Date() },
+      },
+      order: [['id', 'ASC']],
+      limit,
+    });
+
+    // A replica only gets the items whose lease it was the first to replace
+    const claimed: number[] = [];
+    for (const row of expired) {
+      const [updated] = await this.itemModel.update(
+        { owner, lease_until: leaseUntil },
+        { where: { id: row.id, lease_until: row.lease_until } },
+      );
+      if (updated > 0) {
+        claimed.push(row.id);
+      }
+    }
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    const rows = await this.itemModel.findAll({
+      where: { id: claimed },
+      order: [['id', 'ASC']],
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      job_id: row.delivery_id,
+      position: row.position,
+      item: plainToInstance(IngestDto, row.payload),
+    }));
+  }
+
+  async deleteCompletedBefore(cutoff: Date): Promise<number> {
+    return await this.deliveryModel.destroy({
+      where: { completed_at: { [Op.lt]: cutoff } },
+    });
+  }
+}
+
+/**
+ * Keeps ingest jobs in process memory, for tests. Jobs and their pending
+ * items do not survive a restart and are only visible to this process.
+ */
+@Injectable()
+export class MemoryIngestJobStore implements IngestJobStore {
+  private readonly jobs = new Map<string, IngestJob>();
+  private readonly claims = new Map<
+    number,
+    PendingIngestItem & { owner: string; leaseUntil: Date }
+  >();
+  private lastId = 0;
+
+  create(
+    job: IngestJob,
+    pending: Array<{ position: number; item: IngestDto }>,
+    owner: string,
+    leaseUntil: Date,
+  ): Promise<PendingIngestItem[]> {
+    this.jobs.set(job.id, job);
+    const items = pending.map(({ position, item }) => ({
+      id: ++this.lastId,
+      job_id: job.id,
+      position,
+      item,
+    }));
+    for (const item of items) {
+      this.claims.set(item.id, { ...item, owner, leaseUntil });
+    }
+    return Promise.resolve(items);
+  }
+
+  get(id: string): Promise<IngestJob | null> {
+    return Promise.resolve(this.jobs.get(id) ?? null);
+  }
+
+  start(pending: PendingIngestItem): Promise<void> {
+    const job = this.jobs.get(pending.job_id);
+    if (job) {
+      if (job.status === 'queued') {
+        job.status = 'running';
+        job.started_at = new Date();
+      }
+      job.items[pending.position].status = 'processing';
+    }
+    return Promise.resolve();
+  }
+
+  settle(
+    pending: PendingIngestItem,
+    outcome: IngestJobItemDto,
+  ): Promise<boolean> {
+    this.claims.delete(pending.id);
+    const job = this.jobs.get(pending.job_id);
+    if (!job || job.completed_at) {
+      return Promise.resolve(false);
+    }
+
+    job.items[pending.position] = outcome;
+    const done = job.items.every(
+      (entry) => entry.status !== 'pending' && entry.status !== 'processing',
+    );
+    if (done) {
+      job.status = 'completed';
+      job.completed_at = new Date();
+    }
+    return Promise.resolve(done);
+  }
+
+  renew(ids: number[], owner: string, leaseUntil: Date): Promise<void> {
+    for (const id of ids) {
+      const claim = this.claims.get(id);
+      if (claim?.owner === owner) {
+        claim.leaseUntil = leaseUntil;
+      }
+    }
+    return Promise.resolve();
+  }
+
+  claimExpired(
+    owner: string,
+    leaseUntil: Date,
+    limit: number,
+  ): Promise<PendingIngestItem[]> {
+    const now = new Date();
+    const claimed: PendingIngestItem[] = [];
+    for (const claim of this.claims.values()) {
+      if (claimed.length >= limit) {
+        break;
+      }
+      if (claim.leaseUntil < now) {
+        claim.owner = owner;
+        claim.leaseUntil = leaseUntil;
+        const { id, job_id, position, item } = claim;
+        claimed.push({ id, job_id, position, item });
+      }
+    }
+    return Promise.resolve(claimed);
+  }
+
+  deleteCompletedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, job] of this.jobs) {
+      if (job.completed_at && job.completed_at < cutoff) {
+        this.jobs.delete(id);
+        deleted++;
+      }
+    }
+    return Promise.resolve(deleted);
+  }
+}
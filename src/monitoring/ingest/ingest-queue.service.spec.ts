@@ -0,0 +1,271 @@
+import 'reflect-metadata';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { IngestDto } from 'src/dto';
+import { REPLICA_ID } from 'src/utils/replica';
+import { IngestJob, MemoryIngestJobStore } from './ingest-job-store';
+import { IngestQueueService } from './ingest-queue.service';
+
+jest.mock('./ingest.service', () => ({ IngestService: class {} }));
+
+describe('IngestQueueService', () => {
+  const env = { ...process.env };
+
+  const ingestService = {
+    validateBatch: jest.fn(),
+    ingestItem: jest.fn(),
+  };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * Items being stored, released by resolving or rejecting them.
+   */
+  let storing: Array<{
+    item: IngestDto;
+    resolve: (result: { post: any; created: boolean }) => void;
+    reject: (error: Error) => void;
+  }>;
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (
+    overrides: Record<string, string> = {},
+    store = new MemoryIngestJobStore(),
+  ) => {
+    Object.assign(process.env, overrides);
+    return new IngestQueueService(
+      ingestService as any,
+      store,
+      cloudWatchService as any,
+    );
+  };
+
+  /**
+   * A validated batch of valid items with the given ids.
+   */
+  const batchOf = (...ids: string[]) => ({
+    total: ids.length,
+    valid: ids.map((id, index) => ({ index, item: { id } as IngestDto })),
+    rejected: [],
+    duplicates: [],
+  });
+
+  /**
+   * Lets the workers pick up queued items and finish released ones.
+   */
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    storing = [];
+    ingestService.ingestItem.mockImplementation(
+      (item: IngestDto) =>
+        new Promise((resolve, reject) =>
+          storing.push({ item, resolve, reject }),
+        ),
+    );
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('submit', () => {
+    it('should store at most the configured number of items at a time', async () => {
+      ingestService.validateBatch.mockResolvedValue(
+        batchOf('a', 'b', 'c', 'd', 'e'),
+      );
+      const service = createService({ INGEST_QUEUE_CONCURRENCY: '2' });
+
+      const job = await service.submit([]);
+      await flush();
+
+      expect(job.counts.pending).toBe(5);
+      expect(storing.map(({ item }) => item.id)).toEqual(['a', 'b']);
+
+      storing[0].resolve({ post: { uuid: 'post-a' }, created: true });
+      await flush();
+
+      expect(storing.map(({ item }) => item.id)).toEqual(['a', 'b', 'c']);
+      const progress = await service.getJob(job.id);
+      expect(progress.counts).toMatchObject({ pending: 4, accepted: 1 });
+      expect(progress.items[0]).toMatchObject({
+        status: 'accepted',
+        created: true,
+        post_id: 'post-a',
+      });
+    });
+
+    it('should reject a delivery with 429 when the queue cannot take it', async () => {
+      const service = createService({ INGEST_QUEUE_MAX_PENDING: '3' });
+      ingestService.validateBatch.mockResolvedValue(batchOf('a', 'b'));
+      await service.submit([]);
+
+      const result = service.submit([]);
+
+      await expect(result).rejects.toThrow(HttpException);
+      await expect(result).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+      expect(cloudWatchService.sendMetric).toHaveBeenCalledWith(
+        'IngestQueueRejected',
+        1,
+      );
+      expect(ingestService.ingestItem).toHaveBeenCalledTimes(2);
+    });
+
+    it('should complete a delivery with no valid items right away', async () => {
+      ingestService.validateBatch.mockResolvedValue({
+        total: 1,
+        valid: [],
+        rejected: [{ index: 0, id: null, errors: [] }],
+        duplicates: [],
+      });
+
+      const job = await createService({ INGEST_QUEUE_MAX_PENDING: '1' }).submit(
+        {},
+      );
+
+      expect(job).toMatchObject({ status: 'completed', total: 1 });
+    });
+  });
+
+  describe('receive', () => {
+    it('should respond once the items are stored through the queue', async () => {
+      ingestService.validateBatch.mockResolvedValue({
+        total: 3,
+        valid: [
+          { index: 0, item: { id: 'a' } },
+          { index: 2, item: { id: 'c' } },
+        ],
+        rejected: [],
+        duplicates: [{ index: 1, id: 'a', duplicate_of: 0 }],
+      });
+      const service = createService({ INGEST_QUEUE_CONCURRENCY: '1' });
+
+      let response: any;
+      void service.receive([]).then((result) => (response = result));
+      await flush();
+
+      expect(storing).toHaveLength(1);
+      storing[0].resolve({ post: { uuid: 'post-a' }, created: false });
+      await flush();
+      storing[1].reject(new Error('deadlock'));
+      await flush();
+
+      expect(response).toEqual({
+        accepted: [
+          { index: 0, id: 'a', created: false, post: { uuid: 'post-a' } },
+        ],
+        rejected: [
+          {
+            index: 2,
+            id: 'c',
+            errors: [{ field: 'item', messages: ['deadlock'] }],
+          },
+        ],
+        duplicates: [{ index: 1, id: 'a', duplicate_of: 0 }],
+      });
+    });
+
+    it('should share the saturation limit with queued deliveries', async () => {
+      const service = createService({ INGEST_QUEUE_MAX_PENDING: '2' });
+      ingestService.validateBatch.mockResolvedValue(batchOf('a', 'b'));
+      await service.submit([]);
+
+      ingestService.validateBatch.mockResolvedValue(batchOf('c'));
+      await expect(service.receive([])).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+
+      storing.forEach(({ resolve }) => resolve({ post: {}, created: true }));
+      await flush();
+
+      const stored = service.receive([]);
+      await flush();
+      storing[2].resolve({ post: { uuid: 'post-c' }, created: true });
+      await expect(stored).resolves.toMatchObject({
+        accepted: [{ id: 'c', created: true }],
+      });
+    });
+  });
+
+  describe('recoverItems', () => {
+    /**
+     * A store holding a queued job of a replica whose claim ended at `leaseUntil`.
+     */
+    const storeWithJob = async (leaseUntil: Date, ...ids: string[]) => {
+      const store = new MemoryIngestJobStore();
+      const job: IngestJob = {
+        id: 'job-1',
+        status: 'queued',
+        items: ids.map((id, index) => ({ index, id, status: 'pending' })),
+        created_at: new Date(),
+        started_at: null,
+        completed_at: null,
+      };
+      await store.create(
+        job,
+        ids.map((id, position) => ({ position, item: { id } as IngestDto })),
+        'stopped-replica',
+        leaseUntil,
+      );
+      return store;
+    };
+
+    it('should store the items of a replica whose claim expired', async () => {
+      const store = await storeWithJob(new Date(Date.now() - 1000), 'a', 'b');
+      const service = createService({}, store);
+
+      await service.recoverItems();
+      await flush();
+
+      expect(storing.map(({ item }) => item.id)).toEqual(['a', 'b']);
+      storing.forEach(({ resolve }) =>
+        resolve({ post: { uuid: 'post' }, created: true }),
+      );
+      await flush();
+
+      const job = await service.getJob('job-1');
+      expect(job).toMatchObject({
+        status: 'completed',
+        counts: { pending: 0, accepted: 2 },
+      });
+      await service.recoverItems();
+      expect(ingestService.ingestItem).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave items whose claim still holds', async () => {
+      const store = await storeWithJob(new Date(Date.now() + 60_000), 'a');
+      const service = createService({}, store);
+
+      await service.recoverItems();
+      await flush();
+
+      expect(ingestService.ingestItem).not.toHaveBeenCalled();
+    });
+
+    it('should renew the claims on the items it holds', async () => {
+      ingestService.validateBatch.mockResolvedValue(batchOf('a', 'b'));
+      const store = new MemoryIngestJobStore();
+      const renew = jest.spyOn(store, 'renew');
+      const service = createService({ INGEST_QUEUE_CONCURRENCY: '1' }, store);
+      await service.submit([]);
+      await flush();
+
+      await service.recoverItems();
+
+      expect(renew).toHaveBeenCalledWith(
+        expect.arrayContaining([1, 2]),
+        REPLICA_ID,
+        expect.any(Date),
+      );
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import {
+  IngestBatchResponseDto,
+  IngestJobItemDto,
+  IngestJobResponseDto,
+} from 'src/dto';
+import { JSONLogger } from 'src/utils/logger';
+import { nanoid } from 'src/utils/nanoid';
+import { REPLICA_ID } from 'src/utils/replica';
+import {
+  INGEST_JOB_STORE,
+  IngestJob,
+  IngestJobStore,
+  PendingIngestItem,
+} from './ingest-job-store';
+import { IngestService, ValidatedBatch } from './ingest.service';
+
+/**
+ * Outcome of a queued item, as recorded on its job, and the stored post if
+ * it was accepted.
+ */
+interface IngestOutcome {
+  entry: IngestJobItemDto;
+  post?: any;
+}
+
+/**
+ * A claimed item waiting for a worker.
+ *
+ * @property settle - Called with the outcome once the item is done.
+ */
+interface IngestTask {
+  pending: PendingIngestItem;
+  settle: (outcome: IngestOutcome) => void;
+}
+
+/**
+ * Service responsible for asynchronous ingest.
+ *
+ * The `IngestQueueService` handles:
+ * - Validating deliveries up front and queuing their valid items.
+ * - Storing items with a bounded number of concurrent workers, for queued
+ *   and synchronous deliveries alike.
+ * - Rejecting deliveries with 429 when the queue is saturated.
+ * - Tracking per-item progress of each job for the job endpoint.
+ * - Recovering the items of replicas that stopped before storing them.
+ *
+ * Environment Variables:
+ * - `INGEST_QUEUE_CONCURRENCY`: Items stored at the same time (default: 4).
+ * - `INGEST_QUEUE_MAX_PENDING`: Items queued or in progress before deliveries are rejected (default: 1000).
+ * - `INGEST_JOB_TTL_MINUTES`: Minutes a completed job can still be looked up (default: 60).
+ * - `INGEST_LEASE_MINUTES`: Minutes a replica holds its claim on a queued item without renewing it (default: 5).
+ *
+ * @remarks
+ * Jobs and their pending items are persisted in the `INGEST_JOB_STORE`
+ * before a delivery is answered, each item claimed by the replica that
+ * accepted it. The replica renews its claims every minute and releases an
+ * item once its outcome is recorded; items whose claim expired, because
+ * their replica stopped, are claimed by another replica and stored there.
+ * An item may therefore be stored twice, which ingest being idempotent
+ * makes safe.
+ */
+@Injectable()
+export class IngestQueueService {
+  @Logger(IngestQueueService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly concurrency = Math.max(
+    Number(process.env.INGEST_QUEUE_CONCURRENCY) || 4,
+    1,
+  );
+
+  private readonly maxPending = Math.max(
+    Number(process.env.INGEST_QUEUE_MAX_PENDING) || 1000,
+    1,
+  );
+
+  private readonly jobTtlMs =
+    Math.max(Number(process.env.INGEST_JOB_TTL_MINUTES) || 60, 1) * 60 * 1000;
+
+  private readonly leaseMs =
+    Math.max(Number(process.env.INGEST_LEASE_MINUTES) || 5, 2) * 60 * 1000;
+
+  private readonly queue: IngestTask[] = [];
+  private readonly active = new Set<number>();
+
+  constructor(
+    private readonly ingestService: IngestService,
+    @Inject(INGEST_JOB_STORE)
+    private readonly jobStore: IngestJobStore,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Validates a delivery and queues its valid items.
+   *
+   * @param data - The delivery payload (object or array of objects).
+   * @param source - Source of the delivery's API key, which every item must
+   *   belong to; none for deliveries of authenticated users.
+   * @returns The new job, with invalid and duplicate items already settled.
+   * @throws HttpException (429) if the queue cannot take the valid items.
+   */
+  async submit(data: unknown, source?: string): Promise<IngestJobResponseDto> {
+    const { job } = await this.enqueue(data, source);
+    return this.toResponse(job);
+  }
+
+  /**
+   * Validates a delivery, queues its valid items and waits until they are
+   * stored. Sync deliveries share the workers and the saturation limit of
+   * queued ones.
+   *
+   * @param data - The delivery payload (object or array of objects).
+   * @param source - Source of the delivery's API key, as for `submit`.
+   * @returns Accepted, rejected and in-batch duplicate items. An invalid item
+   *   never prevents the others from being stored.
+   * @throws HttpException (429) if the queue cannot take the valid items.
+   */
+  async receive(
+    data: unknown,
+    source?: string,
+  ): Promise<IngestBatchResponseDto> {
+    const { batch, outcomes } = await this.enqueue(data, source);
+    const settled = await outcomes;
+
+    const response: IngestBatchResponseDto = {
+      accepted: [],
+      rejected: [...batch.rejected],
+      duplicates: batch.duplicates,
+    };
+    batch.valid.forEach(({ index, item }, position) => {
+      const { entry, post } = settled[position];
+      if (entry.status === 'accepted') {
+        response.accepted.push({
+          index,
+          id: item.id,
+          created: entry.created ?? false,
+          post,
+        });
+      } else {
+        response.rejected.push({
+          index,
+          id: item.id,
+          errors: entry.errors ?? [],
+        });
+      }
+    });
+
+    if (response.rejected.length > 0) {
+      this.logger.warn('Rejected ingest items', {
+        received: batch.total,
+        rejected: response.rejected.map(({ index, id, errors }) => ({
+          index,
+          id,
+          fields: errors.map((error) => error.field),
+        })),
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Returns the progress of a job.
+   *
+   * @throws NotFoundException if the job does not exist or has expired.
+   */
+  async getJob(id: string): Promise<IngestJobResponseDto> {
+    const job = await this.jobStore.get(id);
+    if (!job) {
+      throw new NotFoundException('Ingest job not found');
+    }
+    return this.toResponse(job);
+  }
+
+  /**
+   * Forgets completed jobs past their time to live.
+   * Runs every 10 minutes.
+   */
+  @Cron('*/10 * * * *')
+  async pruneJobs(): Promise<void> {
+    try {
+      const deletedCount = await this.jobStore.deleteCompletedBefore(
+        new Date(Date.now() - this.jobTtlMs),
+      );
+      if (deletedCount > 0) {
+        this.logger.log('Pruned ingest jobs', { deletedCount });
+      }
+    } catch (error) {
+      this.logger.error('Failed to prune ingest jobs:', error);
+    }
+  }
+
+  /**
+   * Renews the claims on the items this replica holds, then claims items
+   * whose claim expired, as many as the queue has room for.
+   * Runs every minute.
+   */
+  @Cron('* * * * *')
+  async recoverItems(): Promise<void> {
+    try {
+      const held = [
+        ...this.queue.map(({ pending }) => pending.id),
+        ...this.active,
+      ];
+      if (held.length > 0) {
+        await this.jobStore.renew(held, REPLICA_ID, this.leaseUntil());
+      }
+
+      const room = this.maxPending - this.queue.length - this.active.size;
+      if (room <= 0) {
+        return;
+      }
+      const claimed = await this.jobStore.claimExpired(
+        REPLICA_ID,
+        this.leaseUntil(),
+        Math.min(room, this.concurrency * 25),
+      );
+      if (claimed.length === 0) {
+        return;
+      }
+
+      for (const pending of claimed) {
+        this.queue.push({ pending, settle: () => undefined });
+      }
+      this.drain();
+
+      this.logger.log('Recovered ingest items', {
+        items: claimed.length,
+        jobIds: [...new Set(claimed.map(({ job_id }) => job_id))],
+      });
+    } catch (error) {
+      this.logger.error('Failed to recover ingest items:', error);
+    }
+  }
+
+  /**
+   * Validates a delivery, creates its job and queues its valid items.
+   *
+   * @returns The job, the validated batch and the outcomes of its valid
+   *   items, in order, once they are all done.
+   * @throws HttpException (429) if the queue cannot take the valid items.
+   */
+  private async enqueue(
+    data: unknown,
+    source?: string,
+  ): Promise<{
+    job: IngestJob;
+    batch: ValidatedBatch;
+    outcomes: Promise<IngestOutcome[]>;
+  }> {
+    const batch = await this.ingestService.validateBatch(data, source);
+    const { total, valid, rejected, duplicates } = batch;
+
+    const load = this.queue.length + this.active.size;
+    if (valid.length > 0 && load + valid.length > this.maxPending) {
+      this.logger.warn('Ingest queue saturated, rejecting delivery', {
+        items: valid.length,
+        queued: this.queue.length,
+        active: this.active.size,
+        maxPending: this.maxPending,
+      });
+      await this.cloudWatchService.sendMetric('IngestQueueRejected', 1);
+      throw new HttpException(
+        'Ingest queue is full, retry later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const job: IngestJob = {
+      id: nanoid(),
+      status: valid.length > 0 ? 'queued' : 'completed',
+      items: new Array(total),
+      created_at: new Date(),
+      started_at: null,
+      completed_at: valid.length > 0 ? null : new Date(),
+    };
+    for (const { index, id, errors } of rejected) {
+      job.items[index] = { index, id, status: 'rejected', errors };
+    }
+    for (const { index, id, duplicate_of } of duplicates) {
+      job.items[index] = { index, id, status: 'duplicate', duplicate_of };
+    }
+    for (const { index, item } of valid) {
+      job.items[index] = { index, id: item.id, status: 'pending' };
+    }
+    const pending = await this.jobStore.create(
+      job,
+      valid.map(({ index, item }) => ({ position: index, item })),
+      REPLICA_ID,
+      this.leaseUntil(),
+    );
+
+    const outcomes = pending.map(
+      (entry) =>
+        new Promise<IngestOutcome>((settle) =>
+          this.queue.push({ pending: entry, settle }),
+        ),
+    );
+    this.drain();
+
+    this.logger.log('Ingest job queued', {
+      jobId: job.id,
+      total,
+      queuedItems: valid.length,
+      rejected: rejected.length,
+      duplicates: duplicates.length,
+      queueDepth: this.queue.length,
+    });
+
+    return { job, batch, outcomes: Promise.all(outcomes) };
+  }
+
+  /**
+   * Starts workers until the concurrency limit is reached or the queue is empty.
+   */
+  private drain(): void {
+    while (this.active.size < this.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      this.active.add(task.pending.id);
+      void this.run(task).finally(() => {
+        this.active.delete(task.pending.id);
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Returns when a claim taken or renewed now expires.
+   */
+  private leaseUntil(): Date {
+    return new Date(Date.now() + this.leaseMs);
+  }
+
+  /**
+   * Stores one item and records its outcome on the job, which releases the
+   * claim on the item. Never throws.
+   */
+  private async run({ pending, settle }: IngestTask): Promise<void> {
+    const { position: index, item } = pending;
+    const outcome: IngestOutcome = {
+      entry: {
+        index,
+        id: item.id,
+        status: 'rejected',
+        errors: [{ field: 'item', messages: ['Item could not be stored'] }],
+      },
+    };
+    try {
+      await this.jobStore.start(pending);
+
+      try {
+        const { post, created } = await this.ingestService.ingestItem(item);
+        outcome.entry = {
+          index,
+          id: item.id,
+          status: 'accepted',
+          created,
+          post_id: post?.uuid,
+        };
+        outcome.post = post;
+      } catch (error) {
+        outcome.entry.errors = [{ field: 'item', messages: [error.message] }];
+      }
+
+      if (await this.jobStore.settle(pending, outcome.entry)) {
+        this.logger.log('Ingest job completed', { jobId: pending.job_id });
+      }
+    } catch (error) {
+      this.logger.error('Failed to run ingest task', '', {
+        jobId: pending.job_id,
+        index,
+        error: error.message,
+      });
+    } finally {
+      settle(outcome);
+    }
+  }
+
+  /**
+   * Maps a job to its API representation.
+   */
+  private toResponse(job: IngestJob): IngestJobResponseDto {
+    const count = (status: string) =>
+      job.items.filter((item) => item.status === status).length;
+
+    return {
+      id: job.id,
+      status: job.status,
+      total: job.items.length,
+      counts: {
+        pending: count('pending') + count('processing'),
+        accepted: count('accepted'),
+        rejected: count('rejected'),
+        duplicates: count('duplicate'),
+      },
+      items: job.items,
+      created_at: job.created_at.toISOString(),
+      started_at: job.started_at ? job.started_at.toISOString() : null,
+      completed_at: job.completed_at ? job.completed_at.toISOString() : null,
+    };
+  }
+}
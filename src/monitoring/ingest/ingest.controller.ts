@@ -1,6 +1,19 @@
-import { Body, Controller, Post } from '@nestjs/common';
-import { Public } from 'src/decorators/public.decorator';
-import { IngestService } from './ingest.service';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import { SourceAuthenticated } from 'src/decorators/source-authenticated.decorator';
+import { IngestBatchResponseDto, IngestJobResponseDto } from 'src/dto';
+import { SourceKey } from 'src/models';
+import { IngestQueueService } from './ingest-queue.service';
 
 /**
  * Controller class for handling ingest operations.
@@ -10,17 +23,46 @@ export class IngestController {
   /**
    * Constructs a new instance of the IngestController.
    */
-  constructor(private readonly ingestService: IngestService) {}
+  constructor(private readonly ingestQueueService: IngestQueueService) {}
 
   /**
    * Handles the delivery of input data from the workflow.
+   * Requires a source key (or a user JWT).
+   *
+   * By default the items are queued and a `202` with the job is returned;
+   * `?mode=sync` waits for the queued items to be stored and responds with
+   * them instead. Either way, responds `429` when the queue is saturated.
+   * Items delivered with a source key must belong to the key's source.
    *
    * @param param0 - An object containing the `input` property from the request body.
-   * @returns The result of the `receive` method from the workflow.
+   * @param mode - `sync` to store the items before responding.
+   * @param request - The request, with the source key the guard matched.
+   * @returns The queued job, or the accepted, rejected and duplicate items in sync mode.
    */
   @Post()
-  @Public()
-  deliver(@Body() { input }) {
-    return this.ingestService.receive(input);
+  @SourceAuthenticated()
+  async deliver(
+    @Body() { input },
+    @Query('mode') mode: string | undefined,
+    @Req() request: { sourceKey?: SourceKey },
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<IngestJobResponseDto | IngestBatchResponseDto> {
+    const source = request.sourceKey?.source;
+    if (mode === 'sync') {
+      return await this.ingestQueueService.receive(input, source);
+    }
+
+    reply.status(HttpStatus.ACCEPTED);
+    return await this.ingestQueueService.submit(input, source);
+  }
+
+  /**
+   * Reports the per-item progress of a queued delivery.
+   * Requires a source key (or a user JWT).
+   */
+  @Get('ingest/jobs/:id')
+  @SourceAuthenticated()
+  async getJob(@Param('id') id: string): Promise<IngestJobResponseDto> {
+    return await this.ingestQueueService.getJob(id);
   }
 }
@@ -0,0 +1,197 @@
+import 'reflect-metadata';
+import { UniqueConstraintError } from 'sequelize';
+import { IngestDto } from 'src/dto';
+import { IngestService } from './ingest.service';
+
+jest.mock('src/core/notifications/notifications.service', () => ({
+  NotificationsService: class {},
+}));
+
+describe('IngestService', () => {
+  const transaction = {} as any;
+
+  const postModel = {
+    sequelize: { transaction: jest.fn() },
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findByPk: jest.fn(),
+  };
+  const notificationsService = { notifyIngestedPost: jest.fn() };
+  const qdrantService = {
+    getCollectionName: () => 'posts_vectors',
+    getDefaultModel: () => ({ name: 'default', size: 3 }),
+    getEmbeddingModel: (name: string) =>
+      name === 'default' ? { name, size: 3 } : undefined,
+  };
+  const topicsService = { recordMentions: jest.fn() };
+  const deadLettersService = {
+    capture: jest.fn(),
+    findDue: jest.fn(),
+    claim: jest.fn(),
+  };
+  const postVectorsService = { sync: jest.fn() };
+
+  const service = new IngestService(
+    postModel as any,
+    { findOrCreate: jest.fn() } as any,
+    { bulkCreate: jest.fn() } as any,
+    notificationsService as any,
+    {} as any,
+    qdrantService as any,
+    topicsService as any,
+    {} as any,
+    deadLettersService as any,
+    postVectorsService as any,
+  );
+
+  const item: IngestDto = {
+    id: 'tweet-1',
+    source: 'twitter',
+    uri: 'https://example.com/tweet-1',
+    content: 'Flooding reported downtown',
+    createdAt: new Date().toISOString(),
+    relevance: 5,
+    hash: 'f'.repeat(64),
+    author: { id: 'a1', name: 'Reporter' },
+    keywords: ['Flooding', 'Downtown'],
+  };
+
+  /**
+   * A stored post as Sequelize returns it.
+   */
+  const stored = (id: number) => ({
+    id,
+    uuid: `post-${id}`,
+    source: item.source,
+    source_id: item.id,
+    relevance: item.relevance,
+    update: jest.fn(),
+    toJSON: () => ({ id, uuid: `post-${id}` }),
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    postModel.sequelize.transaction.mockImplementation((run) =>
+      run(transaction),
+    );
+    postModel.findByPk.mockResolvedValue(null);
+  });
+
+  it('should record the keywords of a new post once it is stored', async () => {
+    postModel.findOne.mockResolvedValue(null);
+    postModel.create.mockResolvedValue(stored(1));
+
+    const { created } = await service.ingestItem(item);
+
+    expect(created).toBe(true);
+    expect(topicsService.recordMentions).toHaveBeenCalledWith(
+      new Map([
+        ['flooding', 1],
+        ['downtown', 1],
+      ]),
+    );
+    expect(postModel.create.mock.invocationCallOrder[0]).toBeLessThan(
+      topicsService.recordMentions.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should merge a re-delivery without counting its keywords again', async () => {
+    postModel.findOne.mockResolvedValue(stored(1));
+
+    const { created } = await service.ingestItem(item);
+
+    expect(created).toBe(false);
+    expect(postModel.create).not.toHaveBeenCalled();
+    expect(topicsService.recordMentions).not.toHaveBeenCalled();
+    expect(notificationsService.notifyIngestedPost).not.toHaveBeenCalled();
+  });
+
+  it('should merge into the post of a concurrent delivery that won the insert', async () => {
+    const winner = stored(7);
+    postModel.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(winner);
+    postModel.sequelize.transaction.mockRejectedValue(
+      new UniqueConstraintError({}),
+    );
+
+    const { post, created } = await service.ingestItem({
+      ...item,
+      id: 'retweet-1',
+    });
+
+    expect(created).toBe(false);
+    expect(post).toEqual(expect.objectContaining({ uuid: 'post-7' }));
+    expect(topicsService.recordMentions).not.toHaveBeenCalled();
+    expect(deadLettersService.capture).not.toHaveBeenCalled();
+  });
+
+  it('should not record keywords of items that fail to be stored', async () => {
+    postModel.findOne.mockResolvedValue(null);
+    postModel.sequelize.transaction.mockRejectedValue(new Error('deadlock'));
+
+    await expect(service.ingestItem(item)).rejects.toThrow('deadlock');
+
+    expect(topicsService.recordMentions).not.toHaveBeenCalled();
+    expect(deadLettersService.capture).toHaveBeenCalled();
+  });
+
+  it('should reject items of another source than their API key', async () => {
+    const batch = await service.validateBatch(
+      [item, { ...item, id: 'toot-1', source: 'mastodon' }],
+      'twitter',
+    );
+
+    expect(batch.valid.map(({ item }) => item.id)).toEqual(['tweet-1']);
+    expect(batch.rejected).toEqual([
+      {
+        index: 1,
+        id: 'toot-1',
+        errors: [
+          {
+            field: 'source',
+            messages: ['source must be twitter for this API key'],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should accept items of any source without an API key', async () => {
+    const batch = await service.validateBatch([
+      item,
+      { ...item, id: 'toot-1', source: 'mastodon' },
+    ]);
+
+    expect(batch.valid).toHaveLength(2);
+  });
+
+  describe('retryDeadLetters', () => {
+    it('should only replay the dead letters it claimed', async () => {
+      const letters = [1, 2, 3].map((id) => ({ id, status: 'pending' }));
+      deadLettersService.findDue.mockResolvedValue(letters);
+      deadLettersService.claim.mockImplementation((letter) =>
+        Promise.resolve(letter.id !== 2),
+      );
+      const replay = jest
+        .spyOn(service as any, 'replay')
+        .mockImplementation((letter) =>
+          Promise.resolve({ ...(letter as object), status: 'replayed' }),
+        );
+
+      await service.retryDeadLetters();
+
+      expect(deadLettersService.claim).toHaveBeenCalledTimes(3);
+      expect(replay.mock.calls.map(([letter]) => letter)).toEqual([
+        letters[0],
+        letters[2],
+      ]);
+      expect(deadLettersService.claim.mock.invocationCallOrder[0]).toBeLessThan(
+        replay.mock.invocationCallOrder[0],
+      );
+      replay.mockRestore();
+    });
+  });
+});
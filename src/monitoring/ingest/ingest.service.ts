@@ -1,33 +1,86 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import { InjectModel } from '@nestjs/sequelize';
 import { QdrantClient } from '@qdrant/js-client-rest';
-import axios from 'axios';
+import {
+  Op,
+  Transaction,
+  UniqueConstraintError,
+  WhereOptions,
+} from 'sequelize';
 import { NotificationsService } from 'src/core/notifications/notifications.service';
 import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import {
+  isUnnamed,
+  readVectorSchema,
+  toQueryVector,
+  vectorParamsOf,
+} from 'src/dal/qdrant/vector-schema';
 import { Logger } from 'src/decorators/logger.decorator';
-import { IngestDto } from 'src/dto';
-import { Category, Post } from 'src/models';
+import {
+  IngestDeadLetterDetailDto,
+  IngestDto,
+  IngestDuplicateItemDto,
+  IngestRejectedItemDto,
+} from 'src/dto';
+import { Category, IngestDeadLetter, Post, PostSimilarity } from 'src/models';
 import { JSONLogger } from 'src/utils/logger';
 import { nanoid } from 'src/utils/nanoid';
+import { FieldError, validateDto } from 'src/utils/validation';
+import { DispatcherService } from '../dispatch/dispatcher.service';
+import { TopicsService } from '../topics/topics.service';
+import { PostVectorsService } from '../vectors/post-vectors.service';
+import { buildPointFilter, PointFilters } from '../vectors/search-filter';
+import { IngestDeadLettersService } from './ingest-dead-letters.service';
+
+/**
+ * A delivery split into valid items and the ones that will not be stored.
+ *
+ * @property total - Number of items delivered.
+ * @property valid - Valid, first-seen items with their position in the delivery.
+ * @property rejected - Items that failed validation.
+ * @property duplicates - Repeats of an earlier item of the same delivery.
+ */
+export interface ValidatedBatch {
+  total: number;
+  valid: Array<{ index: number; item: IngestDto }>;
+  rejected: IngestRejectedItemDto[];
+  duplicates: IngestDuplicateItemDto[];
+}
+
+/**
+ * Options of a similarity search.
+ *
+ * @property filters - Restrictions on the posts returned.
+ * @property minScore - Lowest similarity score returned.
+ */
+export interface SimilarSearchOptions {
+  filters?: PointFilters;
+  minScore?: number;
+}
 
 /**
  * Service responsible for ingesting, processing, and monitoring content within the application.
  *
  * The `IngestService` handles:
- * - Managing a queue of topic keywords and their frequencies.
+ * - Feeding topic keywords and their frequencies into the shared topics store.
  * - Periodically triggering monitoring and ingestion processes.
- * - Sending top keywords to an external n8n webhook for further processing.
+ * - Sending top keywords to the outbound dispatch targets (n8n) for further processing.
  * - Saving ingested posts to the database and associating them with categories.
  * - Notifying other services about new ingested posts.
  * - Receiving and processing incoming data payloads, updating the topics queue, and persisting content.
+ * - Dead-lettering items that fail to be stored, and replaying them.
  *
  * Dependencies:
  * - `Post` and `Category` models for database operations.
  * - `QdrantClient` for vector similarity operations (provided by DalModule).
+ * - `TopicsService` for the persisted topics queue and seeds.
+ * - `DispatcherService` for delivering the trigger to n8n.
+ * - `IngestDeadLettersService` for the dead-letter store of failed items.
+ * - `PostVectorsService` for storing post vectors in Qdrant after the post commits.
  *
  * Environment Variables:
- * - `N8N_WEBHOOK`: URL for the n8n webhook endpoint.
+ * - `N8N_WEBHOOK`: URL for the n8n webhook endpoint (when `DISPATCH_TARGETS` is not set).
  * - `N8N_API_KEY`: API key for authenticating requests to the n8n webhook.
  * - `QDRANT_URL`: URL for the Qdrant vector database (optional, defaults to localhost).
  *
@@ -61,26 +114,25 @@ export class IngestService {
   private readonly searchTimeWindowHours = 24;
 
   /**
-   * TODO: Define this in the UI.
-   */
-  private readonly seeds = new Set(['chile', 'new york', 'weather', 'zohran']);
-
-  /**
-   * Queue of topics to be processed.
+   * Dead letters retried per run of the retry job.
    */
-  private topicsQueue = new Map<string, number>(
-    Array.from(this.seeds).map((seed) => [seed, 1]),
-  );
+  private readonly deadLetterRetryBatchSize = 20;
 
   constructor(
     @InjectModel(Post)
     private postModel: typeof Post,
     @InjectModel(Category)
     private categoryModel: typeof Category,
+    @InjectModel(PostSimilarity)
+    private postSimilarityModel: typeof PostSimilarity,
     private readonly notificationsService: NotificationsService,
     @Inject(QdrantClient)
     private readonly qdrantClient: QdrantClient,
     private readonly qdrantService: QdrantService,
+    private readonly topicsService: TopicsService,
+    private readonly dispatcherService: DispatcherService,
+    private readonly deadLettersService: IngestDeadLettersService,
+    private readonly postVectorsService: PostVectorsService,
   ) {
     this.collectionName = this.qdrantService.getCollectionName();
   }
@@ -88,36 +140,48 @@ export class IngestService {
   /**
    * Searches for similar posts using vector similarity.
    * This method leverages the QdrantClient from DalModule.
+   *
+   * @param model - Embedding model that produced the embedding; searches its named vector.
+   * @param options.filters - Restricts the results; replaces the default time window and its fallback.
+   * @param options.minScore - Leaves out results scoring below it.
    */
   private async findSimilarPosts(
     embedding: number[],
     limit: number = 5,
+    model: string = this.qdrantService.getDefaultModel().name,
+    options: SimilarSearchOptions = {},
   ): Promise<any[]> {
-    const appliedWindow = Number(
-      process.env.SIMILAR_TIME_WINDOW_HOURS ?? this.searchTimeWindowHours,
-    );
+    const appliedWindow = options.filters
+      ? 0
+      : Number(
+          process.env.SIMILAR_TIME_WINDOW_HOURS ?? this.searchTimeWindowHours,
+        );
 
-    const mustFilters: any[] = [];
     let windowTs: number | undefined;
     if (appliedWindow > 0) {
-      const since = Date.now() - appliedWindow * 60 * 60 * 1000;
-      windowTs = since;
-      // Correct Qdrant filter shape: { key, range: { gte } }
-      mustFilters.push({
-        key: 'createdAtTs',
-        range: { gte: windowTs },
-      });
+      windowTs = Date.now() - appliedWindow * 60 * 60 * 1000;
     }
+    const filter = buildPointFilter(
+      options.filters ?? (windowTs ? { since: new Date(windowTs) } : {}),
+    );
 
+    const defaultModel = this.qdrantService.getDefaultModel().name;
     const baseSearch = async (withFilter: boolean) => {
+      const schema = await this.qdrantService.getVectorSchema();
+      if (!schema) {
+        throw new Error('Posts collection does not exist');
+      }
+      const named = !isUnnamed(schema);
+
       return this.qdrantClient.search(this.collectionName, {
-        vector: embedding,
+        vector: toQueryVector(schema, model, embedding, defaultModel),
         limit,
         with_payload: true,
-        with_vector: true,
-        ...(withFilter && mustFilters.length > 0
-          ? { filter: { must: mustFilters } }
-          : {}),
+        with_vector: named ? [model] : true,
+        ...(options.minScore !== undefined && {
+          score_threshold: options.minScore,
+        }),
+        ...(withFilter && filter ? { filter } : {}),
       });
     };
 
@@ -126,16 +190,19 @@ export class IngestService {
       let searchResult = await baseSearch(true);
       this.logger.log('Similarity search executed', {
         collection: this.collectionName,
+        model,
         vectorLength: embedding.length,
         limit,
         appliedWindowHours: appliedWindow,
         windowTs,
+        minScore: options.minScore,
+        filter,
         resultCount: searchResult.length,
         durationMs: Date.now() - start,
-        filtered: true,
+        filtered: !!filter,
       });
 
-      // Fallback: if nothing found with time filter, retry without it (only if a filter was applied)
+      // Fallback: if nothing found with the default time window, retry without it
       if (searchResult.length === 0 && appliedWindow > 0) {
         const fallbackStart = Date.now();
         const fallback = await baseSearch(false);
@@ -155,7 +222,14 @@ export class IngestService {
         source: result.payload?.source,
         createdAt: result.payload?.createdAt,
         hash: result.payload?.hash,
-        embeddings: result.vector,
+        categories: result.payload?.categories ?? [],
+        lang: result.payload?.lang ?? null,
+        authorHandle: result.payload?.authorHandle ?? null,
+        relevance: result.payload?.relevance ?? null,
+        embeddings:
+          result.vector && !Array.isArray(result.vector)
+            ? result.vector[model]
+            : result.vector,
       }));
     } catch (error: any) {
       this.logger.error('Failed to search similar posts', '', {
@@ -166,64 +240,6 @@ export class IngestService {
     }
   }
 
-  /**
-   * Stores post vector in Qdrant.
-   */
-  private async storePostVector(
-    post: Post,
-    embedding: number[],
-  ): Promise<void> {
-    // TODO: Optionally make expected dimension configurable (env var / dynamic collection schema fetch)
-    const expected = 384;
-    if (embedding.length !== expected) {
-      this.logger.warn('Invalid embedding dimensions', {
-        uuid: post.uuid,
-        expectedDimensions: expected,
-        actualDimensions: embedding.length,
-      });
-      return;
-    }
-
-    // Normalize createdAt to an ISO string (guard against invalid dates)
-    let createdAtIso: string;
-    try {
-      createdAtIso = post.createdAt?.toISOString();
-      if (!createdAtIso) throw new Error('Empty createdAt');
-    } catch {
-      createdAtIso = new Date().toISOString();
-    }
-
-    const pointData = {
-      id: post.id,
-      vector: embedding,
-      payload: {
-        uuid: post.uuid,
-        content: post.content?.substring(0, 500) || '',
-        source: post.source || '',
-        createdAt: createdAtIso,
-        createdAtTs: Date.parse(createdAtIso),
-        hash: post.hash || '',
-      },
-    };
-
-    try {
-      const upsertStart = Date.now();
-      await this.qdrantClient.upsert(this.collectionName, {
-        points: [pointData],
-      });
-      this.logger.log('Stored post vector', {
-        uuid: post.uuid,
-        durationMs: Date.now() - upsertStart,
-        createdAt: createdAtIso,
-      });
-    } catch (error: any) {
-      this.logger.error('Failed to store post vector in Qdrant', '', {
-        uuid: post.uuid,
-        error: error?.message,
-      });
-    }
-  }
-
   /**
    * Monitors the content ingestion service by triggering the monitoring process.
    * Logs an error message if the monitoring process fails.
@@ -240,72 +256,73 @@ export class IngestService {
   }
 
   /**
-   * Triggers the process of sending the top keywords from the topics queue to an n8n webhook for further processing.
+   * Triggers the process of sending the top keywords from the topics store to the dispatch targets (n8n) for further processing.
    *
    * This method:
-   * - Sorts the topics queue by frequency in descending order.
-   * - Selects the top 5 keywords.
-   * - Logs the current state of the topics queue, the top 10 sorted entries, and the top keywords being sent.
-   * - Sends a POST request to the configured n8n webhook with the top keywords and a fixed 'since' value.
+   * - Feeds the keywords of newly ingested posts into the topics store.
+   * - Reads the top 5 trending (time-decayed) non-seed keywords from the shared topics store.
+   * - Appends the active (non-paused) seeds, heaviest first.
+   * - Dispatches the keywords to every configured target through the DispatcherService.
    *
    * @remarks
-   * The n8n webhook URL and API key are expected to be provided via environment variables `N8N_WEBHOOK` and `N8N_API_KEY`.
+   * Targets are configured through `DISPATCH_TARGETS`, falling back to `N8N_WEBHOOK` and `N8N_API_KEY`.
    */
-  trigger() {
+  async trigger() {
     /**
-     * Update topic relevance based on vector similarity.
+     * Extract keywords from the posts ingested since the last run.
      */
-    void this.updateTopicRelevance();
+    await this.topicsService.processNewPosts();
 
-    /**
-     * Sends the top keywords to the n8n webhook for further processing.
-     */
-    const sortedEntries = Array.from(this.topicsQueue.entries()).sort(
-      (a, b) => b[1] - a[1],
-    );
+    let topKeywords: string[];
+    try {
+      const [topTopics, seeds] = await Promise.all([
+        this.topicsService.getTopTopics(5),
+        this.topicsService.getActiveSeeds(),
+      ]);
 
-    /**
-     * Log the current state of the topics queue.
-     */
-    const topKeywords = Array.from(
-      new Set([
-        ...sortedEntries.slice(0, 5).map(([keyword]) => keyword),
-        ...this.seeds,
-      ]),
-    );
+      topKeywords = Array.from(
+        new Set([...topTopics.map(({ keyword }) => keyword), ...seeds]),
+      );
+    } catch (error) {
+      this.logger.error('Failed to read topics for trigger:', error);
+      return;
+    }
 
     /**
      * Trigger n8n with the top keywords.
      * This is used to update the topics queue with the most relevant keywords.
      */
-    void axios.post(
-      process.env.N8N_WEBHOOK!,
-      {
-        keywords: topKeywords,
-        since: 60,
-      },
-      {
-        headers: {
-          'x-api-key': process.env.N8N_API_KEY,
-        },
-      },
-    );
+    await this.dispatcherService.dispatch({ keywords: topKeywords });
   }
 
   /**
    * Saves an ingested post to the database and sends notifications.
    * This method includes vector similarity checking using QdrantClient from DalModule.
    *
+   * Ingest is idempotent on `(source, source_id)` and on `hash`: a re-delivered
+   * item returns the existing post, merged with the updated fields, and is
+   * neither re-indexed nor re-notified.
+   *
    * @param ingestData - The ingested post data
    * @param categories - Array of category slugs to associate with the post
-   * @returns The created post
+   * @returns The stored post, and whether it was created by this call
    */
   async savePost(
     ingestData: IngestDto,
     categories: string[] = [],
-  ): Promise<Post> {
+  ): Promise<{ post: any; created: boolean }> {
+    const existing = await this.findExistingPost(ingestData);
+    if (existing) {
+      return {
+        post: await this.mergeRedelivery(existing, ingestData, categories),
+        created: false,
+      };
+    }
+
     // Use real embeddings from the ingest data
     const embedding = ingestData.embeddings || [];
+    const model =
+      ingestData.embeddingModel ?? this.qdrantService.getDefaultModel().name;
 
     // Find similar posts and check for duplicates if embeddings are available
     let similarPosts: any[] = [];
@@ -313,7 +330,7 @@ export class IngestService {
 
     if (embedding.length > 0) {
       // Find up to 10 similar posts with any similarity score
-      similarPosts = await this.findSimilarPosts(embedding, 10);
+      similarPosts = await this.findSimilarPosts(embedding, 10, model);
 
       // Check for potential duplicates (high similarity)
       duplicates = similarPosts.filter(
@@ -333,19 +350,7 @@ export class IngestService {
       }
     }
 
-    const categorySlugs = categories || [];
-    const categoryModels: Category[] = [];
-
-    for (const slug of categorySlugs) {
-      const [category] = await this.categoryModel.findOrCreate({
-        where: { slug },
-        defaults: {
-          slug,
-          name: slug.charAt(0).toUpperCase() + slug.slice(1),
-        } as any,
-      });
-      categoryModels.push(category);
-    }
+    const categoryModels = await this.findOrCreateCategories(categories || []);
 
     // Normalize createdAt input; if invalid or older than 7 days, clamp to now for vector search relevance
     let parsedCreatedAt = new Date(ingestData.createdAt);
@@ -356,41 +361,75 @@ export class IngestService {
       parsedCreatedAt = new Date();
     }
 
-    const post = await this.postModel.create({
-      uuid: nanoid(),
-      source_id: ingestData.id,
-      source: ingestData.source,
-      uri: ingestData.uri,
-      content: ingestData.content,
-      createdAt: parsedCreatedAt,
-      relevance: ingestData.relevance,
-      lang: ingestData.lang,
-      hash: ingestData.hash,
-      author_id: ingestData.author.id,
-      author_name: ingestData.author.name,
-      author_handle: ingestData.author.handle,
-      author_avatar: ingestData.author.avatar,
-      media: ingestData.media,
-      linkPreview: ingestData.linkPreview,
-      original: ingestData.original,
-      /**
-       * Legacy fields for backward compatibility
-       */
-      author: ingestData.author.name,
-      posted_at: parsedCreatedAt,
-      received_at: new Date(),
-    } as any);
+    // MySQL writes are atomic; the Qdrant point follows once they commit
+    let post: Post;
+    try {
+      post = await this.postModel.sequelize!.transaction(
+        async (transaction) => {
+          const created = await this.postModel.create(
+            {
+              uuid: nanoid(),
+              source_id: ingestData.id,
+              source: ingestData.source,
+              uri: ingestData.uri,
+              content: ingestData.content,
+              createdAt: parsedCreatedAt,
+              relevance: ingestData.relevance,
+              lang: ingestData.lang,
+              hash: ingestData.hash,
+              author_id: ingestData.author.id,
+              author_name: ingestData.author.name,
+              author_handle: ingestData.author.handle,
+              author_avatar: ingestData.author.avatar,
+              media: ingestData.media,
+              linkPreview: ingestData.linkPreview,
+              original: ingestData.original,
+              embeddings: embedding.length > 0 ? { [model]: embedding } : null,
+              vector_status: embedding.length > 0 ? 'pending' : 'none',
+              /**
+               * Legacy fields for backward compatibility
+               */
+              author: ingestData.author.name,
+              posted_at: parsedCreatedAt,
+              received_at: new Date(),
+            } as any,
+            { transaction },
+          );
 
-    /**
-     * Associate categories with the post.
-     */
-    if (categoryModels.length > 0) {
-      await post.$set('categories_relation', categoryModels);
+          /**
+           * Associate categories with the post.
+           */
+          if (categoryModels.length > 0) {
+            await created.$set('categories_relation', categoryModels, {
+              transaction,
+            });
+          }
+
+          if (duplicates.length > 0) {
+            await this.recordSimilarities(created, duplicates, transaction);
+          }
+
+          return created;
+        },
+      );
+    } catch (error) {
+      // A concurrent delivery of the same item won the insert
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+      const winner = await this.findExistingPost(ingestData);
+      if (!winner) {
+        throw error;
+      }
+      return {
+        post: await this.mergeRedelivery(winner, ingestData, categories),
+        created: false,
+      };
     }
 
-    // Store post vector in Qdrant (leveraging DalModule's QdrantClient)
+    // Store post vector in Qdrant; failures stay pending and are retried
     if (embedding.length > 0) {
-      await this.storePostVector(post, embedding);
+      await this.postVectorsService.sync(post);
     }
 
     /**
@@ -407,6 +446,7 @@ export class IngestService {
 
     // Load categories relation for complete response
     const completePost = await this.postModel.findByPk(post.id, {
+      attributes: { exclude: ['embeddings'] },
       include: [{ model: Category, as: 'categories_relation' }],
     });
 
@@ -434,22 +474,231 @@ export class IngestService {
       embeddings: similar.embeddings, // Include embeddings for second pass similarity
     }));
 
-    return postData as any;
+    return { post: postData, created: true };
+  }
+
+  /**
+   * Records the near-duplicates found for a new post, in its transaction.
+   * Points whose post no longer exists are skipped.
+   */
+  private async recordSimilarities(
+    post: Post,
+    duplicates: Array<{ id: string | number; score: number }>,
+    transaction: Transaction,
+  ): Promise<void> {
+    const scores = new Map<number, number>();
+    for (const duplicate of duplicates) {
+      const id = Number(duplicate.id);
+      if (Number.isInteger(id) && id !== post.id && !scores.has(id)) {
+        scores.set(id, duplicate.score);
+      }
+    }
+    if (scores.size === 0) {
+      return;
+    }
+
+    const existing = await this.postModel.findAll({
+      where: { id: { [Op.in]: Array.from(scores.keys()) } },
+      attributes: ['id'],
+      transaction,
+    });
+
+    await this.postSimilarityModel.bulkCreate(
+      existing.map(({ id }) => ({
+        post_id: post.id,
+        similar_post_id: id,
+        score: scores.get(id),
+      })) as any[],
+      { ignoreDuplicates: true, transaction },
+    );
+  }
+
+  /**
+   * Finds a post already stored for the item, by source and source id or by hash.
+   */
+  private async findExistingPost(ingestData: IngestDto): Promise<Post | null> {
+    const matches: WhereOptions<Post>[] = [
+      { source: ingestData.source, source_id: ingestData.id },
+    ];
+    if (ingestData.hash) {
+      matches.push({ hash: ingestData.hash });
+    }
+
+    return this.postModel.findOne({
+      where: { [Op.or]: matches },
+      order: [['id', 'ASC']],
+    });
+  }
+
+  /**
+   * Merges the updatable fields of a re-delivered item into the stored post.
+   * Relevance, media and link preview are replaced when they changed, and
+   * new categories are added. Nothing is re-notified, and the vector is only
+   * stored if the post had none.
+   *
+   * @returns The stored post as a plain object, without similar posts.
+   */
+  private async mergeRedelivery(
+    existing: Post,
+    ingestData: IngestDto,
+    categories: string[],
+  ): Promise<any> {
+    const changes: Record<string, unknown> = {};
+    if (ingestData.relevance !== existing.relevance) {
+      changes.relevance = ingestData.relevance;
+    }
+    if (
+      ingestData.media?.length &&
+      JSON.stringify(ingestData.media) !== JSON.stringify(existing.media)
+    ) {
+      changes.media = ingestData.media;
+    }
+    if (
+      ingestData.linkPreview &&
+      ingestData.linkPreview !== existing.linkPreview
+    ) {
+      changes.linkPreview = ingestData.linkPreview;
+    }
+
+    // Posts pick up the embedding of a re-delivery from a model they lack
+    const model =
+      ingestData.embeddingModel ?? this.qdrantService.getDefaultModel().name;
+    if (ingestData.embeddings?.length && !existing.embeddings?.[model]) {
+      changes.embeddings = {
+        ...existing.embeddings,
+        [model]: ingestData.embeddings,
+      };
+      changes.vector_status = 'pending';
+      changes.vector_attempts = 0;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await existing.update(changes);
+    }
+
+    const categoryModels = await this.findOrCreateCategories(categories);
+    let categoriesAdded = false;
+    if (categoryModels.length > 0) {
+      const current = await existing.$get('categories_relation', {
+        attributes: ['id'],
+      });
+      const currentIds = new Set(current.map((category) => category.id));
+      categoriesAdded = categoryModels.some(
+        (category) => !currentIds.has(category.id),
+      );
+      await existing.$add('categories_relation', categoryModels);
+    }
+
+    // The point payload carries relevance and categories for filtered search
+    if (
+      changes.embeddings ||
+      (existing.embeddings &&
+        (changes.relevance !== undefined || categoriesAdded))
+    ) {
+      await this.postVectorsService.sync(existing);
+    }
+
+    this.logger.log('Ingest re-delivery merged into existing post', {
+      uuid: existing.uuid,
+      source: ingestData.source,
+      sourceId: ingestData.id,
+      matchedBy:
+        existing.source === ingestData.source &&
+        existing.source_id === ingestData.id
+          ? 'source_id'
+          : 'hash',
+      updatedFields: Object.keys(changes),
+    });
+
+    const completePost = await this.postModel.findByPk(existing.id, {
+      attributes: { exclude: ['embeddings'] },
+      include: [{ model: Category, as: 'categories_relation' }],
+    });
+    const postData = (completePost || existing).toJSON();
+    (postData as any).similarPosts = [];
+
+    return postData;
+  }
+
+  /**
+   * Finds or creates the categories with the given slugs.
+   */
+  private async findOrCreateCategories(slugs: string[]): Promise<Category[]> {
+    const categoryModels: Category[] = [];
+
+    for (const slug of slugs) {
+      const [category] = await this.categoryModel.findOrCreate({
+        where: { slug },
+        defaults: {
+          slug,
+          name: slug.charAt(0).toUpperCase() + slug.slice(1),
+        } as any,
+      });
+      categoryModels.push(category);
+    }
+
+    return categoryModels;
   }
 
   /**
    * Searches for posts similar to a given query embedding.
    * Uses vector similarity search in Qdrant to find semantically similar posts.
+   *
+   * @param model - Embedding model that produced the query embedding (default: `EMBEDDING_DEFAULT_MODEL`).
+   * @param options - Filters and minimum score of the results.
+   * @throws BadRequestException if the model is not configured or the embedding has the wrong size.
    */
   async searchSimilarContent(
     queryEmbedding: number[],
     limit: number = 10,
+    model: string = this.qdrantService.getDefaultModel().name,
+    options: SimilarSearchOptions = {},
   ): Promise<any[]> {
     if (queryEmbedding.length === 0) {
       this.logger.warn('Empty embedding provided for similarity search');
       return [];
     }
-    return this.findSimilarPosts(queryEmbedding, limit);
+
+    const config = this.qdrantService.getEmbeddingModel(model);
+    if (!config) {
+      throw new BadRequestException(`Unknown embedding model: ${model}`);
+    }
+    if (queryEmbedding.length !== config.size) {
+      throw new BadRequestException(
+        `embedding must contain exactly ${config.size} numbers for model ${model}`,
+      );
+    }
+
+    return this.findSimilarPosts(queryEmbedding, limit, model, options);
+  }
+
+  /**
+   * Runs a search with a test vector sized as the collection's vector for
+   * the default model.
+   *
+   * @throws Error if the collection is missing, has no vector for the model, or Qdrant fails.
+   */
+  async checkVectorSearch(): Promise<void> {
+    const schema = await this.qdrantService.getVectorSchema();
+    if (!schema) {
+      throw new Error('Posts collection does not exist');
+    }
+
+    const model = this.qdrantService.getDefaultModel().name;
+    const params = vectorParamsOf(schema, model, model);
+    if (!params) {
+      throw new Error(`Collection has no vector for model ${model}`);
+    }
+
+    await this.qdrantClient.search(this.collectionName, {
+      vector: toQueryVector(
+        schema,
+        model,
+        new Array(params.size).fill(0.1),
+        model,
+      ),
+      limit: 1,
+    });
   }
 
   /**
@@ -472,16 +721,22 @@ export class IngestService {
       pointsCount: number;
       vectorSize: number;
       distance: string;
+      vectors: Record<string, { size: number; distance: string }>;
     };
   }> {
     const collectionInfo = await this.qdrantClient.getCollection(
       this.collectionName,
     );
+    const schema =
+      readVectorSchema(collectionInfo.config?.params?.vectors) ?? {};
 
+    // Points show the vector of the default model
+    const defaultModel = this.qdrantService.getDefaultModel();
+    const named = !isUnnamed(schema);
     const scrollResult = await this.qdrantClient.scroll(this.collectionName, {
       limit,
       with_payload: true,
-      with_vector: true,
+      with_vector: named ? [defaultModel.name] : true,
     });
 
     const vectors = scrollResult.points.map((point) => ({
@@ -494,27 +749,15 @@ export class IngestService {
       source: point.payload?.source as string,
       createdAt: point.payload?.createdAt as string,
       hash: point.payload?.hash as string,
-      vector: point.vector as number[],
+      vector: (named
+        ? (point.vector as Record<string, number[]> | undefined)?.[
+            defaultModel.name
+          ]
+        : point.vector) as number[],
     }));
 
     const pointsCount = collectionInfo.points_count || 0;
-
-    // Extract vector configuration
-    let vectorSize = 384;
-    let distance = 'Cosine';
-
-    const vectorConfig = collectionInfo.config?.params?.vectors;
-    if (vectorConfig && typeof vectorConfig === 'object') {
-      if ('size' in vectorConfig && typeof vectorConfig.size === 'number') {
-        vectorSize = vectorConfig.size;
-      }
-      if (
-        'distance' in vectorConfig &&
-        typeof vectorConfig.distance === 'string'
-      ) {
-        distance = vectorConfig.distance;
-      }
-    }
+    const params = vectorParamsOf(schema, defaultModel.name, defaultModel.name);
 
     return {
       vectors,
@@ -522,106 +765,278 @@ export class IngestService {
       collectionInfo: {
         status: collectionInfo.status,
         pointsCount,
-        vectorSize,
-        distance,
+        vectorSize: params?.size ?? defaultModel.size,
+        distance: params?.distance ?? defaultModel.distance,
+        vectors: schema,
       },
     };
   }
 
   /**
-   * Updates topic relevance based on vector similarity clustering.
-   * Since embeddings are stored in Qdrant only, this method focuses on
-   * content-based keyword extraction and frequency analysis.
+   * Validates each item of a delivery and drops in-batch repeats of the same
+   * source and id.
+   *
+   * @param data - The delivery payload (object or array of objects).
+   * @param source - Source the delivery's API key was issued to, if it came
+   *   with one; items of any other source are rejected.
    */
-  private async updateTopicRelevance(): Promise<void> {
+  async validateBatch(data: unknown, source?: string): Promise<ValidatedBatch> {
+    // Handle both single object and array of objects
+    const items: unknown[] = Array.isArray(data) ? data : [data];
+
+    const batch: ValidatedBatch = {
+      total: items.length,
+      valid: [],
+      rejected: [],
+      duplicates: [],
+    };
+    const seen = new Map<string, number>();
+
+    for (const [index, raw] of items.entries()) {
+      const { value: item, errors } = await this.validateItem(raw, source);
+      if (!item) {
+        const rawId = (raw as { id?: unknown } | null)?.id;
+        batch.rejected.push({
+          index,
+          id: typeof rawId === 'string' ? rawId : null,
+          errors,
+        });
+        continue;
+      }
+
+      const key = `${item.source}:${item.id}`;
+      const firstIndex = seen.get(key);
+      if (firstIndex !== undefined) {
+        batch.duplicates.push({
+          index,
+          id: item.id,
+          duplicate_of: firstIndex,
+        });
+        continue;
+      }
+      seen.set(key, index);
+
+      batch.valid.push({ index, item });
+    }
+
+    return batch;
+  }
+
+  /**
+   * Validates an item, including its embeddings against the configured
+   * embedding models and its source against the API key it came with.
+   */
+  private async validateItem(
+    raw: unknown,
+    source?: string,
+  ): Promise<
+    { value: IngestDto; errors: null } | { value: null; errors: FieldError[] }
+  > {
+    const result = await validateDto(IngestDto, raw);
+    if (!result.value) {
+      return result;
+    }
+
+    const item = result.value;
+    if (source !== undefined && item.source !== source) {
+      return {
+        value: null,
+        errors: [
+          {
+            field: 'source',
+            messages: [`source must be ${source} for this API key`],
+          },
+        ],
+      };
+    }
+
+    const name =
+      item.embeddingModel ?? this.qdrantService.getDefaultModel().name;
+    const model = this.qdrantService.getEmbeddingModel(name);
+    if (!model) {
+      const names = this.qdrantService
+        .getEmbeddingModels()
+        .map((config) => config.name);
+      return {
+        value: null,
+        errors: [
+          {
+            field: 'embeddingModel',
+            messages: [`embeddingModel must be one of: ${names.join(', ')}`],
+          },
+        ],
+      };
+    }
+    if (item.embeddings?.length && item.embeddings.length !== model.size) {
+      return {
+        value: null,
+        errors: [
+          {
+            field: 'embeddings',
+            messages: [
+              `embeddings must contain exactly ${model.size} numbers for model ${model.name}`,
+            ],
+          },
+        ],
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Stores one validated item, deriving its categories from the
+   * classification results when it has none. The keywords of a new post are
+   * recorded in the topics store once it is committed; re-deliveries are not
+   * counted again.
+   *
+   * @param item - The validated item.
+   * @param options.deadLetter - Whether a failure is kept in the dead-letter store (default: true).
+   * @throws Whatever storing the post throws; the error is logged (and dead-lettered) first.
+   */
+  async ingestItem(
+    item: IngestDto,
+    options: { deadLetter?: boolean } = {},
+  ): Promise<{ post: any; created: boolean }> {
     try {
-      // Get recent posts to analyze topic trends
-      const recentPosts = await this.postModel.findAll({
-        limit: 100,
-        order: [['createdAt', 'DESC']],
-      });
+      // Extract categories from multiple sources
+      let categories = item.categories || [];
 
-      // Extract keywords from content and boost their frequency based on relevance
-      for (const post of recentPosts) {
-        if (post.content) {
-          // Extract keywords from content and boost their frequency
-          const words = post.content.toLowerCase().match(/\b\w{4,}\b/g) || [];
-          words.forEach((word) => {
-            if (!this.seeds.has(word)) {
-              const current = this.topicsQueue.get(word) || 0;
-              // Boost frequency based on post relevance score
-              const boost = Math.ceil(post.relevance / 2);
-              this.topicsQueue.set(word, current + boost);
-            }
-          });
-        }
+      // If no categories in the root, try to extract from classification results
+      if (
+        categories.length === 0 &&
+        item._vote?.content_classification?.full_result?.labels
+      ) {
+        // Use top 3 categories from classification results with scores above threshold
+        const classificationResults =
+          item._vote.content_classification.full_result;
+        const threshold = 0.1; // Minimum score threshold
+
+        categories = classificationResults.labels
+          .slice(0, 5) // Take top 5 labels
+          .filter(
+            (_, index) => classificationResults.scores[index] >= threshold,
+          )
+          .slice(0, 3); // Limit to top 3 categories
+
+        this.logger.log(`Extracted categories from classification`, {
+          uuid: item.id,
+          originalCategories: item.categories,
+          extractedCategories: categories,
+          classificationScores: classificationResults.scores.slice(0, 3),
+        });
+      }
+
+      const result = await this.savePost(item, categories);
+      if (result.created) {
+        await this.recordKeywords([item]);
       }
+      return result;
     } catch (error) {
-      this.logger.error('Failed to update topic relevance:', error);
+      this.logger.error(`Error processing ingest ${item.id}:`, error);
+      if (options.deadLetter ?? true) {
+        await this.deadLettersService.capture({ ...item }, error);
+      }
+      throw error;
     }
   }
 
   /**
-   * Processes the incoming data and updates the topics queue with keywords.
+   * Replays a dead letter now, whatever its status, unless it was already replayed.
    *
-   * @param data - The delivery request containing the payload (object or array of objects).
+   * @throws NotFoundException if the dead letter does not exist.
+   * @throws BadRequestException if it was already replayed.
    */
-  async receive(data: unknown): Promise<unknown> {
-    // Handle both single object and array of objects
-    const items = Array.isArray(data) ? data : [data];
+  async replayDeadLetter(id: number): Promise<IngestDeadLetterDetailDto> {
+    const letter = await this.deadLettersService.find(id);
+    if (letter.status === 'replayed') {
+      throw new BadRequestException('Dead letter was already replayed');
+    }
 
-    const results: any[] = [];
+    return this.deadLettersService.toDetail(await this.replay(letter));
+  }
 
-    for (const item of items) {
-      // Process keywords if they exist (this is optional)
-      if (item?.keywords) {
-        item.keywords.forEach((keyword: string) => {
-          const key = keyword.toLowerCase();
-          const currentValue = this.topicsQueue.get(key) || 0;
-          const newValue = currentValue + 1;
-          this.topicsQueue.set(key, newValue);
-        });
+  /**
+   * Retries the dead letters whose automatic retry is due, each claimed
+   * first so that a single replica retries it.
+   * Runs every minute.
+   */
+  @Cron('* * * * *')
+  async retryDeadLetters(): Promise<void> {
+    try {
+      const due = await this.deadLettersService.findDue(
+        this.deadLetterRetryBatchSize,
+      );
+      if (due.length === 0) {
+        return;
       }
 
-      try {
-        // Extract categories from multiple sources
-        let categories = item.categories || [];
-
-        // If no categories in the root, try to extract from classification results
-        if (
-          categories.length === 0 &&
-          item._vote?.content_classification?.full_result?.labels
-        ) {
-          // Use top 3 categories from classification results with scores above threshold
-          const classificationResults =
-            item._vote.content_classification.full_result;
-          const threshold = 0.1; // Minimum score threshold
-
-          categories = classificationResults.labels
-            .slice(0, 5) // Take top 5 labels
-            .filter(
-              (_, index) => classificationResults.scores[index] >= threshold,
-            )
-            .slice(0, 3); // Limit to top 3 categories
-
-          this.logger.log(`Extracted categories from classification`, {
-            uuid: item.id,
-            originalCategories: item.categories,
-            extractedCategories: categories,
-            classificationScores: classificationResults.scores.slice(0, 3),
-          });
+      let retried = 0;
+      let replayed = 0;
+      for (const letter of due) {
+        if (!(await this.deadLettersService.claim(letter))) {
+          continue;
+        }
+        retried++;
+        const result = await this.replay(letter);
+        if (result.status === 'replayed') {
+          replayed++;
         }
-
-        const result = await this.savePost(item, categories);
-        results.push(result);
-      } catch (error) {
-        this.logger.error(`Error processing ingest ${item.id}:`, error);
-        // Continue processing other items even if one fails
-        results.push({ error: error.message, id: item.id });
       }
+
+      this.logger.log('Retried dead letters', {
+        due: due.length,
+        retried,
+        replayed,
+        failed: retried - replayed,
+      });
+    } catch (error) {
+      this.logger.error('Failed to retry dead letters:', error);
+    }
+  }
+
+  /**
+   * Validates and stores the payload of a dead letter, recording the outcome.
+   */
+  private async replay(letter: IngestDeadLetter): Promise<IngestDeadLetter> {
+    const { value: item, errors } = await this.validateItem(letter.payload);
+    if (!item) {
+      return this.deadLettersService.recordFailure(
+        letter,
+        new Error(
+          `Invalid payload: ${errors
+            .map((error) => `${error.field}: ${error.messages.join(', ')}`)
+            .join('; ')}`,
+        ),
+      );
     }
 
-    // Return single result if input was single object, array if input was array
-    return Array.isArray(data) ? results : results[0];
+    try {
+      const { post } = await this.ingestItem(item, { deadLetter: false });
+      return await this.deadLettersService.recordSuccess(letter, post.uuid);
+    } catch (error) {
+      return this.deadLettersService.recordFailure(letter, error);
+    }
+  }
+
+  /**
+   * Records the keywords of stored items in the topics store.
+   * Failures are logged, never thrown.
+   */
+  private async recordKeywords(items: IngestDto[]): Promise<void> {
+    const mentions = new Map<string, number>();
+    for (const item of items) {
+      // Process keywords if they exist (this is optional)
+      item.keywords?.forEach((keyword) => {
+        const normalized = keyword.toLowerCase();
+        mentions.set(normalized, (mentions.get(normalized) || 0) + 1);
+      });
+    }
+
+    try {
+      await this.topicsService.recordMentions(mentions);
+    } catch (error) {
+      this.logger.error('Failed to record ingest keywords:', error);
+    }
   }
 }
@@ -0,0 +1,55 @@
+import {
+  ConnectionRefusedError,
+  TimeoutError,
+  UniqueConstraintError,
+  ValidationError,
+} from 'sequelize';
+import { isTransientError, retryDelayMs } from './transient-errors';
+
+describe('isTransientError', () => {
+  it('should treat connection failures and lock contention as transient', () => {
+    expect(
+      isTransientError(new ConnectionRefusedError(new Error('down'))),
+    ).toBe(true);
+    expect(
+      isTransientError({
+        message: 'Deadlock',
+        parent: { code: 'ER_LOCK_DEADLOCK' },
+      }),
+    ).toBe(true);
+    expect(isTransientError({ code: 'ECONNRESET' })).toBe(true);
+  });
+
+  it('should treat timeouts as transient, wherever the code is set', () => {
+    const slowQuery = Object.assign(new Error('slow'), { sql: 'SELECT 1' });
+    expect(isTransientError(new TimeoutError(slowQuery))).toBe(true);
+    expect(isTransientError({ cause: { code: 'ETIMEDOUT' } })).toBe(true);
+    expect(isTransientError({ parent: { code: 'ER_LOCK_WAIT_TIMEOUT' } })).toBe(
+      true,
+    );
+  });
+
+  it('should treat 5xx and 429 responses as transient', () => {
+    expect(isTransientError({ status: 503 })).toBe(true);
+    expect(isTransientError({ response: { status: 429 } })).toBe(true);
+    expect(isTransientError({ status: 500 })).toBe(true);
+    expect(isTransientError({ status: 400 })).toBe(false);
+    expect(isTransientError({ response: { status: 404 } })).toBe(false);
+  });
+
+  it('should not treat problems with the item as transient', () => {
+    expect(isTransientError(new ValidationError('bad', []))).toBe(false);
+    expect(isTransientError(new UniqueConstraintError({}))).toBe(false);
+    expect(isTransientError({ code: 'ER_DUP_ENTRY' })).toBe(false);
+    expect(isTransientError(new Error('Cannot read properties'))).toBe(false);
+    expect(isTransientError(undefined)).toBe(false);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('should double the delay with every attempt up to the cap', () => {
+    expect(
+      [1, 2, 3, 4, 10].map((attempts) => retryDelayMs(attempts, 60, 400)),
+    ).toEqual([60, 120, 240, 400, 400]);
+  });
+});
@@ -0,0 +1,62 @@
+import { ConnectionError, TimeoutError } from 'sequelize';
+
+/**
+ * Error codes of network and lock failures that may pass on their own.
+ */
+const TRANSIENT_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ER_LOCK_DEADLOCK',
+  'ER_LOCK_WAIT_TIMEOUT',
+]);
+
+/**
+ * Whether an error looks like an outage (MySQL or Qdrant unreachable,
+ * timeouts, lock contention, 5xx and 429 responses) rather than a problem
+ * with the item itself, so retrying later may succeed.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ConnectionError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { code, parent, cause, status, response } = error as {
+    code?: unknown;
+    parent?: { code?: unknown };
+    cause?: { code?: unknown };
+    status?: unknown;
+    response?: { status?: unknown };
+  };
+  const codes = [code, parent?.code, cause?.code];
+  if (
+    codes.some(
+      (value) => typeof value === 'string' && TRANSIENT_CODES.has(value),
+    )
+  ) {
+    return true;
+  }
+
+  const httpStatus = Number(status ?? response?.status);
+  return httpStatus >= 500 || httpStatus === 429;
+}
+
+/**
+ * Delay before the next automatic retry: doubles with every attempt, up to a cap.
+ *
+ * @param attempts - Attempts made so far (at least 1).
+ * @param baseMs - Delay after the first attempt.
+ * @param maxMs - Longest delay.
+ */
+export function retryDelayMs(
+  attempts: number,
+  baseMs: number,
+  maxMs: number,
+): number {
+  return Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+}
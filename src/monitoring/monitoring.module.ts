@@ -1,22 +1,74 @@
 import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
+import { AuthorizationModule } from 'src/authorization/authorization.module';
 import { CoreModule } from 'src/core/core.module';
 import { DalModule } from 'src/dal/dal.module';
 import { Event, Match, Post } from 'src/models';
+import { DispatcherService } from './dispatch/dispatcher.service';
+import {
+  createEmbeddingProvider,
+  EMBEDDING_PROVIDER,
+} from './embeddings/embedding-provider';
+import { EmbeddingsService } from './embeddings/embeddings.service';
+import { TriggerController } from './dispatch/trigger.controller';
 import { EventsController } from './events/events.controller';
 import { EventsService } from './events/events.service';
+import { FeedsController } from './feeds/feeds.controller';
+import { FeedsService } from './feeds/feeds.service';
+import { IngestDeadLettersController } from './ingest/ingest-dead-letters.controller';
+import { IngestDeadLettersService } from './ingest/ingest-dead-letters.service';
+import {
+  DatabaseIngestJobStore,
+  INGEST_JOB_STORE,
+} from './ingest/ingest-job-store';
+import { IngestQueueService } from './ingest/ingest-queue.service';
 import { IngestController } from './ingest/ingest.controller';
 import { IngestService } from './ingest/ingest.service';
 import { PostsController } from './posts/posts.controller';
 import { PostsService } from './posts/posts.service';
+import { KeywordExtractor } from './topics/keywords/keyword-extractor';
+import { TopicSpikesService } from './topics/topic-spikes.service';
+import { TopicsController } from './topics/topics.controller';
+import { TopicsService } from './topics/topics.service';
+import { PostVectorsService } from './vectors/post-vectors.service';
+import { VectorReconcilerService } from './vectors/vector-reconciler.service';
+import { VectorReindexService } from './vectors/vector-reindex.service';
+import { VectorsController } from './vectors/vectors.controller';
 
 @Module({
   imports: [
     CoreModule,
     DalModule,
+    AuthorizationModule,
     SequelizeModule.forFeature([Event, Post, Match]),
   ],
-  providers: [IngestService, PostsService, EventsService],
-  controllers: [IngestController, PostsController, EventsController],
+  providers: [
+    IngestService,
+    IngestQueueService,
+    IngestDeadLettersService,
+    { provide: INGEST_JOB_STORE, useClass: DatabaseIngestJobStore },
+    PostsService,
+    EventsService,
+    FeedsService,
+    TopicsService,
+    TopicSpikesService,
+    KeywordExtractor,
+    DispatcherService,
+    PostVectorsService,
+    VectorReconcilerService,
+    VectorReindexService,
+    { provide: EMBEDDING_PROVIDER, useFactory: createEmbeddingProvider },
+    EmbeddingsService,
+  ],
+  controllers: [
+    IngestController,
+    IngestDeadLettersController,
+    PostsController,
+    EventsController,
+    FeedsController,
+    TopicsController,
+    TriggerController,
+    VectorsController,
+  ],
 })
 export class MonitoringModule {}
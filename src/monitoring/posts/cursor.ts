@@ -0,0 +1,24 @@
+/**
+ * Encodes a pagination position as an opaque cursor.
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor()`.
+ *
+ * @returns The position, or null if the cursor is malformed.
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const position: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    return position && typeof position === 'object' && !Array.isArray(position)
+      ? (position as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import { Op } from 'sequelize';
+import {
+  decodeFeedCursor,
+  encodeFeedCursor,
+  feedCursorWhere,
+  feedOrder,
+} from './feed-cursor';
+
+const encode = (position: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+describe('feed cursors', () => {
+  const postedAt = new Date('2025-01-15T10:30:00.000Z');
+
+  it('should round-trip through the opaque encoding', () => {
+    const recent = {
+      sort: 'recent' as const,
+      postedAt,
+      id: 42,
+      direction: 'older' as const,
+    };
+    const relevance = {
+      sort: 'relevance' as const,
+      relevance: 0.75,
+      id: 42,
+      direction: 'newer' as const,
+    };
+
+    expect(decodeFeedCursor(encodeFeedCursor(recent))).toEqual(recent);
+    expect(decodeFeedCursor(encodeFeedCursor(relevance))).toEqual(relevance);
+  });
+
+  it('should read cursors without a sort as recent', () => {
+    expect(
+      decodeFeedCursor(
+        encode({ t: postedAt.toISOString(), id: 7, d: 'newer' }),
+      ),
+    ).toEqual({ sort: 'recent', postedAt, id: 7, direction: 'newer' });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeFeedCursor('not-a-cursor')).toBeNull();
+    expect(
+      decodeFeedCursor(encode({ t: 'yesterday', id: 1, d: 'older' })),
+    ).toBeNull();
+    expect(
+      decodeFeedCursor(
+        encode({ t: postedAt.toISOString(), id: 1, d: 'sideways' }),
+      ),
+    ).toBeNull();
+    expect(
+      decodeFeedCursor(
+        encode({ s: 'relevance', r: 'high', id: 1, d: 'older' }),
+      ),
+    ).toBeNull();
+  });
+
+  it('should break sort key ties by id', () => {
+    expect(
+      feedCursorWhere({ sort: 'recent', postedAt, id: 42, direction: 'older' }),
+    ).toEqual({
+      [Op.or]: [
+        { posted_at: { [Op.lt]: postedAt } },
+        { posted_at: postedAt, id: { [Op.lt]: 42 } },
+      ],
+    });
+    expect(
+      feedCursorWhere({
+        sort: 'relevance',
+        relevance: 0.5,
+        id: 42,
+        direction: 'newer',
+      }),
+    ).toEqual({
+      [Op.or]: [
+        { relevance: { [Op.gt]: 0.5 } },
+        { relevance: 0.5, id: { [Op.gt]: 42 } },
+      ],
+    });
+  });
+
+  it('should read newer pages in reverse feed order', () => {
+    expect(feedOrder('relevance', 'newer')).toEqual([
+      ['relevance', 'ASC'],
+      ['id', 'ASC'],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { Op, OrderItem, WhereOptions } from 'sequelize';
+import { decodeCursor, encodeCursor } from './cursor';
+
+/**
+ * Orders of the feed, both descending with ties broken by post id:
+ * `recent` by `posted_at`, `relevance` by `relevance`.
+ */
+export type FeedSort = 'recent' | 'relevance';
+
+/**
+ * A position in the feed: the sort key and id of a post.
+ */
+export type FeedPosition =
+  | { sort: 'recent'; postedAt: Date; id: number }
+  | { sort: 'relevance'; relevance: number; id: number };
+
+/**
+ * A position in the feed and the side of it a page is read from:
+ * `older` posts come after it in the feed, `newer` posts before it.
+ */
+export type FeedCursor = FeedPosition & { direction: 'older' | 'newer' };
+
+/**
+ * Encodes a feed cursor as an opaque string.
+ */
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return encodeCursor(
+    cursor.sort === 'recent'
+      ? { t: cursor.postedAt.toISOString(), id: cursor.id, d: cursor.direction }
+      : {
+          s: cursor.sort,
+          r: cursor.relevance,
+          id: cursor.id,
+          d: cursor.direction,
+        },
+  );
+}
+
+/**
+ * Decodes a cursor produced by `encodeFeedCursor()`.
+ *
+ * @returns The cursor, or null if it is malformed.
+ */
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  const position = decodeCursor(value);
+  if (!position) {
+    return null;
+  }
+
+  const { id, d: direction } = position;
+  if (
+    !Number.isSafeInteger(id) ||
+    (direction !== 'older' && direction !== 'newer')
+  ) {
+    return null;
+  }
+
+  if (position.s === 'relevance') {
+    return typeof position.r === 'number' && Number.isFinite(position.r)
+      ? {
+          sort: 'relevance',
+          relevance: position.r,
+          id: id as number,
+          direction,
+        }
+      : null;
+  }
+  // Cursors without a sort predate relevance ordering
+  if (position.s !== undefined && position.s !== 'recent') {
+    return null;
+  }
+  const postedAt = new Date(position.t as string);
+  if (typeof position.t !== 'string' || isNaN(postedAt.getTime())) {
+    return null;
+  }
+
+  return { sort: 'recent', postedAt, id: id as number, direction };
+}
+
+/**
+ * Position of a post in the feed under a sort.
+ */
+export function feedPositionOf(
+  post: { posted_at: Date; relevance: number; id: number },
+  sort: FeedSort,
+): FeedPosition {
+  return sort === 'recent'
+    ? { sort, postedAt: post.posted_at, id: post.id }
+    : { sort, relevance: post.relevance, id: post.id };
+}
+
+/**
+ * Condition selecting the posts on the cursor's side of its position.
+ */
+export function feedCursorWhere(cursor: FeedCursor): WhereOptions {
+  const op = cursor.direction === 'older' ? Op.lt : Op.gt;
+  const [column, value] =
+    cursor.sort === 'recent'
+      ? ['posted_at', cursor.postedAt]
+      : ['relevance', cursor.relevance];
+
+  return {
+    [Op.or]: [
+      { [column]: { [op]: value } },
+      { [column]: value, id: { [op]: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Order of the posts read for a page: feed order for `older` pages, its
+ * reverse for `newer` ones.
+ */
+export function feedOrder(
+  sort: FeedSort,
+  direction: FeedCursor['direction'] = 'older',
+): OrderItem[] {
+  const order = direction === 'older' ? 'DESC' : 'ASC';
+  return [
+    [sort === 'recent' ? 'posted_at' : 'relevance', order],
+    ['id', order],
+  ];
+}
@@ -0,0 +1,58 @@
+import { literal, Op } from 'sequelize';
+import { feedFilterConditions } from './feed-filters';
+
+const escape = (value: string) => `'${value}'`;
+
+describe('feedFilterConditions', () => {
+  it('should not restrict an empty filter', () => {
+    expect(feedFilterConditions({}, escape)).toEqual([]);
+    expect(
+      feedFilterConditions({ categorySlugs: [], sources: [] }, escape),
+    ).toEqual([]);
+  });
+
+  it('should match any value of list filters', () => {
+    expect(
+      feedFilterConditions(
+        {
+          categorySlugs: ['tech'],
+          sources: ['bluesky', 'mastodon'],
+          authorHandles: ['alice.bsky.social'],
+        },
+        escape,
+      ),
+    ).toEqual([
+      { '$categories_relation.slug$': { [Op.in]: ['tech'] } },
+      { source: { [Op.in]: ['bluesky', 'mastodon'] } },
+      { author_handle: { [Op.in]: ['alice.bsky.social'] } },
+    ]);
+  });
+
+  it('should bound relevance and publication time', () => {
+    const since = new Date('2025-01-15T00:00:00.000Z');
+
+    expect(
+      feedFilterConditions({ minRelevance: 0, maxRelevance: 5, since }, escape),
+    ).toEqual([
+      { relevance: { [Op.gte]: 0 } },
+      { relevance: { [Op.lte]: 5 } },
+      { posted_at: { [Op.gte]: since } },
+    ]);
+  });
+
+  it('should exclude categories and unclustered posts through subqueries', () => {
+    expect(
+      feedFilterConditions(
+        { excludeCategorySlugs: ['sports', 'weather'], clustered: false },
+        escape,
+      ),
+    ).toEqual([
+      literal(
+        "NOT EXISTS (SELECT 1 FROM taggings t JOIN categories c ON c.id = t.category_id WHERE t.post_id = `Post`.`id` AND c.slug IN ('sports', 'weather'))",
+      ),
+      literal(
+        'NOT EXISTS (SELECT 1 FROM matches m WHERE m.post_id = `Post`.`id`)',
+      ),
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { literal, Op, WhereOptions } from 'sequelize';
+
+/**
+ * Restrictions on the posts of the feed. Lists match any of their values
+ * and are ignored when empty.
+ *
+ * @property categorySlugs - Posts in any of these categories.
+ * @property excludeCategorySlugs - Posts in none of these categories.
+ * @property sources - Posts from any of these sources.
+ * @property langs - Posts in any of these languages.
+ * @property authorHandles - Posts by any of these author handles.
+ * @property minRelevance - Posts with at least this relevance.
+ * @property maxRelevance - Posts with at most this relevance.
+ * @property since - Posts published at or after this time.
+ * @property until - Posts published at or before this time.
+ * @property hasMedia - Posts with (`true`) or without (`false`) media.
+ * @property clustered - Posts attached to an event (`true`) or to none (`false`).
+ */
+export interface FeedFilters {
+  categorySlugs?: string[];
+  excludeCategorySlugs?: string[];
+  sources?: string[];
+  langs?: string[];
+  authorHandles?: string[];
+  minRelevance?: number;
+  maxRelevance?: number;
+  since?: Date;
+  until?: Date;
+  hasMedia?: boolean;
+  clustered?: boolean;
+}
+
+/**
+ * Builds the conditions of a feed query on `Post`.
+ *
+ * Included categories filter the joined `categories_relation`, so matching
+ * posts list only the requested categories, as the feed always has.
+ *
+ * @param escape - Escapes a string for the database, for subqueries.
+ */
+export function feedFilterConditions(
+  filters: FeedFilters,
+  escape: (value: string) => string,
+): WhereOptions[] {
+  const conditions: WhereOptions[] = [];
+  const anyOf = (column: string, values?: string[]) => {
+    if (values?.length) {
+      conditions.push({ [column]: { [Op.in]: values } });
+    }
+  };
+
+  anyOf('$categories_relation.slug$', filters.categorySlugs);
+  if (filters.excludeCategorySlugs?.length) {
+    conditions.push(
+      literal(
+        `NOT EXISTS (SELECT 1 FROM taggings t JOIN categories c ON c.id = t.category_id WHERE t.post_id = \`Post\`.\`id\` AND c.slug IN (${filters.excludeCategorySlugs.map(escape).join(', ')}))`,
+      ),
+    );
+  }
+  anyOf('source', filters.sources);
+  anyOf('lang', filters.langs);
+  anyOf('author_handle', filters.authorHandles);
+
+  if (filters.minRelevance !== undefined) {
+    conditions.push({ relevance: { [Op.gte]: filters.minRelevance } });
+  }
+  if (filters.maxRelevance !== undefined) {
+    conditions.push({ relevance: { [Op.lte]: filters.maxRelevance } });
+  }
+  if (filters.since) {
+    conditions.push({ posted_at: { [Op.gte]: filters.since } });
+  }
+  if (filters.until) {
+    conditions.push({ posted_at: { [Op.lte]: filters.until } });
+  }
+
+  if (filters.hasMedia !== undefined) {
+    conditions.push(
+      literal(
+        filters.hasMedia
+          ? 'JSON_LENGTH(`Post`.`media`) > 0'
+          : '(`Post`.`media` IS NULL OR JSON_LENGTH(`Post`.`media`) = 0)',
+      ),
+    );
+  }
+  if (filters.clustered !== undefined) {
+    conditions.push(
+      literal(
+        `${filters.clustered ? '' : 'NOT '}EXISTS (SELECT 1 FROM matches m WHERE m.post_id = \`Post\`.\`id\`)`,
+      ),
+    );
+  }
+
+  return conditions;
+}
@@ -0,0 +1,63 @@
+import { fuseRankings, highlightSnippet, searchTerms } from './hybrid-search';
+
+describe('fuseRankings', () => {
+  it('should favour posts ranked by both searches', () => {
+    const fused = fuseRankings({ keyword: [1, 2, 3], semantic: [3, 4] });
+
+    expect(fused.map((result) => result.id)).toEqual([3, 1, 2, 4]);
+    expect(fused[0]).toEqual({
+      id: 3,
+      score: 1 / 63 + 1 / 61,
+      matchedBy: ['keyword', 'semantic'],
+    });
+  });
+
+  it('should keep the first ranking order on ties', () => {
+    const fused = fuseRankings({ keyword: [1, 2], semantic: [2, 1] });
+
+    expect(fused.map((result) => result.id)).toEqual([1, 2]);
+  });
+
+  it('should count a repeated id once per ranking', () => {
+    expect(fuseRankings({ keyword: [5, 5] })).toEqual([
+      { id: 5, score: 1 / 61, matchedBy: ['keyword'] },
+    ]);
+  });
+});
+
+describe('searchTerms', () => {
+  it('should split the query into unique lowercased words', () => {
+    expect(searchTerms('Climate, climate change!')).toEqual([
+      'climate',
+      'change',
+    ]);
+  });
+});
+
+describe('highlightSnippet', () => {
+  it('should mark every term at word starts', () => {
+    expect(
+      highlightSnippet('Climate talks stall; reclimate no', ['climate']),
+    ).toEqual({
+      text: 'Climate talks stall; reclimate no',
+      highlights: [[0, 7]],
+    });
+  });
+
+  it('should cut around the first match of long content', () => {
+    const content = `${'a '.repeat(100)}election results are in ${'b '.repeat(100)}`;
+    const snippet = highlightSnippet(content, ['election'], 40);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const [[start, end]] = snippet.highlights;
+    expect(snippet.text.slice(start, end)).toBe('election');
+  });
+
+  it('should return the opening when nothing matches', () => {
+    expect(highlightSnippet('abc def', ['xyz'], 3)).toEqual({
+      text: 'abc…',
+      highlights: [],
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Rank constant of reciprocal rank fusion. Larger values flatten the
+ * advantage of the top ranks.
+ */
+export const RRF_K = 60;
+
+/**
+ * A post of a fused ranking.
+ *
+ * @property id - Post id.
+ * @property score - Sum of `1 / (k + rank)` over the rankings the post is in.
+ * @property matchedBy - Names of the rankings the post is in.
+ */
+export interface FusedResult {
+  id: number;
+  score: number;
+  matchedBy: string[];
+}
+
+/**
+ * Merges rankings of post ids with reciprocal rank fusion.
+ *
+ * @param rankings - Post ids by ranking name, best first.
+ * @returns The fused ranking, best first; ties keep the order of the first ranking.
+ */
+export function fuseRankings(
+  rankings: Record<string, number[]>,
+  k: number = RRF_K,
+): FusedResult[] {
+  const fused = new Map<number, FusedResult>();
+
+  for (const [name, ids] of Object.entries(rankings)) {
+    ids.forEach((id, index) => {
+      const result = fused.get(id) ?? { id, score: 0, matchedBy: [] };
+      if (result.matchedBy.includes(name)) {
+        return;
+      }
+      result.score += 1 / (k + index + 1);
+      result.matchedBy.push(name);
+      fused.set(id, result);
+    });
+  }
+
+  // Map iteration keeps first-seen order, and the sort is stable
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Lowercased words of a search query, without repeats.
+ */
+export function searchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+/**
+ * A snippet of a post's content with the spans matching the query.
+ *
+ * @property text - The snippet, with `…` where content was cut.
+ * @property highlights - `[start, end)` offsets of the matches within `text`.
+ */
+export interface Snippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Cuts a snippet of the content around the first query term it contains.
+ *
+ * Terms match at word starts, case-insensitively. Content without any term
+ * yields its opening.
+ *
+ * @param maxLength - Longest snippet, ellipses aside.
+ */
+export function highlightSnippet(
+  content: string,
+  terms: string[],
+  maxLength = 200,
+): Snippet {
+  const pattern = terms.length
+    ? new RegExp(
+        `(?<![\\p{L}\\p{N}])(${terms
+          .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('|')})`,
+        'giu',
+      )
+    : null;
+
+  const first = pattern ? content.search(pattern) : -1;
+  const start =
+    first > maxLength / 4 && content.length > maxLength
+      ? Math.min(first - Math.floor(maxLength / 4), content.length - maxLength)
+      : 0;
+  const end = Math.min(start + maxLength, content.length);
+
+  const prefix = start > 0 ? '…' : '';
+  const text = `${prefix}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+
+  const highlights: Array<[number, number]> = [];
+  if (pattern) {
+    for (const match of content.slice(start, end).matchAll(pattern)) {
+      const offset = prefix.length + match.index;
+      highlights.push([offset, offset + match[0].length]);
+    }
+  }
+
+  return { text, highlights };
+}
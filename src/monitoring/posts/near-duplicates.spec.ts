@@ -0,0 +1,35 @@
+import { collapseNearDuplicates } from './near-duplicates';
+
+describe('collapseNearDuplicates', () => {
+  const page = [{ id: 5 }, { id: 4 }, { id: 3 }, { id: 2 }, { id: 1 }];
+  const idOf = (item: { id: number }) => item.id;
+
+  it('should keep a page without pairs as is', () => {
+    expect(collapseNearDuplicates(page, idOf, [])).toEqual(
+      page.map((item) => ({ item, variantCount: 0 })),
+    );
+  });
+
+  it('should represent each story by its earliest item', () => {
+    const stories = collapseNearDuplicates(page, idOf, [
+      [5, 2],
+      [4, 2],
+      [3, 1],
+    ]);
+
+    expect(stories).toEqual([
+      { item: { id: 2 }, variantCount: 2 },
+      { item: { id: 1 }, variantCount: 1 },
+    ]);
+  });
+
+  it('should count posts outside the page as variants without merging', () => {
+    const stories = collapseNearDuplicates(page, idOf, [
+      [5, 9],
+      [3, 9],
+      [8, 3],
+    ]);
+
+    expect(stories.map((story) => story.variantCount)).toEqual([1, 0, 2, 0, 0]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * A story of a collapsed page: its canonical item and the number of
+ * near-duplicates it stands for.
+ */
+export interface CollapsedStory<T> {
+  item: T;
+  variantCount: number;
+}
+
+/**
+ * Collapses near-duplicate items of a page into one story each.
+ *
+ * Items linked by a pair, directly or through other items of the page, form
+ * one story. The story is represented by its earliest item, which is the
+ * last one in the page's newest-first order, so the page keeps its order and
+ * its last item. Pairs to posts outside the page add to the variant count
+ * without merging stories.
+ *
+ * @param items - Page items, newest first.
+ * @param idOf - Post id of an item.
+ * @param pairs - Near-duplicate pairs of post ids touching the page.
+ */
+export function collapseNearDuplicates<T>(
+  items: T[],
+  idOf: (item: T) => number,
+  pairs: Array<[number, number]>,
+): CollapsedStory<T>[] {
+  const parent = new Map<number, number>(
+    items.map((item) => [idOf(item), idOf(item)]),
+  );
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+
+  const outside = new Map<number, Set<number>>();
+  const addOutside = (pageId: number, otherId: number) => {
+    const set = outside.get(pageId) ?? new Set<number>();
+    set.add(otherId);
+    outside.set(pageId, set);
+  };
+
+  for (const [a, b] of pairs) {
+    const hasA = parent.has(a);
+    const hasB = parent.has(b);
+    if (hasA && hasB) {
+      parent.set(find(a), find(b));
+    } else if (hasA) {
+      addOutside(a, b);
+    } else if (hasB) {
+      addOutside(b, a);
+    }
+  }
+
+  const stories = new Map<
+    number,
+    { item: T; index: number; size: number; outside: Set<number> }
+  >();
+  items.forEach((item, index) => {
+    const id = idOf(item);
+    const root = find(id);
+    const story = stories.get(root) ?? {
+      item,
+      index,
+      size: 0,
+      outside: new Set<number>(),
+    };
+    story.item = item;
+    story.index = index;
+    story.size++;
+    outside.get(id)?.forEach((other) => story.outside.add(other));
+    stories.set(root, story);
+  });
+
+  return Array.from(stories.values())
+    .sort((a, b) => a.index - b.index)
+    .map((story) => ({
+      item: story.item,
+      variantCount: story.size - 1 + story.outside.size,
+    }));
+}
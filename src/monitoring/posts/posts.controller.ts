@@ -1,13 +1,36 @@
-import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
 import { Public } from 'src/decorators/public.decorator';
 import {
   DedupRequestDto,
+  GetPostQueryDto,
   GetIngestsQueryDto,
+  PostDetailDto,
+  PostDuplicateDto,
+  PostFeedPageDto,
   PostResponseDto,
+  PostSearchResponseDto,
+  SearchPostsQueryDto,
+  SimilarPostDto,
+  SimilarToPostQueryDto,
+  SimilarityFiltersDto,
   SimilaritySearchQueryDto,
   SimilaritySearchResultDto,
+  SimilarTextQueryDto,
 } from 'src/dto';
+import { invalid, validateDto } from 'src/utils/validation';
+import { EmbeddingsService } from '../embeddings/embeddings.service';
 import { IngestService } from '../ingest/ingest.service';
+import { PointFilters } from '../vectors/search-filter';
+import { decodeFeedCursor, FeedCursor } from './feed-cursor';
+import { FeedFilters } from './feed-filters';
 import { PostsService } from './posts.service';
 
 @Controller('posts')
@@ -15,21 +38,86 @@ export class PostsController {
   constructor(
     private readonly postsService: PostsService,
     private readonly ingestService: IngestService,
+    private readonly embeddingsService: EmbeddingsService,
   ) {}
 
   @Get()
   @Public()
   async getPosts(
-    @Query() query: GetIngestsQueryDto,
-  ): Promise<PostResponseDto[]> {
-    const categories =
-      query.categories?.split(',').map((cat) => cat.trim()) || [];
+    @Query() rawQuery: unknown,
+  ): Promise<PostResponseDto[] | PostFeedPageDto> {
+    const { value: query, errors } = await validateDto(
+      GetIngestsQueryDto,
+      rawQuery ?? {},
+    );
+    if (!query) {
+      throw invalid(errors);
+    }
+    if (
+      query.min_relevance !== undefined &&
+      query.max_relevance !== undefined &&
+      query.min_relevance > query.max_relevance
+    ) {
+      throw new BadRequestException(
+        'min_relevance must not exceed max_relevance',
+      );
+    }
+
+    const filters: FeedFilters = {
+      categorySlugs: query.categories,
+      excludeCategorySlugs: query.exclude_categories,
+      sources: query.sources,
+      langs: query.langs,
+      authorHandles: query.author_handles,
+      minRelevance: query.min_relevance,
+      maxRelevance: query.max_relevance,
+      since: this.parseDate('since', query.since),
+      until: this.parseDate('until', query.until),
+      hasMedia: this.parseFlag(query.has_media),
+      clustered: this.parseFlag(query.clustered),
+    };
 
     // Validate and set limit (default 50, max 50, min 1)
     const limit =
       query.limit !== undefined && query.limit !== null
         ? Math.min(Math.max(1, query.limit), 50)
         : 50;
+    const collapse = query.collapse === 'true';
+
+    // Cursor pages come in an envelope; plain and `before` requests keep the array
+    if (query.cursor || query.after || query.paginate === 'cursor') {
+      let cursor: FeedCursor | undefined;
+      if (query.cursor) {
+        cursor = decodeFeedCursor(query.cursor) ?? undefined;
+        if (!cursor) {
+          throw new BadRequestException('Invalid cursor');
+        }
+        if (query.sort && query.sort !== cursor.sort) {
+          throw new BadRequestException(
+            `Cursor was issued for sort=${cursor.sort}`,
+          );
+        }
+      } else if (query.after) {
+        if (query.sort === 'relevance') {
+          throw new BadRequestException('after requires sort=recent');
+        }
+        // Past every post published at `after`
+        cursor = {
+          sort: 'recent',
+          postedAt: this.parseDate('after', query.after)!,
+          id: Number.MAX_SAFE_INTEGER,
+          direction: 'newer',
+        };
+      }
+
+      return await this.postsService.getFeed({
+        filters,
+        sort: query.sort,
+        limit,
+        cursor,
+        collapse,
+      });
+    }
 
     // Parse before timestamp if provided
     let before: Date | undefined;
@@ -41,27 +129,71 @@ export class PostsController {
     }
 
     return await this.postsService.getPosts({
-      categorySlugs: categories,
+      filters,
+      sort: query.sort,
       limit,
       before,
+      collapse,
     });
   }
 
+  @Get('similar')
+  @Public()
+  async findSimilarPostsByText(
+    @Query() query: SimilarTextQueryDto,
+  ): Promise<SimilaritySearchResultDto[]> {
+    const limit =
+      query.limit && query.limit > 0 && query.limit <= 50
+        ? Number(query.limit)
+        : 10;
+
+    const embedding = await this.embeddingsService.embedQuery(
+      query.query,
+      query.model,
+    );
+    return await this.ingestService.searchSimilarContent(
+      embedding,
+      limit,
+      query.model,
+    );
+  }
+
   @Post('similar')
   @Public()
   async findSimilarPosts(
-    @Body() query: SimilaritySearchQueryDto,
+    @Body() body: unknown,
   ): Promise<SimilaritySearchResultDto[]> {
-    if (!query.embedding || query.embedding.length === 0) {
-      return [];
+    const { value: query, errors } = await validateDto(
+      SimilaritySearchQueryDto,
+      body,
+    );
+    if (!query) {
+      throw invalid(errors);
     }
 
     const limit =
       query.limit && query.limit > 0 && query.limit <= 50 ? query.limit : 10;
 
+    // Text queries are embedded server-side
+    let embedding = query.embedding;
+    if ((!embedding || embedding.length === 0) && query.query) {
+      embedding = await this.embeddingsService.embedQuery(
+        query.query,
+        query.model,
+      );
+    }
+    if (!embedding || embedding.length === 0) {
+      return [];
+    }
+
     return await this.ingestService.searchSimilarContent(
-      query.embedding,
+      embedding,
       limit,
+      query.model,
+      {
+        filters: query.filters && this.toPointFilters(query.filters),
+        minScore: query.minScore,
+      },
     );
   }
 
@@ -69,9 +201,8 @@ export class PostsController {
   @Public()
   async checkVectorHealth(): Promise<{ healthy: boolean; message: string }> {
     try {
-      // Try to search with a simple test embedding (384 dimensions with small values)
-      const testEmbedding = new Array(384).fill(0.1);
-      await this.ingestService.searchSimilarContent(testEmbedding, 1);
+      // Try to search with a test embedding sized as the collection's vector
+      await this.ingestService.checkVectorSearch();
       return {
         healthy: true,
         message: 'Vector search service is accessible and functioning',
@@ -104,6 +235,7 @@ export class PostsController {
       pointsCount: number;
       vectorSize: number;
       distance: string;
+      vectors: Record<string, { size: number; distance: string }>;
     };
   }> {
     return await this.ingestService.listVectors(
@@ -111,9 +243,135 @@ export class PostsController {
     );
   }
 
+  @Get('search')
+  @Public()
+  async searchPosts(
+    @Query() query: SearchPostsQueryDto,
+  ): Promise<PostSearchResponseDto> {
+    if (!query.q?.trim()) {
+      throw new BadRequestException('q is required');
+    }
+    const limit =
+      query.limit && query.limit > 0 && query.limit <= 50
+        ? Number(query.limit)
+        : 20;
+
+    return await this.postsService.search({
+      query: query.q.trim(),
+      categorySlugs: this.parseList(query.categories),
+      sources: this.parseList(query.sources),
+      langs: this.parseList(query.langs),
+      since: this.parseDate('since', query.since),
+      until: this.parseDate('until', query.until),
+      limit,
+      cursor: query.cursor,
+    });
+  }
+
+  @Get(':uuid/similar')
+  @Public()
+  async getSimilarToPost(
+    @Param('uuid') uuid: string,
+    @Query() query: SimilarToPostQueryDto,
+  ): Promise<SimilarPostDto[]> {
+    const limit =
+      query.limit && query.limit > 0 && query.limit <= 50
+        ? Number(query.limit)
+        : 10;
+
+    return await this.postsService.getSimilar(uuid, limit, query.model);
+  }
+
+  @Get(':uuid/duplicates')
+  @Public()
+  async getDuplicates(
+    @Param('uuid') uuid: string,
+  ): Promise<PostDuplicateDto[]> {
+    return await this.postsService.getDuplicates(uuid);
+  }
+
+  @Get(':uuid')
+  @Public()
+  async getPost(
+    @Param('uuid') uuid: string,
+    @Query() query: GetPostQueryDto,
+  ): Promise<PostDetailDto> {
+    const similarLimit =
+      query.similar_limit &&
+      query.similar_limit > 0 &&
+      query.similar_limit <= 20
+        ? Number(query.similar_limit)
+        : 5;
+
+    return await this.postsService.getPost(uuid, {
+      deviceToken: query.device_token || undefined,
+      similarLimit,
+    });
+  }
+
   @Post('dedup')
   @Public()
   async dedup(@Body() body: DedupRequestDto) {
     return await this.postsService.dedupPosts(body);
   }
+
+  /**
+   * Maps the filters of a similarity search to point filters, turning the
+   * time window into the later of its start and `since`.
+   */
+  private toPointFilters(filters: SimilarityFiltersDto): PointFilters {
+    const windowStart =
+      filters.windowHours !== undefined
+        ? Date.now() - filters.windowHours * 60 * 60 * 1000
+        : undefined;
+    const since = Math.max(
+      filters.since ? new Date(filters.since).getTime() : -Infinity,
+      windowStart ?? -Infinity,
+    );
+
+    return {
+      categories: filters.categories,
+      sources: filters.sources,
+      langs: filters.langs,
+      authorHandles: filters.authorHandles,
+      minRelevance: filters.minRelevance,
+      since: Number.isFinite(since) ? new Date(since) : undefined,
+      until: filters.until ? new Date(filters.until) : undefined,
+    };
+  }
+
+  /**
+   * Splits a comma-separated query parameter.
+   */
+  private parseList(value?: string): string[] {
+    return (
+      value
+        ?.split(',')
+        .map((item) => item.trim())
+        .filter(Boolean) ?? []
+    );
+  }
+
+  /**
+   * Parses an ISO timestamp query parameter.
+   *
+   * @throws BadRequestException if the value is not a date.
+   */
+  private parseDate(name: string, value?: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO timestamp`);
+    }
+    return date;
+  }
+
+  /**
+   * Parses a `true`/`false` query parameter.
+   */
+  private parseFlag(value?: string): boolean | undefined {
+    return value === undefined ? undefined : value === 'true';
+  }
 }
@@ -1,5 +1,8 @@
 // Simple unit tests for the Posts service cursor-based pagination logic
+import 'reflect-metadata';
+import { NotFoundException } from '@nestjs/common';
 import { Op } from 'sequelize';
+import { PostsService } from './posts.service';
 
 describe('PostsService - Cursor-based Pagination Logic', () => {
   describe('Query generation logic', () => {
@@ -145,3 +148,290 @@ describe('PostsService - Cursor-based Pagination Logic', () => {
     });
   });
 });
+
+describe('PostsService', () => {
+  const postModel = { findOne: jest.fn(), findAll: jest.fn() };
+  const postSimilarityModel = { findAll: jest.fn() };
+  const matchModel = { findAll: jest.fn() };
+  const readPostModel = { findOne: jest.fn() };
+  const qdrantClient = { retrieve: jest.fn(), search: jest.fn() };
+  const qdrantService = {
+    getDefaultModel: () => ({ name: 'minilm' }),
+    getEmbeddingModel: (name: string) =>
+      ['minilm', 'bge'].includes(name) ? { name } : undefined,
+    getVectorSchema: jest.fn(),
+    getCollectionName: () => 'posts_vectors',
+  };
+
+  const service = new PostsService(
+    postModel as any,
+    {} as any,
+    {} as any,
+    postSimilarityModel as any,
+    matchModel as any,
+    readPostModel as any,
+    qdrantClient as any,
+    qdrantService as any,
+    {} as any,
+  );
+
+  /**
+   * A stored post as Sequelize returns it.
+   */
+  const stored = (id: number) => ({
+    id,
+    uuid: `post-${id}`,
+    content: `Post ${id}`,
+    posted_at: new Date('2025-01-15T10:00:00.000Z'),
+    received_at: new Date('2025-01-15T10:01:00.000Z'),
+    categories_relation: [{ slug: 'weather' }],
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    qdrantService.getVectorSchema.mockResolvedValue({
+      minilm: { size: 3, distance: 'Cosine' },
+      bge: { size: 3, distance: 'Cosine' },
+    });
+  });
+
+  describe('getSimilar', () => {
+    it('should search with the post vector, leaving the post itself out', async () => {
+      postModel.findOne.mockResolvedValue({ id: 1 });
+      qdrantClient.retrieve.mockResolvedValue([
+        { id: 1, vector: { bge: [0.1, 0.2, 0.3] } },
+      ]);
+      qdrantClient.search.mockResolvedValue([
+        { id: 2, score: 0.7 },
+        { id: 3, score: 0.9 },
+      ]);
+      postModel.findAll.mockResolvedValue([stored(2), stored(3)]);
+
+      const similar = await service.getSimilar('post-1', 5, 'bge');
+
+      expect(qdrantClient.retrieve).toHaveBeenCalledWith('posts_vectors', {
+        ids: [1],
+        with_payload: false,
+        with_vector: ['bge'],
+      });
+      expect(qdrantClient.search).toHaveBeenCalledWith(
+        'posts_vectors',
+        expect.objectContaining({
+          vector: { name: 'bge', vector: [0.1, 0.2, 0.3] },
+          limit: 5,
+          filter: { must_not: [{ has_id: [1] }] },
+        }),
+      );
+      expect(similar.map(({ id, score }) => ({ id, score }))).toEqual([
+        { id: 'post-3', score: 0.9 },
+        { id: 'post-2', score: 0.7 },
+      ]);
+    });
+
+    it('should hydrate results from MySQL, skipping points whose post is gone', async () => {
+      postModel.findOne.mockResolvedValue({ id: 1 });
+      qdrantClient.retrieve.mockResolvedValue([
+        { id: 1, vector: { minilm: [0.1, 0.2, 0.3] } },
+      ]);
+      qdrantClient.search.mockResolvedValue([
+        { id: 2, score: 0.8 },
+        { id: 99, score: 0.95 },
+      ]);
+      postModel.findAll.mockResolvedValue([stored(2)]);
+
+      const similar = await service.getSimilar('post-1', 5);
+
+      expect(postModel.findAll.mock.calls[0][0].where).toEqual({
+        id: { [Op.in]: [2, 99] },
+      });
+      expect(similar).toEqual([
+        expect.objectContaining({
+          id: 'post-2',
+          content: 'Post 2',
+          categories: ['weather'],
+          posted_at: '2025-01-15T10:00:00.000Z',
+          score: 0.8,
+        }),
+      ]);
+    });
+
+    it('should not query MySQL when nothing is similar', async () => {
+      postModel.findOne.mockResolvedValue({ id: 1 });
+      qdrantClient.retrieve.mockResolvedValue([
+        { id: 1, vector: { minilm: [0.1, 0.2, 0.3] } },
+      ]);
+      qdrantClient.search.mockResolvedValue([]);
+
+      await expect(service.getSimilar('post-1', 5)).resolves.toEqual([]);
+      expect(postModel.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 when the post has no point', async () => {
+      postModel.findOne.mockResolvedValue({ id: 1 });
+      qdrantClient.retrieve.mockResolvedValue([]);
+
+      await expect(service.getSimilar('post-1', 5)).rejects.toThrow(
+        new NotFoundException('Post has no stored vector'),
+      );
+      expect(qdrantClient.search).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 when the post does not exist', async () => {
+      postModel.findOne.mockResolvedValue(null);
+
+      await expect(service.getSimilar('missing', 5)).rejects.toThrow(
+        new NotFoundException('Post not found'),
+      );
+      expect(qdrantClient.retrieve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPost', () => {
+    const detectedAt = new Date('2025-01-15T10:05:00.000Z');
+
+    beforeEach(() => {
+      postModel.findOne.mockResolvedValue(stored(1));
+      matchModel.findAll.mockResolvedValue([]);
+      postSimilarityModel.findAll.mockResolvedValue([]);
+      postModel.findAll.mockResolvedValue([]);
+      // The vector is still pending
+      qdrantClient.retrieve.mockResolvedValue([]);
+    });
+
+    it('should list the matched events with their score, best match first', async () => {
+      matchModel.findAll.mockResolvedValue([
+        {
+          match_score: 0.92,
+          added_at: new Date('2025-01-15T10:35:00.000Z'),
+          event: {
+            uuid: 'event-1',
+            title: 'Flooding',
+            summary: 'River over its banks',
+            status: 'open',
+          },
+        },
+        {
+          match_score: null,
+          added_at: null,
+          event: {
+            uuid: 'event-2',
+            title: null,
+            summary: null,
+            status: 'open',
+          },
+        },
+      ]);
+
+      const post = await service.getPost('post-1', { similarLimit: 5 });
+
+      expect(matchModel.findAll.mock.calls[0][0]).toMatchObject({
+        where: { post_id: 1 },
+        order: [['match_score', 'DESC']],
+      });
+      expect(post.events).toEqual([
+        {
+          id: 'event-1',
+          title: 'Flooding',
+          summary: 'River over its banks',
+          status: 'open',
+          match_score: 0.92,
+          added_at: '2025-01-15T10:35:00.000Z',
+        },
+        {
+          id: 'event-2',
+          title: null,
+          summary: null,
+          status: 'open',
+          match_score: null,
+          added_at: null,
+        },
+      ]);
+    });
+
+    it('should list near-duplicates in either direction, most similar first', async () => {
+      postSimilarityModel.findAll.mockResolvedValue([
+        { post_id: 1, similar_post_id: 2, score: 0.9, detected_at: detectedAt },
+        {
+          post_id: 3,
+          similar_post_id: 1,
+          score: 0.87,
+          detected_at: detectedAt,
+        },
+        {
+          post_id: 2,
+          similar_post_id: 1,
+          score: 0.95,
+          detected_at: detectedAt,
+        },
+      ]);
+      postModel.findAll.mockResolvedValue([stored(3), stored(2)]);
+
+      const post = await service.getPost('post-1', { similarLimit: 5 });
+
+      expect(post.duplicates).toEqual([
+        expect.objectContaining({
+          id: 'post-2',
+          score: 0.95,
+          detected_at: '2025-01-15T10:05:00.000Z',
+        }),
+        expect.objectContaining({ id: 'post-3', score: 0.87 }),
+      ]);
+    });
+
+    it('should leave similar posts empty while the vector is pending', async () => {
+      const post = await service.getPost('post-1', { similarLimit: 5 });
+
+      expect(post).toMatchObject({ id: 'post-1', similar: [] });
+    });
+
+    it('should report no read state without a device token', async () => {
+      const post = await service.getPost('post-1', { similarLimit: 5 });
+
+      expect(post).toMatchObject({ read: null, read_at: null });
+      expect(readPostModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should report a post the device has not read as unread', async () => {
+      readPostModel.findOne.mockResolvedValue(null);
+
+      const post = await service.getPost('post-1', {
+        deviceToken: 'device-1',
+        similarLimit: 5,
+      });
+
+      expect(readPostModel.findOne.mock.calls[0][0].where).toEqual({
+        deviceToken: 'device-1',
+        postId: 'post-1',
+      });
+      expect(post).toMatchObject({ read: false, read_at: null });
+    });
+
+    it('should report when the device read the post', async () => {
+      readPostModel.findOne.mockResolvedValue({
+        readAt: new Date('2025-01-15T11:00:00.000Z'),
+      });
+
+      const post = await service.getPost('post-1', {
+        deviceToken: 'device-1',
+        similarLimit: 5,
+      });
+
+      expect(post).toMatchObject({
+        read: true,
+        read_at: '2025-01-15T11:00:00.000Z',
+      });
+    });
+
+    it('should answer 404 when the post does not exist', async () => {
+      postModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getPost('missing', { similarLimit: 5 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
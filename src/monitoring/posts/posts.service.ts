@@ -1,10 +1,88 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
-import { Op } from 'sequelize';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { literal, Op, OrderItem, WhereOptions } from 'sequelize';
+import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import {
+  isUnnamed,
+  toQueryVector,
+  vectorParamsOf,
+} from 'src/dal/qdrant/vector-schema';
 import { Logger } from 'src/decorators/logger.decorator';
-import { PostResponseDto, IncomingPostDto } from 'src/dto';
-import { Category, Post, Tagging } from 'src/models';
+import {
+  IncomingPostDto,
+  PostDetailDto,
+  PostDuplicateDto,
+  PostFeedPageDto,
+  PostResponseDto,
+  PostSearchResponseDto,
+  SimilarPostDto,
+} from 'src/dto';
+import {
+  Category,
+  Event,
+  Match,
+  Post,
+  PostSimilarity,
+  ReadPost,
+  Tagging,
+} from 'src/models';
 import { JSONLogger } from 'src/utils/logger';
+import { EmbeddingsService } from '../embeddings/embeddings.service';
+import { buildPointFilter } from '../vectors/search-filter';
+import { decodeCursor, encodeCursor } from './cursor';
+import {
+  encodeFeedCursor,
+  FeedCursor,
+  feedCursorWhere,
+  feedOrder,
+  feedPositionOf,
+  FeedSort,
+} from './feed-cursor';
+import { FeedFilters, feedFilterConditions } from './feed-filters';
+import { fuseRankings, highlightSnippet, searchTerms } from './hybrid-search';
+import { collapseNearDuplicates } from './near-duplicates';
+
+/**
+ * Post columns returned by the API.
+ */
+const POST_ATTRIBUTES = [
+  'id',
+  'uuid',
+  'content',
+  'author',
+  'source',
+  'uri',
+  'posted_at',
+  'relevance',
+  'lang',
+  'hash',
+  'author_id',
+  'author_name',
+  'author_handle',
+  'author_avatar',
+  'media',
+  'linkPreview',
+  'original',
+  'received_at',
+];
+
+/**
+ * Restrictions shared by the rankings of a post search.
+ */
+interface PostSearchFilters {
+  categorySlugs: string[];
+  sources: string[];
+  langs: string[];
+  since?: Date;
+  until?: Date;
+}
 
 /**
  * Service responsible for managing and retrieving posts, handling post-category relationships,
@@ -13,8 +91,14 @@ import { JSONLogger } from 'src/utils/logger';
  * @remarks
  * This service interacts with the database models for posts, categories, and taggings.
  * It provides methods to:
- * - Retrieve posts filtered by categories and creation time.
+ * - Retrieve posts filtered by categories, source, language, author, relevance,
+ *   publication time, media and event membership, by recency or relevance,
+ *   paged by `posted_at` or by opaque cursors.
  * - Check for duplicate posts based on their hashes.
+ * - Load a post with its events, near-duplicates, similar posts and read state.
+ * - List the near-duplicates recorded at ingest, and collapse them in feeds.
+ * - Find posts similar to a stored post from its vector in Qdrant.
+ * - Search posts by keyword and meaning, fusing MySQL FULLTEXT and Qdrant rankings.
  *
  * @example
  * ```typescript
@@ -38,39 +122,221 @@ export class PostsService {
     private categoryModel: typeof Category,
     @InjectModel(Tagging)
     private taggingModel: typeof Tagging,
+    @InjectModel(PostSimilarity)
+    private postSimilarityModel: typeof PostSimilarity,
+    @InjectModel(Match)
+    private matchModel: typeof Match,
+    @InjectModel(ReadPost)
+    private readPostModel: typeof ReadPost,
+    @Inject(QdrantClient)
+    private readonly qdrantClient: QdrantClient,
+    private readonly qdrantService: QdrantService,
+    private readonly embeddingsService: EmbeddingsService,
   ) {}
 
   /**
-   * Retrieves posts with cursor-based pagination and category filtering.
+   * Candidates taken from each ranking of a search. Pages are cut from
+   * their fusion, so results end after this many posts.
+   */
+  private readonly searchWindow = 200;
+
+  /**
+   * Retrieves posts with cursor-based pagination and filtering.
    *
    * @param params - Object containing filtering and pagination parameters
-   * @param params.categorySlugs - Array of category slugs to filter by. If empty, no category filtering is applied.
+   * @param params.filters - Restrictions on the posts returned. Empty lists apply no filtering.
+   * @param params.sort - Order of the posts (default: `recent`).
    * @param params.limit - Maximum number of posts to return
    * @param params.before - Optional timestamp cursor; returns posts with posted_at < before
-   * @returns A promise that resolves to an array of `PostResponseDto` objects, ordered by posted_at DESC.
+   * @param params.collapse - Whether near-duplicates of the page are collapsed into one story with a `variant_count`
+   * @returns A promise that resolves to an array of `PostResponseDto` objects, ordered by posted_at (or relevance) DESC.
    */
   async getPosts(params: {
-    categorySlugs: string[];
+    filters: FeedFilters;
+    sort?: FeedSort;
     limit: number;
     before?: Date;
+    collapse?: boolean;
   }): Promise<PostResponseDto[]> {
-    const { categorySlugs, limit, before } = params;
+    const { filters, sort = 'recent', limit, before, collapse } = params;
+
+    const posts = await this.findFeedPosts(
+      filters,
+      before && { posted_at: { [Op.lt]: before } },
+      feedOrder(sort),
+      limit,
+    );
+
+    return this.toFeedItems(posts, collapse);
+  }
+
+  /**
+   * Retrieves a page of the feed around an opaque cursor of the sort key and id.
+   *
+   * Without a cursor the page starts at the top of the feed. An `older`
+   * cursor reads the posts after its position in the feed, a `newer` cursor
+   * the posts right before it, so polling with `prev` picks up new posts
+   * without gaps. Pages are in feed order either way.
+   *
+   * @param params.filters - Restrictions on the posts returned.
+   * @param params.sort - Order of the feed (default: `recent`); a cursor keeps its own.
+   * @param params.limit - Maximum number of posts per page.
+   * @param params.cursor - Position and direction of the page, if any.
+   * @param params.collapse - Whether near-duplicates of the page are collapsed into one story with a `variant_count`.
+   * @returns The page, with the cursor of the next (older) page, or null past
+   *   the end of the feed, and of the previous (newer) page.
+   */
+  async getFeed(params: {
+    filters: FeedFilters;
+    sort?: FeedSort;
+    limit: number;
+    cursor?: FeedCursor;
+    collapse?: boolean;
+  }): Promise<PostFeedPageDto> {
+    const { filters, limit, cursor, collapse } = params;
+    const sort = cursor?.sort ?? params.sort ?? 'recent';
+    const direction = cursor?.direction ?? 'older';
+
+    const posts = await this.findFeedPosts(
+      filters,
+      cursor && feedCursorWhere(cursor),
+      feedOrder(sort, direction),
+      limit,
+    );
+    if (direction === 'newer') {
+      posts.reverse();
+    }
+
+    const first = posts.length > 0 ? feedPositionOf(posts[0], sort) : cursor;
+    const last =
+      posts.length > 0 ? feedPositionOf(posts[posts.length - 1], sort) : cursor;
+    const exhausted = direction === 'older' && posts.length < limit;
+
+    return {
+      data: await this.toFeedItems(posts, collapse),
+      next:
+        last && !exhausted
+          ? encodeFeedCursor({ ...last, direction: 'older' })
+          : null,
+      prev: first ? encodeFeedCursor({ ...first, direction: 'newer' }) : null,
+    };
+  }
 
-    const whereClause = {
-      ...(before && {
-        posted_at: {
-          [Op.lt]: before,
+  /**
+   * Retrieves a post with its categories, the events it is matched to, its
+   * near-duplicates and its nearest similar posts.
+   *
+   * @param uuid - Public identifier of the post.
+   * @param options.deviceToken - Push device token to report the read state for, if any.
+   *   Reads are recorded per device only; devices are not linked to the
+   *   Cognito users signing in, so there is no read state per user.
+   * @param options.similarLimit - Maximum number of similar posts.
+   * @throws NotFoundException if the post does not exist.
+   */
+  async getPost(
+    uuid: string,
+    options: { deviceToken?: string; similarLimit: number },
+  ): Promise<PostDetailDto> {
+    const post = await this.postModel.findOne({
+      where: { uuid },
+      include: [
+        {
+          model: Category,
+          through: { attributes: [] },
+          attributes: ['slug'],
         },
+      ],
+      attributes: POST_ATTRIBUTES,
+    });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const [matches, duplicates, similar, read] = await Promise.all([
+      this.matchModel.findAll({
+        where: { post_id: post.id },
+        include: [
+          {
+            model: Event,
+            attributes: ['uuid', 'title', 'summary', 'status'],
+          },
+        ],
+        order: [['match_score', 'DESC']],
       }),
-      ...(categorySlugs.length > 0 && {
-        '$categories_relation.slug$': {
-          [Op.in]: categorySlugs,
-        },
+      this.getDuplicates(uuid),
+      // Similar posts are a best effort: the vector may still be pending
+      this.getSimilar(uuid, options.similarLimit).catch((error) => {
+        this.logger.warn('Similar posts unavailable for post detail', {
+          uuid,
+          error: error?.message,
+        });
+        return [];
       }),
+      options.deviceToken
+        ? this.readPostModel.findOne({
+            where: { deviceToken: options.deviceToken, postId: uuid },
+            attributes: ['readAt'],
+          })
+        : Promise.resolve(undefined),
+    ]);
+
+    return {
+      ...this.toPostResponse(post),
+      events: matches.map((match) => ({
+        id: match.event.uuid,
+        title: match.event.title,
+        summary: match.event.summary,
+        status: match.event.status,
+        match_score: match.match_score ?? null,
+        added_at: match.added_at ? match.added_at.toISOString() : null,
+      })),
+      duplicates,
+      similar,
+      read: read === undefined ? null : read !== null,
+      read_at: read ? read.readAt.toISOString() : null,
     };
+  }
 
-    const posts = await this.postModel.findAll({
-      where: whereClause,
+  /**
+   * Retrieves the near-duplicates recorded for a post, in either direction,
+   * most similar first.
+   *
+   * @param uuid - Public identifier of the post.
+   * @throws NotFoundException if the post does not exist.
+   */
+  async getDuplicates(uuid: string): Promise<PostDuplicateDto[]> {
+    const post = await this.postModel.findOne({
+      where: { uuid },
+      attributes: ['id'],
+    });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const similarities = await this.postSimilarityModel.findAll({
+      where: {
+        [Op.or]: [{ post_id: post.id }, { similar_post_id: post.id }],
+      },
+    });
+
+    // Keep the strongest relationship per related post
+    const related = new Map<number, PostSimilarity>();
+    for (const similarity of similarities) {
+      const otherId =
+        similarity.post_id === post.id
+          ? similarity.similar_post_id
+          : similarity.post_id;
+      const current = related.get(otherId);
+      if (!current || similarity.score > current.score) {
+        related.set(otherId, similarity);
+      }
+    }
+    if (related.size === 0) {
+      return [];
+    }
+
+    const duplicates = await this.postModel.findAll({
+      where: { id: { [Op.in]: Array.from(related.keys()) } },
       include: [
         {
           model: Category,
@@ -78,50 +344,308 @@ export class PostsService {
           attributes: ['slug'],
         },
       ],
-      order: [['posted_at', 'DESC']],
+      attributes: POST_ATTRIBUTES,
+    });
+
+    return duplicates
+      .map((duplicate) => {
+        const similarity = related.get(duplicate.id)!;
+        return {
+          ...this.toPostResponse(duplicate),
+          score: similarity.score,
+          detected_at: similarity.detected_at.toISOString(),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Finds the posts most similar to a stored post, from the post's vector
+   * in Qdrant, most similar first. The post itself is left out.
+   *
+   * @param uuid - Public identifier of the post.
+   * @param limit - Maximum number of similar posts to return.
+   * @param model - Embedding model whose vector is compared (default: `EMBEDDING_DEFAULT_MODEL`).
+   * @throws NotFoundException if the post does not exist or has no stored vector.
+   * @throws BadRequestException if the model is not configured or the collection has no vector for it.
+   * @throws ServiceUnavailableException if the posts collection does not exist.
+   */
+  async getSimilar(
+    uuid: string,
+    limit: number,
+    model: string = this.qdrantService.getDefaultModel().name,
+  ): Promise<SimilarPostDto[]> {
+    const post = await this.postModel.findOne({
+      where: { uuid },
+      attributes: ['id'],
+    });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    if (!this.qdrantService.getEmbeddingModel(model)) {
+      throw new BadRequestException(`Unknown embedding model: ${model}`);
+    }
+    const schema = await this.qdrantService.getVectorSchema();
+    if (!schema) {
+      throw new ServiceUnavailableException('Posts collection does not exist');
+    }
+    const defaultModel = this.qdrantService.getDefaultModel().name;
+    if (!vectorParamsOf(schema, model, defaultModel)) {
+      throw new BadRequestException(
+        `Collection has no vector for model ${model}`,
+      );
+    }
+
+    // Points are keyed by post id
+    const collectionName = this.qdrantService.getCollectionName();
+    const [point] = await this.qdrantClient.retrieve(collectionName, {
+      ids: [post.id],
+      with_payload: false,
+      with_vector: isUnnamed(schema) ? true : [model],
+    });
+    const vector =
+      point?.vector && !Array.isArray(point.vector)
+        ? point.vector[model]
+        : point?.vector;
+    if (
+      !Array.isArray(vector) ||
+      !vector.every((value) => typeof value === 'number')
+    ) {
+      throw new NotFoundException('Post has no stored vector');
+    }
+
+    const results = await this.qdrantClient.search(collectionName, {
+      vector: toQueryVector(schema, model, vector, defaultModel),
       limit,
-      attributes: [
-        'uuid',
-        'content',
-        'author',
-        'source',
-        'uri',
-        'posted_at',
-        'relevance',
-        'lang',
-        'hash',
-        'author_id',
-        'author_name',
-        'author_handle',
-        'author_avatar',
-        'media',
-        'linkPreview',
-        'original',
-        'received_at',
+      filter: { must_not: [{ has_id: [post.id] }] },
+      with_payload: false,
+      with_vector: false,
+    });
+    if (results.length === 0) {
+      return [];
+    }
+
+    const scores = new Map(
+      results.map((result) => [Number(result.id), result.score]),
+    );
+    const similar = await this.postModel.findAll({
+      where: { id: { [Op.in]: Array.from(scores.keys()) } },
+      include: [
+        {
+          model: Category,
+          through: { attributes: [] },
+          attributes: ['slug'],
+        },
       ],
+      attributes: POST_ATTRIBUTES,
     });
 
-    return posts.map((post) => ({
-      id: post.uuid,
-      content: post.content,
-      author: post.author,
-      source: post.source,
-      uri: post.uri,
-      posted_at: post.posted_at.toISOString(),
-      relevance: post.relevance,
-      lang: post.lang,
-      hash: post.hash,
-      author_id: post.author_id,
-      author_name: post.author_name,
-      author_handle: post.author_handle,
-      author_avatar: post.author_avatar,
-      media: post.media,
-      linkPreview: post.linkPreview,
-      original: post.original,
-      received_at: post.received_at.toISOString(),
-      categories:
-        post.categories_relation?.map((category) => category.slug) || [],
-    }));
+    // Points whose post is gone are left for the reconciler
+    return similar
+      .map((item) => ({
+        ...this.toPostResponse(item),
+        score: scores.get(item.id)!,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Searches posts by keyword and by meaning.
+   *
+   * The keyword ranking comes from the FULLTEXT index on `posts.content`, the
+   * semantic ranking from the query's embedding in Qdrant; both are merged
+   * with reciprocal rank fusion. Without an embedding provider, or when
+   * Qdrant fails, results come from the keyword ranking alone.
+   *
+   * @param params.query - The text to search for.
+   * @param params.categorySlugs - Only posts in any of these categories, if not empty.
+   * @param params.sources - Only posts from any of these sources, if not empty.
+   * @param params.langs - Only posts in any of these languages, if not empty.
+   * @param params.since - Only posts published at or after it, if given.
+   * @param params.until - Only posts published at or before it, if given.
+   * @param params.limit - Maximum number of posts per page.
+   * @param params.cursor - The `next` cursor of the previous page, if any.
+   * @throws BadRequestException if the query has no words or the cursor is malformed.
+   */
+  async search(
+    params: PostSearchFilters & {
+      query: string;
+      limit: number;
+      cursor?: string;
+    },
+  ): Promise<PostSearchResponseDto> {
+    const { query, limit } = params;
+    const terms = searchTerms(query);
+    if (terms.length === 0) {
+      throw new BadRequestException('q must contain at least one word');
+    }
+
+    let offset = 0;
+    if (params.cursor) {
+      const position = decodeCursor(params.cursor);
+      if (
+        !position ||
+        !Number.isInteger(position.offset) ||
+        (position.offset as number) < 0
+      ) {
+        throw new BadRequestException('Invalid cursor');
+      }
+      offset = position.offset as number;
+    }
+
+    const start = Date.now();
+    const [keywordIds, semanticIds] = await Promise.all([
+      this.searchKeywords(params),
+      this.searchSemantic(params),
+    ]);
+    const fused = fuseRankings({
+      keyword: keywordIds,
+      ...(semanticIds && { semantic: semanticIds }),
+    });
+    const page = fused.slice(offset, offset + limit);
+
+    this.logger.log('Post search executed', {
+      terms: terms.length,
+      keywordCount: keywordIds.length,
+      semanticCount: semanticIds?.length ?? null,
+      fusedCount: fused.length,
+      offset,
+      durationMs: Date.now() - start,
+    });
+
+    const posts = page.length
+      ? await this.postModel.findAll({
+          where: { id: { [Op.in]: page.map((result) => result.id) } },
+          include: [
+            {
+              model: Category,
+              through: { attributes: [] },
+              attributes: ['slug'],
+            },
+          ],
+          attributes: POST_ATTRIBUTES,
+        })
+      : [];
+    const byId = new Map(posts.map((post) => [post.id, post]));
+
+    // Points whose post is gone are left for the reconciler
+    const data = page.flatMap(({ id, score, matchedBy }) => {
+      const post = byId.get(id);
+      return post
+        ? [
+            {
+              ...this.toPostResponse(post),
+              score,
+              matched_by: matchedBy,
+              snippet: highlightSnippet(post.content ?? '', terms),
+            },
+          ]
+        : [];
+    });
+
+    return {
+      data,
+      next:
+        offset + limit < fused.length
+          ? encodeCursor({ offset: offset + limit })
+          : null,
+    };
+  }
+
+  /**
+   * Post ids matching the query in the FULLTEXT index, best first.
+   */
+  private async searchKeywords(
+    params: PostSearchFilters & { query: string },
+  ): Promise<number[]> {
+    const sequelize = this.postModel.sequelize!;
+    const match = literal(
+      `MATCH(\`Post\`.\`content\`) AGAINST(${sequelize.escape(params.query)} IN NATURAL LANGUAGE MODE)`,
+    );
+
+    const conditions: WhereOptions[] = [match];
+    if (params.categorySlugs.length > 0) {
+      conditions.push(
+        literal(
+          `EXISTS (SELECT 1 FROM taggings t JOIN categories c ON c.id = t.category_id
+            WHERE t.post_id = \`Post\`.\`id\`
+            AND c.slug IN (${params.categorySlugs.map((slug) => sequelize.escape(slug)).join(', ')}))`,
+        ),
+      );
+    }
+    if (params.sources.length > 0) {
+      conditions.push({ source: { [Op.in]: params.sources } });
+    }
+    if (params.langs.length > 0) {
+      conditions.push({ lang: { [Op.in]: params.langs } });
+    }
+    if (params.since) {
+      conditions.push({ posted_at: { [Op.gte]: params.since } });
+    }
+    if (params.until) {
+      conditions.push({ posted_at: { [Op.lte]: params.until } });
+    }
+
+    const posts = await this.postModel.findAll({
+      where: { [Op.and]: conditions },
+      attributes: ['id'],
+      order: [
+        [match, 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit: this.searchWindow,
+    });
+    return posts.map((post) => post.id);
+  }
+
+  /**
+   * Post ids nearest to the query's embedding in Qdrant, best first.
+   *
+   * @returns The ids, or null if semantic search is unavailable.
+   */
+  private async searchSemantic(
+    params: PostSearchFilters & { query: string },
+  ): Promise<number[] | null> {
+    if (!this.embeddingsService.isEnabled()) {
+      return null;
+    }
+
+    try {
+      const schema = await this.qdrantService.getVectorSchema();
+      if (!schema) {
+        return null;
+      }
+      const model = this.qdrantService.getDefaultModel().name;
+      const embedding = await this.embeddingsService.embedQuery(
+        params.query,
+        model,
+      );
+
+      const filter = buildPointFilter({
+        categories: params.categorySlugs,
+        sources: params.sources,
+        langs: params.langs,
+        since: params.since,
+        until: params.until,
+      });
+      const results = await this.qdrantClient.search(
+        this.qdrantService.getCollectionName(),
+        {
+          vector: toQueryVector(schema, model, embedding, model),
+          limit: this.searchWindow,
+          with_payload: false,
+          with_vector: false,
+          ...(filter && { filter }),
+        },
+      );
+      return results.map((result) => Number(result.id));
+    } catch (error) {
+      this.logger.warn('Semantic post search failed, using keywords only', {
+        error: error?.message,
+      });
+      return null;
+    }
   }
 
   /**
@@ -137,7 +661,7 @@ export class PostsService {
     categorySlugs: string[],
   ): Promise<PostResponseDto[]> {
     return await this.getPosts({
-      categorySlugs,
+      filters: { categorySlugs },
       limit: 50,
     });
   }
@@ -179,4 +703,98 @@ export class PostsService {
      */
     return existingPosts.map((post) => post.hash);
   }
+
+  /**
+   * Posts matching the filters and a condition, in the given order.
+   */
+  private async findFeedPosts(
+    filters: FeedFilters,
+    condition: WhereOptions | undefined,
+    order: OrderItem[],
+    limit: number,
+  ): Promise<Post[]> {
+    const sequelize = this.postModel.sequelize!;
+
+    return this.postModel.findAll({
+      where: {
+        [Op.and]: [
+          ...(condition ? [condition] : []),
+          ...feedFilterConditions(filters, (value) => sequelize.escape(value)),
+        ],
+      },
+      include: [
+        {
+          model: Category,
+          through: { attributes: [] },
+          attributes: ['slug'],
+        },
+      ],
+      order,
+      limit,
+      attributes: POST_ATTRIBUTES,
+    });
+  }
+
+  /**
+   * Maps feed posts to their API representation, collapsing near-duplicates
+   * into one story each if asked to.
+   */
+  private async toFeedItems(
+    posts: Post[],
+    collapse?: boolean,
+  ): Promise<PostResponseDto[]> {
+    if (!collapse || posts.length === 0) {
+      return posts.map((post) => this.toPostResponse(post));
+    }
+
+    const ids = posts.map((post) => post.id);
+    const similarities = await this.postSimilarityModel.findAll({
+      where: {
+        [Op.or]: [
+          { post_id: { [Op.in]: ids } },
+          { similar_post_id: { [Op.in]: ids } },
+        ],
+      },
+      attributes: ['post_id', 'similar_post_id'],
+    });
+
+    return collapseNearDuplicates(
+      posts,
+      (post) => post.id,
+      similarities.map((similarity) => [
+        similarity.post_id,
+        similarity.similar_post_id,
+      ]),
+    ).map(({ item, variantCount }) => ({
+      ...this.toPostResponse(item),
+      variant_count: variantCount,
+    }));
+  }
+
+  /**
+   * Maps a Post model (with its categories) to its API representation.
+   */
+  private toPostResponse(post: Post): PostResponseDto {
+    return {
+      id: post.uuid,
+      content: post.content,
+      author: post.author,
+      source: post.source,
+      uri: post.uri,
+      posted_at: post.posted_at.toISOString(),
+      relevance: post.relevance,
+      lang: post.lang,
+      hash: post.hash,
+      author_id: post.author_id,
+      author_name: post.author_name,
+      author_handle: post.author_handle,
+      author_avatar: post.author_avatar,
+      media: post.media,
+      linkPreview: post.linkPreview,
+      original: post.original,
+      received_at: post.received_at.toISOString(),
+      categories:
+        post.categories_relation?.map((category) => category.slug) || [],
+    };
+  }
 }
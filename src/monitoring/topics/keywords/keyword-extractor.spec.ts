@@ -0,0 +1,102 @@
+import { KeywordExtractor, Tokenizer } from './keyword-extractor';
+
+describe('KeywordExtractor', () => {
+  let extractor: KeywordExtractor;
+
+  beforeEach(() => {
+    extractor = new KeywordExtractor();
+  });
+
+  describe('extract', () => {
+    it('should drop stopwords for the post language', () => {
+      const { unigrams } = extractor.extract(
+        'That storm hit the coast with heavy rain',
+        'en',
+      );
+
+      expect(unigrams).toEqual(['storm', 'hit', 'coast', 'heavy', 'rain']);
+    });
+
+    it('should keep accented words and fold their diacritics', () => {
+      const { unigrams } = extractor.extract(
+        'Sismo de magnitud 6,2 sacude Valparaíso y Peñalolén',
+        'es',
+      );
+
+      expect(unigrams).toEqual([
+        'sismo',
+        'magnitud',
+        'sacude',
+        'valparaiso',
+        'peñalolen',
+      ]);
+    });
+
+    it('should strip URLs and handles but keep hashtag words', () => {
+      const { unigrams } = extractor.extract(
+        '@reuters reports #Chile quake https://t.co/abc123 www.example.com/x',
+        'en',
+      );
+
+      expect(unigrams).toEqual(['reports', 'chile', 'quake']);
+    });
+
+    it('should build phrases without crossing punctuation or stopwords', () => {
+      const { phrases } = extractor.extract(
+        'Flooding in New York City. Subway closed',
+        'en',
+      );
+
+      expect(phrases).toEqual([
+        'new york',
+        'york city',
+        'new york city',
+        'subway closed',
+      ]);
+    });
+
+    it('should use the primary language subtag', () => {
+      const { unigrams } = extractor.extract('Chuva forte não para', 'pt-BR');
+
+      expect(unigrams).toEqual(['chuva', 'forte']);
+    });
+
+    it('should keep "São" in place names as part of the phrase', () => {
+      for (const lang of ['pt', undefined]) {
+        const { unigrams, phrases } = extractor.extract(
+          'Chuva forte em São Paulo',
+          lang,
+        );
+
+        expect(unigrams).toEqual(['chuva', 'forte', 'sao', 'paulo']);
+        expect(phrases).toContain('sao paulo');
+      }
+    });
+
+    it('should fall back to every stopword list for unknown languages', () => {
+      const { unigrams } = extractor.extract('Incendio with smoke para todos');
+
+      expect(unigrams).toEqual(['incendio', 'smoke']);
+    });
+
+    it('should use a registered tokenizer', () => {
+      const tokenizer: Tokenizer = {
+        tokenize: (text) => [text.split(' ')],
+      };
+      extractor.register('xx', tokenizer);
+
+      expect(extractor.extract('a b', 'xx')).toEqual({
+        unigrams: ['a', 'b'],
+        phrases: ['a b'],
+      });
+    });
+  });
+
+  describe('normalizeKeyword', () => {
+    it('should match the form produced by extraction', () => {
+      expect(extractor.normalizeKeyword('  São   Paulo ')).toBe('sao paulo');
+      expect(extractor.normalizeKeyword('#NewYork')).toBe('newyork');
+      expect(extractor.normalizeKeyword(undefined)).toBe('');
+    });
+  });
+});
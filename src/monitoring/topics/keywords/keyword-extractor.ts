@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { ALL_STOPWORDS, STOPWORDS } from './stopwords';
+
+/**
+ * Keywords extracted from a single post.
+ *
+ * @property unigrams - Single-word keywords, in order of appearance (with repeats).
+ * @property phrases - Bigrams and trigrams built from adjacent keywords (with repeats).
+ */
+export interface ExtractedKeywords {
+  unigrams: string[];
+  phrases: string[];
+}
+
+/**
+ * Splits normalized text into runs of adjacent content tokens.
+ *
+ * A run ends at punctuation or at a token the tokenizer discards, so
+ * phrases are never built across sentence boundaries or stopwords.
+ */
+export interface Tokenizer {
+  tokenize(text: string): string[][];
+}
+
+/**
+ * Tokenizer for space-delimited languages that discards stopwords,
+ * short tokens and bare numbers.
+ */
+export class StopwordTokenizer implements Tokenizer {
+  constructor(
+    private readonly stopwords: ReadonlySet<string>,
+    private readonly minLength = 3,
+  ) {}
+
+  tokenize(text: string): string[][] {
+    const runs: string[][] = [];
+
+    for (const segment of text.split(/[^\p{L}\p{N}\s'’-]+/u)) {
+      let run: string[] = [];
+      for (const token of segment.match(/[\p{L}\p{N}]+/gu) || []) {
+        if (this.isContent(token)) {
+          run.push(token);
+        } else if (run.length > 0) {
+          runs.push(run);
+          run = [];
+        }
+      }
+      if (run.length > 0) {
+        runs.push(run);
+      }
+    }
+
+    return runs;
+  }
+
+  private isContent(token: string): boolean {
+    return (
+      token.length >= this.minLength &&
+      !/^\p{N}+$/u.test(token) &&
+      !this.stopwords.has(token)
+    );
+  }
+}
+
+/**
+ * Extracts topic keywords from post content.
+ *
+ * Text is normalized before tokenization: URLs and @handles are removed,
+ * hashtags keep their word, and everything is lowercased with diacritics
+ * folded ("Peñalolén" becomes "peñalolen", keeping the ñ). The tokenizer is
+ * picked from the post's language (`Post.lang`, primary subtag), falling back
+ * to one that discards the stopwords of every supported language.
+ *
+ * Additional languages are added with `register()`.
+ */
+@Injectable()
+export class KeywordExtractor {
+  /**
+   * Longest phrase built from adjacent keywords.
+   */
+  private readonly maxPhraseLength = 3;
+
+  private readonly tokenizers = new Map<string, Tokenizer>(
+    Object.entries(STOPWORDS).map(([lang, stopwords]) => [
+      lang,
+      new StopwordTokenizer(stopwords),
+    ]),
+  );
+
+  private readonly fallback: Tokenizer = new StopwordTokenizer(ALL_STOPWORDS);
+
+  /**
+   * Registers (or replaces) the tokenizer used for a language.
+   *
+   * @param lang - ISO 639-1 language code.
+   * @param tokenizer - Tokenizer receiving normalized text.
+   */
+  register(lang: string, tokenizer: Tokenizer): void {
+    this.tokenizers.set(lang.toLowerCase(), tokenizer);
+  }
+
+  /**
+   * Extracts keywords and phrases from a text.
+   *
+   * @param text - Raw post content.
+   * @param lang - Language tag of the post (e.g. `es`, `en-US`), if known.
+   */
+  extract(
+    text: string | null | undefined,
+    lang?: string | null,
+  ): ExtractedKeywords {
+    const runs = this.tokenizerFor(lang).tokenize(this.normalizeText(text));
+
+    const unigrams = runs.flat();
+    const phrases: string[] = [];
+    for (const run of runs) {
+      for (let size = 2; size <= this.maxPhraseLength; size++) {
+        for (let start = 0; start + size <= run.length; start++) {
+          phrases.push(run.slice(start, start + size).join(' '));
+        }
+      }
+    }
+
+    return { unigrams, phrases };
+  }
+
+  /**
+   * Normalizes a keyword so it matches extracted keywords
+   * (e.g. " São  Paulo " becomes "sao paulo").
+   */
+  normalizeKeyword(keyword: string | null | undefined): string {
+    return (this.normalizeText(keyword).match(/[\p{L}\p{N}]+/gu) || []).join(
+      ' ',
+    );
+  }
+
+  /**
+   * Strips URLs and handles, lowercases and folds diacritics.
+   */
+  private normalizeText(text: string | null | undefined): string {
+    return (text || '')
+      .replace(/(?:https?:\/\/|www\.)\S+/gi, ' ')
+      .replace(/(^|[^\p{L}\p{N}_])@[\p{L}\p{N}_.]+/gu, '$1 ')
+      .replace(/#/g, ' ')
+      .normalize('NFKC')
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/(?<!n)\u0303|(?!\u0303)\p{M}/gu, '')
+      .normalize('NFC');
+  }
+
+  private tokenizerFor(lang?: string | null): Tokenizer {
+    const primary = (lang || '').toLowerCase().split(/[-_]/)[0];
+    return this.tokenizers.get(primary) ?? this.fallback;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Stopword lists keyed by ISO 639-1 language code.
+ *
+ * Entries are stored in normalized form (lowercase, diacritics folded except
+ * for "ñ") so they can be compared directly against extractor tokens.
+ */
+
+/**
+ * Splits a whitespace-separated word list.
+ */
+const words = (list: string): string[] => list.trim().split(/\s+/);
+
+/**
+ * Tokens that are noise on social platforms regardless of language.
+ */
+const social = words(`
+  amp rt via http https www com
+`);
+
+const en = words(`
+  about above after again against all also am an and any are around as at be
+  because been before being below between both but by can could did do does
+  doing done down during each even ever every few for from further get gets
+  got had has have having he her here hers herself him himself his how
+  however if in into is it its itself just know last less let like made make
+  many may me might more most much must my myself no nor not now of off
+  on once one only or other our ours ourselves out over own said same says
+  see she should since so some still such than that the their theirs them
+  themselves then there these they this those though through to too under
+  until up upon us very was way we well were what when where whether which
+  while who whom whose why will with within without would yet you your yours
+  yourself yourselves today year years time people going want think really
+  don didn doesn isn wasn aren won couldn wouldn shouldn
+`);
+
+const es = words(`
+  a al algo algunas algunos ante antes aqui asi aun aunque bajo bien cada
+  casi como con contra cual cuales cuando cuanto de del desde donde dos
+  durante e el ella ellas ello ellos en entre era eran es esa esas ese eso
+  esos esta estaba estado estan estar estas este esto estos fue fueron ha
+  habia han hace hacer hasta hay he hoy la las le les lo los mas me mi
+  mientras mis mucho muy nada ni no nos nosotros nuestra nuestro o otra
+  otras otro otros para pero poco por porque pues que quien quienes se sea
+  segun ser si sido siempre sin sino sobre son su sus tambien tan tanto te
+  tener tiene tienen todo todos toda todas tras tu tus un una unas uno unos
+  usted ustedes va van y ya yo dijo dice puede pueden ahora despues años año
+  dia dias vez veces parte solo menos mismo misma hacia cuenta sera seran
+  habra eres soy
+`);
+
+/**
+ * "são" (are) is left out: folded to "sao" it would also drop the "são" of
+ * place names such as São Paulo.
+ */
+const pt = words(`
+  a ao aos aquela aquele aquilo as ate com como da das de dela dele deles
+  depois do dos e ela elas ele eles em entre era essa esse esta estao estava
+  este eu foi foram ha isso isto ja la lhe mais mas me mesmo meu minha muito
+  na nao nas nem no nos nossa nosso num numa o os ou para pela pelas pelo
+  pelos por qual quando que quem se sem ser seu sua suas seus so sobre
+  tambem te tem ter todo todos tu um uma umas uns voce voces vai disse hoje
+  ano anos dia dias agora ainda onde pode
+`);
+
+const fr = words(`
+  a ai au aux avec avait avoir c ce ces cette comme d dans de des du elle
+  elles en est et etait ete etre eu fait il ils j je l la le les leur leurs
+  lui m ma mais me meme mes moi mon n ne nos notre nous on ont ou par pas
+  plus pour qu que qui s sa sans se ses son sont sur t ta te tes toi ton
+  tous tout tres tu un une vos votre vous y aussi apres avant bien deux dit
+  encore entre fois faire ici jour ans peut quand sous lors
+`);
+
+/**
+ * Stopwords per language, each including the social-platform noise list.
+ */
+const STOPWORDS: Record<string, ReadonlySet<string>> = {
+  en: new Set([...en, ...social]),
+  es: new Set([...es, ...social]),
+  pt: new Set([...pt, ...social]),
+  fr: new Set([...fr, ...social]),
+};
+
+/**
+ * Union of every list, used when a post's language is unknown.
+ */
+const ALL_STOPWORDS: ReadonlySet<string> = new Set(
+  Object.values(STOPWORDS).flatMap((list) => Array.from(list)),
+);
+
+export { ALL_STOPWORDS, STOPWORDS };
@@ -0,0 +1,81 @@
+import { RateBaseline, SpikeDetector } from './spike-detector';
+
+describe('SpikeDetector', () => {
+  const minute = 60 * 1000;
+  const start = new Date('2025-01-01T00:00:00Z');
+  const at = (minutes: number) => new Date(start.getTime() + minutes * minute);
+
+  let detector: SpikeDetector;
+
+  beforeEach(() => {
+    detector = new SpikeDetector(0.1, minute);
+  });
+
+  /**
+   * Feeds one observation per minute and returns the resulting baseline.
+   */
+  const feed = (values: number[]): RateBaseline =>
+    values.reduce<RateBaseline>(
+      (baseline, value, index) =>
+        detector.observe(baseline, value, at(index)).baseline,
+      { mean: 0, variance: 0, observedAt: null },
+    );
+
+  describe('observe', () => {
+    it('should score a jump above a steady rate as a spike', () => {
+      const baseline = feed(Array<number>(60).fill(4));
+
+      const observation = detector.observe(baseline, 20, at(60));
+
+      expect(observation.mean).toBeCloseTo(4, 1);
+      expect(observation.zScore).toBeGreaterThan(10);
+    });
+
+    it('should not score a steady rate as a spike', () => {
+      const baseline = feed(Array<number>(60).fill(4));
+
+      expect(detector.observe(baseline, 4, at(60)).zScore).toBeCloseTo(0, 1);
+    });
+
+    it('should floor the standard deviation for unseen keywords', () => {
+      const observation = detector.observe(
+        { mean: 0, variance: 0, observedAt: null },
+        3,
+        at(0),
+      );
+
+      expect(observation.stddev).toBe(1);
+      expect(observation.zScore).toBe(3);
+      expect(observation.baseline.mean).toBeCloseTo(0.3);
+      expect(observation.baseline.variance).toBeCloseTo(0.81);
+      expect(observation.baseline.observedAt).toEqual(at(0));
+    });
+  });
+
+  describe('advance', () => {
+    it('should leave a baseline observed in the previous minute untouched', () => {
+      const baseline = { mean: 5, variance: 2, observedAt: at(0) };
+
+      expect(detector.advance(baseline, at(1))).toEqual(baseline);
+    });
+
+    it('should decay the mean over minutes without mentions', () => {
+      const baseline = { mean: 5, variance: 0, observedAt: at(0) };
+
+      const advanced = detector.advance(baseline, at(3));
+
+      expect(advanced.mean).toBeCloseTo(5 * 0.9 * 0.9);
+      expect(advanced.variance).toBeGreaterThan(0);
+    });
+
+    it('should reset baselines idle for too long', () => {
+      const baseline = { mean: 5, variance: 2, observedAt: at(0) };
+
+      expect(detector.advance(baseline, at(24 * 60))).toEqual({
+        mean: 0,
+        variance: 0,
+        observedAt: at(0),
+      });
+    });
+  });
+});
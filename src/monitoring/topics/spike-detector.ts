@@ -0,0 +1,108 @@
+/**
+ * Rolling per-interval rate of a keyword.
+ *
+ * @property mean - Exponentially weighted mean of the rate.
+ * @property variance - Exponentially weighted variance of the rate.
+ * @property observedAt - When the last observation was folded in, or null if never.
+ */
+export interface RateBaseline {
+  mean: number;
+  variance: number;
+  observedAt: Date | null;
+}
+
+/**
+ * Outcome of comparing an observation against a keyword's baseline.
+ *
+ * @property zScore - Standard deviations the observation sits above the baseline mean.
+ * @property mean - Baseline mean the observation was compared against.
+ * @property stddev - Baseline standard deviation (floored) used for the score.
+ * @property baseline - Baseline updated with the observation.
+ */
+export interface RateObservation {
+  zScore: number;
+  mean: number;
+  stddev: number;
+  baseline: RateBaseline;
+}
+
+/**
+ * Scores per-interval keyword rates against an EWMA baseline.
+ *
+ * Baselines are only stored when a keyword is mentioned, so intervals
+ * without mentions are folded in lazily as zero observations before the
+ * next comparison.
+ */
+export class SpikeDetector {
+  /**
+   * Intervals after which a baseline has decayed to nothing and is reset.
+   */
+  private readonly maxIdleIntervals: number;
+
+  /**
+   * @param smoothing - EWMA weight of each new observation (0-1).
+   * @param intervalMs - Length of one observation interval.
+   * @param minVariance - Variance floor, so quiet keywords need a real jump to score.
+   */
+  constructor(
+    private readonly smoothing: number,
+    private readonly intervalMs: number,
+    private readonly minVariance = 1,
+  ) {
+    this.maxIdleIntervals = Math.ceil(Math.log(1e-6) / Math.log(1 - smoothing));
+  }
+
+  /**
+   * Compares a rate against the baseline and folds it in.
+   *
+   * @param baseline - The keyword's stored baseline.
+   * @param value - Rate observed in the current interval.
+   * @param at - When the observation was made.
+   */
+  observe(baseline: RateBaseline, value: number, at: Date): RateObservation {
+    const { mean, variance } = this.advance(baseline, at);
+    const stddev = Math.sqrt(Math.max(variance, this.minVariance));
+
+    const diff = value - mean;
+    const increment = this.smoothing * diff;
+
+    return {
+      zScore: diff / stddev,
+      mean,
+      stddev,
+      baseline: {
+        mean: mean + increment,
+        variance: (1 - this.smoothing) * (variance + diff * increment),
+        observedAt: at,
+      },
+    };
+  }
+
+  /**
+   * Folds in a zero observation for every full interval elapsed since the
+   * baseline was last observed, excluding the current one.
+   */
+  advance(baseline: RateBaseline, at: Date): RateBaseline {
+    if (!baseline.observedAt) {
+      return { mean: 0, variance: 0, observedAt: null };
+    }
+
+    const idle =
+      Math.floor(
+        (at.getTime() - baseline.observedAt.getTime()) / this.intervalMs,
+      ) - 1;
+    if (idle >= this.maxIdleIntervals) {
+      return { mean: 0, variance: 0, observedAt: baseline.observedAt };
+    }
+
+    let { mean, variance } = baseline;
+    for (let step = 0; step < idle; step++) {
+      const increment = -this.smoothing * mean;
+      variance =
+        (1 - this.smoothing) * (variance + mean * mean * this.smoothing);
+      mean += increment;
+    }
+
+    return { mean, variance, observedAt: baseline.observedAt };
+  }
+}
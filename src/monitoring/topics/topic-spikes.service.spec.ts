@@ -0,0 +1,139 @@
+import 'reflect-metadata';
+import { Op } from 'sequelize';
+import { TopicSpikesService } from './topic-spikes.service';
+
+jest.mock('src/core/notifications/notifications.service', () => ({
+  NotificationsService: class {},
+}));
+
+describe('TopicSpikesService', () => {
+  const env = { ...process.env };
+  const transaction = {} as any;
+
+  const topicModel = {
+    sequelize: { query: jest.fn() },
+    findAll: jest.fn(),
+  };
+  const spikeModel = {
+    findAll: jest.fn(),
+    bulkCreate: jest.fn(),
+  };
+  const notificationsService = {
+    broadcast: jest.fn(),
+    sendTopicSpikePushOnly: jest.fn(),
+  };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (overrides: Record<string, string> = {}) => {
+    Object.assign(process.env, overrides);
+    return new TopicSpikesService(
+      topicModel as any,
+      spikeModel as any,
+      notificationsService as any,
+      cloudWatchService as any,
+    );
+  };
+
+  /**
+   * A topic never observed before, so its rate is its z-score.
+   */
+  const unseen = (keyword: string) => ({
+    keyword,
+    rate_mean: 0,
+    rate_variance: 0,
+    rate_observed_at: null,
+  });
+
+  const blank = {
+    TOPICS_SPIKE_Z_THRESHOLD: '',
+    TOPICS_SPIKE_MIN_MENTIONS: '',
+    TOPICS_SPIKE_COOLDOWN_MINUTES: '',
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    spikeModel.findAll.mockResolvedValue([]);
+    spikeModel.bulkCreate.mockImplementation((spikes) =>
+      Promise.resolve(spikes),
+    );
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('detect', () => {
+    it('should keep the default thresholds when the settings are blank', async () => {
+      topicModel.findAll.mockResolvedValue([
+        unseen('quiet'),
+        unseen('steady'),
+        unseen('storm'),
+      ]);
+
+      const spikes = await createService(blank).detect(
+        new Map([
+          ['quiet', 0],
+          ['steady', 2],
+          ['storm', 6],
+        ]),
+        transaction,
+      );
+
+      expect(spikes).toEqual([
+        expect.objectContaining({ keyword: 'storm', mentions: 6, z_score: 6 }),
+      ]);
+    });
+
+    it('should need the minimum mentions even above the z-score threshold', async () => {
+      topicModel.findAll.mockResolvedValue([unseen('storm')]);
+
+      const spikes = await createService(blank).detect(
+        new Map([['storm', 4]]),
+        transaction,
+      );
+
+      expect(spikes).toEqual([]);
+      expect(spikeModel.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should keep keywords quiet during the default cooldown', async () => {
+      topicModel.findAll.mockResolvedValue([unseen('storm'), unseen('flood')]);
+      spikeModel.findAll.mockResolvedValue([{ keyword: 'storm' }]);
+
+      const before = Date.now();
+      const spikes = await createService(blank).detect(
+        new Map([
+          ['storm', 8],
+          ['flood', 7],
+        ]),
+        transaction,
+      );
+
+      expect(spikes).toEqual([expect.objectContaining({ keyword: 'flood' })]);
+      const since = spikeModel.findAll.mock.calls[0][0].where.detected_at[
+        Op.gte
+      ] as Date;
+      expect(before - since.getTime()).toBeGreaterThanOrEqual(60 * 60 * 1000);
+      expect(before - since.getTime()).toBeLessThan(61 * 60 * 1000);
+    });
+
+    it('should apply configured thresholds', async () => {
+      topicModel.findAll.mockResolvedValue([unseen('storm')]);
+
+      const spikes = await createService({
+        TOPICS_SPIKE_Z_THRESHOLD: '10',
+        TOPICS_SPIKE_MIN_MENTIONS: '2',
+      }).detect(new Map([['storm', 6]]), transaction);
+
+      expect(spikes).toEqual([]);
+    });
+  });
+});
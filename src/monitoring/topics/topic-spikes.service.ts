@@ -0,0 +1,289 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { NotificationsService } from 'src/core/notifications/notifications.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { ReviewTopicSpikeDto, TopicSpikeResponseDto } from 'src/dto';
+import { Topic, TopicSpike } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { SpikeDetector } from './spike-detector';
+
+/**
+ * Service responsible for detecting keyword spikes and raising alerts.
+ *
+ * The `TopicSpikesService` handles:
+ * - Scoring each extraction run's keyword rates against their rolling baseline.
+ * - Storing detected spikes for review.
+ * - Broadcasting `topic_spike` SSE messages and, optionally, push alerts.
+ * - Listing and reviewing stored spikes.
+ *
+ * Environment Variables:
+ * - `TOPICS_SPIKE_Z_THRESHOLD`: Z-score a keyword's rate must reach to spike (default: 3).
+ * - `TOPICS_SPIKE_MIN_MENTIONS`: Posts per minute a keyword needs before it can spike (default: 5).
+ * - `TOPICS_SPIKE_SMOOTHING`: EWMA weight of each minute in the baseline (default: 0.1).
+ * - `TOPICS_SPIKE_COOLDOWN_MINUTES`: Minutes before the same keyword can spike again (default: 60).
+ * - `TOPICS_SPIKE_PUSH`: Set to `true` to push spikes to devices that opted in.
+ *
+ * @remarks
+ * The rate of a keyword is the number of posts mentioning it per extraction
+ * run, which happens once a minute. Its baseline (EWMA mean and variance) is
+ * stored on the topic row and updated inside the extraction transaction, so
+ * each minute is folded in exactly once.
+ */
+@Injectable()
+export class TopicSpikesService {
+  @Logger(TopicSpikesService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly zThreshold =
+    Number(process.env.TOPICS_SPIKE_Z_THRESHOLD) || 3;
+
+  private readonly minMentions =
+    Number(process.env.TOPICS_SPIKE_MIN_MENTIONS) || 5;
+
+  private readonly cooldownMs =
+    (Number(process.env.TOPICS_SPIKE_COOLDOWN_MINUTES) || 60) * 60 * 1000;
+
+  private readonly pushEnabled = process.env.TOPICS_SPIKE_PUSH === 'true';
+
+  private readonly detector = new SpikeDetector(
+    Math.min(
+      Math.max(Number(process.env.TOPICS_SPIKE_SMOOTHING) || 0.1, 0.01),
+      1,
+    ),
+    60 * 1000,
+  );
+
+  constructor(
+    @InjectModel(Topic)
+    private topicModel: typeof Topic,
+    @InjectModel(TopicSpike)
+    private spikeModel: typeof TopicSpike,
+    private readonly notificationsService: NotificationsService,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Scores the run's keyword rates, updates their baselines and stores spikes.
+   * Must run in the extraction transaction, after the mentions were recorded.
+   *
+   * @param rates - Number of posts mentioning each keyword in the run.
+   * @param transaction - Transaction of the extraction run.
+   * @returns The spikes detected in the run.
+   */
+  async detect(
+    rates: Map<string, number>,
+    transaction: Transaction,
+  ): Promise<TopicSpike[]> {
+    if (rates.size === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const topics = await this.topicModel.findAll({
+      where: { keyword: { [Op.in]: Array.from(rates.keys()) } },
+      attributes: ['keyword', 'rate_mean', 'rate_variance', 'rate_observed_at'],
+      transaction,
+    });
+
+    const candidates: Array<{
+      keyword: string;
+      mentions: number;
+      baseline_mean: number;
+      baseline_stddev: number;
+      z_score: number;
+    }> = [];
+    const baselines = topics.map((topic) => {
+      const mentions = rates.get(topic.keyword) || 0;
+      const observation = this.detector.observe(
+        {
+          mean: topic.rate_mean,
+          variance: topic.rate_variance,
+          observedAt: topic.rate_observed_at,
+        },
+        mentions,
+        now,
+      );
+
+      if (
+        mentions >= this.minMentions &&
+        observation.zScore >= this.zThreshold
+      ) {
+        candidates.push({
+          keyword: topic.keyword,
+          mentions,
+          baseline_mean: observation.mean,
+          baseline_stddev: observation.stddev,
+          z_score: observation.zScore,
+        });
+      }
+
+      return [topic.keyword, observation.baseline] as const;
+    });
+
+    if (baselines.length > 0) {
+      // Topics exist at this point; the insert half only satisfies the syntax
+      const placeholders = baselines
+        .map(() => '(?, 0, ?, ?, ?, ?, ?, ?)')
+        .join(', ');
+      await this.topicModel.sequelize!.query(
+        `INSERT INTO topics (keyword, score, scored_at, created_at, updated_at, rate_mean, rate_variance, rate_observed_at) VALUES ${placeholders}
+         ON DUPLICATE KEY UPDATE
+           rate_mean = VALUES(rate_mean),
+           rate_variance = VALUES(rate_variance),
+           rate_observed_at = VALUES(rate_observed_at)`,
+        {
+          replacements: baselines.flatMap(([keyword, baseline]) => [
+            keyword,
+            now,
+            now,
+            now,
+            baseline.mean,
+            baseline.variance,
+            baseline.observedAt,
+          ]),
+          transaction,
+        },
+      );
+    }
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // Keywords already alerted on within the cooldown stay quiet
+    const recent = await this.spikeModel.findAll({
+      where: {
+        keyword: { [Op.in]: candidates.map((spike) => spike.keyword) },
+        detected_at: { [Op.gte]: new Date(now.getTime() - this.cooldownMs) },
+      },
+      attributes: ['keyword'],
+      transaction,
+    });
+    const coolingDown = new Set(recent.map((spike) => spike.keyword));
+
+    const spikes = candidates.filter(
+      (spike) => !coolingDown.has(spike.keyword),
+    );
+    if (spikes.length === 0) {
+      return [];
+    }
+
+    return await this.spikeModel.bulkCreate(spikes as any[], { transaction });
+  }
+
+  /**
+   * Broadcasts detected spikes and pushes them to opted-in devices.
+   * Call after the extraction transaction committed.
+   *
+   * @param spikes - Spikes returned by `detect()`.
+   */
+  async announce(spikes: TopicSpike[]): Promise<void> {
+    for (const spike of spikes) {
+      this.notificationsService.broadcast({
+        type: 'topic_spike',
+        id: spike.id,
+        keyword: spike.keyword,
+        mentions: spike.mentions,
+        baselineMean: spike.baseline_mean,
+        zScore: spike.z_score,
+        detectedAt: spike.detected_at.toISOString(),
+      });
+
+      this.logger.log('Topic spike detected', {
+        spikeId: spike.id,
+        keyword: spike.keyword,
+        mentions: spike.mentions,
+        zScore: spike.z_score,
+      });
+
+      if (this.pushEnabled) {
+        try {
+          await this.notificationsService.sendTopicSpikePushOnly({
+            id: spike.id,
+            keyword: spike.keyword,
+            mentions: spike.mentions,
+            zScore: spike.z_score,
+            detectedAt: spike.detected_at.toISOString(),
+          });
+        } catch (error) {
+          this.logger.error('Failed to push topic spike', '', {
+            spikeId: spike.id,
+            error: error.message,
+          });
+        }
+      }
+    }
+
+    if (spikes.length > 0) {
+      await this.cloudWatchService.sendMetric('TopicSpikes', spikes.length);
+    }
+  }
+
+  /**
+   * Lists stored spikes, newest first.
+   *
+   * @param status - Only spikes with this review status, if given.
+   * @param limit - Maximum number of spikes to return.
+   */
+  async listSpikes(
+    status: TopicSpike['status'] | undefined,
+    limit: number,
+  ): Promise<TopicSpikeResponseDto[]> {
+    const spikes = await this.spikeModel.findAll({
+      where: status ? { status } : {},
+      order: [['detected_at', 'DESC']],
+      limit,
+    });
+
+    return spikes.map((spike) => this.toSpikeResponse(spike));
+  }
+
+  /**
+   * Records the review outcome of a spike.
+   *
+   * @throws NotFoundException if the spike does not exist.
+   */
+  async reviewSpike(
+    id: number,
+    reviewData: ReviewTopicSpikeDto,
+  ): Promise<TopicSpikeResponseDto> {
+    const spike = await this.spikeModel.findByPk(id);
+    if (!spike) {
+      throw new NotFoundException('Spike not found');
+    }
+
+    await spike.update({
+      status: reviewData.status,
+      review_notes: reviewData.notes ?? spike.review_notes,
+      reviewed_at: new Date(),
+    });
+
+    this.logger.log('Topic spike reviewed', {
+      spikeId: spike.id,
+      keyword: spike.keyword,
+      status: spike.status,
+    });
+
+    return this.toSpikeResponse(spike);
+  }
+
+  /**
+   * Maps a TopicSpike model to its API representation.
+   */
+  private toSpikeResponse(spike: TopicSpike): TopicSpikeResponseDto {
+    return {
+      id: spike.id,
+      keyword: spike.keyword,
+      mentions: spike.mentions,
+      baseline_mean: spike.baseline_mean,
+      baseline_stddev: spike.baseline_stddev,
+      z_score: spike.z_score,
+      status: spike.status,
+      review_notes: spike.review_notes,
+      detected_at: spike.detected_at.toISOString(),
+      reviewed_at: spike.reviewed_at ? spike.reviewed_at.toISOString() : null,
+    };
+  }
+}
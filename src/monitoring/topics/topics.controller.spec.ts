@@ -0,0 +1,78 @@
+import 'reflect-metadata';
+import { BadRequestException } from '@nestjs/common';
+import { TopicSpikesService } from './topic-spikes.service';
+import { TopicsController } from './topics.controller';
+import { TopicsService } from './topics.service';
+
+jest.mock('./topics.service', () => ({ TopicsService: class {} }));
+jest.mock('./topic-spikes.service', () => ({ TopicSpikesService: class {} }));
+
+describe('TopicsController', () => {
+  const topicsService = {
+    createSeed: jest.fn(),
+    updateSeed: jest.fn(),
+  };
+  const topicSpikesService = { reviewSpike: jest.fn() };
+  const controller = new TopicsController(
+    topicsService as unknown as TopicsService,
+    topicSpikesService as unknown as TopicSpikesService,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('creates a valid seed', async () => {
+    topicsService.createSeed.mockResolvedValue({ keyword: 'election' });
+
+    await controller.createSeed({ keyword: 'Election', weight: 2 });
+
+    expect(topicsService.createSeed).toHaveBeenCalledWith(
+      expect.objectContaining({ keyword: 'Election', weight: 2 }),
+    );
+  });
+
+  it.each([
+    [{ weight: 1 }, 'keyword'],
+    [{ keyword: 42 }, 'keyword'],
+    [{ keyword: 'x'.repeat(129) }, 'keyword'],
+    [{ keyword: 'election', weight: -1 }, 'weight'],
+    [{ keyword: 'election', is_paused: 'yes' }, 'is_paused'],
+  ])('rejects the seed %j', async (body, field) => {
+    const result = controller.createSeed(body);
+
+    await expect(result).rejects.toThrow(BadRequestException);
+    await expect(result).rejects.toThrow(new RegExp(`^${field}:`));
+    expect(topicsService.createSeed).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body that is not an object', async () => {
+    await expect(controller.createSeed('election')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('validates seed updates', async () => {
+    await expect(
+      controller.updateSeed('election', { weight: 'heavy' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(topicsService.updateSeed).not.toHaveBeenCalled();
+
+    await controller.updateSeed('election', { is_paused: true });
+    expect(topicsService.updateSeed).toHaveBeenCalledWith(
+      'election',
+      expect.objectContaining({ is_paused: true }),
+    );
+  });
+
+  it('validates spike reviews', async () => {
+    await expect(
+      controller.reviewSpike(1, { status: 'dismissed' }),
+    ).rejects.toThrow(/^status:/);
+    expect(topicSpikesService.reviewSpike).not.toHaveBeenCalled();
+
+    await controller.reviewSpike(1, { status: 'confirmed', notes: 'real' });
+    expect(topicSpikesService.reviewSpike).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ status: 'confirmed', notes: 'real' }),
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { Public } from 'src/decorators/public.decorator';
+import {
+  CreateSeedDto,
+  ReviewTopicSpikeDto,
+  SeedResponseDto,
+  TopicHistoryResponseDto,
+  TopicSpikeResponseDto,
+  TrendingTopicsResponseDto,
+  UpdateSeedDto,
+} from 'src/dto';
+import { invalid, validateDto } from 'src/utils/validation';
+import { TopicSpikesService } from './topic-spikes.service';
+import { TopicsService } from './topics.service';
+
+/**
+ * Public trending topic endpoints, and admin endpoints for managing seed
+ * keywords and reviewing spikes. Admin routes require an authenticated user.
+ */
+@Controller('topics')
+export class TopicsController {
+  constructor(
+    private readonly topicsService: TopicsService,
+    private readonly topicSpikesService: TopicSpikesService,
+  ) {}
+
+  /**
+   * Ranked trending keywords with velocity and sample posts
+   * GET /topics/trending
+   */
+  @Get('trending')
+  @Public()
+  async getTrending(
+    @Query('limit') limit?: number,
+  ): Promise<TrendingTopicsResponseDto> {
+    const parsedLimit = limit && limit > 0 && limit <= 50 ? Number(limit) : 20;
+    return await this.topicsService.getTrending(parsedLimit);
+  }
+
+  /**
+   * Score time series of a keyword
+   * GET /topics/:keyword/history
+   */
+  @Get(':keyword/history')
+  @Public()
+  async getHistory(
+    @Param('keyword') keyword: string,
+    @Query('hours') hours?: number,
+  ): Promise<TopicHistoryResponseDto> {
+    return await this.topicsService.getHistory(keyword, Number(hours));
+  }
+
+  /**
+   * List all seeds
+   * GET /topics/seeds
+   */
+  @Get('seeds')
+  async listSeeds(): Promise<SeedResponseDto[]> {
+    return await this.topicsService.listSeeds();
+  }
+
+  /**
+   * Add a seed
+   * POST /topics/seeds
+   */
+  @Post('seeds')
+  @HttpCode(HttpStatus.CREATED)
+  async createSeed(@Body() body: unknown): Promise<SeedResponseDto> {
+    const { value: seedData, errors } = await validateDto(CreateSeedDto, body);
+    if (!seedData) {
+      throw invalid(errors);
+    }
+    return await this.topicsService.createSeed(seedData);
+  }
+
+  /**
+   * Pause, resume or re-weight a seed
+   * PUT /topics/seeds/:keyword
+   */
+  @Put('seeds/:keyword')
+  async updateSeed(
+    @Param('keyword') keyword: string,
+    @Body() body: unknown,
+  ): Promise<SeedResponseDto> {
+    const { value: updateData, errors } = await validateDto(
+      UpdateSeedDto,
+      body ?? {},
+    );
+    if (!updateData) {
+      throw invalid(errors);
+    }
+    return await this.topicsService.updateSeed(keyword, updateData);
+  }
+
+  /**
+   * Remove a seed
+   * DELETE /topics/seeds/:keyword
+   */
+  @Delete('seeds/:keyword')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeSeed(@Param('keyword') keyword: string): Promise<void> {
+    await this.topicsService.removeSeed(keyword);
+  }
+
+  /**
+   * List detected spikes, optionally by review status
+   * GET /topics/spikes
+   */
+  @Get('spikes')
+  async listSpikes(
+    @Query('status') status?: 'pending' | 'confirmed' | 'false_positive',
+    @Query('limit') limit?: number,
+  ): Promise<TopicSpikeResponseDto[]> {
+    const parsedLimit = limit && limit > 0 && limit <= 100 ? Number(limit) : 50;
+    return await this.topicSpikesService.listSpikes(status, parsedLimit);
+  }
+
+  /**
+   * Mark a spike as confirmed or as a false positive
+   * PUT /topics/spikes/:id/review
+   */
+  @Put('spikes/:id/review')
+  async reviewSpike(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: unknown,
+  ): Promise<TopicSpikeResponseDto> {
+    const { value: reviewData, errors } = await validateDto(
+      ReviewTopicSpikeDto,
+      body,
+    );
+    if (!reviewData) {
+      throw invalid(errors);
+    }
+    return await this.topicSpikesService.reviewSpike(id, reviewData);
+  }
+}
@@ -0,0 +1,329 @@
+import 'reflect-metadata';
+import { Op } from 'sequelize';
+import { KeywordExtractor } from './keywords/keyword-extractor';
+import { TopicsService } from './topics.service';
+
+jest.mock('./topic-spikes.service', () => ({ TopicSpikesService: class {} }));
+
+describe('TopicsService', () => {
+  const env = { ...process.env };
+
+  const sequelize = {
+    escape: (value: Date) => `'${value.toISOString()}'`,
+    query: jest.fn(),
+    transaction: jest.fn(),
+  };
+  const topicModel = {
+    sequelize,
+    findAll: jest.fn(),
+    destroy: jest.fn(),
+  };
+  const seedModel = { findAll: jest.fn() };
+  const postModel = { findAll: jest.fn() };
+  const watermarkModel = { findOne: jest.fn(), create: jest.fn() };
+  const snapshotModel = {
+    findAll: jest.fn(),
+    bulkCreate: jest.fn(),
+    destroy: jest.fn(),
+  };
+  const sampleModel = {
+    findAll: jest.fn(),
+    bulkCreate: jest.fn(),
+    destroy: jest.fn(),
+  };
+  const cloudWatchService = { sendMetric: jest.fn() };
+  const topicSpikesService = {
+    detect: jest.fn(),
+    announce: jest.fn(),
+  };
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (overrides: Record<string, string> = {}) => {
+    Object.assign(process.env, overrides);
+    return new TopicsService(
+      topicModel as any,
+      seedModel as any,
+      postModel as any,
+      watermarkModel as any,
+      snapshotModel as any,
+      sampleModel as any,
+      cloudWatchService as any,
+      new KeywordExtractor(),
+      topicSpikesService as any,
+    );
+  };
+
+  /**
+   * SQL of the decayed score expression a query was built with.
+   */
+  const decayOf = (expression: { val: string }) => expression.val;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    seedModel.findAll.mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('decay', () => {
+    it('should decay stored scores with the default half-life when unset', async () => {
+      topicModel.findAll.mockResolvedValue([]);
+
+      await createService({ TOPICS_HALF_LIFE_MINUTES: '' }).getTopTopics(10);
+
+      const [[order]] = topicModel.findAll.mock.calls[0][0].order;
+      expect(decayOf(order)).toMatch(
+        /^score \* POW\(0\.5, GREATEST\(TIMESTAMPDIFF\(SECOND, scored_at, '.+'\), 0\) \/ 3600\)$/,
+      );
+    });
+
+    it('should use the configured half-life', async () => {
+      topicModel.findAll.mockResolvedValue([]);
+
+      await createService({ TOPICS_HALF_LIFE_MINUTES: '30' }).getTopTopics(10);
+
+      const [[order]] = topicModel.findAll.mock.calls[0][0].order;
+      expect(decayOf(order)).toMatch(/\/ 1800\)$/);
+    });
+
+    it('should decay the stored score before adding new mentions', async () => {
+      const service = createService({ TOPICS_HALF_LIFE_MINUTES: '60' });
+
+      await service.recordMentions(
+        new Map([
+          ['Election', 3],
+          ['', 2],
+          ['ignored', 0],
+        ]),
+      );
+
+      const [sql, { replacements }] = sequelize.query.mock.calls[0];
+      expect(sql).toContain(
+        'score = score * POW(0.5, GREATEST(TIMESTAMPDIFF(SECOND, scored_at, VALUES(scored_at)), 0) / 3600) + VALUES(score)',
+      );
+      expect(sql.indexOf('score = ')).toBeLessThan(sql.indexOf('scored_at = '));
+      expect(replacements.slice(0, 2)).toEqual(['election', 3]);
+      expect(replacements).toHaveLength(5);
+    });
+
+    it('should rank topics by their decayed score, leaving out seeds', async () => {
+      seedModel.findAll.mockResolvedValue([{ keyword: 'earthquake' }]);
+      topicModel.findAll.mockResolvedValue([
+        { keyword: 'election', get: () => '4.5' },
+        { keyword: 'storm', get: () => '1.25' },
+      ]);
+
+      const topics = await createService().getTopTopics(2);
+
+      expect(topics).toEqual([
+        { keyword: 'election', score: 4.5 },
+        { keyword: 'storm', score: 1.25 },
+      ]);
+      expect(topicModel.findAll.mock.calls[0][0]).toMatchObject({
+        where: { keyword: { [Op.notIn]: ['earthquake'] } },
+        limit: 2,
+      });
+    });
+  });
+
+  describe('pruneTopics', () => {
+    it('should prune under 0.5 when the threshold is blank', async () => {
+      topicModel.destroy.mockResolvedValue(3);
+
+      await createService({ TOPICS_PRUNE_THRESHOLD: '' }).pruneTopics();
+
+      const { where } = topicModel.destroy.mock.calls[0][0];
+      expect(decayOf(where.attribute)).toContain('POW(0.5');
+      expect(where.logic).toEqual({ [Op.lt]: 0.5 });
+    });
+
+    it('should prune under the configured threshold', async () => {
+      topicModel.destroy.mockResolvedValue(0);
+
+      await createService({ TOPICS_PRUNE_THRESHOLD: '2' }).pruneTopics();
+
+      expect(topicModel.destroy.mock.calls[0][0].where.logic).toEqual({
+        [Op.lt]: 2,
+      });
+    });
+
+    it('should keep a threshold of 0', async () => {
+      topicModel.destroy.mockResolvedValue(0);
+
+      await createService({ TOPICS_PRUNE_THRESHOLD: '0' }).pruneTopics();
+
+      expect(topicModel.destroy.mock.calls[0][0].where.logic).toEqual({
+        [Op.lt]: 0,
+      });
+    });
+
+    it('should prune under 0.5 when the threshold is not a number', async () => {
+      topicModel.destroy.mockResolvedValue(0);
+
+      await createService({ TOPICS_PRUNE_THRESHOLD: 'half' }).pruneTopics();
+
+      expect(topicModel.destroy.mock.calls[0][0].where.logic).toEqual({
+        [Op.lt]: 0.5,
+      });
+    });
+
+    it('should not throw when pruning fails', async () => {
+      topicModel.destroy.mockRejectedValue(new Error('deadlock'));
+
+      await expect(createService().pruneTopics()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('processNewPosts', () => {
+    const now = Date.now();
+    const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+    const post = (id: number, receivedSecondsAgo: number) => ({
+      id,
+      content: `Election results announced in district ${id}`,
+      lang: 'en',
+      relevance: 4,
+      createdAt: new Date(now - 3600 * 1000),
+      received_at: new Date(now - receivedSecondsAgo * 1000),
+    });
+
+    let watermark: { last_post_id: number; update: jest.Mock };
+
+    beforeEach(() => {
+      watermark = { last_post_id: 10, update: jest.fn() };
+      watermarkModel.findOne.mockResolvedValue(watermark);
+      sequelize.transaction.mockImplementation((run) => run(transaction));
+      topicSpikesService.detect.mockResolvedValue([]);
+    });
+
+    it('should read posts past the watermark and advance it to the last one', async () => {
+      postModel.findAll.mockResolvedValue([post(11, 300), post(12, 120)]);
+
+      const metrics = await createService().processNewPosts();
+
+      expect(postModel.findAll.mock.calls[0][0]).toMatchObject({
+        where: { id: { [Op.gt]: 10 } },
+        order: [['id', 'ASC']],
+      });
+      expect(watermark.update).toHaveBeenCalledWith(
+        expect.objectContaining({ last_post_id: 12 }),
+        { transaction },
+      );
+      expect(sequelize.query).toHaveBeenCalledTimes(1);
+      expect(metrics).toMatchObject({ posts: 2, lastPostId: 12 });
+    });
+
+    it('should stop at the first post still inside the settle window', async () => {
+      postModel.findAll.mockResolvedValue([
+        post(11, 300),
+        post(12, 5),
+        post(13, 300),
+      ]);
+
+      const metrics = await createService().processNewPosts();
+
+      expect(watermark.update).toHaveBeenCalledWith(
+        expect.objectContaining({ last_post_id: 11 }),
+        { transaction },
+      );
+      expect(metrics).toMatchObject({ posts: 1, lastPostId: 11 });
+    });
+
+    it('should leave the watermark in place while every post is settling', async () => {
+      postModel.findAll.mockResolvedValue([post(11, 5), post(12, 1)]);
+
+      const metrics = await createService().processNewPosts();
+
+      expect(watermark.update).not.toHaveBeenCalled();
+      expect(sequelize.query).not.toHaveBeenCalled();
+      expect(metrics).toMatchObject({ posts: 0, lastPostId: 10 });
+    });
+  });
+
+  describe('snapshotTopics', () => {
+    it('should copy decayed scores and expire old snapshots and samples', async () => {
+      topicModel.findAll.mockResolvedValue([
+        { keyword: 'election', get: () => '4.5' },
+      ]);
+
+      await createService({
+        TOPICS_PRUNE_THRESHOLD: '',
+        TOPICS_SNAPSHOT_RETENTION_DAYS: '2',
+      }).snapshotTopics();
+
+      const query = topicModel.findAll.mock.calls[0][0];
+      expect(query.where.logic).toEqual({ [Op.gte]: 0.5 });
+      expect(query.limit).toBe(200);
+
+      const [[snapshot]] = snapshotModel.bulkCreate.mock.calls[0];
+      expect(snapshot).toMatchObject({ keyword: 'election', score: 4.5 });
+
+      const cutoff = snapshotModel.destroy.mock.calls[0][0].where.captured_at[
+        Op.lt
+      ] as Date;
+      expect(snapshot.captured_at.getTime() - cutoff.getTime()).toBe(
+        2 * 24 * 60 * 60 * 1000,
+      );
+      expect(sampleModel.destroy).toHaveBeenCalledWith({
+        where: { created_at: { [Op.lt]: cutoff } },
+      });
+    });
+  });
+
+  describe('getTrending', () => {
+    const hour = 60 * 60 * 1000;
+
+    beforeEach(() => {
+      topicModel.findAll.mockResolvedValue([
+        { keyword: 'election', get: () => '10' },
+        { keyword: 'storm', get: () => '3' },
+      ]);
+      sampleModel.findAll.mockResolvedValue([]);
+    });
+
+    it('should measure velocity against the snapshot about an hour old', async () => {
+      snapshotModel.findAll.mockResolvedValue([
+        {
+          keyword: 'election',
+          score: 4,
+          captured_at: new Date(Date.now() - 1.5 * hour),
+        },
+        {
+          keyword: 'election',
+          score: 1,
+          captured_at: new Date(Date.now() - 1.9 * hour),
+        },
+      ]);
+
+      const { topics } = await createService().getTrending(2);
+
+      expect(topics[0].keyword).toBe('election');
+      expect(topics[0].velocity).toBeCloseTo((10 - 4) / 1.5, 2);
+
+      const { captured_at } = snapshotModel.findAll.mock.calls[0][0].where;
+      const [start, end] = captured_at[Op.between] as Date[];
+      expect(end.getTime() - start.getTime()).toBe(hour);
+    });
+
+    it('should treat topics missing from the baseline as new over the window', async () => {
+      snapshotModel.findAll.mockResolvedValue([]);
+
+      const { topics } = await createService().getTrending(2);
+
+      expect(topics[1]).toEqual({
+        keyword: 'storm',
+        score: 3,
+        velocity: 3,
+        samples: [],
+      });
+    });
+  });
+});
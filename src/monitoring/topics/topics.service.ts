@@ -0,0 +1,845 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { StandardUnit } from '@aws-sdk/client-cloudwatch';
+import { literal, Op, Transaction, where } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import {
+  CreateSeedDto,
+  SeedResponseDto,
+  TopicHistoryResponseDto,
+  TopicSamplePostDto,
+  TrendingTopicsResponseDto,
+  UpdateSeedDto,
+} from 'src/dto';
+import {
+  Post,
+  Seed,
+  Topic,
+  TopicSample,
+  TopicSnapshot,
+  TopicSpike,
+  TopicWatermark,
+} from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { KeywordExtractor } from './keywords/keyword-extractor';
+import { TopicSpikesService } from './topic-spikes.service';
+
+/**
+ * Per-run counters reported by topic extraction.
+ */
+export interface TopicExtractionMetrics {
+  posts: number;
+  keywords: number;
+  mentions: number;
+  spikes: number;
+  lastPostId: number;
+}
+
+/**
+ * Service responsible for the shared topics store.
+ *
+ * The `TopicsService` handles:
+ * - Extracting keywords and phrases from newly ingested posts, exactly once per post.
+ * - Recording keyword mentions coming from ingestion and topic extraction.
+ * - Ranking the currently trending keywords for the n8n trigger and the public API.
+ * - Snapshotting topic scores into a time series for history charts.
+ * - Pruning keywords whose score has decayed away.
+ * - Managing seed keywords (add, remove, pause and weight).
+ *
+ * Environment Variables:
+ * - `TOPICS_HALF_LIFE_MINUTES`: Minutes it takes a mention to lose half its weight (default: 60).
+ * - `TOPICS_PRUNE_THRESHOLD`: Decayed score under which a topic is deleted (default: 0.5).
+ * - `TOPICS_SNAPSHOT_RETENTION_DAYS`: Days snapshots and samples are kept (default: 7).
+ *
+ * @remarks
+ * Topics and seeds live in MySQL instead of process memory, so every
+ * replica reads and writes the same state and nothing is lost on restart.
+ *
+ * A topic's score is a recency-weighted sum of its mentions: `score` holds the
+ * value as of `scored_at`, and the current value is
+ * `score * 0.5 ^ ((now - scored_at) / halfLife)`. Increments decay the stored
+ * score up to the present before adding to it, in a single
+ * `INSERT ... ON DUPLICATE KEY UPDATE`, so concurrent writers never overwrite
+ * each other.
+ *
+ * Extraction consumes posts in `id` order past a watermark stored in
+ * `topic_watermarks`. The watermark row is locked for the whole run and moved
+ * in the same transaction that records the mentions, so a post is counted
+ * once even when several replicas run the cron at the same minute. Posts
+ * received in the last minute are left for a later run, so an insert that
+ * commits after a higher id is not skipped.
+ *
+ * Each run also stores, for its busiest keywords, the posts that contributed
+ * the most (`topic_samples`). Every 5 minutes the top scores are copied to
+ * `topic_snapshots`; velocity is the score change against the snapshot taken
+ * about an hour earlier.
+ */
+@Injectable()
+export class TopicsService {
+  @Logger(TopicsService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Half-life of a mention in seconds.
+   */
+  private readonly halfLifeSeconds =
+    Math.max(Number(process.env.TOPICS_HALF_LIFE_MINUTES) || 60, 1) * 60;
+
+  /**
+   * Decayed score under which a topic is pruned; `0` prunes nothing.
+   */
+  private readonly pruneThreshold = (() => {
+    const threshold = parseFloat(process.env.TOPICS_PRUNE_THRESHOLD ?? '');
+    return Number.isFinite(threshold) ? threshold : 0.5;
+  })();
+
+  /**
+   * Name of the watermark row used by post keyword extraction.
+   */
+  private readonly watermarkName = 'posts';
+
+  /**
+   * How long a post is left to settle before extraction reads it. Ids are
+   * allocated before commit, so a post whose transaction commits after a
+   * higher id is visible would otherwise fall behind the watermark.
+   */
+  private readonly extractionSettleMs = 60 * 1000;
+
+  /**
+   * Maximum number of posts consumed per extraction run.
+   */
+  private readonly extractionBatchSize = 500;
+
+  /**
+   * Number of posts in a run that must share a phrase before it is recorded.
+   */
+  private readonly minPhraseSupport = 2;
+
+  /**
+   * Number of keywords per extraction run whose contributing posts are stored.
+   */
+  private readonly sampledTopicsPerRun = 50;
+
+  /**
+   * Number of contributing posts kept per keyword and run, and returned per trending topic.
+   */
+  private readonly samplesPerTopic = 3;
+
+  /**
+   * Maximum number of topics copied into each snapshot.
+   */
+  private readonly snapshotLimit = 200;
+
+  /**
+   * Days snapshots and samples are kept.
+   */
+  private readonly snapshotRetentionDays = Math.max(
+    Number(process.env.TOPICS_SNAPSHOT_RETENTION_DAYS) || 7,
+    1,
+  );
+
+  /**
+   * Window velocity is measured over.
+   */
+  private readonly velocityWindowMs = 60 * 60 * 1000;
+
+  constructor(
+    @InjectModel(Topic)
+    private topicModel: typeof Topic,
+    @InjectModel(Seed)
+    private seedModel: typeof Seed,
+    @InjectModel(Post)
+    private postModel: typeof Post,
+    @InjectModel(TopicWatermark)
+    private watermarkModel: typeof TopicWatermark,
+    @InjectModel(TopicSnapshot)
+    private snapshotModel: typeof TopicSnapshot,
+    @InjectModel(TopicSample)
+    private sampleModel: typeof TopicSample,
+    private readonly cloudWatchService: CloudWatchService,
+    private readonly keywordExtractor: KeywordExtractor,
+    private readonly topicSpikesService: TopicSpikesService,
+  ) {}
+
+  /**
+   * Extracts keywords from the posts ingested since the last run and records them.
+   * Keyword frequency is boosted by the post's relevance score. Keywords whose
+   * rate spikes are announced once the run is committed.
+   *
+   * @returns The run's metrics, or null if the run failed.
+   */
+  async processNewPosts(): Promise<TopicExtractionMetrics | null> {
+    const startTime = Date.now();
+
+    try {
+      const seeds = await this.getSeedKeywords();
+      let spikes: TopicSpike[] = [];
+
+      const metrics = await this.topicModel.sequelize!.transaction(
+        async (transaction) => {
+          const watermark = await this.lockWatermark(transaction);
+
+          const candidates = await this.postModel.findAll({
+            where: { id: { [Op.gt]: watermark.last_post_id } },
+            order: [['id', 'ASC']],
+            limit: this.extractionBatchSize,
+            attributes: [
+              'id',
+              'content',
+              'lang',
+              'relevance',
+              'createdAt',
+              'received_at',
+            ],
+            transaction,
+          });
+          const posts = this.settledPosts(candidates, new Date());
+
+          const mentions = new Map<string, number>();
+          const phraseMentions = new Map<string, number>();
+          const phraseSupport = new Map<string, number>();
+          const contributions = new Map<string, Map<number, number>>();
+
+          // Extract keywords from content and boost their frequency based on relevance
+          for (const post of posts) {
+            const { unigrams, phrases } = this.keywordExtractor.extract(
+              post.content,
+              post.lang,
+            );
+            const boost = Math.ceil(post.relevance / 2);
+
+            unigrams
+              .filter((word) => !seeds.has(word))
+              .forEach((word) => {
+                mentions.set(word, (mentions.get(word) || 0) + boost);
+              });
+
+            phrases
+              .filter((phrase) => !seeds.has(phrase))
+              .forEach((phrase) => {
+                phraseMentions.set(
+                  phrase,
+                  (phraseMentions.get(phrase) || 0) + boost,
+                );
+              });
+
+            new Set(phrases).forEach((phrase) => {
+              phraseSupport.set(phrase, (phraseSupport.get(phrase) || 0) + 1);
+            });
+
+            [...unigrams, ...phrases].forEach((keyword) => {
+              const posts = contributions.get(keyword) || new Map();
+              posts.set(post.id, (posts.get(post.id) || 0) + boost);
+              contributions.set(keyword, posts);
+            });
+          }
+
+          // Phrases only become topics once several posts share them
+          phraseMentions.forEach((amount, phrase) => {
+            if ((phraseSupport.get(phrase) || 0) >= this.minPhraseSupport) {
+              mentions.set(phrase, amount);
+            }
+          });
+
+          if (posts.length > 0) {
+            const lastPost = posts[posts.length - 1];
+            await this.recordMentions(mentions, transaction);
+            await this.recordSamples(mentions, contributions, transaction);
+
+            // Rates count the posts mentioning a keyword, not its boosted mentions
+            const rates = new Map(
+              Array.from(mentions.keys()).map((keyword): [string, number] => [
+                keyword,
+                contributions.get(keyword)?.size || 0,
+              ]),
+            );
+            spikes = await this.topicSpikesService.detect(rates, transaction);
+            await watermark.update(
+              {
+                last_post_id: lastPost.id,
+                last_created_at: lastPost.createdAt,
+              },
+              { transaction },
+            );
+          }
+
+          return {
+            posts: posts.length,
+            keywords: mentions.size,
+            mentions: Array.from(mentions.values()).reduce(
+              (sum, amount) => sum + amount,
+              0,
+            ),
+            spikes: spikes.length,
+            lastPostId:
+              posts.length > 0
+                ? posts[posts.length - 1].id
+                : watermark.last_post_id,
+          };
+        },
+      );
+
+      await this.topicSpikesService.announce(spikes);
+
+      const durationMs = Date.now() - startTime;
+      this.logger.log('Topic extraction completed', {
+        ...metrics,
+        durationMs,
+      });
+
+      await Promise.all([
+        this.cloudWatchService.sendMetric('TopicPostsProcessed', metrics.posts),
+        this.cloudWatchService.sendMetric(
+          'TopicKeywordsProcessed',
+          metrics.keywords,
+        ),
+        this.cloudWatchService.sendMetric(
+          'TopicExtractionDuration',
+          durationMs,
+          {},
+          StandardUnit.Milliseconds,
+        ),
+      ]);
+
+      return metrics;
+    } catch (error) {
+      this.logger.error('Failed to extract topics from new posts', '', {
+        error: error.message,
+        stack: error.stack,
+        durationMs: Date.now() - startTime,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Adds the given amounts to the score of each keyword, creating missing topics.
+   *
+   * @param mentions - Map of keyword to the amount to add.
+   * @param transaction - Optional transaction to run the increment in.
+   */
+  async recordMentions(
+    mentions: Map<string, number>,
+    transaction?: Transaction,
+  ): Promise<void> {
+    const entries = Array.from(mentions.entries())
+      .map(([keyword, amount]): [string, number] => [
+        this.normalizeKeyword(keyword),
+        amount,
+      ])
+      .filter(
+        ([keyword, amount]) => !!keyword && keyword.length <= 128 && amount > 0,
+      );
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const placeholders = entries.map(() => '(?, ?, ?, ?, ?)').join(', ');
+    const replacements = entries.flatMap(([keyword, amount]) => [
+      keyword,
+      amount,
+      now,
+      now,
+      now,
+    ]);
+
+    /**
+     * MySQL applies the assignments left to right, so `score` is decayed
+     * against the previous `scored_at` before it is moved forward.
+     */
+    await this.topicModel.sequelize!.query(
+      `INSERT INTO topics (keyword, score, scored_at, created_at, updated_at) VALUES ${placeholders}
+       ON DUPLICATE KEY UPDATE
+         score = score * POW(0.5, GREATEST(TIMESTAMPDIFF(SECOND, scored_at, VALUES(scored_at)), 0) / ${this.halfLifeSeconds}) + VALUES(score),
+         scored_at = VALUES(scored_at),
+         updated_at = VALUES(updated_at)`,
+      { replacements, transaction },
+    );
+
+    this.logger.log('Recorded topic mentions', {
+      keywords: entries.length,
+      total: entries.reduce((sum, [, amount]) => sum + amount, 0),
+    });
+  }
+
+  /**
+   * Retrieves the currently trending keywords, excluding seed keywords.
+   *
+   * @param limit - Maximum number of keywords to return.
+   * @returns Keyword and decayed score pairs ordered by decayed score DESC.
+   */
+  async getTopTopics(
+    limit: number,
+  ): Promise<Array<{ keyword: string; score: number }>> {
+    const seedKeywords = await this.getSeedKeywords();
+    const currentScore = this.currentScoreLiteral(new Date());
+
+    const topics = await this.topicModel.findAll({
+      where: {
+        ...(seedKeywords.size > 0 && {
+          keyword: { [Op.notIn]: Array.from(seedKeywords) },
+        }),
+      },
+      order: [[currentScore, 'DESC']],
+      limit,
+      attributes: ['keyword', [currentScore, 'current_score']],
+    });
+
+    return topics.map((topic) => ({
+      keyword: topic.keyword,
+      score: Number(topic.get('current_score')),
+    }));
+  }
+
+  /**
+   * Deletes topics whose decayed score fell under the prune threshold.
+   * Runs every 10 minutes.
+   */
+  @Cron('*/10 * * * *')
+  async pruneTopics(): Promise<void> {
+    try {
+      const deletedCount = await this.topicModel.destroy({
+        where: where(this.currentScoreLiteral(new Date()), {
+          [Op.lt]: this.pruneThreshold,
+        }),
+      });
+
+      this.logger.log('Pruned decayed topics', {
+        deletedCount,
+        threshold: this.pruneThreshold,
+      });
+    } catch (error) {
+      this.logger.error('Failed to prune topics:', error);
+    }
+  }
+
+  /**
+   * Copies the current top topic scores into the time series and drops
+   * snapshots and samples past the retention window.
+   * Runs every 5 minutes.
+   */
+  @Cron('*/5 * * * *')
+  async snapshotTopics(): Promise<void> {
+    try {
+      const capturedAt = new Date();
+      const currentScore = this.currentScoreLiteral(capturedAt);
+
+      const topics = await this.topicModel.findAll({
+        where: where(currentScore, { [Op.gte]: this.pruneThreshold }),
+        order: [[currentScore, 'DESC']],
+        limit: this.snapshotLimit,
+        attributes: ['keyword', [currentScore, 'current_score']],
+      });
+
+      await this.snapshotModel.bulkCreate(
+        topics.map((topic) => ({
+          keyword: topic.keyword,
+          score: Number(topic.get('current_score')),
+          captured_at: capturedAt,
+        })) as any[],
+      );
+
+      const cutoff = new Date(
+        capturedAt.getTime() - this.snapshotRetentionDays * 24 * 60 * 60 * 1000,
+      );
+      const [expiredSnapshots, expiredSamples] = await Promise.all([
+        this.snapshotModel.destroy({
+          where: { captured_at: { [Op.lt]: cutoff } },
+        }),
+        this.sampleModel.destroy({
+          where: { created_at: { [Op.lt]: cutoff } },
+        }),
+      ]);
+
+      this.logger.log('Snapshotted topic scores', {
+        topics: topics.length,
+        expiredSnapshots,
+        expiredSamples,
+      });
+    } catch (error) {
+      this.logger.error('Failed to snapshot topics:', error);
+    }
+  }
+
+  /**
+   * Retrieves the trending keywords with their velocity and sample posts.
+   *
+   * @param limit - Maximum number of keywords to return.
+   */
+  async getTrending(limit: number): Promise<TrendingTopicsResponseDto> {
+    const now = new Date();
+    const topics = await this.getTopTopics(limit);
+    const keywords = topics.map((topic) => topic.keyword);
+
+    const [baselines, samples] = await Promise.all([
+      this.getBaselines(keywords, now),
+      this.getSamples(keywords),
+    ]);
+
+    return {
+      topics: topics.map(({ keyword, score }) => {
+        // Topics missing from older snapshots were under the snapshot cut
+        const baseline = baselines.get(keyword);
+        const elapsedHours =
+          (baseline
+            ? now.getTime() - baseline.captured_at.getTime()
+            : this.velocityWindowMs) /
+          (60 * 60 * 1000);
+
+        return {
+          keyword,
+          score,
+          velocity: (score - (baseline?.score ?? 0)) / elapsedHours,
+          samples: samples.get(keyword) || [],
+        };
+      }),
+      generated_at: now.toISOString(),
+    };
+  }
+
+  /**
+   * Retrieves the snapshot time series of a keyword.
+   *
+   * @param keyword - Keyword or phrase, normalized before lookup.
+   * @param hours - How far back to go (default 24, capped to the retention window).
+   */
+  async getHistory(
+    keyword: string,
+    hours?: number,
+  ): Promise<TopicHistoryResponseDto> {
+    const normalized = this.normalizeKeyword(keyword);
+    const window = Math.min(
+      Math.max(hours || 24, 1),
+      this.snapshotRetentionDays * 24,
+    );
+    const since = new Date(Date.now() - window * 60 * 60 * 1000);
+
+    const snapshots = await this.snapshotModel.findAll({
+      where: { keyword: normalized, captured_at: { [Op.gte]: since } },
+      order: [['captured_at', 'ASC']],
+      attributes: ['score', 'captured_at'],
+    });
+
+    return {
+      keyword: normalized,
+      points: snapshots.map((snapshot) => ({
+        captured_at: snapshot.captured_at.toISOString(),
+        score: snapshot.score,
+      })),
+    };
+  }
+
+  /**
+   * Retrieves the active (non-paused) seed keywords, heaviest first.
+   */
+  async getActiveSeeds(): Promise<string[]> {
+    const seeds = await this.seedModel.findAll({
+      where: { is_paused: false },
+      order: [
+        ['weight', 'DESC'],
+        ['keyword', 'ASC'],
+      ],
+      attributes: ['keyword'],
+    });
+
+    return seeds.map((seed) => seed.keyword);
+  }
+
+  /**
+   * Retrieves every seed keyword, paused or not.
+   */
+  async getSeedKeywords(): Promise<Set<string>> {
+    const seeds = await this.seedModel.findAll({ attributes: ['keyword'] });
+    return new Set(seeds.map((seed) => seed.keyword));
+  }
+
+  /**
+   * Lists all seeds for the admin API.
+   */
+  async listSeeds(): Promise<SeedResponseDto[]> {
+    const seeds = await this.seedModel.findAll({
+      order: [
+        ['weight', 'DESC'],
+        ['keyword', 'ASC'],
+      ],
+    });
+
+    return seeds.map((seed) => this.toSeedResponse(seed));
+  }
+
+  /**
+   * Creates a new seed keyword.
+   *
+   * @throws BadRequestException if the keyword is empty.
+   * @throws ConflictException if the seed already exists.
+   */
+  async createSeed(seedData: CreateSeedDto): Promise<SeedResponseDto> {
+    const keyword = this.normalizeKeyword(seedData?.keyword);
+    if (!keyword) {
+      throw new BadRequestException('Seed keyword is required');
+    }
+
+    const existing = await this.seedModel.findOne({ where: { keyword } });
+    if (existing) {
+      throw new ConflictException('Seed already exists');
+    }
+
+    const seed = await this.seedModel.create({
+      keyword,
+      weight: seedData.weight ?? 1,
+      is_paused: seedData.is_paused ?? false,
+    } as any);
+
+    this.logger.log('Seed created', {
+      keyword,
+      weight: seed.weight,
+      isPaused: seed.is_paused,
+    });
+
+    return this.toSeedResponse(seed);
+  }
+
+  /**
+   * Updates a seed's weight or pause state.
+   *
+   * @throws NotFoundException if the seed does not exist.
+   */
+  async updateSeed(
+    keyword: string,
+    updateData: UpdateSeedDto,
+  ): Promise<SeedResponseDto> {
+    const seed = await this.findSeed(keyword);
+
+    await seed.update({
+      weight: updateData?.weight ?? seed.weight,
+      is_paused: updateData?.is_paused ?? seed.is_paused,
+    });
+
+    this.logger.log('Seed updated', {
+      keyword: seed.keyword,
+      weight: seed.weight,
+      isPaused: seed.is_paused,
+    });
+
+    return this.toSeedResponse(seed);
+  }
+
+  /**
+   * Removes a seed keyword.
+   *
+   * @throws NotFoundException if the seed does not exist.
+   */
+  async removeSeed(keyword: string): Promise<void> {
+    const seed = await this.findSeed(keyword);
+    await seed.destroy();
+
+    this.logger.log('Seed removed', { keyword: seed.keyword });
+  }
+
+  /**
+   * Stores the heaviest contributing posts of the run's busiest keywords.
+   *
+   * @param mentions - Keywords recorded by the run and their amounts.
+   * @param contributions - Per keyword, the amount each post contributed.
+   * @param transaction - Transaction of the extraction run.
+   */
+  private async recordSamples(
+    mentions: Map<string, number>,
+    contributions: Map<string, Map<number, number>>,
+    transaction: Transaction,
+  ): Promise<void> {
+    const samples = Array.from(mentions.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, this.sampledTopicsPerRun)
+      .flatMap(([keyword]) =>
+        Array.from(contributions.get(keyword) || [])
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, this.samplesPerTopic)
+          .map(([postId, weight]) => ({
+            keyword,
+            post_id: postId,
+            weight,
+          })),
+      )
+      .filter(({ keyword }) => keyword.length <= 128);
+
+    if (samples.length === 0) {
+      return;
+    }
+
+    await this.sampleModel.bulkCreate(samples as any[], {
+      ignoreDuplicates: true,
+      transaction,
+    });
+  }
+
+  /**
+   * Finds, per keyword, the latest snapshot taken at least a velocity window ago.
+   */
+  private async getBaselines(
+    keywords: string[],
+    now: Date,
+  ): Promise<Map<string, TopicSnapshot>> {
+    const baselines = new Map<string, TopicSnapshot>();
+    if (keywords.length === 0) {
+      return baselines;
+    }
+
+    const windowEnd = new Date(now.getTime() - this.velocityWindowMs);
+    const windowStart = new Date(now.getTime() - 2 * this.velocityWindowMs);
+
+    const snapshots = await this.snapshotModel.findAll({
+      where: {
+        keyword: { [Op.in]: keywords },
+        captured_at: { [Op.between]: [windowStart, windowEnd] },
+      },
+      order: [['captured_at', 'DESC']],
+    });
+
+    snapshots.forEach((snapshot) => {
+      if (!baselines.has(snapshot.keyword)) {
+        baselines.set(snapshot.keyword, snapshot);
+      }
+    });
+
+    return baselines;
+  }
+
+  /**
+   * Retrieves the most recent contributing posts of each keyword.
+   */
+  private async getSamples(
+    keywords: string[],
+  ): Promise<Map<string, TopicSamplePostDto[]>> {
+    const entries = await Promise.all(
+      keywords.map(async (keyword): Promise<[string, TopicSamplePostDto[]]> => {
+        const samples = await this.sampleModel.findAll({
+          where: { keyword },
+          include: [
+            {
+              model: Post,
+              attributes: [
+                'uuid',
+                'content',
+                'author',
+                'source',
+                'uri',
+                'posted_at',
+                'relevance',
+              ],
+            },
+          ],
+          order: [
+            ['created_at', 'DESC'],
+            ['weight', 'DESC'],
+          ],
+          limit: this.samplesPerTopic,
+        });
+
+        return [
+          keyword,
+          samples.map(({ post }) => ({
+            id: post.uuid,
+            content: post.content,
+            author: post.author,
+            source: post.source,
+            uri: post.uri,
+            posted_at: post.posted_at.toISOString(),
+            relevance: post.relevance,
+          })),
+        ];
+      }),
+    );
+
+    return new Map(entries);
+  }
+
+  /**
+   * Leading posts, in id order, received before the settle window. The run
+   * stops at the first unsettled post so the watermark never passes an id
+   * that may still be committing.
+   */
+  private settledPosts(posts: Post[], now: Date): Post[] {
+    const cutoff = now.getTime() - this.extractionSettleMs;
+    const unsettled = posts.findIndex(
+      (post) => !!post.received_at && post.received_at.getTime() > cutoff,
+    );
+    return unsettled === -1 ? posts : posts.slice(0, unsettled);
+  }
+
+  /**
+   * Loads the extraction watermark with a row lock, creating it if missing.
+   */
+  private async lockWatermark(
+    transaction: Transaction,
+  ): Promise<TopicWatermark> {
+    const watermark = await this.watermarkModel.findOne({
+      where: { name: this.watermarkName },
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+
+    if (watermark) {
+      return watermark;
+    }
+
+    return this.watermarkModel.create(
+      { name: this.watermarkName, last_post_id: 0 } as any,
+      { transaction },
+    );
+  }
+
+  /**
+   * Finds a seed by keyword or throws.
+   */
+  private async findSeed(keyword: string): Promise<Seed> {
+    const seed = await this.seedModel.findOne({
+      where: { keyword: this.normalizeKeyword(keyword) },
+    });
+
+    if (!seed) {
+      throw new NotFoundException('Seed not found');
+    }
+
+    return seed;
+  }
+
+  /**
+   * Builds the SQL expression for a topic's score decayed up to `now`.
+   */
+  private currentScoreLiteral(now: Date) {
+    const reference = this.topicModel.sequelize!.escape(now);
+    return literal(
+      `score * POW(0.5, GREATEST(TIMESTAMPDIFF(SECOND, scored_at, ${reference}), 0) / ${this.halfLifeSeconds})`,
+    );
+  }
+
+  /**
+   * Normalizes a keyword for storage, the same way extracted keywords are.
+   */
+  private normalizeKeyword(keyword: string | undefined): string {
+    return this.keywordExtractor.normalizeKeyword(keyword);
+  }
+
+  /**
+   * Maps a Seed model to its API representation.
+   */
+  private toSeedResponse(seed: Seed): SeedResponseDto {
+    return {
+      keyword: seed.keyword,
+      weight: seed.weight,
+      is_paused: seed.is_paused,
+      created_at: seed.created_at.toISOString(),
+      updated_at: seed.updated_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { buildPointPayload, diffPointPayload } from './point-payload';
+
+describe('point payload', () => {
+  const post = {
+    uuid: 'V1StGXR8_Z5jdHi6B-myT',
+    content: 'x'.repeat(600),
+    source: 'bluesky',
+    createdAt: new Date('2025-01-15T10:30:00.000Z'),
+    hash: 'abc',
+    categories_relation: [
+      { slug: 'world' },
+      { slug: 'politics' },
+      { slug: 'world' },
+    ],
+    lang: 'en',
+    author_handle: 'reporter',
+    relevance: 7,
+  };
+
+  describe('buildPointPayload', () => {
+    it('should derive the payload from the post', () => {
+      const payload = buildPointPayload(post);
+
+      expect(payload.content).toHaveLength(500);
+      expect(payload.createdAt).toBe('2025-01-15T10:30:00.000Z');
+      expect(payload.createdAtTs).toBe(Date.parse('2025-01-15T10:30:00.000Z'));
+    });
+
+    it('should store a missing hash as an empty string', () => {
+      expect(buildPointPayload({ ...post, hash: null }).hash).toBe('');
+    });
+
+    it('should store unique category slugs in order', () => {
+      expect(buildPointPayload(post).categories).toEqual(['politics', 'world']);
+      expect(
+        buildPointPayload({ ...post, categories_relation: null }).categories,
+      ).toEqual([]);
+    });
+  });
+
+  describe('diffPointPayload', () => {
+    it('should report no drift for a matching payload', () => {
+      const payload = buildPointPayload(post);
+
+      expect(diffPointPayload(payload, { ...payload, content: 'old' })).toEqual(
+        [],
+      );
+    });
+
+    it('should report drifted and missing fields', () => {
+      const payload = buildPointPayload(post);
+
+      expect(
+        diffPointPayload(payload, {
+          ...payload,
+          createdAt: '2025-01-14T00:00:00.000Z',
+          hash: undefined,
+          categories: ['politics'],
+        }),
+      ).toEqual(['createdAt', 'hash', 'categories']);
+      expect(diffPointPayload(payload, null)).toEqual([
+        'uuid',
+        'source',
+        'createdAt',
+        'createdAtTs',
+        'hash',
+        'categories',
+        'lang',
+        'authorHandle',
+        'relevance',
+      ]);
+    });
+  });
+});
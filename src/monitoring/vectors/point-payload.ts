@@ -0,0 +1,110 @@
+/**
+ * Payload stored with each post point in Qdrant.
+ */
+export interface PostPointPayload {
+  uuid: string;
+  content: string;
+  source: string;
+  createdAt: string;
+  createdAtTs: number;
+  hash: string;
+  categories: string[];
+  lang: string;
+  authorHandle: string;
+  relevance: number;
+}
+
+/**
+ * Post fields the point payload is derived from.
+ *
+ * @property categories_relation - Categories of the post; only slugs are used.
+ */
+export interface PointSource {
+  uuid: string;
+  content?: string | null;
+  source?: string | null;
+  createdAt?: Date | null;
+  hash?: string | null;
+  categories_relation?: Array<{ slug: string }> | null;
+  lang?: string | null;
+  author_handle?: string | null;
+  relevance?: number | null;
+}
+
+/**
+ * Post attributes to load to build a point payload, besides its categories.
+ */
+export const POINT_SOURCE_ATTRIBUTES = [
+  'id',
+  'uuid',
+  'content',
+  'source',
+  'createdAt',
+  'hash',
+  'lang',
+  'author_handle',
+  'relevance',
+];
+
+/**
+ * Payload fields compared by the reconciler. Content is a truncated copy
+ * and is not compared.
+ */
+const COMPARED_FIELDS: Array<keyof PostPointPayload> = [
+  'uuid',
+  'source',
+  'createdAt',
+  'createdAtTs',
+  'hash',
+  'categories',
+  'lang',
+  'authorHandle',
+  'relevance',
+];
+
+/**
+ * Builds the point payload of a post.
+ */
+export function buildPointPayload(post: PointSource): PostPointPayload {
+  // Normalize createdAt to an ISO string (guard against invalid dates)
+  let createdAtIso: string;
+  try {
+    createdAtIso = post.createdAt?.toISOString() ?? '';
+    if (!createdAtIso) throw new Error('Empty createdAt');
+  } catch {
+    createdAtIso = new Date().toISOString();
+  }
+
+  return {
+    uuid: post.uuid,
+    content: post.content?.substring(0, 500) || '',
+    source: post.source || '',
+    createdAt: createdAtIso,
+    createdAtTs: Date.parse(createdAtIso),
+    hash: post.hash || '',
+    categories: [
+      ...new Set((post.categories_relation ?? []).map(({ slug }) => slug)),
+    ].sort(),
+    lang: post.lang || '',
+    authorHandle: post.author_handle || '',
+    relevance: post.relevance ?? 0,
+  };
+}
+
+/**
+ * Lists the payload fields of a point that differ from the expected payload.
+ *
+ * @param expected - Payload built from the post.
+ * @param actual - Payload stored in Qdrant.
+ */
+export function diffPointPayload(
+  expected: PostPointPayload,
+  actual: Record<string, unknown> | null | undefined,
+): string[] {
+  return COMPARED_FIELDS.filter((field) => {
+    const value = actual?.[field] ?? '';
+    return Array.isArray(expected[field])
+      ? JSON.stringify(value) !== JSON.stringify(expected[field])
+      : value !== expected[field];
+  });
+}
@@ -0,0 +1,204 @@
+import 'reflect-metadata';
+import { Op } from 'sequelize';
+import { PostVectorsService } from './post-vectors.service';
+
+describe('PostVectorsService', () => {
+  const env = { ...process.env };
+
+  const postModel = { findAll: jest.fn() };
+  const qdrantClient = { upsert: jest.fn() };
+  const qdrantService = {
+    getWriteTargets: jest.fn(),
+    getDefaultModel: () => ({ name: 'minilm-384' }),
+  };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * Creates the service with the environment it reads on construction.
+   */
+  const createService = (overrides: Record<string, string> = {}) => {
+    Object.assign(process.env, overrides);
+    return new PostVectorsService(
+      postModel as any,
+      qdrantClient as any,
+      qdrantService as any,
+      cloudWatchService as any,
+    );
+  };
+
+  /**
+   * A stored post with an embedding, after some sync attempts.
+   */
+  const postWith = (attempts: number) => ({
+    id: 42,
+    uuid: 'post-42',
+    embeddings: { 'minilm-384': [0.1, 0.2, 0.3] },
+    vector_attempts: attempts,
+    $get: jest.fn().mockResolvedValue([{ slug: 'weather' }]),
+    toJSON: () => ({ id: 42, uuid: 'post-42', content: 'Storm warning' }),
+    update: jest.fn(),
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    qdrantService.getWriteTargets.mockResolvedValue([
+      {
+        collectionName: 'posts_vectors',
+        vectors: { 'minilm-384': { size: 3, distance: 'Cosine' } },
+      },
+    ]);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('sync', () => {
+    it('should mark the post synced once its point is stored', async () => {
+      const post = postWith(0);
+
+      await expect(createService().sync(post as any)).resolves.toBe(true);
+
+      expect(qdrantClient.upsert).toHaveBeenCalledWith('posts_vectors', {
+        points: [
+          expect.objectContaining({
+            id: 42,
+            vector: { 'minilm-384': [0.1, 0.2, 0.3] },
+          }),
+        ],
+      });
+      expect(post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vector_status: 'synced',
+          vector_attempts: 1,
+          vector_error: null,
+        }),
+      );
+    });
+
+    it('should write to every collection during a reindex', async () => {
+      qdrantService.getWriteTargets.mockResolvedValue([
+        {
+          collectionName: 'posts_vectors',
+          vectors: { '': { size: 3, distance: 'Cosine' } },
+        },
+        {
+          collectionName: 'posts_vectors_v2',
+          vectors: { 'minilm-384': { size: 3, distance: 'Cosine' } },
+        },
+      ]);
+
+      await createService().sync(postWith(0) as any);
+
+      expect(qdrantClient.upsert.mock.calls.map(([name]) => name)).toEqual([
+        'posts_vectors',
+        'posts_vectors_v2',
+      ]);
+    });
+
+    it('should keep the vector pending when Qdrant fails', async () => {
+      qdrantClient.upsert.mockRejectedValueOnce(new Error('timeout'));
+      const post = postWith(2);
+
+      await expect(
+        createService({ VECTOR_SYNC_MAX_ATTEMPTS: '' }).sync(post as any),
+      ).resolves.toBe(false);
+
+      expect(post.update).toHaveBeenCalledWith({
+        vector_status: 'pending',
+        vector_attempts: 3,
+        vector_error: 'timeout',
+      });
+      expect(cloudWatchService.sendMetric).toHaveBeenCalledWith(
+        'VectorSyncFailures',
+        1,
+      );
+    });
+
+    it('should mark the vector failed after the last attempt', async () => {
+      qdrantClient.upsert.mockRejectedValueOnce(new Error('timeout'));
+      const post = postWith(2);
+
+      await createService({ VECTOR_SYNC_MAX_ATTEMPTS: '3' }).sync(post as any);
+
+      expect(post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vector_status: 'failed',
+          vector_attempts: 3,
+        }),
+      );
+    });
+
+    it('should fail when no collection has a vector for the embeddings', async () => {
+      qdrantService.getWriteTargets.mockResolvedValue([
+        {
+          collectionName: 'posts_vectors',
+          vectors: { 'bge-large': { size: 1024, distance: 'Dot' } },
+        },
+      ]);
+      const post = postWith(0);
+
+      await createService().sync(post as any);
+
+      expect(qdrantClient.upsert).not.toHaveBeenCalled();
+      expect(post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vector_status: 'pending',
+          vector_error: 'No collection has a vector for models: minilm-384',
+        }),
+      );
+    });
+
+    it('should leave posts without embeddings alone', async () => {
+      const post = { ...postWith(0), embeddings: null };
+
+      await expect(createService().sync(post as any)).resolves.toBe(false);
+
+      expect(qdrantClient.upsert).not.toHaveBeenCalled();
+      expect(post.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryPending', () => {
+    it('should retry pending vectors past their inline sync', async () => {
+      const recovered = postWith(1);
+      const exhausted = postWith(9);
+      postModel.findAll.mockResolvedValue([recovered, exhausted]);
+      qdrantClient.upsert
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('timeout'));
+
+      await createService().retryPending();
+
+      const { where } = postModel.findAll.mock.calls[0][0];
+      expect(where.vector_status).toBe('pending');
+      expect(
+        Date.now() - where.received_at[Op.lt].getTime(),
+      ).toBeGreaterThanOrEqual(60 * 1000);
+      expect(recovered.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vector_status: 'synced',
+          vector_attempts: 2,
+        }),
+      );
+      expect(exhausted.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vector_status: 'failed',
+          vector_attempts: 10,
+        }),
+      );
+    });
+
+    it('should not throw when reading pending vectors fails', async () => {
+      postModel.findAll.mockRejectedValue(new Error('deadlock'));
+
+      await expect(createService().retryPending()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { Op } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import { toPointVector } from 'src/dal/qdrant/vector-schema';
+import { Logger } from 'src/decorators/logger.decorator';
+import { Post } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { buildPointPayload } from './point-payload';
+
+/**
+ * Service responsible for keeping post vectors in Qdrant in step with MySQL.
+ *
+ * The `PostVectorsService` handles:
+ * - Upserting a post's stored embeddings into Qdrant once the post is committed,
+ *   one named vector per embedding model the collection has.
+ * - Tracking the outcome on the post (`vector_status`, `vector_attempts`, `vector_error`).
+ * - Retrying pending vectors until they are stored or run out of attempts.
+ *
+ * Environment Variables:
+ * - `VECTOR_SYNC_MAX_ATTEMPTS`: Upsert attempts before a vector is marked `failed` (default: 10).
+ *
+ * @remarks
+ * MySQL is the source of truth: the embedding is stored on the post in the
+ * same transaction as the post, and the Qdrant point is a side effect
+ * derived from it. A post is `pending` until its point is stored, so a
+ * Qdrant outage delays search visibility instead of losing the vector.
+ * Points are keyed by post id, so repeated upserts are harmless.
+ */
+@Injectable()
+export class PostVectorsService {
+  @Logger(PostVectorsService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly maxAttempts = Math.max(
+    Number(process.env.VECTOR_SYNC_MAX_ATTEMPTS) || 10,
+    1,
+  );
+
+  /**
+   * Pending vectors retried per run, and how long a new post is left to
+   * its inline sync before the retry job picks it up.
+   */
+  private readonly retryBatchSize = 50;
+  private readonly retryGraceMs = 60 * 1000;
+
+  constructor(
+    @InjectModel(Post)
+    private postModel: typeof Post,
+    @Inject(QdrantClient)
+    private readonly qdrantClient: QdrantClient,
+    private readonly qdrantService: QdrantService,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {}
+
+  /**
+   * Upserts the post's stored embeddings and records the outcome on the post.
+   * Never throws.
+   *
+   * @returns Whether the vector is now stored in Qdrant.
+   */
+  async sync(post: Post): Promise<boolean> {
+    const embeddings = post.embeddings;
+    if (!embeddings || Object.keys(embeddings).length === 0) {
+      return false;
+    }
+
+    try {
+      await this.upsert(post, embeddings);
+      await post.update({
+        vector_status: 'synced',
+        vector_attempts: post.vector_attempts + 1,
+        vector_error: null,
+        vector_synced_at: new Date(),
+      });
+      return true;
+    } catch (error) {
+      const attempts = post.vector_attempts + 1;
+      const status = attempts >= this.maxAttempts ? 'failed' : 'pending';
+
+      this.logger.error('Failed to store post vector in Qdrant', '', {
+        uuid: post.uuid,
+        attempts,
+        status,
+        error: error?.message,
+      });
+      await this.cloudWatchService.sendMetric('VectorSyncFailures', 1);
+
+      try {
+        await post.update({
+          vector_status: status,
+          vector_attempts: attempts,
+          vector_error: error?.message ?? String(error),
+        });
+      } catch (updateError) {
+        this.logger.error('Failed to record vector status', '', {
+          uuid: post.uuid,
+          error: updateError.message,
+        });
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Retries vectors still pending after their inline sync.
+   * Runs every 2 minutes.
+   */
+  @Cron('*/2 * * * *')
+  async retryPending(): Promise<void> {
+    try {
+      const posts = await this.postModel.findAll({
+        where: {
+          vector_status: 'pending',
+          received_at: { [Op.lt]: new Date(Date.now() - this.retryGraceMs) },
+        },
+        order: [['id', 'ASC']],
+        limit: this.retryBatchSize,
+      });
+      if (posts.length === 0) {
+        return;
+      }
+
+      let synced = 0;
+      for (const post of posts) {
+        if (await this.sync(post)) {
+          synced++;
+        }
+      }
+
+      this.logger.log('Retried pending post vectors', {
+        pending: posts.length,
+        synced,
+      });
+    } catch (error) {
+      this.logger.error('Failed to retry pending post vectors:', error);
+    }
+  }
+
+  /**
+   * Stores the post's point in Qdrant, in every collection it is written to.
+   *
+   * @throws Error if no collection has a vector for the post's embeddings or Qdrant fails.
+   */
+  private async upsert(
+    post: Post,
+    embeddings: Record<string, number[]>,
+  ): Promise<void> {
+    const targets = await this.qdrantService.getWriteTargets();
+    if (targets.length === 0) {
+      throw new Error('Posts collection does not exist');
+    }
+
+    const categories = await post.$get('categories_relation', {
+      attributes: ['slug'],
+    });
+    const payload = buildPointPayload({
+      ...post.toJSON(),
+      categories_relation: categories,
+    });
+    const defaultModel = this.qdrantService.getDefaultModel().name;
+    const upsertStart = Date.now();
+
+    // Writes go through the alias, and to the rebuilt collection during a
+    // reindex; a collection without a vector for any of the models is skipped
+    const writes = targets.flatMap(({ collectionName, vectors }) => {
+      const vector = toPointVector(vectors, embeddings, defaultModel);
+      return vector ? [{ collectionName, vector }] : [];
+    });
+    if (writes.length === 0) {
+      throw new Error(
+        `No collection has a vector for models: ${Object.keys(embeddings).join(', ')}`,
+      );
+    }
+
+    for (const { collectionName, vector } of writes) {
+      await this.qdrantClient.upsert(collectionName, {
+        points: [{ id: post.id, vector, payload: { ...payload } }],
+      });
+    }
+
+    this.logger.log('Stored post vector', {
+      uuid: post.uuid,
+      models: Object.keys(embeddings),
+      durationMs: Date.now() - upsertStart,
+      createdAt: payload.createdAt,
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { buildPointFilter } from './search-filter';
+
+describe('buildPointFilter', () => {
+  it('should match any of the listed values', () => {
+    expect(
+      buildPointFilter({
+        categories: ['politics', 'politics', 'world'],
+        sources: ['bluesky'],
+        langs: [],
+      }),
+    ).toEqual({
+      must: [
+        { key: 'categories', match: { any: ['politics', 'world'] } },
+        { key: 'source', match: { any: ['bluesky'] } },
+      ],
+    });
+  });
+
+  it('should bound relevance and creation time', () => {
+    const since = new Date('2025-01-15T04:00:00.000Z');
+
+    expect(buildPointFilter({ minRelevance: 0, since })).toEqual({
+      must: [
+        { key: 'relevance', range: { gte: 0 } },
+        { key: 'createdAtTs', range: { gte: since.getTime() } },
+      ],
+    });
+  });
+
+  it('should not filter when nothing is restricted', () => {
+    expect(buildPointFilter({})).toBeUndefined();
+  });
+});
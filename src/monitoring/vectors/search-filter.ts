@@ -0,0 +1,63 @@
+/**
+ * Restrictions on the posts a similarity search may return.
+ *
+ * @property categories - Posts in any of these category slugs.
+ * @property sources - Posts from any of these sources.
+ * @property langs - Posts in any of these languages.
+ * @property authorHandles - Posts by any of these authors.
+ * @property minRelevance - Posts with at least this relevance.
+ * @property since - Posts created at or after this time.
+ * @property until - Posts created at or before this time.
+ */
+export interface PointFilters {
+  categories?: string[];
+  sources?: string[];
+  langs?: string[];
+  authorHandles?: string[];
+  minRelevance?: number;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Qdrant filter whose conditions must all hold.
+ */
+export interface PointFilter {
+  must: Array<Record<string, unknown>>;
+}
+
+/**
+ * Builds the Qdrant filter of a search over the post point payload.
+ *
+ * @returns The filter, or undefined when nothing is restricted.
+ */
+export function buildPointFilter(
+  filters: PointFilters,
+): PointFilter | undefined {
+  const must: PointFilter['must'] = [];
+
+  const anyOf = (key: string, values?: string[]) => {
+    if (values?.length) {
+      must.push({ key, match: { any: [...new Set(values)] } });
+    }
+  };
+  anyOf('categories', filters.categories);
+  anyOf('source', filters.sources);
+  anyOf('lang', filters.langs);
+  anyOf('authorHandle', filters.authorHandles);
+
+  if (filters.minRelevance !== undefined) {
+    must.push({ key: 'relevance', range: { gte: filters.minRelevance } });
+  }
+  if (filters.since || filters.until) {
+    must.push({
+      key: 'createdAtTs',
+      range: {
+        ...(filters.since && { gte: filters.since.getTime() }),
+        ...(filters.until && { lte: filters.until.getTime() }),
+      },
+    });
+  }
+
+  return must.length > 0 ? { must } : undefined;
+}
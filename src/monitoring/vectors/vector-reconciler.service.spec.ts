@@ -0,0 +1,326 @@
+import 'reflect-metadata';
+import { ConflictException } from '@nestjs/common';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { REPLICA_ID } from 'src/utils/replica';
+import { buildPointPayload } from './point-payload';
+import { VectorReconcilerService } from './vector-reconciler.service';
+
+jest.mock('./post-vectors.service', () => ({ PostVectorsService: class {} }));
+
+describe('VectorReconcilerService', () => {
+  /**
+   * Posts in MySQL and points in Qdrant, by id.
+   */
+  let posts: Map<number, any>;
+  let points: Map<number, { payload: Record<string, unknown> }>;
+
+  const qdrantClient = {
+    retrieve: jest.fn((_: string, { ids }: { ids: number[] }) =>
+      Promise.resolve(
+        ids
+          .filter((id) => points.has(id))
+          .map((id) => ({ id, payload: points.get(id)!.payload })),
+      ),
+    ),
+    scroll: jest.fn(() =>
+      Promise.resolve({
+        points: [...points.keys()].map((id) => ({ id })),
+        next_page_offset: null,
+      }),
+    ),
+    setPayload: jest.fn(() => Promise.resolve({})),
+    delete: jest.fn(() => Promise.resolve({})),
+  };
+  const qdrantService = {
+    getCollectionName: () => 'posts_vectors',
+    getWriteCollections: jest.fn(),
+  };
+  const postVectorsService = { sync: jest.fn() };
+  const cloudWatchService = { sendMetric: jest.fn() };
+
+  /**
+   * A Post model over `posts`: the post scan reads them once, in id order,
+   * and the point scan looks up the ids of a page.
+   */
+  const postModel = {
+    findAll: jest.fn(({ where }) => {
+      if (where.id[Op.in]) {
+        return Promise.resolve(
+          where.id[Op.in]
+            .filter((id: number) => posts.has(id))
+            .map((id: number) => ({ id })),
+        );
+      }
+      return Promise.resolve(
+        [...posts.values()].filter((post) => post.id > where.id[Op.gt]),
+      );
+    }),
+    findByPk: jest.fn((id: number) => Promise.resolve(posts.get(id) ?? null)),
+  };
+  const runModel = {
+    create: jest.fn(),
+    update: jest.fn(),
+    findAll: jest.fn(),
+    findByPk: jest.fn(),
+  };
+
+  let service: VectorReconcilerService;
+
+  /**
+   * A row that applies its updates to itself.
+   */
+  const rowOf = (fields: Record<string, unknown>) => {
+    const row: any = { id: 1, started_at: new Date(), ...fields };
+    row.update = jest.fn((changes) =>
+      Promise.resolve(Object.assign(row, changes)),
+    );
+    return row;
+  };
+
+  /**
+   * A stored post, and its point with a matching payload unless told otherwise.
+   */
+  const addPost = (id: number, point: 'stored' | 'missing' = 'stored') => {
+    const post = rowOf({
+      id,
+      uuid: `post-${id}`,
+      content: 'content',
+      source: 'rss',
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      hash: `hash-${id}`,
+      lang: 'en',
+      author_handle: 'author',
+      relevance: 1,
+      categories_relation: [{ slug: 'news' }],
+      embeddings: { minilm: [1, 0, 0] },
+      vector_status: 'synced',
+    });
+    posts.set(id, post);
+    if (point === 'stored') {
+      points.set(id, { payload: { ...buildPointPayload(post) } });
+    }
+    return post;
+  };
+
+  /**
+   * Starts a manual run and waits until it is done.
+   */
+  const reconcile = async (repair: boolean) => {
+    await service.start(repair);
+    const run = await runModel.create.mock.results[0].value;
+    while (run.status === 'running') {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return run;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    posts = new Map();
+    points = new Map();
+
+    runModel.create.mockImplementation((fields) =>
+      Promise.resolve(rowOf(fields)),
+    );
+    runModel.update.mockResolvedValue([0]);
+    qdrantService.getWriteCollections.mockReturnValue(['posts_vectors']);
+    postVectorsService.sync.mockResolvedValue(true);
+
+    service = new VectorReconcilerService(
+      postModel as any,
+      runModel as any,
+      qdrantClient as any,
+      qdrantService as any,
+      postVectorsService as any,
+      cloudWatchService as any,
+    );
+  });
+
+  describe('scan', () => {
+    it('should report missing, drifted and orphaned points without repairing them on a dry run', async () => {
+      addPost(1);
+      addPost(2, 'missing');
+      addPost(3);
+      points.get(3)!.payload.lang = 'fr';
+      points.set(9, { payload: {} });
+
+      const run = await reconcile(false);
+
+      expect(run).toMatchObject({
+        status: 'completed',
+        posts_scanned: 3,
+        points_scanned: 3,
+        missing: 1,
+        drifted: 1,
+        orphaned: 1,
+        repaired: 0,
+        samples: {
+          missing: [2],
+          drifted: [{ id: 3, fields: ['lang'] }],
+          orphaned: [9],
+        },
+        active: null,
+      });
+      expect(postVectorsService.sync).not.toHaveBeenCalled();
+      expect(qdrantClient.setPayload).not.toHaveBeenCalled();
+      expect(qdrantClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not report posts whose point matches', async () => {
+      addPost(1);
+      addPost(2);
+
+      const run = await reconcile(false);
+
+      expect(run).toMatchObject({
+        posts_scanned: 2,
+        points_scanned: 2,
+        missing: 0,
+        drifted: 0,
+        orphaned: 0,
+      });
+      expect(cloudWatchService.sendMetric).toHaveBeenCalledWith(
+        'VectorReconcileMissing',
+        0,
+      );
+    });
+
+    it('should record a failed run and release its claim', async () => {
+      addPost(1);
+      qdrantClient.retrieve.mockRejectedValueOnce(new Error('unavailable'));
+
+      const run = await reconcile(false);
+
+      expect(run).toMatchObject({
+        status: 'failed',
+        error: 'unavailable',
+        active: null,
+      });
+    });
+  });
+
+  describe('repair', () => {
+    it('should re-sync missing points with a fresh set of attempts', async () => {
+      const post = addPost(1, 'missing');
+
+      const run = await reconcile(true);
+
+      expect(post.update).toHaveBeenCalledWith({
+        vector_status: 'pending',
+        vector_attempts: 0,
+      });
+      expect(postVectorsService.sync).toHaveBeenCalledWith(post);
+      expect(run).toMatchObject({ missing: 1, repaired: 1 });
+    });
+
+    it('should not count a missing point it could not store', async () => {
+      addPost(1, 'missing');
+      postVectorsService.sync.mockResolvedValue(false);
+
+      const run = await reconcile(true);
+
+      expect(run).toMatchObject({ missing: 1, repaired: 0 });
+    });
+
+    it('should reset posts without an embedding instead of syncing them', async () => {
+      const post = addPost(1, 'missing');
+      post.embeddings = {};
+
+      const run = await reconcile(true);
+
+      expect(post.update).toHaveBeenCalledWith({
+        vector_status: 'none',
+        vector_error: null,
+      });
+      expect(postVectorsService.sync).not.toHaveBeenCalled();
+      expect(run).toMatchObject({ missing: 1, repaired: 0 });
+    });
+
+    it('should rewrite drifted payloads and delete orphans in every written collection', async () => {
+      qdrantService.getWriteCollections.mockReturnValue([
+        'posts_vectors',
+        'posts_vectors_v2',
+      ]);
+      const post = addPost(1);
+      points.get(1)!.payload.relevance = 0;
+      points.set(9, { payload: {} });
+
+      const run = await reconcile(true);
+
+      for (const collectionName of ['posts_vectors', 'posts_vectors_v2']) {
+        expect(qdrantClient.setPayload).toHaveBeenCalledWith(collectionName, {
+          payload: buildPointPayload(post),
+          points: [1],
+        });
+        expect(qdrantClient.delete).toHaveBeenCalledWith(collectionName, {
+          points: [9],
+        });
+      }
+      expect(run).toMatchObject({ drifted: 1, orphaned: 1, repaired: 2 });
+    });
+  });
+
+  describe('claims', () => {
+    it('should claim the reconciliation for this replica', async () => {
+      await reconcile(false);
+
+      expect(runModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'running',
+          owner: REPLICA_ID,
+          active: true,
+          heartbeat_at: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should refuse a manual run while a replica runs one', async () => {
+      runModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      await expect(service.start(false)).rejects.toThrow(ConflictException);
+      expect(qdrantClient.retrieve).not.toHaveBeenCalled();
+    });
+
+    it('should skip the scheduled run while a replica runs one', async () => {
+      runModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      await service.reconcileScheduled();
+
+      expect(postModel.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should only fail running runs whose heartbeat is stale', async () => {
+      runModel.update.mockResolvedValue([1]);
+
+      await reconcile(false);
+
+      const [changes, { where }] = runModel.update.mock.calls[0];
+      expect(changes).toMatchObject({ status: 'failed', active: null });
+      expect(where.status).toBe('running');
+      const [missing, stale] = where[Op.or];
+      expect(missing).toEqual({ heartbeat_at: null });
+      expect(stale.heartbeat_at[Op.lt].getTime()).toBeLessThan(
+        Date.now() - 10 * 60 * 1000,
+      );
+    });
+
+    it('should refresh the heartbeat after each batch', async () => {
+      addPost(1);
+
+      const run = await reconcile(false);
+
+      expect(run.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          posts_scanned: 1,
+          heartbeat_at: expect.any(Date),
+        }),
+      );
+    });
+  });
+});
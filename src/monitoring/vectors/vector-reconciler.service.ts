@@ -0,0 +1,482 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { CloudWatchService } from 'src/core/cloudwatch/cloudwatch.service';
+import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import { Logger } from 'src/decorators/logger.decorator';
+import { VectorReconcileRunResponseDto } from 'src/dto';
+import { Category, Post, VectorReconcileRun } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { REPLICA_ID } from 'src/utils/replica';
+import {
+  buildPointPayload,
+  diffPointPayload,
+  POINT_SOURCE_ATTRIBUTES,
+} from './point-payload';
+import { PostVectorsService } from './post-vectors.service';
+
+/**
+ * Counters and samples of a run, flushed to its row after each batch.
+ */
+type RunProgress = Pick<
+  VectorReconcileRun,
+  | 'posts_scanned'
+  | 'points_scanned'
+  | 'missing'
+  | 'orphaned'
+  | 'drifted'
+  | 'repaired'
+> & {
+  samples: NonNullable<VectorReconcileRun['samples']>;
+};
+
+/**
+ * Service responsible for reconciling post vectors in Qdrant with MySQL.
+ *
+ * The `VectorReconcilerService` handles:
+ * - Scrolling posts and reporting those whose point is missing or whose payload drifted.
+ * - Scrolling points and reporting those whose post no longer exists (orphans).
+ * - Optionally repairing what it finds: re-syncing missing points,
+ *   rewriting drifted payloads and deleting orphans.
+ * - Recording progress and results of each run in `vector_reconcile_runs`.
+ *
+ * Environment Variables:
+ * - `VECTOR_RECONCILE_REPAIR`: Whether the scheduled run repairs what it finds (default: false).
+ *
+ * @remarks
+ * Posts still `pending` or without an embedding are skipped; the retry job
+ * of `PostVectorsService` owns them. Only one run executes at a time
+ * across replicas: a run claims the unique `active` column of its row and
+ * refreshes its heartbeat after each batch; a run whose heartbeat went
+ * stale is marked failed, which releases the claim.
+ */
+@Injectable()
+export class VectorReconcilerService implements OnModuleInit {
+  @Logger(VectorReconcilerService.name)
+  private readonly logger!: JSONLogger;
+
+  private readonly collectionName: string;
+
+  private readonly scheduledRepair =
+    process.env.VECTOR_RECONCILE_REPAIR === 'true';
+
+  /**
+   * Posts or points checked per batch, and ids kept per kind of problem.
+   */
+  private readonly batchSize = 500;
+  private readonly sampleSize = 20;
+
+  /**
+   * Time without a heartbeat after which a run is considered interrupted.
+   */
+  private readonly staleAfterMs = 15 * 60 * 1000;
+
+  constructor(
+    @InjectModel(Post)
+    private postModel: typeof Post,
+    @InjectModel(VectorReconcileRun)
+    private runModel: typeof VectorReconcileRun,
+    @Inject(QdrantClient)
+    private readonly qdrantClient: QdrantClient,
+    private readonly qdrantService: QdrantService,
+    private readonly postVectorsService: PostVectorsService,
+    private readonly cloudWatchService: CloudWatchService,
+  ) {
+    this.collectionName = this.qdrantService.getCollectionName();
+  }
+
+  /**
+   * Fails runs interrupted by a stop of their replica.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.failStaleRuns();
+    } catch (error) {
+      this.logger.error(
+        'Failed to check interrupted reconciliation runs:',
+        error,
+      );
+    }
+  }
+
+  /**
+   * Starts a manual run in the background.
+   *
+   * @param repair - Whether the run repairs what it finds.
+   * @returns The run, still `running`.
+   * @throws ConflictException if a run is already executing.
+   */
+  async start(repair: boolean): Promise<VectorReconcileRunResponseDto> {
+    const run = await this.begin('manual', repair);
+    if (!run) {
+      throw new ConflictException('A reconciliation run is already running');
+    }
+
+    void this.execute(run);
+
+    return this.toResponse(run);
+  }
+
+  /**
+   * Runs the scheduled reconciliation.
+   * Runs daily at 04:00.
+   */
+  @Cron('0 4 * * *')
+  async reconcileScheduled(): Promise<void> {
+    try {
+      const run = await this.begin('scheduled', this.scheduledRepair);
+      if (!run) {
+        this.logger.warn('Skipping scheduled reconciliation, a run is active');
+        return;
+      }
+      await this.execute(run);
+    } catch (error) {
+      this.logger.error('Failed to start scheduled reconciliation:', error);
+    }
+  }
+
+  /**
+   * Lists runs, newest first.
+   */
+  async listRuns(limit: number): Promise<VectorReconcileRunResponseDto[]> {
+    const runs = await this.runModel.findAll({
+      order: [['started_at', 'DESC']],
+      limit,
+    });
+    return runs.map((run) => this.toResponse(run));
+  }
+
+  /**
+   * Returns a run.
+   *
+   * @throws NotFoundException if the run does not exist.
+   */
+  async getRun(id: number): Promise<VectorReconcileRunResponseDto> {
+    const run = await this.runModel.findByPk(id);
+    if (!run) {
+      throw new NotFoundException('Reconciliation run not found');
+    }
+    return this.toResponse(run);
+  }
+
+  /**
+   * Records a new run claiming the reconciliation, or returns null if a run
+   * of any replica is active.
+   */
+  private async begin(
+    trigger: VectorReconcileRun['trigger'],
+    repair: boolean,
+  ): Promise<VectorReconcileRun | null> {
+    await this.failStaleRuns();
+
+    try {
+      return await this.runModel.create({
+        trigger,
+        repair,
+        status: 'running',
+        owner: REPLICA_ID,
+        heartbeat_at: new Date(),
+        active: true,
+      } as any);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Marks running runs whose heartbeat went stale as failed, releasing
+   * their claim.
+   */
+  private async failStaleRuns(): Promise<void> {
+    const [stale] = await this.runModel.update(
+      {
+        status: 'failed',
+        error: 'Interrupted: its replica stopped executing it',
+        completed_at: new Date(),
+        active: null,
+      },
+      {
+        where: {
+          status: 'running',
+          [Op.or]: [
+            { heartbeat_at: null },
+            {
+              heartbeat_at: {
+                [Op.lt]: new Date(Date.now() - this.staleAfterMs),
+              },
+            },
+          ],
+        },
+      },
+    );
+    if (stale > 0) {
+      this.logger.warn('Marked interrupted reconciliation runs as failed', {
+        interrupted: stale,
+      });
+    }
+  }
+
+  /**
+   * Scans both stores and records the outcome on the run. Never throws.
+   */
+  private async execute(run: VectorReconcileRun): Promise<void> {
+    const started = Date.now();
+    const progress: RunProgress = {
+      posts_scanned: 0,
+      points_scanned: 0,
+      missing: 0,
+      orphaned: 0,
+      drifted: 0,
+      repaired: 0,
+      samples: { missing: [], orphaned: [], drifted: [] },
+    };
+
+    this.logger.log('Vector reconciliation started', {
+      runId: run.id,
+      trigger: run.trigger,
+      repair: run.repair,
+    });
+
+    try {
+      await this.scanPosts(run, progress);
+      await this.scanPoints(run, progress);
+
+      await run.update({
+        ...progress,
+        status: 'completed',
+        completed_at: new Date(),
+        active: null,
+      });
+
+      this.logger.log('Vector reconciliation completed', {
+        runId: run.id,
+        postsScanned: progress.posts_scanned,
+        pointsScanned: progress.points_scanned,
+        missing: progress.missing,
+        orphaned: progress.orphaned,
+        drifted: progress.drifted,
+        repaired: progress.repaired,
+        durationMs: Date.now() - started,
+      });
+      await this.cloudWatchService.sendMetric(
+        'VectorReconcileMissing',
+        progress.missing,
+      );
+      await this.cloudWatchService.sendMetric(
+        'VectorReconcileOrphaned',
+        progress.orphaned,
+      );
+      await this.cloudWatchService.sendMetric(
+        'VectorReconcileDrifted',
+        progress.drifted,
+      );
+    } catch (error) {
+      this.logger.error('Vector reconciliation failed', '', {
+        runId: run.id,
+        error: error?.message,
+      });
+
+      try {
+        await run.update({
+          ...progress,
+          status: 'failed',
+          error: error?.message ?? String(error),
+          completed_at: new Date(),
+          active: null,
+        });
+      } catch (updateError) {
+        this.logger.error('Failed to record reconciliation failure', '', {
+          runId: run.id,
+          error: updateError.message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Checks posts that should have a point against Qdrant, in id order.
+   */
+  private async scanPosts(
+    run: VectorReconcileRun,
+    progress: RunProgress,
+  ): Promise<void> {
+    let lastId = 0;
+
+    for (;;) {
+      const posts = await this.postModel.findAll({
+        where: {
+          id: { [Op.gt]: lastId },
+          vector_status: { [Op.in]: ['synced', 'failed'] },
+        },
+        attributes: [...POINT_SOURCE_ATTRIBUTES, 'vector_status'],
+        include: [
+          {
+            model: Category,
+            as: 'categories_relation',
+            attributes: ['slug'],
+            through: { attributes: [] },
+          },
+        ],
+        order: [['id', 'ASC']],
+        limit: this.batchSize,
+      });
+      if (posts.length === 0) {
+        return;
+      }
+      lastId = posts[posts.length - 1].id;
+
+      const points = await this.qdrantClient.retrieve(this.collectionName, {
+        ids: posts.map((post) => post.id),
+        with_payload: true,
+        with_vector: false,
+      });
+      const pointsById = new Map(
+        points.map((point) => [Number(point.id), point]),
+      );
+
+      for (const post of posts) {
+        const point = pointsById.get(post.id);
+        if (!point) {
+          progress.missing++;
+          this.sample(progress.samples.missing, post.id);
+          if (run.repair && (await this.repairMissing(post.id))) {
+            progress.repaired++;
+          }
+          continue;
+        }
+
+        const expected = buildPointPayload(post);
+        const fields = diffPointPayload(expected, point.payload);
+        if (fields.length > 0) {
+          progress.drifted++;
+          this.sample(progress.samples.drifted, { id: post.id, fields });
+          if (run.repair) {
+            for (const collectionName of this.qdrantService.getWriteCollections()) {
+              await this.qdrantClient.setPayload(collectionName, {
+                payload: { ...expected },
+                points: [post.id],
+              });
+            }
+            progress.repaired++;
+          }
+        }
+      }
+
+      progress.posts_scanned += posts.length;
+      await run.update({ ...progress, heartbeat_at: new Date() });
+    }
+  }
+
+  /**
+   * Checks every point against MySQL, in Qdrant's scroll order.
+   */
+  private async scanPoints(
+    run: VectorReconcileRun,
+    progress: RunProgress,
+  ): Promise<void> {
+    let offset: string | number | undefined = undefined;
+
+    for (;;) {
+      const page = await this.qdrantClient.scroll(this.collectionName, {
+        limit: this.batchSize,
+        offset,
+        with_payload: false,
+        with_vector: false,
+      });
+      if (page.points.length === 0) {
+        return;
+      }
+
+      const ids = page.points.map((point) => Number(point.id));
+      const posts = await this.postModel.findAll({
+        where: { id: { [Op.in]: ids } },
+        attributes: ['id'],
+      });
+      const existing = new Set(posts.map((post) => post.id));
+      const orphans = page.points
+        .filter((point) => !existing.has(Number(point.id)))
+        .map((point) => point.id);
+
+      for (const id of orphans) {
+        this.sample(progress.samples.orphaned, Number(id));
+      }
+      progress.orphaned += orphans.length;
+      if (run.repair && orphans.length > 0) {
+        for (const collectionName of this.qdrantService.getWriteCollections()) {
+          await this.qdrantClient.delete(collectionName, { points: orphans });
+        }
+        progress.repaired += orphans.length;
+      }
+
+      progress.points_scanned += page.points.length;
+      await run.update({ ...progress, heartbeat_at: new Date() });
+
+      const next = page.next_page_offset;
+      if (next === null || next === undefined || typeof next === 'object') {
+        return;
+      }
+      offset = next;
+    }
+  }
+
+  /**
+   * Re-syncs a post whose point is missing, with a fresh set of attempts.
+   *
+   * @returns Whether the point is now stored.
+   */
+  private async repairMissing(id: number): Promise<boolean> {
+    const post = await this.postModel.findByPk(id);
+    if (!post) {
+      return false;
+    }
+    if (!post.embeddings || Object.keys(post.embeddings).length === 0) {
+      await post.update({ vector_status: 'none', vector_error: null });
+      return false;
+    }
+
+    await post.update({ vector_status: 'pending', vector_attempts: 0 });
+    return this.postVectorsService.sync(post);
+  }
+
+  /**
+   * Keeps the first few entries of a kind of problem.
+   */
+  private sample<T>(samples: T[], entry: T): void {
+    if (samples.length < this.sampleSize) {
+      samples.push(entry);
+    }
+  }
+
+  /**
+   * Maps a run to its API representation.
+   */
+  private toResponse(run: VectorReconcileRun): VectorReconcileRunResponseDto {
+    return {
+      id: run.id,
+      trigger: run.trigger,
+      repair: run.repair,
+      status: run.status,
+      posts_scanned: run.posts_scanned ?? 0,
+      points_scanned: run.points_scanned ?? 0,
+      missing: run.missing ?? 0,
+      orphaned: run.orphaned ?? 0,
+      drifted: run.drifted ?? 0,
+      repaired: run.repaired ?? 0,
+      samples: run.samples ?? null,
+      error: run.error ?? null,
+      started_at: run.started_at.toISOString(),
+      completed_at: run.completed_at ? run.completed_at.toISOString() : null,
+    };
+  }
+}
@@ -0,0 +1,523 @@
+import 'reflect-metadata';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { QdrantService } from 'src/dal/qdrant/qdrant.service';
+import { ReindexVectorsDto } from 'src/dto';
+import { REPLICA_ID } from 'src/utils/replica';
+import { VectorReindexService } from './vector-reindex.service';
+
+describe('VectorReindexService', () => {
+  const env = { ...process.env };
+
+  /**
+   * Qdrant collections by name, with their vectors config and points.
+   */
+  let collections: Map<
+    string,
+    { vectors: unknown; points: Map<number, { vector: unknown }> }
+  >;
+  let aliases: Map<string, string>;
+
+  /**
+   * A QdrantClient backed by the maps above.
+   */
+  const qdrantClient = {
+    getAliases: jest.fn(() =>
+      Promise.resolve({
+        aliases: [...aliases].map(([alias_name, collection_name]) => ({
+          alias_name,
+          collection_name,
+        })),
+      }),
+    ),
+    getCollections: jest.fn(() =>
+      Promise.resolve({
+        collections: [...collections.keys()].map((name) => ({ name })),
+      }),
+    ),
+    getCollection: jest.fn((name: string) =>
+      Promise.resolve({
+        config: { params: { vectors: collections.get(name)!.vectors } },
+        payload_schema: {},
+      }),
+    ),
+    createCollection: jest.fn((name: string, { vectors }) => {
+      collections.set(name, { vectors, points: new Map() });
+      return Promise.resolve(true);
+    }),
+    createPayloadIndex: jest.fn(),
+    deleteCollection: jest.fn((name: string) =>
+      Promise.resolve(collections.delete(name)),
+    ),
+    updateCollectionAliases: jest.fn(({ actions }) => {
+      for (const action of actions) {
+        if (action.delete_alias) {
+          aliases.delete(action.delete_alias.alias_name);
+        } else {
+          aliases.set(
+            action.create_alias.alias_name,
+            action.create_alias.collection_name,
+          );
+        }
+      }
+      return Promise.resolve(true);
+    }),
+    upsert: jest.fn((name: string, { points }) => {
+      for (const { id, vector } of points) {
+        collections.get(name)!.points.set(id, { vector });
+      }
+      return Promise.resolve({});
+    }),
+    scroll: jest.fn((name: string) =>
+      Promise.resolve({
+        points: [...collections.get(name)!.points].map(([id, point]) => ({
+          id,
+          ...point,
+          payload: {},
+        })),
+        next_page_offset: null,
+      }),
+    ),
+    count: jest.fn((name: string) =>
+      Promise.resolve({ count: collections.get(name)!.points.size }),
+    ),
+  };
+
+  const postModel = { findAll: jest.fn(), count: jest.fn() };
+  const jobModel = {
+    create: jest.fn(),
+    findByPk: jest.fn(),
+    findAll: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  };
+
+  let qdrantService: QdrantService;
+  let service: VectorReindexService;
+
+  /**
+   * A job row that applies its updates to itself.
+   */
+  const jobOf = (fields: Record<string, unknown>) => {
+    const job: any = {
+      id: 1,
+      indexed: 0,
+      skipped: 0,
+      started_at: new Date(),
+      ...fields,
+    };
+    job.update = jest.fn((changes) =>
+      Promise.resolve(Object.assign(job, changes)),
+    );
+    return job;
+  };
+
+  /**
+   * A stored post with an embedding for the configured model.
+   */
+  const post = (id: number) => ({
+    id,
+    uuid: `post-${id}`,
+    createdAt: new Date(),
+    embeddings: { minilm: [id, 0, 0] },
+    categories_relation: [],
+  });
+
+  /**
+   * Starts a reindex and waits until it is built.
+   */
+  const reindex = async (options: ReindexVectorsDto) => {
+    const started = await service.start(options);
+    while (service['builds'].size > 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return started;
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env, EMBEDDING_MODELS: 'minilm:3:Cosine' };
+    collections = new Map();
+    aliases = new Map();
+
+    jobModel.create.mockImplementation((fields) =>
+      Promise.resolve(jobOf(fields)),
+    );
+    postModel.findAll
+      .mockResolvedValueOnce([post(1), post(2)])
+      .mockResolvedValue([]);
+    // Claims of this process are renewed, no job is stale
+    jobModel.update.mockImplementation((_, { where }) =>
+      Promise.resolve([where.owner === REPLICA_ID ? 1 : 0]),
+    );
+    jobModel.count.mockResolvedValue(0);
+
+    qdrantService = new QdrantService(qdrantClient as any);
+    service = new VectorReindexService(
+      postModel as any,
+      jobModel as any,
+      qdrantClient as any,
+      qdrantService,
+    );
+    jest.spyOn(service as any, 'waitForReplicas').mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('build', () => {
+    it('should rebuild an aliased collection and keep the one it replaced', async () => {
+      collections.set('posts_vectors_v1', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([[1, { vector: [1, 0, 0] }]]),
+      });
+      aliases.set('posts_vectors', 'posts_vectors_v1');
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({
+        status: 'swapped',
+        target_collection: 'posts_vectors_v2',
+        previous_collection: 'posts_vectors_v1',
+        indexed: 2,
+        owner: REPLICA_ID,
+        active_type: null,
+      });
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v2');
+      expect([...collections.get('posts_vectors_v2')!.points.keys()]).toEqual([
+        1, 2,
+      ]);
+      expect(collections.has('posts_vectors_v1')).toBe(true);
+      expect(qdrantService.getWriteCollections()).toEqual(['posts_vectors']);
+    });
+
+    it('should copy a legacy collection before the swap replaces it', async () => {
+      collections.set('posts_vectors', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([
+          [1, { vector: [1, 0, 0] }],
+          [7, { vector: [7, 0, 0] }],
+        ]),
+      });
+
+      await reindex({ source: 'collection', distance: 'Dot' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({
+        status: 'swapped',
+        target_collection: 'posts_vectors_v2',
+        previous_collection: 'posts_vectors_v1',
+        indexed: 2,
+      });
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v2');
+      expect([...collections.get('posts_vectors_v1')!.points.keys()]).toEqual([
+        1, 7,
+      ]);
+      expect(collections.get('posts_vectors_v2')!.vectors).toEqual({
+        size: 3,
+        distance: 'Dot',
+      });
+    });
+
+    it('should reject a stored rebuild of legacy points without stored embeddings', async () => {
+      collections.set('posts_vectors', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([
+          [1, { vector: [1, 0, 0] }],
+          [7, { vector: [7, 0, 0] }],
+        ]),
+      });
+      postModel.count.mockResolvedValue(1);
+
+      await expect(service.start({ source: 'stored' })).rejects.toThrow(
+        /has 2 points but only 1 posts have stored embeddings/,
+      );
+
+      expect(jobModel.create).not.toHaveBeenCalled();
+      expect(collections.has('posts_vectors')).toBe(true);
+      expect(service['builds'].size).toBe(0);
+    });
+
+    it('should rebuild a legacy collection from stored embeddings covering it', async () => {
+      collections.set('posts_vectors', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([[1, { vector: [1, 0, 0] }]]),
+      });
+      postModel.count.mockResolvedValue(2);
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({
+        status: 'swapped',
+        previous_collection: 'posts_vectors_v1',
+      });
+      expect(collections.has('posts_vectors')).toBe(false);
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v2');
+    });
+
+    it('should delete the new collections and keep the legacy one on failure', async () => {
+      collections.set('posts_vectors', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([[1, { vector: [1, 0, 0] }]]),
+      });
+      postModel.count.mockResolvedValue(2);
+      qdrantClient.upsert
+        .mockImplementationOnce((name, { points }) => {
+          collections.get(name)!.points.set(points[0].id, points[0]);
+          return Promise.resolve({});
+        })
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({ status: 'failed', error: 'disk full' });
+      expect([...collections.keys()]).toEqual(['posts_vectors']);
+      expect(aliases.size).toBe(0);
+      expect(qdrantService.getWriteCollections()).toEqual(['posts_vectors']);
+      expect(service['builds'].size).toBe(0);
+    });
+
+    it('should keep every collection when the swap fails after dropping the legacy one', async () => {
+      collections.set('posts_vectors', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map([[1, { vector: [1, 0, 0] }]]),
+      });
+      postModel.count.mockResolvedValue(2);
+      qdrantClient.updateCollectionAliases.mockRejectedValueOnce(
+        new Error('connection reset'),
+      );
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({
+        status: 'failed_after_swap',
+        target_collection: 'posts_vectors_v2',
+        previous_collection: 'posts_vectors_v1',
+        error: 'connection reset',
+      });
+      expect(qdrantClient.deleteCollection).toHaveBeenCalledTimes(1);
+      expect(qdrantClient.deleteCollection).toHaveBeenCalledWith(
+        'posts_vectors',
+      );
+      expect([...collections.keys()]).toEqual([
+        'posts_vectors_v1',
+        'posts_vectors_v2',
+      ]);
+      expect(service['builds'].size).toBe(0);
+    });
+
+    it('should keep both collections when recording a completed swap fails', async () => {
+      collections.set('posts_vectors_v1', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map(),
+      });
+      aliases.set('posts_vectors', 'posts_vectors_v1');
+      jobModel.create.mockImplementationOnce((fields) => {
+        const job = jobOf(fields);
+        const update = job.update;
+        job.update = jest.fn((changes) =>
+          changes.status === 'swapped'
+            ? Promise.reject(new Error('lost connection'))
+            : update(changes),
+        );
+        return Promise.resolve(job);
+      });
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job.status).toBe('failed_after_swap');
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v2');
+      expect(qdrantClient.deleteCollection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claims', () => {
+    beforeEach(() => {
+      collections.set('posts_vectors_v1', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map(),
+      });
+      aliases.set('posts_vectors', 'posts_vectors_v1');
+    });
+
+    it('should claim the collection type for this replica', async () => {
+      await reindex({ source: 'stored' });
+
+      expect(jobModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'building',
+          owner: REPLICA_ID,
+          heartbeat_at: expect.any(Date),
+          active_type: 'posts_vectors',
+        }),
+      );
+    });
+
+    it('should refuse a reindex while another replica builds the type', async () => {
+      jobModel.create.mockRejectedValue(new UniqueConstraintError({}));
+
+      await expect(service.start({ source: 'stored' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(qdrantClient.createCollection).not.toHaveBeenCalled();
+    });
+
+    it('should only fail building jobs whose heartbeat is stale', async () => {
+      await service.onModuleInit();
+
+      const [fields, { where }] = jobModel.update.mock.calls[0];
+      expect(fields).toMatchObject({ status: 'failed', active_type: null });
+      expect(where.status).toBe('building');
+      const [missing, stale] = where[Op.or];
+      expect(missing).toEqual({ heartbeat_at: null });
+      expect(
+        Date.now() - stale.heartbeat_at[Op.lt].getTime(),
+      ).toBeGreaterThanOrEqual(60 * 1000);
+    });
+
+    it('should not swap a job another replica failed as stale', async () => {
+      jobModel.update.mockResolvedValue([0]);
+
+      await reindex({ source: 'stored' });
+
+      const job = await jobModel.create.mock.results[0].value;
+      expect(job).toMatchObject({
+        status: 'failed',
+        error: 'Reindex job was failed as stale by a replica',
+      });
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v1');
+      expect([...collections.keys()]).toEqual(['posts_vectors_v1']);
+    });
+
+    it('should dual-write to the collections other replicas build', async () => {
+      jobModel.findAll.mockResolvedValue([
+        jobOf({
+          collection_type: 'posts_vectors',
+          status: 'building',
+          legacy_copy: 'posts_vectors_v2',
+          target_collection: 'posts_vectors_v3',
+          vectors: { minilm: { size: 3, distance: 'Dot' } },
+        }),
+      ]);
+
+      await service.syncJobs();
+
+      expect(qdrantService.getWriteCollections()).toEqual([
+        'posts_vectors',
+        'posts_vectors_v2',
+        'posts_vectors_v3',
+      ]);
+      const { where } = jobModel.findAll.mock.calls[0][0];
+      expect(where.status).toBe('building');
+
+      jobModel.findAll.mockResolvedValue([]);
+      await service.syncJobs();
+
+      expect(qdrantService.getWriteCollections()).toEqual(['posts_vectors']);
+    });
+
+    it('should renew the heartbeat of jobs this replica builds', async () => {
+      const job = jobOf({ id: 5, collection_type: 'posts_vectors' });
+      service['builds'].set(5, job);
+      jobModel.findAll.mockResolvedValue([]);
+      qdrantService.startDualWrite('posts_vectors', 'posts_vectors_v2', {});
+
+      await service.syncJobs();
+
+      expect(jobModel.update).toHaveBeenCalledWith(
+        { heartbeat_at: expect.any(Date) },
+        { where: { id: 5, owner: REPLICA_ID, status: 'building' } },
+      );
+      expect(qdrantService.getWriteCollections()).toEqual([
+        'posts_vectors',
+        'posts_vectors_v2',
+      ]);
+    });
+  });
+
+  describe('rollback', () => {
+    beforeEach(() => {
+      collections.set('posts_vectors_v1', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map(),
+      });
+      collections.set('posts_vectors_v2', {
+        vectors: { size: 3, distance: 'Cosine' },
+        points: new Map(),
+      });
+      aliases.set('posts_vectors', 'posts_vectors_v2');
+    });
+
+    const swapped = (fields: Record<string, unknown> = {}) =>
+      jobOf({
+        collection_type: 'posts_vectors',
+        status: 'swapped',
+        target_collection: 'posts_vectors_v2',
+        previous_collection: 'posts_vectors_v1',
+        ...fields,
+      });
+
+    it('should point the alias back at the replaced collection', async () => {
+      const job = swapped();
+      jobModel.findByPk.mockResolvedValue(job);
+
+      const result = await service.rollback(1);
+
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v1');
+      expect(result.status).toBe('rolled_back');
+      expect(job.rolled_back_at).toBeInstanceOf(Date);
+    });
+
+    it.each([
+      ['an unknown job', null, NotFoundException],
+      [
+        'a job that was not swapped',
+        swapped({ status: 'failed' }),
+        BadRequestException,
+      ],
+      [
+        'a job that replaced a dropped legacy collection',
+        swapped({ previous_collection: null }),
+        BadRequestException,
+      ],
+      [
+        'a job replaced by a later reindex',
+        swapped({ target_collection: 'posts_vectors_v1' }),
+        ConflictException,
+      ],
+      [
+        'a job whose replaced collection was deleted',
+        swapped({ previous_collection: 'posts_vectors_v0' }),
+        BadRequestException,
+      ],
+    ])('should refuse to roll back %s', async (_, job, error) => {
+      jobModel.findByPk.mockResolvedValue(job);
+
+      await expect(service.rollback(1)).rejects.toThrow(error);
+      expect(aliases.get('posts_vectors')).toBe('posts_vectors_v2');
+    });
+
+    it('should refuse to roll back while a reindex runs', async () => {
+      jobModel.findByPk.mockResolvedValue(swapped());
+      jobModel.count.mockResolvedValue(1);
+
+      await expect(service.rollback(1)).rejects.toThrow(ConflictException);
+    });
+  });
+});
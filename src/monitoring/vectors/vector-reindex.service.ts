@@ -0,0 +1,687 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectModel } from '@nestjs/sequelize';
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { Op, UniqueConstraintError } from 'sequelize';
+import {
+  QdrantCollectionType,
+  QdrantService,
+} from 'src/dal/qdrant/qdrant.service';
+import {
+  toPointVector,
+  VectorDistance,
+  VectorSchema,
+  withDistance,
+} from 'src/dal/qdrant/vector-schema';
+import { Logger } from 'src/decorators/logger.decorator';
+import { ReindexVectorsDto, VectorReindexJobResponseDto } from 'src/dto';
+import { Category, Post, VectorReindexJob } from 'src/models';
+import { JSONLogger } from 'src/utils/logger';
+import { REPLICA_ID } from 'src/utils/replica';
+import { buildPointPayload, POINT_SOURCE_ATTRIBUTES } from './point-payload';
+
+const COLLECTION_TYPES: QdrantCollectionType[] = [
+  'posts_vectors',
+  'earthquakes',
+];
+const DISTANCES: VectorDistance[] = ['Cosine', 'Dot', 'Euclid'];
+
+/**
+ * Service responsible for rebuilding Qdrant collections without downtime.
+ *
+ * The `VectorReindexService` handles:
+ * - Building a new versioned collection from the embeddings stored in MySQL
+ *   with the configured embedding models (`stored`), or from the points of
+ *   the live collection with its schema (`collection`).
+ * - Duplicating writes of new posts into the new collection while it builds.
+ * - Swapping the alias to the new collection atomically once it is complete.
+ * - Rolling the alias back to the collection it replaced, which is kept.
+ * - Copying a legacy collection (a physical collection under the alias
+ *   name) into a versioned collection before the first swap drops it; the
+ *   copy is what that swap rolls back to.
+ *
+ * @remarks
+ * Reads keep going to the live collection until the swap. Jobs are shared
+ * through MySQL: a job claims its collection type with a unique column, so
+ * one reindex per type runs across replicas, and its replica refreshes a
+ * heartbeat while it builds. A building job whose heartbeat goes stale is
+ * marked failed. Every replica dual-writes to the collections of the
+ * building jobs it reads back, and a build waits for them to pick its
+ * collections up before copying into them.
+ * A legacy collection is not rebuilt from `stored` embeddings while it has
+ * more points than posts have stored embeddings, since the points without
+ * one would drop out of search.
+ */
+@Injectable()
+export class VectorReindexService implements OnModuleInit {
+  @Logger(VectorReindexService.name)
+  private readonly logger!: JSONLogger;
+
+  /**
+   * Points written to the new collection per request.
+   */
+  private readonly batchSize = 200;
+
+  /**
+   * How long replicas take at most to pick up the collections of a new job,
+   * and how long a building job's heartbeat may go unrefreshed.
+   */
+  private readonly replicaSyncMs = 10 * 1000;
+  private readonly staleAfterMs = 60 * 1000;
+
+  /**
+   * Jobs this process is building, by id.
+   */
+  private readonly builds = new Map<number, VectorReindexJob>();
+
+  constructor(
+    @InjectModel(Post)
+    private postModel: typeof Post,
+    @InjectModel(VectorReindexJob)
+    private jobModel: typeof VectorReindexJob,
+    @Inject(QdrantClient)
+    private readonly qdrantClient: QdrantClient,
+    private readonly qdrantService: QdrantService,
+  ) {}
+
+  /**
+   * Marks jobs whose replica stopped building them as failed.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.failStaleJobs();
+    } catch (error) {
+      this.logger.error('Failed to check interrupted reindex jobs:', error);
+    }
+  }
+
+  /**
+   * Refreshes the heartbeat of the jobs this process builds, and dual-writes
+   * to the collections of the jobs other replicas build.
+   */
+  @Cron('*/5 * * * * *')
+  async syncJobs(): Promise<void> {
+    try {
+      for (const job of this.builds.values()) {
+        if (!(await this.renewClaim(job))) {
+          this.logger.warn('Reindex job was failed as stale by a replica', {
+            jobId: job.id,
+          });
+        }
+      }
+
+      const jobs = await this.jobModel.findAll({
+        where: {
+          status: 'building',
+          heartbeat_at: { [Op.gte]: new Date(Date.now() - this.staleAfterMs) },
+        },
+      });
+      for (const type of COLLECTION_TYPES) {
+        // A build in this process manages its own dual-writes
+        const local = [...this.builds.values()].some(
+          (job) => job.collection_type === type,
+        );
+        if (!local) {
+          await this.syncDualWrites(
+            type,
+            jobs.filter((job) => job.collection_type === type),
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to sync reindex jobs:', error);
+    }
+  }
+
+  /**
+   * Starts rebuilding a collection in the background.
+   *
+   * @returns The job, still `building`.
+   * @throws BadRequestException if the options are invalid or the collection does not exist.
+   * @throws ConflictException if a reindex of the type is already running.
+   */
+  async start(
+    options: ReindexVectorsDto,
+  ): Promise<VectorReindexJobResponseDto> {
+    const type = options?.type ?? 'posts_vectors';
+    const source = options?.source ?? 'stored';
+    if (!COLLECTION_TYPES.includes(type)) {
+      throw new BadRequestException(
+        `type must be one of: ${COLLECTION_TYPES.join(', ')}`,
+      );
+    }
+    if (!['stored', 'collection'].includes(source)) {
+      throw new BadRequestException(
+        'source must be one of: stored, collection',
+      );
+    }
+    if (source === 'stored' && type !== 'posts_vectors') {
+      throw new BadRequestException(
+        'Only posts_vectors can be rebuilt from stored embeddings',
+      );
+    }
+    if (options?.distance && !DISTANCES.includes(options.distance)) {
+      throw new BadRequestException(
+        `distance must be one of: ${DISTANCES.join(', ')}`,
+      );
+    }
+
+    await this.failStaleJobs();
+
+    const current = await this.qdrantService.resolveCollection(type);
+    if (!current) {
+      throw new BadRequestException(`Collection ${type} does not exist`);
+    }
+    if (
+      source === 'stored' &&
+      current === this.qdrantService.getCollectionName(type)
+    ) {
+      await this.checkStoredCoverage(current);
+    }
+    // Stored embeddings are rebuilt with the configured models, copied
+    // points keep the live schema
+    const schema =
+      source === 'stored'
+        ? this.qdrantService.getCollectionConfig(type).vectors
+        : await this.qdrantService.readSchema(current);
+    if (!schema) {
+      throw new BadRequestException(
+        `Collection ${current} has no dense vectors`,
+      );
+    }
+
+    let job: VectorReindexJob;
+    try {
+      job = await this.jobModel.create({
+        collection_type: type,
+        source,
+        vectors: options?.distance
+          ? withDistance(schema, options.distance)
+          : schema,
+        status: 'building',
+        owner: REPLICA_ID,
+        heartbeat_at: new Date(),
+        active_type: type,
+      } as any);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new ConflictException('A reindex is already running');
+      }
+      throw error;
+    }
+
+    this.builds.set(job.id, job);
+    void this.build(job, current).finally(() => this.builds.delete(job.id));
+
+    return this.toResponse(job);
+  }
+
+  /**
+   * Points the alias back at the collection a swapped job replaced.
+   *
+   * @throws NotFoundException if the job does not exist.
+   * @throws BadRequestException if the job was not swapped or replaced a legacy collection.
+   * @throws ConflictException if a later reindex replaced the job's collection
+   *   or a reindex of its type is running.
+   */
+  async rollback(id: number): Promise<VectorReindexJobResponseDto> {
+    const job = await this.find(id);
+    if (job.status !== 'swapped') {
+      throw new BadRequestException(
+        'Only a swapped reindex can be rolled back',
+      );
+    }
+    if (!job.previous_collection) {
+      throw new BadRequestException(
+        'The replaced collection was a legacy collection and no longer exists',
+      );
+    }
+    const type = job.collection_type as QdrantCollectionType;
+    await this.failStaleJobs();
+    if ((await this.jobModel.count({ where: { active_type: type } })) > 0) {
+      throw new ConflictException('A reindex is running');
+    }
+
+    const current = await this.qdrantService.resolveCollection(type);
+    if (current !== job.target_collection) {
+      throw new ConflictException(
+        `The alias no longer points at ${job.target_collection}`,
+      );
+    }
+    const versions = await this.qdrantService.listVersions(type);
+    if (!versions.includes(job.previous_collection)) {
+      throw new BadRequestException(
+        `Collection ${job.previous_collection} no longer exists`,
+      );
+    }
+
+    await this.qdrantService.swapAlias(type, job.previous_collection);
+    await job.update({ status: 'rolled_back', rolled_back_at: new Date() });
+
+    this.logger.log('Reindex rolled back', {
+      jobId: job.id,
+      type,
+      from: job.target_collection,
+      to: job.previous_collection,
+    });
+
+    return this.toResponse(job);
+  }
+
+  /**
+   * Lists reindex jobs, newest first.
+   */
+  async listJobs(limit: number): Promise<VectorReindexJobResponseDto[]> {
+    const jobs = await this.jobModel.findAll({
+      order: [['started_at', 'DESC']],
+      limit,
+    });
+    return jobs.map((job) => this.toResponse(job));
+  }
+
+  /**
+   * Returns a reindex job.
+   *
+   * @throws NotFoundException if the job does not exist.
+   */
+  async getJob(id: number): Promise<VectorReindexJobResponseDto> {
+    return this.toResponse(await this.find(id));
+  }
+
+  /**
+   * Finds a reindex job or throws.
+   */
+  private async find(id: number): Promise<VectorReindexJob> {
+    const job = await this.jobModel.findByPk(id);
+    if (!job) {
+      throw new NotFoundException('Reindex job not found');
+    }
+    return job;
+  }
+
+  /**
+   * Marks building jobs whose heartbeat went stale as failed, releasing
+   * their collection type. Their collections are left for an operator.
+   */
+  private async failStaleJobs(): Promise<void> {
+    const [stale] = await this.jobModel.update(
+      {
+        status: 'failed',
+        error: 'Interrupted: its replica stopped building it',
+        active_type: null,
+      },
+      {
+        where: {
+          status: 'building',
+          [Op.or]: [
+            { heartbeat_at: null },
+            {
+              heartbeat_at: {
+                [Op.lt]: new Date(Date.now() - this.staleAfterMs),
+              },
+            },
+          ],
+        },
+      },
+    );
+    if (stale > 0) {
+      this.logger.warn('Marked interrupted reindex jobs as failed', {
+        interrupted: stale,
+      });
+    }
+  }
+
+  /**
+   * Refreshes the heartbeat of a job this process builds.
+   *
+   * @returns False if the job is no longer building under this process.
+   */
+  private async renewClaim(job: VectorReindexJob): Promise<boolean> {
+    const [renewed] = await this.jobModel.update(
+      { heartbeat_at: new Date() },
+      { where: { id: job.id, owner: REPLICA_ID, status: 'building' } },
+    );
+    return renewed > 0;
+  }
+
+  /**
+   * Dual-writes a type to the collections of the jobs building it in other
+   * replicas, and stops once none is building.
+   */
+  private async syncDualWrites(
+    type: QdrantCollectionType,
+    jobs: VectorReindexJob[],
+  ): Promise<void> {
+    const targets: Array<{ collectionName: string; vectors: VectorSchema }> =
+      [];
+    for (const job of jobs) {
+      if (job.legacy_copy) {
+        // The copy has the schema of the legacy collection it is copied from
+        const vectors = await this.qdrantService.getVectorSchema(type);
+        if (vectors) {
+          targets.push({ collectionName: job.legacy_copy, vectors });
+        }
+      }
+      if (job.target_collection && job.vectors) {
+        targets.push({
+          collectionName: job.target_collection,
+          vectors: job.vectors,
+        });
+      }
+    }
+
+    const current = this.qdrantService.getWriteCollections(type).slice(1);
+    const wanted = targets.map(({ collectionName }) => collectionName);
+    if (current.join() === wanted.join()) {
+      return;
+    }
+
+    this.qdrantService.stopDualWrite(type);
+    for (const { collectionName, vectors } of targets) {
+      this.qdrantService.startDualWrite(type, collectionName, vectors);
+    }
+  }
+
+  /**
+   * Waits until every replica has read back the collections a job just
+   * recorded and dual-writes to them.
+   */
+  private async waitForReplicas(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, this.replicaSyncMs));
+  }
+
+  /**
+   * Rejects rebuilding a legacy collection from stored embeddings while some
+   * of its points have none in MySQL.
+   *
+   * @throws BadRequestException if the collection has more points than
+   *   posts have stored embeddings.
+   */
+  private async checkStoredCoverage(collectionName: string): Promise<void> {
+    const { count: points } = await this.qdrantClient.count(collectionName, {
+      exact: true,
+    });
+    const stored = await this.postModel.count({
+      where: { vector_status: { [Op.ne]: 'none' } },
+    });
+    if (points > stored) {
+      throw new BadRequestException(
+        `Legacy collection ${collectionName} has ${points} points but only ${stored} posts have stored embeddings; rebuild it from source collection first`,
+      );
+    }
+  }
+
+  /**
+   * Builds the new collection, swaps the alias and records the outcome on
+   * the job. A legacy collection is copied to a versioned collection first.
+   * Never throws.
+   */
+  private async build(job: VectorReindexJob, current: string): Promise<void> {
+    const type = job.collection_type as QdrantCollectionType;
+    const started = Date.now();
+    let legacyCopy: string | null = null;
+    let target: string | null = null;
+    let swapStarted = false;
+
+    try {
+      // The first swap drops a legacy collection, so its points are kept
+      // in a versioned copy that receives writes until the swap
+      if (current === this.qdrantService.getCollectionName(type)) {
+        const schema = await this.qdrantService.readSchema(current);
+        if (!schema) {
+          throw new Error(`Collection ${current} has no dense vectors`);
+        }
+        legacyCopy = await this.qdrantService.createVersion(type, schema);
+        await job.update({ legacy_copy: legacyCopy });
+        this.qdrantService.startDualWrite(type, legacyCopy, schema);
+        await this.waitForReplicas();
+        await this.copyCollection(current, legacyCopy);
+
+        this.logger.log('Copied legacy collection', {
+          jobId: job.id,
+          type,
+          from: current,
+          to: legacyCopy,
+        });
+      }
+
+      target = await this.qdrantService.createVersion(type, job.vectors!);
+      await job.update({ target_collection: target });
+      this.qdrantService.startDualWrite(type, target, job.vectors!);
+      await this.waitForReplicas();
+
+      this.logger.log('Reindex started', {
+        jobId: job.id,
+        type,
+        source: job.source,
+        from: current,
+        to: target,
+      });
+
+      if (job.source === 'stored') {
+        await this.copyStored(job, target);
+      } else {
+        await this.copyCollection(current, target, job);
+      }
+
+      if (!(await this.renewClaim(job))) {
+        throw new Error('Reindex job was failed as stale by a replica');
+      }
+      await this.qdrantService.swapAlias(
+        type,
+        target,
+        legacyCopy ?? undefined,
+        () => (swapStarted = true),
+      );
+      await job.update({
+        status: 'swapped',
+        previous_collection: legacyCopy ?? current,
+        swapped_at: new Date(),
+        active_type: null,
+      });
+
+      this.logger.log('Reindex completed', {
+        jobId: job.id,
+        type,
+        indexed: job.indexed,
+        skipped: job.skipped,
+        durationMs: Date.now() - started,
+      });
+    } catch (error) {
+      if (swapStarted) {
+        await this.failAfterSwap(job, error, legacyCopy ?? current);
+        return;
+      }
+
+      this.logger.error('Reindex failed', '', {
+        jobId: job.id,
+        type,
+        target,
+        error: error?.message,
+      });
+
+      try {
+        await job.update({
+          status: 'failed',
+          error: error?.message ?? String(error),
+          active_type: null,
+        });
+        this.qdrantService.stopDualWrite(type);
+        for (const collectionName of [target, legacyCopy]) {
+          if (collectionName) {
+            await this.qdrantService.deleteCollection(collectionName);
+          }
+        }
+      } catch (cleanupError) {
+        this.logger.error('Failed to clean up after reindex failure', '', {
+          jobId: job.id,
+          error: cleanupError.message,
+        });
+      }
+    } finally {
+      this.qdrantService.stopDualWrite(type);
+    }
+  }
+
+  /**
+   * Records a reindex that failed once its alias swap had started. The
+   * legacy collection may already be dropped, or the alias may already point
+   * at the new collection, so both collections are kept for an operator to
+   * check where the alias points and recover. Never throws.
+   */
+  private async failAfterSwap(
+    job: VectorReindexJob,
+    error: any,
+    previous: string,
+  ): Promise<void> {
+    this.logger.error('Reindex failed during the alias swap', '', {
+      jobId: job.id,
+      type: job.collection_type,
+      target: job.target_collection,
+      previous,
+      error: error?.message,
+    });
+
+    try {
+      await job.update({
+        status: 'failed_after_swap',
+        previous_collection: previous,
+        error: error?.message ?? String(error),
+        active_type: null,
+      });
+    } catch (updateError) {
+      this.logger.error('Failed to record reindex swap failure', '', {
+        jobId: job.id,
+        error: updateError.message,
+      });
+    }
+  }
+
+  /**
+   * Writes every post with a stored embedding into the new collection.
+   */
+  private async copyStored(
+    job: VectorReindexJob,
+    target: string,
+  ): Promise<void> {
+    let lastId = 0;
+
+    for (;;) {
+      const posts = await this.postModel.findAll({
+        where: {
+          id: { [Op.gt]: lastId },
+          vector_status: { [Op.ne]: 'none' },
+        },
+        attributes: [...POINT_SOURCE_ATTRIBUTES, 'embeddings'],
+        include: [
+          {
+            model: Category,
+            as: 'categories_relation',
+            attributes: ['slug'],
+            through: { attributes: [] },
+          },
+        ],
+        order: [['id', 'ASC']],
+        limit: this.batchSize,
+      });
+      if (posts.length === 0) {
+        return;
+      }
+      lastId = posts[posts.length - 1].id;
+
+      const defaultModel = this.qdrantService.getDefaultModel().name;
+      const points = posts.flatMap((post) => {
+        const vector = toPointVector(
+          job.vectors!,
+          post.embeddings ?? {},
+          defaultModel,
+        );
+        return vector
+          ? [{ id: post.id, vector, payload: { ...buildPointPayload(post) } }]
+          : [];
+      });
+
+      if (points.length > 0) {
+        await this.qdrantClient.upsert(target, { points });
+      }
+      await job.update({
+        indexed: job.indexed + points.length,
+        skipped: job.skipped + posts.length - points.length,
+      });
+    }
+  }
+
+  /**
+   * Copies every point of a collection into another.
+   *
+   * @param job - Job whose progress counts the copied points, if any.
+   */
+  private async copyCollection(
+    current: string,
+    target: string,
+    job?: VectorReindexJob,
+  ): Promise<void> {
+    let offset: string | number | undefined = undefined;
+
+    for (;;) {
+      const page = await this.qdrantClient.scroll(current, {
+        limit: this.batchSize,
+        offset,
+        with_payload: true,
+        with_vector: true,
+      });
+
+      const points = page.points
+        .filter((point) => !!point.vector)
+        .map((point) => ({
+          id: point.id,
+          vector: point.vector as number[] | Record<string, number[]>,
+          payload: point.payload ?? {},
+        }));
+
+      if (points.length > 0) {
+        await this.qdrantClient.upsert(target, { points });
+      }
+      await job?.update({
+        indexed: job.indexed + points.length,
+        skipped: job.skipped + page.points.length - points.length,
+      });
+
+      const next = page.next_page_offset;
+      if (next === null || next === undefined || typeof next === 'object') {
+        return;
+      }
+      offset = next;
+    }
+  }
+
+  /**
+   * Maps a job to its API representation.
+   */
+  private toResponse(job: VectorReindexJob): VectorReindexJobResponseDto {
+    return {
+      id: job.id,
+      collection_type: job.collection_type,
+      source: job.source,
+      target_collection: job.target_collection ?? null,
+      previous_collection: job.previous_collection ?? null,
+      vectors: job.vectors ?? null,
+      status: job.status,
+      indexed: job.indexed ?? 0,
+      skipped: job.skipped ?? 0,
+      error: job.error ?? null,
+      started_at: job.started_at.toISOString(),
+      swapped_at: job.swapped_at ? job.swapped_at.toISOString() : null,
+      rolled_back_at: job.rolled_back_at
+        ? job.rolled_back_at.toISOString()
+        : null,
+    };
+  }
+}
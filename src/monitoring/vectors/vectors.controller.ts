@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ReconcileVectorsDto,
+  ReindexVectorsDto,
+  VectorReconcileRunResponseDto,
+  VectorReindexJobResponseDto,
+} from 'src/dto';
+import { VectorReconcilerService } from './vector-reconciler.service';
+import { VectorReindexService } from './vector-reindex.service';
+
+/**
+ * Admin endpoints for the post vectors stored in Qdrant.
+ * All routes require an authenticated user.
+ */
+@Controller('admin/vectors')
+export class VectorsController {
+  constructor(
+    private readonly reconcilerService: VectorReconcilerService,
+    private readonly reindexService: VectorReindexService,
+  ) {}
+
+  /**
+   * Start a Qdrant ↔ MySQL reconciliation run in the background
+   * POST /admin/vectors/reconcile
+   */
+  @Post('reconcile')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async reconcile(
+    @Body() body?: ReconcileVectorsDto,
+  ): Promise<VectorReconcileRunResponseDto> {
+    const repair = body?.repair === true || String(body?.repair) === 'true';
+    return await this.reconcilerService.start(repair);
+  }
+
+  /**
+   * Reconciliation runs, newest first
+   * GET /admin/vectors/reconcile/runs
+   */
+  @Get('reconcile/runs')
+  async listRuns(
+    @Query('limit') limit?: number,
+  ): Promise<VectorReconcileRunResponseDto[]> {
+    const parsedLimit = limit && limit > 0 && limit <= 100 ? Number(limit) : 20;
+    return await this.reconcilerService.listRuns(parsedLimit);
+  }
+
+  /**
+   * Progress and results of a reconciliation run
+   * GET /admin/vectors/reconcile/runs/:id
+   */
+  @Get('reconcile/runs/:id')
+  async getRun(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<VectorReconcileRunResponseDto> {
+    return await this.reconcilerService.getRun(id);
+  }
+
+  /**
+   * Rebuild a collection into a new version and swap its alias once complete
+   * POST /admin/vectors/reindex
+   */
+  @Post('reindex')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async reindex(
+    @Body() body?: ReindexVectorsDto,
+  ): Promise<VectorReindexJobResponseDto> {
+    return await this.reindexService.start(body ?? {});
+  }
+
+  /**
+   * Reindex jobs, newest first
+   * GET /admin/vectors/reindex/jobs
+   */
+  @Get('reindex/jobs')
+  async listReindexJobs(
+    @Query('limit') limit?: number,
+  ): Promise<VectorReindexJobResponseDto[]> {
+    const parsedLimit = limit && limit > 0 && limit <= 100 ? Number(limit) : 20;
+    return await this.reindexService.listJobs(parsedLimit);
+  }
+
+  /**
+   * Progress of a reindex job
+   * GET /admin/vectors/reindex/jobs/:id
+   */
+  @Get('reindex/jobs/:id')
+  async getReindexJob(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<VectorReindexJobResponseDto> {
+    return await this.reindexService.getJob(id);
+  }
+
+  /**
+   * Point the alias back at the collection a reindex replaced
+   * POST /admin/vectors/reindex/jobs/:id/rollback
+   */
+  @Post('reindex/jobs/:id/rollback')
+  @HttpCode(HttpStatus.OK)
+  async rollbackReindex(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<VectorReindexJobResponseDto> {
+    return await this.reindexService.rollback(id);
+  }
+}
@@ -0,0 +1,8 @@
+import { hostname } from 'os';
+import { nanoid } from './nanoid';
+
+/**
+ * Identifies this process among the replicas sharing the database, in the
+ * rows it claims (e.g. `ip-10-0-1-12:4711:Xk3pQ9aB`).
+ */
+export const REPLICA_ID = `${hostname()}:${process.pid}:${nanoid(8)}`;
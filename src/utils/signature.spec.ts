@@ -0,0 +1,37 @@
+import { signaturesMatch, signBody } from './signature';
+
+describe('signature', () => {
+  describe('signBody', () => {
+    it('should sign `<timestamp>.<body>` with HMAC-SHA256', () => {
+      expect(signBody('secret', '1700000000', '{"a":1}')).toBe(
+        'sha256=49f24e537407743fa4a0242bb63b94b9a47ee99cbbe071ccd8a22550ae411686',
+      );
+    });
+
+    it('should sign buffers like the same string', () => {
+      expect(signBody('secret', '1700000000', Buffer.from('{"a":1}'))).toBe(
+        signBody('secret', '1700000000', '{"a":1}'),
+      );
+    });
+
+    it('should depend on the timestamp, body and secret', () => {
+      const signature = signBody('secret', '1700000000', '{"a":1}');
+
+      expect(signBody('secret', '1700000001', '{"a":1}')).not.toBe(signature);
+      expect(signBody('secret', '1700000000', '{"a":2}')).not.toBe(signature);
+      expect(signBody('other', '1700000000', '{"a":1}')).not.toBe(signature);
+    });
+  });
+
+  describe('signaturesMatch', () => {
+    it('should match equal signatures only', () => {
+      expect(signaturesMatch('sha256=abc', 'sha256=abc')).toBe(true);
+      expect(signaturesMatch('sha256=abd', 'sha256=abc')).toBe(false);
+    });
+
+    it('should not match signatures of a different length', () => {
+      expect(signaturesMatch('sha256=ab', 'sha256=abc')).toBe(false);
+      expect(signaturesMatch('', 'sha256=abc')).toBe(false);
+    });
+  });
+});
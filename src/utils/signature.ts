@@ -0,0 +1,34 @@
+import * as crypto from 'crypto';
+
+/**
+ * Computes the HMAC-SHA256 signature of a request body.
+ *
+ * The signed message is `<timestamp>.<body>`, so a signature cannot be
+ * replayed with a different timestamp.
+ *
+ * @param secret - Shared signing secret.
+ * @param timestamp - Unix timestamp in seconds, as sent in `x-signature-timestamp`.
+ * @param body - Raw request body.
+ * @returns The signature as `sha256=<hex>`, as sent in `x-signature`.
+ */
+const signBody = (
+  secret: string,
+  timestamp: string,
+  body: string | Buffer,
+): string => {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+};
+
+/**
+ * Compares a received signature with the expected one in constant time.
+ */
+const signaturesMatch = (received: string, expected: string): boolean => {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+export { signBody, signaturesMatch };
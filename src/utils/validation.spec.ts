@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { IngestDto } from '../dto/ingest.dto';
+import { invalid, validateDto } from './validation';
+
+describe('validateDto', () => {
+  const validItem = () => ({
+    id: 'at://post/1',
+    source: 'bluesky',
+    uri: 'https://bsky.app/post/1',
+    content: 'Breaking news',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    relevance: 7,
+    lang: 'en',
+    author: { id: 'did:plc:1', name: 'Reporter', handle: 'reporter' },
+    media: [],
+    embeddings: Array<number>(384).fill(0.1),
+  });
+
+  it('should accept a valid item', async () => {
+    const result = await validateDto(IngestDto, validItem());
+
+    expect(result.errors).toBeNull();
+    expect(result.value).toBeInstanceOf(IngestDto);
+  });
+
+  it('should accept an item without embeddings', async () => {
+    const result = await validateDto(IngestDto, {
+      ...validItem(),
+      embeddings: [],
+    });
+
+    expect(result.errors).toBeNull();
+  });
+
+  it('should report nested fields with dotted paths', async () => {
+    const result = await validateDto(IngestDto, {
+      ...validItem(),
+      author: { id: 'did:plc:1' },
+      _vote: { content_classification: { full_result: { labels: 'x' } } },
+    });
+
+    const fields = result.errors?.map((error) => error.field);
+    expect(fields).toEqual(
+      expect.arrayContaining([
+        'author.name',
+        '_vote.content_classification.full_result.labels',
+        '_vote.content_classification.full_result.scores',
+      ]),
+    );
+  });
+
+  it('should reject embeddings that are not finite numbers', async () => {
+    const result = await validateDto(IngestDto, {
+      ...validItem(),
+      embeddings: [0.1, 'x', Infinity],
+    });
+
+    expect(result.errors?.map((error) => error.field)).toEqual(['embeddings']);
+  });
+
+  it('should reject missing required fields and non-objects', async () => {
+    const item: Partial<ReturnType<typeof validItem>> = validItem();
+    delete item.id;
+    delete item.createdAt;
+    const missing = await validateDto(IngestDto, item);
+    const notObject = await validateDto(IngestDto, 'hello');
+
+    expect(missing.errors?.map((error) => error.field)).toEqual(
+      expect.arrayContaining(['id', 'createdAt']),
+    );
+    expect(notObject.errors).toEqual([
+      { field: 'item', messages: ['item must be an object'] },
+    ]);
+  });
+});
+
+describe('invalid', () => {
+  it('should build a 400 listing every field error', () => {
+    const error = invalid([
+      { field: 'limit', messages: ['limit must be an integer', 'too large'] },
+      { field: 'keyword', messages: ['keyword must be a string'] },
+    ]);
+
+    expect(error.getStatus()).toBe(400);
+    expect(error.message).toBe(
+      'limit: limit must be an integer, too large; keyword: keyword must be a string',
+    );
+  });
+});
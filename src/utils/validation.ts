@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+/**
+ * Failed constraint messages of one field.
+ */
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Flattens nested class-validator errors into dotted field paths
+ * (e.g. `author.name`, `_vote.full.scores`).
+ */
+export function flattenValidationErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+
+    return [...own, ...flattenValidationErrors(error.children || [], field)];
+  });
+}
+
+/**
+ * Transforms a plain value into a DTO instance and validates it.
+ *
+ * @returns The instance when valid, otherwise the field-level errors.
+ */
+export async function validateDto<T extends object>(
+  cls: ClassConstructor<T>,
+  plain: unknown,
+): Promise<{ value: T; errors: null } | { value: null; errors: FieldError[] }> {
+  if (!plain || typeof plain !== 'object' || Array.isArray(plain)) {
+    return {
+      value: null,
+      errors: [{ field: 'item', messages: ['item must be an object'] }],
+    };
+  }
+
+  const value = plainToInstance(cls, plain);
+  const errors = await validate(value);
+  if (errors.length > 0) {
+    return { value: null, errors: flattenValidationErrors(errors) };
+  }
+
+  return { value, errors: null };
+}
+
+/**
+ * Builds a 400 from field-level validation errors.
+ */
+export function invalid(errors: FieldError[]): BadRequestException {
+  return new BadRequestException(
+    errors
+      .map((error) => `${error.field}: ${error.messages.join(', ')}`)
+      .join('; '),
+  );
+}